@@ -7,14 +7,20 @@
  *   - usePollHealth를 DashboardPage → App 수준으로 승격
  *     (어떤 페이지에 있어도 30초 폴링이 끊기지 않도록)
  *   - useAutoSave: rules/tags 변경 시 1초 debounce로 IndexedDB 자동 저장
- *   - useOnlineSync: disconnected → connected 전환 감지 → 동기화 안내 모달
- *   - OfflineBanner: 서버 연결 끊김 시 상단 경고 배너 표시
+ *   - useOnlineSync: disconnected → connected 전환 감지 → 동기화 안내 모달 / 예약 작업(outbox) 실행
+ *   - OfflineBanner: 서버 연결 끊김 시 상단 경고 배너 + 예약 작업 큐 표시
+ *   - RemoteUpdateBanner: 서버 버전이 baseVersion보다 앞서면 "서버에 새 데이터" 배너 + 변경 미리보기
+ *   - useUndoShortcuts: Ctrl+Z / Ctrl+Shift+Z 전역 실행 취소 / 다시 실행
+ *   - useCrossTabSync: 같은 브라우저 탭끼리 규칙·태그 상태 실시간 공유 (BroadcastChannel)
+ *   - usePresence: 다른 탭 / 사용자 접속 상태와 규칙 편집 소프트 락
+ *   - CommandPalette: Ctrl+K 명령 팔레트 (규칙 · 태그 전문 검색 + 페이지 이동 등 작업)
  *
  * 구조:
  *   <BrowserRouter>
  *     <AppInner>          ← useNavigate 등 라우터 훅이 필요한 훅/컴포넌트
  *       <Layout>
  *         <OfflineBanner> ← 오프라인 시 배너
+ *         <RemoteUpdateBanner> ← 서버에 새 데이터가 있을 때 배너
  *         <Content>
  *           <Routes>
  */
@@ -24,15 +30,26 @@ import { Layout } from 'antd';
 import AppSider      from '@/components/common/AppSider';
 import AppHeader     from '@/components/common/AppHeader';
 import OfflineBanner from '@/components/common/OfflineBanner';
+import RemoteUpdateBanner from '@/components/common/RemoteUpdateBanner';
+import CommandPalette from '@/components/common/CommandPalette';
 import DashboardPage from '@/pages/DashboardPage';
 import RulesPage     from '@/pages/RulesPage';
 import RuleEditPage  from '@/pages/RuleEditPage';
+import OutlinePage   from '@/pages/OutlinePage';
 import TagsPage      from '@/pages/TagsPage';
 import SyncPage      from '@/pages/SyncPage';
+import SimulatePage  from '@/pages/SimulatePage';
+import GraphPage     from '@/pages/GraphPage';
+import LintPage      from '@/pages/LintPage';
+import HistoryPage   from '@/pages/HistoryPage';
 import { useDataStore }  from '@/stores/dataStore';
+import { useOutboxStore } from '@/stores/outboxStore';
 import usePollHealth     from '@/hooks/usePollHealth';
 import useAutoSave       from '@/hooks/useAutoSave';
 import useOnlineSync     from '@/hooks/useOnlineSync';
+import useUndoShortcuts  from '@/hooks/useUndoShortcuts';
+import useCrossTabSync   from '@/hooks/useCrossTabSync';
+import usePresence       from '@/hooks/usePresence';
 
 const { Content } = Layout;
 
@@ -42,12 +59,14 @@ const { Content } = Layout;
 
 function AppInner() {
   const [collapsed, setCollapsed] = useState(false);
-  const hydrate = useDataStore((s) => s.hydrate);
+  const hydrate    = useDataStore((s) => s.hydrate);
+  const loadOutbox = useOutboxStore((s) => s.load);
 
-  // ── 앱 시작 시 IndexedDB에서 데이터 복원 ────────────────────────────────
+  // ── 앱 시작 시 IndexedDB에서 데이터 · 예약 작업 복원 ────────────────────
   useEffect(() => {
     hydrate();
-  }, [hydrate]);
+    loadOutbox().catch(console.error);
+  }, [hydrate, loadOutbox]);
 
   // ── 서버 상태 폴링 (30초 간격, 앱 전체 수명 동안 유지) ──────────────────
   usePollHealth();
@@ -58,6 +77,13 @@ function AppInner() {
   // ── 온라인 복귀 감지 → 동기화 안내 모달 ─────────────────────────────────
   useOnlineSync();
 
+  // ── 실행 취소 / 다시 실행 단축키 ────────────────────────────────────────
+  useUndoShortcuts();
+
+  // ── 탭 간 상태 공유 + 접속자 / 편집 중 표시 ─────────────────────────────
+  useCrossTabSync();
+  usePresence();
+
   return (
     <Layout style={{ minHeight: '100vh' }}>
       <AppSider collapsed={collapsed} onCollapse={setCollapsed} />
@@ -72,6 +98,8 @@ function AppInner() {
 
         {/* 오프라인 배너: 서버 연결 끊김 시 Content 위에 표시 */}
         <OfflineBanner />
+        {/* 서버 변경 배너: 다른 사람이 Push해 서버 버전이 앞서면 표시 */}
+        <RemoteUpdateBanner />
 
         <Content style={{ margin: '24px 24px 0' }}>
           <Routes>
@@ -79,12 +107,19 @@ function AppInner() {
             <Route path="/rules"     element={<RulesPage />} />
             <Route path="/rules/new" element={<RuleEditPage />} />
             <Route path="/rules/:id" element={<RuleEditPage />} />
+            <Route path="/outline"   element={<OutlinePage />} />
             <Route path="/tags"      element={<TagsPage />} />
+            <Route path="/lint"      element={<LintPage />} />
             <Route path="/sync"      element={<SyncPage />} />
+            <Route path="/graph"     element={<GraphPage />} />
+            <Route path="/simulate"  element={<SimulatePage />} />
+            <Route path="/history"   element={<HistoryPage />} />
             <Route path="*"          element={<Navigate to="/" replace />} />
           </Routes>
         </Content>
       </Layout>
+
+      <CommandPalette />
     </Layout>
   );
 }
@@ -2,12 +2,16 @@
  * src/components/common/AppHeader.tsx
  *
  * 상단 헤더 컴포넌트.
- * 사이드바 토글, 브레드크럼, 서버 연결 상태(ServerStatus)를 표시합니다.
+ * 사이드바 토글, 브레드크럼, 명령 팔레트 열기 버튼, 실행 취소 / 다시 실행(UndoControls),
+ * 접속자(PresenceIndicator), 서버 연결 상태(ServerStatus)를 표시합니다.
  */
-import { Layout, Button, Breadcrumb, Space } from 'antd';
-import { MenuFoldOutlined, MenuUnfoldOutlined } from '@ant-design/icons';
+import { Layout, Button, Breadcrumb, Space, Typography } from 'antd';
+import { MenuFoldOutlined, MenuUnfoldOutlined, SearchOutlined } from '@ant-design/icons';
 import { useLocation, Link } from 'react-router-dom';
 import ServerStatus from '@/components/common/ServerStatus';
+import UndoControls from '@/components/common/UndoControls';
+import PresenceIndicator from '@/components/common/PresenceIndicator';
+import { useUiStore } from '@/stores/uiStore';
 
 const { Header } = Layout;
 
@@ -21,7 +25,11 @@ const breadcrumbMap: Record<string, { label: string; parent?: string }> = {
   '/rules':     { label: '규칙 관리' },
   '/rules/new': { label: '새 규칙', parent: '/rules' },
   '/tags':      { label: '태그 관리' },
+  '/graph':     { label: '의존 그래프' },
+  '/simulate':  { label: '태그 시뮬레이션' },
+  '/lint':      { label: '데이터 검사' },
   '/sync':      { label: '데이터 동기화' },
+  '/history':   { label: '변경 이력' },
 };
 
 function getBreadcrumbItems(pathname: string) {
@@ -44,7 +52,8 @@ function getBreadcrumbItems(pathname: string) {
 }
 
 export default function AppHeader({ collapsed, onCollapse }: AppHeaderProps) {
-  const location = useLocation();
+  const location              = useLocation();
+  const setCommandPaletteOpen = useUiStore((s) => s.setCommandPaletteOpen);
 
   return (
     <Header
@@ -71,7 +80,14 @@ export default function AppHeader({ collapsed, onCollapse }: AppHeaderProps) {
         <Breadcrumb items={getBreadcrumbItems(location.pathname)} />
       </Space>
 
-      <ServerStatus />
+      <Space size={16}>
+        <Button icon={<SearchOutlined />} onClick={() => setCommandPaletteOpen(true)}>
+          검색 <Typography.Text keyboard style={{ fontSize: 11 }}>Ctrl K</Typography.Text>
+        </Button>
+        <UndoControls />
+        <PresenceIndicator />
+        <ServerStatus />
+      </Space>
     </Header>
   );
 }
\ No newline at end of file
@@ -2,16 +2,23 @@
  * AppSider.tsx
  * 고정 사이드바 컴포넌트.
  * Ant Design Sider + Menu를 사용하여 페이지 네비게이션을 제공합니다.
+ * "데이터 동기화" 메뉴에는 Push하지 않은 로컬 변경 수(changeSet)를 배지로 표시합니다.
  */
 import { useLocation, useNavigate } from 'react-router-dom';
-import { Layout, Menu, Typography } from 'antd';
+import { Badge, Layout, Menu, Typography } from 'antd';
 import {
   DashboardOutlined,
   FileTextOutlined,
   TagsOutlined,
   SyncOutlined,
   CodeOutlined,
+  ExperimentOutlined,
+  ApartmentOutlined,
+  SafetyCertificateOutlined,
+  HistoryOutlined,
+  OrderedListOutlined,
 } from '@ant-design/icons';
+import { useChangeSet } from '@/stores/dataStore';
 
 const { Sider } = Layout;
 const { Text } = Typography;
@@ -32,29 +39,74 @@ const menuItems = [
     icon: <FileTextOutlined />,
     label: '규칙 관리',
   },
+  {
+    key: '/outline',
+    icon: <OrderedListOutlined />,
+    label: '규칙 목차',
+  },
   {
     key: '/tags',
     icon: <TagsOutlined />,
     label: '태그 관리',
   },
+  {
+    key: '/graph',
+    icon: <ApartmentOutlined />,
+    label: '의존 그래프',
+  },
+  {
+    key: '/simulate',
+    icon: <ExperimentOutlined />,
+    label: '태그 시뮬레이션',
+  },
+  {
+    key: '/lint',
+    icon: <SafetyCertificateOutlined />,
+    label: '데이터 검사',
+  },
   {
     key: '/sync',
     icon: <SyncOutlined />,
     label: '데이터 동기화',
   },
+  {
+    key: '/history',
+    icon: <HistoryOutlined />,
+    label: '변경 이력',
+  },
 ];
 
 export default function AppSider({ collapsed, onCollapse }: AppSiderProps) {
-  const location = useLocation();
-  const navigate = useNavigate();
+  const location  = useLocation();
+  const navigate  = useNavigate();
+  const changeSet = useChangeSet();
+
+  const items = menuItems.map((item) =>
+    item.key === '/sync' && changeSet.total > 0
+      ? {
+        ...item,
+        label: (
+          <span title={`Push하지 않은 변경 ${changeSet.total}개`}>
+            {item.label}{' '}
+            <Badge count={changeSet.total} size="small" overflowCount={99} />
+          </span>
+        ),
+      }
+      : item,
+  );
 
   // 현재 경로에서 활성 메뉴 키 계산
   // /rules/:id 같은 하위 경로도 /rules 메뉴를 활성화
   const getSelectedKey = () => {
     const path = location.pathname;
     if (path.startsWith('/rules')) return '/rules';
+    if (path.startsWith('/outline')) return '/outline';
     if (path.startsWith('/tags')) return '/tags';
+    if (path.startsWith('/graph')) return '/graph';
+    if (path.startsWith('/simulate')) return '/simulate';
+    if (path.startsWith('/lint')) return '/lint';
     if (path.startsWith('/sync')) return '/sync';
+    if (path.startsWith('/history')) return '/history';
     return '/';
   };
 
@@ -111,7 +163,7 @@ export default function AppSider({ collapsed, onCollapse }: AppSiderProps) {
         theme="dark"
         mode="inline"
         selectedKeys={[getSelectedKey()]}
-        items={menuItems}
+        items={items}
         onClick={({ key }) => navigate(key)}
         style={{ borderRight: 0, marginTop: 8 }}
       />
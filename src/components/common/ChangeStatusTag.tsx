@@ -0,0 +1,17 @@
+/**
+ * src/components/common/ChangeStatusTag.tsx
+ *
+ * 마지막 동기화(Pull/Push) 대비 변경 상태 배지 (새 항목 / 수정됨 / 삭제됨 — Push 대기).
+ * 변경 없는 항목(status 없음)에는 아무것도 그리지 않습니다.
+ */
+import { Tag } from 'antd';
+import { CHANGE_STATUS_COLORS, CHANGE_STATUS_LABELS, type ChangeStatus } from '@/utils/changeSet';
+
+export default function ChangeStatusTag({ status }: { status?: ChangeStatus }) {
+  if (!status) return null;
+  return (
+    <Tag color={CHANGE_STATUS_COLORS[status]} style={{ fontSize: 11, marginInlineEnd: 0 }}>
+      {CHANGE_STATUS_LABELS[status]}
+    </Tag>
+  );
+}
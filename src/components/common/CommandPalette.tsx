@@ -0,0 +1,280 @@
+/**
+ * src/components/common/CommandPalette.tsx
+ *
+ * 명령 팔레트 (Ctrl / ⌘ + K).
+ * - 작업: 페이지 이동, 지금 Pull, 새 규칙, 실행 취소 / 다시 실행
+ * - 전문 검색: 규칙의 모든 텍스트 필드(코드 예시 · 패턴 포함)와 태그 / 복합 태그 (searchIndex)
+ *   결과 선택 시 규칙 편집 페이지 또는 태그 편집 모달로 이동
+ *
+ * 색인은 팔레트가 열려 있을 때만 만들고, 규칙 / 태그가 바뀌면 다시 만듭니다.
+ * Monaco 에디터 안에서는 Ctrl+K가 에디터 단축키(코드 접기 등)의 시작 키이므로 가로채지 않습니다.
+ */
+import { useDeferredValue, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Empty, Input, Modal, Tag, Typography } from 'antd';
+import type { InputRef } from 'antd';
+import {
+  ApartmentOutlined,
+  CloudDownloadOutlined,
+  DashboardOutlined,
+  ExperimentOutlined,
+  FileTextOutlined,
+  HistoryOutlined,
+  OrderedListOutlined,
+  PlusOutlined,
+  RedoOutlined,
+  SafetyCertificateOutlined,
+  SearchOutlined,
+  SyncOutlined,
+  TagsOutlined,
+  UndoOutlined,
+} from '@ant-design/icons';
+import { useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import {
+  SEARCH_KIND_LABELS,
+  buildSearchIndex,
+  searchIndex,
+  type SearchDocKind,
+  type SearchHit,
+} from '@/utils/searchIndex';
+
+const { Text } = Typography;
+
+interface PaletteAction {
+  key:      string;
+  label:    string;
+  /** 검색용 추가 단어 (영문 명령어 등) */
+  keywords: string;
+  icon:     ReactNode;
+  run:      () => void;
+}
+
+type PaletteItem =
+  | { type: 'action'; action: PaletteAction }
+  | { type: 'hit';    hit: SearchHit };
+
+const KIND_COLORS: Record<SearchDocKind, string> = {
+  rule:        'blue',
+  tag:         'green',
+  compoundTag: 'purple',
+};
+
+function isInsideMonaco(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && target.closest('.monaco-editor') !== null;
+}
+
+function Snippet({ hit }: { hit: SearchHit }) {
+  const { snippet, highlight } = hit.match;
+  if (!highlight) return <>{snippet}</>;
+  return (
+    <>
+      {snippet.slice(0, highlight[0])}
+      <mark style={{ padding: 0, background: '#ffe58f' }}>{snippet.slice(highlight[0], highlight[1])}</mark>
+      {snippet.slice(highlight[1])}
+    </>
+  );
+}
+
+export default function CommandPalette() {
+  const navigate      = useNavigate();
+  const open          = useUiStore((s) => s.commandPaletteOpen);
+  const setOpen       = useUiStore((s) => s.setCommandPaletteOpen);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+  const notifyError   = useUiStore((s) => s.notifyError);
+  const rules         = useDataStore((s) => s.rules);
+  const tags          = useDataStore((s) => s.tags);
+  const pull          = useDataStore((s) => s.pull);
+  const undo          = useDataStore((s) => s.undo);
+  const redo          = useDataStore((s) => s.redo);
+
+  const [query, setQuery]   = useState('');
+  const [active, setActive] = useState(0);
+  const deferredQuery       = useDeferredValue(query);
+  const inputRef            = useRef<InputRef>(null);
+  const listRef             = useRef<HTMLDivElement>(null);
+
+  // ── Ctrl / ⌘ + K ─────────────────────────────────────────────────────────
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey || e.key.toLowerCase() !== 'k') return;
+      if (isInsideMonaco(e.target)) return;
+      e.preventDefault();
+      setOpen(!useUiStore.getState().commandPaletteOpen);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [setOpen]);
+
+  // ── 작업 목록 ───────────────────────────────────────────────────────────
+  const actions = useMemo((): PaletteAction[] => {
+    const go = (key: string, label: string, path: string, icon: ReactNode, keywords: string): PaletteAction =>
+      ({ key, label: `이동: ${label}`, keywords: `go to ${keywords}`, icon, run: () => navigate(path) });
+
+    return [
+      go('nav:dashboard', '대시보드',        '/',         <DashboardOutlined />,         'dashboard home'),
+      go('nav:rules',     '규칙 관리',       '/rules',    <FileTextOutlined />,          'rules'),
+      go('nav:outline',   '규칙 목차',       '/outline',  <OrderedListOutlined />,       'outline section 목차'),
+      go('nav:tags',      '태그 관리',       '/tags',     <TagsOutlined />,              'tags'),
+      go('nav:graph',     '의존 그래프',     '/graph',    <ApartmentOutlined />,         'graph'),
+      go('nav:simulate',  '태그 시뮬레이션', '/simulate', <ExperimentOutlined />,        'simulate'),
+      go('nav:lint',      '데이터 검사',     '/lint',     <SafetyCertificateOutlined />, 'lint'),
+      go('nav:sync',      '데이터 동기화',   '/sync',     <SyncOutlined />,              'sync push diff'),
+      go('nav:history',   '변경 이력',       '/history',  <HistoryOutlined />,           'history'),
+      {
+        key:      'action:pull',
+        label:    '지금 Pull',
+        keywords: 'pull now 서버 불러오기',
+        icon:     <CloudDownloadOutlined />,
+        run:      () => {
+          pull()
+            .then(() => notifySuccess('Pull 완료', '서버에서 최신 데이터를 불러왔습니다.'))
+            .catch((err) => notifyError('Pull 실패', err instanceof Error ? err.message : undefined));
+        },
+      },
+      { key: 'action:newRule', label: '새 규칙', keywords: 'new rule 추가', icon: <PlusOutlined />, run: () => navigate('/rules/new') },
+      { key: 'action:undo',    label: '실행 취소', keywords: 'undo',         icon: <UndoOutlined />, run: () => undo() },
+      { key: 'action:redo',    label: '다시 실행', keywords: 'redo',         icon: <RedoOutlined />, run: () => redo() },
+    ];
+  }, [navigate, pull, undo, redo, notifySuccess, notifyError]);
+
+  // ── 검색 ────────────────────────────────────────────────────────────────
+  const index = useMemo(() => (open ? buildSearchIndex(rules, tags) : null), [open, rules, tags]);
+
+  const items = useMemo((): PaletteItem[] => {
+    const words = deferredQuery.toLowerCase().split(/\s+/).filter(Boolean);
+    const matchedActions = actions
+      .filter((a) => words.every((w) => `${a.label} ${a.keywords}`.toLowerCase().includes(w)))
+      .map((action): PaletteItem => ({ type: 'action', action }));
+    const hits = index && words.length > 0
+      ? searchIndex(index, deferredQuery).map((hit): PaletteItem => ({ type: 'hit', hit }))
+      : [];
+    return [...matchedActions, ...hits];
+  }, [actions, index, deferredQuery]);
+
+  const activeIndex = Math.min(active, Math.max(0, items.length - 1));
+
+  // 키보드로 이동한 항목이 보이도록 스크롤
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const close = () => setOpen(false);
+
+  const select = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    close();
+    if (item.type === 'action') {
+      item.action.run();
+      return;
+    }
+    const { kind, key } = item.hit.doc;
+    if (kind === 'rule')     navigate(`/rules/${key}`);
+    else if (kind === 'tag') navigate('/tags', { state: { editTag: key } });
+    else                     navigate('/tags', { state: { editCompoundTag: key } });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive((activeIndex + 1) % Math.max(1, items.length));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive((activeIndex - 1 + items.length) % Math.max(1, items.length));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(items[activeIndex]);
+    }
+  };
+
+  const firstHit = items.findIndex((i) => i.type === 'hit');
+
+  return (
+    <Modal
+      open={open}
+      onCancel={close}
+      afterOpenChange={(visible) => {
+        if (visible) inputRef.current?.focus();
+        else {
+          setQuery('');
+          setActive(0);
+        }
+      }}
+      footer={null}
+      closable={false}
+      width={640}
+      style={{ top: 80 }}
+      styles={{ body: { padding: 0 } }}
+    >
+      <Input
+        ref={inputRef}
+        size="large"
+        variant="borderless"
+        prefix={<SearchOutlined style={{ color: '#bfbfbf' }} />}
+        placeholder="규칙 · 태그 전체 검색 또는 작업 이름 (예: PreparedStatement, 트랜잭션, sync)"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActive(0);
+        }}
+        onKeyDown={handleKeyDown}
+        style={{ borderBottom: '1px solid #f0f0f0', borderRadius: 0 }}
+      />
+
+      <div ref={listRef} style={{ maxHeight: 420, overflowY: 'auto', padding: '4px 0' }}>
+        {items.length === 0 && (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="일치하는 항목이 없습니다." />
+        )}
+
+        {items.map((item, i) => (
+          <div key={item.type === 'action' ? item.action.key : `${item.hit.doc.kind}:${item.hit.doc.key}`}>
+            {(i === 0 && item.type === 'action') && (
+              <Text type="secondary" style={{ display: 'block', fontSize: 11, padding: '4px 16px' }}>작업</Text>
+            )}
+            {i === firstHit && (
+              <Text type="secondary" style={{ display: 'block', fontSize: 11, padding: '4px 16px' }}>
+                검색 결과 ({items.length - firstHit})
+              </Text>
+            )}
+            <div
+              data-index={i}
+              onMouseEnter={() => setActive(i)}
+              onClick={() => select(item)}
+              style={{
+                padding:    '6px 16px',
+                cursor:     'pointer',
+                background: i === activeIndex ? '#e6f4ff' : undefined,
+              }}
+            >
+              {item.type === 'action' ? (
+                <span>
+                  <span style={{ color: '#8c8c8c', marginRight: 8 }}>{item.action.icon}</span>
+                  {item.action.label}
+                </span>
+              ) : (
+                <>
+                  <div style={{ display: 'flex', gap: 8, alignItems: 'center', minWidth: 0 }}>
+                    <Tag color={KIND_COLORS[item.hit.doc.kind]} style={{ margin: 0, fontSize: 11 }}>
+                      {SEARCH_KIND_LABELS[item.hit.doc.kind]}
+                    </Tag>
+                    <Text code style={{ fontSize: 12, whiteSpace: 'nowrap' }}>{item.hit.doc.key}</Text>
+                    <Text ellipsis style={{ fontSize: 13 }}>{item.hit.doc.title}</Text>
+                  </div>
+                  <Text type="secondary" ellipsis style={{ display: 'block', fontSize: 12, marginTop: 2 }}>
+                    {item.hit.match.field}: <Snippet hit={item.hit} />
+                  </Text>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ borderTop: '1px solid #f0f0f0', padding: '6px 16px' }}>
+        <Text type="secondary" style={{ fontSize: 11 }}>↑↓ 이동 · Enter 실행 · Esc 닫기</Text>
+      </div>
+    </Modal>
+  );
+}
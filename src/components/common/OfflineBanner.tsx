@@ -3,53 +3,80 @@
  *
  * 서버 연결이 끊긴 상태일 때 페이지 상단에 오프라인 모드 배너를 표시합니다.
  *
- * - serverStatus === 'disconnected'일 때만 렌더링 (connected/checking 시 null 반환)
+ * - serverStatus === 'disconnected'일 때 렌더링
+ *   연결된 뒤에도 처리되지 않은 예약 작업(대기 / 충돌 / 실패)이 남아 있으면 info 배너로 계속 표시
  * - 편집 내용은 IndexedDB에 자동 저장됨을 안내
+ * - "예약 작업 (n)" 버튼으로 OutboxDrawer(큐 확인 · 실행 · 재시도) 열기
  * - "동기화 페이지로 이동" 버튼으로 /sync 접근 유도
  *
  * 배치: App.tsx의 <Content> 바로 위 (Layout > Content 사이)
  */
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Alert, Button } from 'antd';
-import { DisconnectOutlined, SyncOutlined } from '@ant-design/icons';
+import { Alert, Badge, Button, Space } from 'antd';
+import { DisconnectOutlined, FieldTimeOutlined, SyncOutlined } from '@ant-design/icons';
 import { useServerStatus } from '@/stores/uiStore';
+import { isPendingOutboxItem, useOutboxStore } from '@/stores/outboxStore';
+import OutboxDrawer from '@/components/sync/OutboxDrawer';
 
 export default function OfflineBanner() {
   const { serverStatus } = useServerStatus();
   const navigate         = useNavigate();
+  const items            = useOutboxStore((s) => s.items);
+  const [drawerOpen, setDrawerOpen] = useState(false);
 
-  if (serverStatus !== 'disconnected') return null;
+  const isOffline    = serverStatus === 'disconnected';
+  const pendingCount = items.filter(isPendingOutboxItem).length;
+  const queuedCount  = items.filter((i) => i.status === 'queued').length;
+
+  // 배너가 사라져도(재실행으로 모두 처리) 열려 있던 Drawer는 유지
+  const showBanner   = isOffline || pendingCount > 0;
 
   return (
-    <Alert
-      type="warning"
-      showIcon
-      icon={<DisconnectOutlined />}
-      banner
-      title={
-        <span>
-          <strong>오프라인 모드</strong>
-          &nbsp;—&nbsp;서버에 연결할 수 없습니다.
-          편집 내용은 로컬(IndexedDB)에 자동 저장됩니다.
-        </span>
-      }
-      action={
-        <Button
-          size="small"
-          icon={<SyncOutlined />}
-          onClick={() => navigate('/sync')}
-          style={{ marginLeft: 8 }}
-        >
-          동기화 페이지
-        </Button>
-      }
-      style={{
-        borderRadius: 0,
-        borderLeft: 'none',
-        borderRight: 'none',
-        borderTop: 'none',
-        marginBottom: 0,
-      }}
-    />
+    <>
+      {showBanner && <Alert
+        type={isOffline ? 'warning' : 'info'}
+        showIcon
+        icon={isOffline ? <DisconnectOutlined /> : <FieldTimeOutlined />}
+        banner
+        title={isOffline ? (
+          <span>
+            <strong>오프라인 모드</strong>
+            &nbsp;—&nbsp;서버에 연결할 수 없습니다.
+            편집 내용은 로컬(IndexedDB)에 자동 저장됩니다.
+            {queuedCount > 0 && <> 예약된 작업 {queuedCount}건은 연결되면 실행됩니다.</>}
+          </span>
+        ) : (
+          <span>
+            <strong>처리되지 않은 예약 작업 {pendingCount}건</strong>
+            &nbsp;—&nbsp;실행하거나 충돌 · 실패한 작업을 확인하세요.
+          </span>
+        )}
+        action={
+          <Space size={8} style={{ marginLeft: 8 }}>
+            <Badge count={pendingCount} size="small">
+              <Button size="small" icon={<FieldTimeOutlined />} onClick={() => setDrawerOpen(true)}>
+                예약 작업
+              </Button>
+            </Badge>
+            <Button
+              size="small"
+              icon={<SyncOutlined />}
+              onClick={() => navigate('/sync')}
+            >
+              동기화 페이지
+            </Button>
+          </Space>
+        }
+        style={{
+          borderRadius: 0,
+          borderLeft: 'none',
+          borderRight: 'none',
+          borderTop: 'none',
+          marginBottom: 0,
+        }}
+      />}
+      <OutboxDrawer open={drawerOpen} onClose={() => setDrawerOpen(false)} />
+    </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,87 @@
+/**
+ * src/components/common/PresenceIndicator.tsx
+ *
+ * 헤더의 접속자 표시.
+ * 같은 데이터를 열어 둔 다른 탭 / 동료를 아바타로 보여주고,
+ * 클릭하면 각자 편집 중인 규칙과 내 표시 이름 입력란을 보여줍니다.
+ */
+import { Avatar, Input, List, Popover, Space, Tooltip, Typography } from 'antd';
+import { TeamOutlined } from '@ant-design/icons';
+import { Link } from 'react-router-dom';
+import { usePresenceStore, type PeerInfo } from '@/stores/presenceStore';
+
+const { Text } = Typography;
+
+const AVATAR_COLORS = ['#1677ff', '#52c41a', '#fa8c16', '#722ed1', '#eb2f96', '#13c2c2'];
+
+function colorOf(clientId: string): string {
+  let hash = 0;
+  for (const ch of clientId) hash = (hash * 31 + ch.charCodeAt(0)) | 0;
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+}
+
+function PeerAvatar({ peer }: { peer: PeerInfo }) {
+  return (
+    <Avatar size="small" style={{ background: colorOf(peer.clientId) }}>
+      {peer.userName.slice(0, 1)}
+    </Avatar>
+  );
+}
+
+export default function PresenceIndicator() {
+  const self        = usePresenceStore((s) => s.self);
+  const peers       = usePresenceStore((s) => s.peers);
+  const connected   = usePresenceStore((s) => s.connected);
+  const setUserName = usePresenceStore((s) => s.setUserName);
+
+  if (!connected) return null;
+  const others = Object.values(peers);
+
+  const content = (
+    <Space direction="vertical" size={8} style={{ width: 280 }}>
+      <Space size={8}>
+        <Text type="secondary" style={{ fontSize: 12 }}>내 이름</Text>
+        <Input
+          size="small"
+          key={self.userName}
+          defaultValue={self.userName}
+          maxLength={20}
+          onBlur={(e) => setUserName(e.target.value)}
+          onPressEnter={(e) => setUserName(e.currentTarget.value)}
+        />
+      </Space>
+      <List
+        size="small"
+        dataSource={others}
+        locale={{ emptyText: '다른 탭 / 사용자 없음' }}
+        renderItem={(peer) => (
+          <List.Item style={{ padding: '4px 0' }}>
+            <Space size={8}>
+              <PeerAvatar peer={peer} />
+              <Text style={{ fontSize: 12 }}>{peer.userName}</Text>
+              {peer.editingRuleId
+                ? <Link to={`/rules/${peer.editingRuleId}`} style={{ fontSize: 12 }}>{peer.editingRuleId} 편집 중</Link>
+                : <Text type="secondary" style={{ fontSize: 12 }}>보는 중</Text>}
+            </Space>
+          </List.Item>
+        )}
+      />
+    </Space>
+  );
+
+  return (
+    <Popover trigger="click" placement="bottomRight" title="접속 중" content={content}>
+      <Tooltip title={`다른 탭 / 사용자 ${others.length}명`}>
+        <span style={{ cursor: 'pointer' }}>
+          {others.length === 0
+            ? <TeamOutlined style={{ color: '#bfbfbf', fontSize: 16 }} />
+            : (
+              <Avatar.Group max={{ count: 3 }} size="small">
+                {others.map((peer) => <PeerAvatar key={peer.clientId} peer={peer} />)}
+              </Avatar.Group>
+            )}
+        </span>
+      </Tooltip>
+    </Popover>
+  );
+}
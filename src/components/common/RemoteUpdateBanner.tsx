@@ -0,0 +1,70 @@
+/**
+ * src/components/common/RemoteUpdateBanner.tsx
+ *
+ * 서버 데이터가 로컬 baseVersion보다 새로울 때 페이지 상단에 표시하는 배너.
+ *
+ * - remoteStore가 주기적으로 감지한 서버 버전 기준 (Pull / Push / 병합으로 따라잡으면 사라짐)
+ * - 언제: 서버 버전(Push 시각, Unix ms) / 누가: presence로 받은 Push 알림이 같은 버전일 때만
+ * - "변경 미리보기"로 RemoteChangesModal을 열어 Pull 또는 3-way 병합을 결정
+ *
+ * 배치: App.tsx의 OfflineBanner 바로 아래
+ */
+import { useState } from 'react';
+import { Alert, Button } from 'antd';
+import { CloudSyncOutlined, EyeOutlined } from '@ant-design/icons';
+import RemoteChangesModal from '@/components/sync/RemoteChangesModal';
+import { useRemoteUpdate } from '@/stores/remoteStore';
+import { usePresenceStore } from '@/stores/presenceStore';
+import { useServerStatus } from '@/stores/uiStore';
+
+export default function RemoteUpdateBanner() {
+  const remote           = useRemoteUpdate();
+  const lastPeerPush     = usePresenceStore((s) => s.lastPeerPush);
+  const { serverStatus } = useServerStatus();
+  const [previewOpen, setPreviewOpen] = useState(false);
+
+  // 오프라인이면 OfflineBanner만 표시 (감지한 서버 데이터가 이미 오래됐을 수 있음)
+  if (!remote || serverStatus === 'disconnected') return null;
+
+  const pushedAt = new Date(remote.baseVersion).toLocaleString('ko-KR');
+  const pushedBy = lastPeerPush?.version === remote.baseVersion ? lastPeerPush.userName : null;
+
+  return (
+    <>
+      <Alert
+        type="info"
+        showIcon
+        icon={<CloudSyncOutlined />}
+        banner
+        title={
+          <span>
+            <strong>서버에 새 데이터가 있습니다</strong>
+            &nbsp;—&nbsp;버전 {remote.baseVersion} ({pushedAt}{pushedBy && `, ${pushedBy}`} Push).
+            Push하기 전에 변경 내용을 확인하고 Pull 또는 병합하세요.
+          </span>
+        }
+        action={
+          <Button
+            size="small"
+            type="primary"
+            icon={<EyeOutlined />}
+            onClick={() => setPreviewOpen(true)}
+            style={{ marginLeft: 8 }}
+          >
+            변경 미리보기
+          </Button>
+        }
+        style={{
+          borderRadius: 0,
+          borderLeft: 'none',
+          borderRight: 'none',
+          borderTop: 'none',
+          marginBottom: 0,
+        }}
+      />
+      {previewOpen && (
+        <RemoteChangesModal open remote={remote} onClose={() => setPreviewOpen(false)} />
+      )}
+    </>
+  );
+}
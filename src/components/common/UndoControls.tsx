@@ -0,0 +1,61 @@
+/**
+ * src/components/common/UndoControls.tsx
+ *
+ * 헤더의 실행 취소 / 다시 실행 버튼.
+ * 가운데 드롭다운에서 undo 스택을 최신순으로 보여주고,
+ * 항목을 고르면 그 항목까지 한 번에 되돌립니다.
+ */
+import { Button, Dropdown, Space, Tooltip, Typography } from 'antd';
+import { DownOutlined, RedoOutlined, UndoOutlined } from '@ant-design/icons';
+import { useDataStore } from '@/stores/dataStore';
+
+const { Text } = Typography;
+
+/** 드롭다운에 표시할 최대 항목 수 */
+const MAX_MENU_ITEMS = 20;
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+export default function UndoControls() {
+  const undoStack = useDataStore((s) => s.undoStack);
+  const redoStack = useDataStore((s) => s.redoStack);
+  const undo      = useDataStore((s) => s.undo);
+  const redo      = useDataStore((s) => s.redo);
+
+  const lastUndo = undoStack[undoStack.length - 1];
+  const lastRedo = redoStack[redoStack.length - 1];
+
+  const menuItems = undoStack
+    .slice(-MAX_MENU_ITEMS)
+    .reverse()
+    .map((entry, idx) => ({
+      key:   String(entry.id),
+      label: (
+        <Space size={8} style={{ justifyContent: 'space-between', width: '100%' }}>
+          <Text style={{ fontSize: 12 }}>{entry.label}</Text>
+          <Text type="secondary" style={{ fontSize: 11 }}>{formatTime(entry.at)}</Text>
+        </Space>
+      ),
+      onClick: () => undo(idx + 1),
+    }));
+
+  return (
+    <Space.Compact size="small">
+      <Tooltip title={lastUndo ? `실행 취소: ${lastUndo.label} (Ctrl+Z)` : '실행 취소할 작업 없음'}>
+        <Button icon={<UndoOutlined />} disabled={!lastUndo} onClick={() => undo()} />
+      </Tooltip>
+      <Dropdown
+        trigger={['click']}
+        disabled={undoStack.length === 0}
+        menu={{ items: menuItems, style: { maxHeight: 360, overflowY: 'auto' } }}
+      >
+        <Button icon={<DownOutlined style={{ fontSize: 10 }} />} />
+      </Dropdown>
+      <Tooltip title={lastRedo ? `다시 실행: ${lastRedo.label} (Ctrl+Shift+Z)` : '다시 실행할 작업 없음'}>
+        <Button icon={<RedoOutlined />} disabled={!lastRedo} onClick={() => redo()} />
+      </Tooltip>
+    </Space.Compact>
+  );
+}
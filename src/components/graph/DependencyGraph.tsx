@@ -0,0 +1,225 @@
+/**
+ * src/components/graph/DependencyGraph.tsx
+ *
+ * 태그 → 복합 태그 → 규칙 3열 의존 그래프 (SVG).
+ *
+ * - 열 내부 정렬: 태그는 카테고리 / 이름순, 복합 태그와 규칙은
+ *   상위 노드 평균 위치(barycenter) 순 → 간선 교차를 줄임
+ * - 노드 hover → 상위 / 하위 경로만 강조, 나머지는 흐리게
+ * - 노드 클릭 → onNodeClick (페이지에서 편집 화면으로 이동)
+ * - 고아 태그(어떤 규칙에도 도달하지 않음)는 빨간 점선 테두리
+ */
+import { useMemo, useState } from 'react';
+import {
+  collectAncestors,
+  collectDescendants,
+  type GraphEdgeKind,
+  type GraphNode,
+  type GraphNodeKind,
+  type TagGraph,
+} from '@/utils/tagGraph';
+
+interface DependencyGraphProps {
+  graph:       TagGraph;
+  /** 표시할 노드 id */
+  visible:     Set<string>;
+  onNodeClick: (node: GraphNode) => void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 레이아웃 상수
+// ─────────────────────────────────────────────────────────────────────────────
+
+const NODE_WIDTH  = 220;
+const NODE_HEIGHT = 22;
+const ROW_GAP     = 6;
+const COL_GAP     = 180;
+const PADDING     = 16;
+const HEADER      = 28;
+/** 노드 라벨 최대 글자 수 */
+const MAX_LABEL   = 30;
+
+const COLUMNS: GraphNodeKind[] = ['tag', 'compound', 'rule'];
+
+const COLUMN_TITLES: Record<GraphNodeKind, string> = {
+  tag:      '태그',
+  compound: '복합 태그',
+  rule:     '규칙',
+};
+
+const NODE_COLORS: Record<GraphNodeKind, { fill: string; stroke: string }> = {
+  tag:      { fill: '#e6f4ff', stroke: '#91caff' },
+  compound: { fill: '#e6fffb', stroke: '#87e8de' },
+  rule:     { fill: '#f9f0ff', stroke: '#d3adf7' },
+};
+
+const EDGE_COLORS: Record<GraphEdgeKind, string> = {
+  condition: '#1677ff',
+  requires:  '#52c41a',
+  excludes:  '#fa541c',
+};
+
+interface Positioned {
+  node: GraphNode;
+  x:    number;
+  y:    number;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_LABEL ? `${text.slice(0, MAX_LABEL - 1)}…` : text;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 레이아웃 계산
+// ─────────────────────────────────────────────────────────────────────────────
+
+function layout(graph: TagGraph, visible: Set<string>): Map<string, Positioned> {
+  const positions = new Map<string, Positioned>();
+  const parents   = new Map<string, string[]>();
+  for (const e of graph.edges) {
+    if (!visible.has(e.from) || !visible.has(e.to)) continue;
+    if (!parents.has(e.to)) parents.set(e.to, []);
+    parents.get(e.to)!.push(e.from);
+  }
+
+  const rowY = (i: number) => PADDING + HEADER + i * (NODE_HEIGHT + ROW_GAP);
+
+  COLUMNS.forEach((kind, col) => {
+    const x     = PADDING + col * (NODE_WIDTH + COL_GAP);
+    const items = graph.nodes.filter((n) => n.kind === kind && visible.has(n.id));
+
+    // 상위 노드들의 평균 y (배치 전이면 무시)
+    const barycenter = (n: GraphNode) => {
+      const ys = (parents.get(n.id) ?? [])
+        .map((p) => positions.get(p)?.y)
+        .filter((y): y is number => y !== undefined);
+      return ys.length > 0 ? ys.reduce((a, b) => a + b, 0) / ys.length : Number.POSITIVE_INFINITY;
+    };
+
+    const sorted = kind === 'tag'
+      ? [...items].sort((a, b) =>
+          (a.category ?? '').localeCompare(b.category ?? '') || a.name.localeCompare(b.name))
+      : [...items]
+          .map((n) => ({ n, key: barycenter(n) }))
+          .sort((a, b) => a.key - b.key || a.n.name.localeCompare(b.n.name))
+          .map(({ n }) => n);
+
+    sorted.forEach((node, i) => positions.set(node.id, { node, x, y: rowY(i) }));
+  });
+
+  return positions;
+}
+
+function edgePath(from: Positioned, to: Positioned): string {
+  const y1 = from.y + NODE_HEIGHT / 2;
+  const y2 = to.y + NODE_HEIGHT / 2;
+  // 같은 열(복합 태그 → 복합 태그)은 오른쪽으로 휘어지는 호
+  if (from.x === to.x) {
+    const x  = from.x + NODE_WIDTH;
+    const dx = 40 + Math.min(Math.abs(y2 - y1) / 4, 60);
+    return `M ${x} ${y1} C ${x + dx} ${y1}, ${x + dx} ${y2}, ${x} ${y2}`;
+  }
+  const x1 = from.x + NODE_WIDTH;
+  const x2 = to.x;
+  const mx = (x1 + x2) / 2;
+  return `M ${x1} ${y1} C ${mx} ${y1}, ${mx} ${y2}, ${x2} ${y2}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 컴포넌트
+// ─────────────────────────────────────────────────────────────────────────────
+
+export default function DependencyGraph({ graph, visible, onNodeClick }: DependencyGraphProps) {
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const positions = useMemo(() => layout(graph, visible), [graph, visible]);
+
+  const visibleEdges = useMemo(
+    () => graph.edges.filter((e) => positions.has(e.from) && positions.has(e.to)),
+    [graph.edges, positions],
+  );
+
+  // hover 노드의 상위 + 하위 경로
+  const focus = useMemo(() => {
+    if (!hovered) return null;
+    const up   = collectAncestors(visibleEdges, [hovered]);
+    const down = collectDescendants(visibleEdges, [hovered]);
+    return new Set([...up, ...down]);
+  }, [hovered, visibleEdges]);
+
+  const columnCounts = COLUMNS.map((kind) =>
+    [...positions.values()].filter((p) => p.node.kind === kind).length);
+  const maxRows = Math.max(1, ...columnCounts);
+  const width   = PADDING * 2 + COLUMNS.length * NODE_WIDTH + (COLUMNS.length - 1) * COL_GAP + 100;
+  const height  = PADDING * 2 + HEADER + maxRows * (NODE_HEIGHT + ROW_GAP);
+
+  const isDimmed = (id: string) => focus !== null && !focus.has(id);
+
+  return (
+    <svg width={width} height={height} style={{ display: 'block', fontFamily: 'monospace' }}>
+      {/* 열 제목 */}
+      {COLUMNS.map((kind, col) => (
+        <text
+          key={kind}
+          x={PADDING + col * (NODE_WIDTH + COL_GAP)}
+          y={PADDING + 12}
+          fontSize={12}
+          fontWeight={600}
+          fill="#595959"
+        >
+          {COLUMN_TITLES[kind]} ({columnCounts[col]})
+        </text>
+      ))}
+
+      {/* 간선 */}
+      <g fill="none">
+        {visibleEdges.map((e) => {
+          const from = positions.get(e.from)!;
+          const to   = positions.get(e.to)!;
+          const dim  = focus !== null && !(focus.has(e.from) && focus.has(e.to));
+          return (
+            <path
+              key={`${e.from}>${e.to}>${e.kind}`}
+              d={edgePath(from, to)}
+              stroke={EDGE_COLORS[e.kind]}
+              strokeWidth={dim ? 1 : 1.5}
+              strokeOpacity={dim ? 0.08 : focus ? 0.9 : 0.35}
+              strokeDasharray={e.kind === 'excludes' ? '4 3' : undefined}
+            />
+          );
+        })}
+      </g>
+
+      {/* 노드 */}
+      {[...positions.values()].map(({ node, x, y }) => {
+        const colors = NODE_COLORS[node.kind];
+        const orphan = graph.orphans.has(node.id);
+        return (
+          <g
+            key={node.id}
+            transform={`translate(${x}, ${y})`}
+            style={{ cursor: 'pointer' }}
+            opacity={isDimmed(node.id) ? 0.25 : 1}
+            onMouseEnter={() => setHovered(node.id)}
+            onMouseLeave={() => setHovered(null)}
+            onClick={() => onNodeClick(node)}
+          >
+            <title>{`${node.name}${node.label ? `\n${node.label}` : ''}${orphan ? '\n(사용하는 규칙 없음)' : ''}`}</title>
+            <rect
+              width={NODE_WIDTH}
+              height={NODE_HEIGHT}
+              rx={4}
+              fill={colors.fill}
+              stroke={orphan ? '#ff4d4f' : hovered === node.id ? '#1677ff' : colors.stroke}
+              strokeWidth={hovered === node.id ? 2 : 1}
+              strokeDasharray={orphan ? '3 2' : undefined}
+            />
+            <text x={8} y={NODE_HEIGHT / 2 + 4} fontSize={11} fill="#262626">
+              {truncate(node.name)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * src/components/lint/LintTargetLink.tsx
+ *
+ * 데이터 검사 이슈의 "수정하러 가기" 링크.
+ * 규칙 → RuleEditPage, 태그 / 복합 태그 → TagsPage 편집 모달, _metadata → TagsPage.
+ */
+import { Link } from 'react-router-dom';
+import { lintTargetLabel, type LintTarget } from '@/utils/dataLint';
+
+interface LintTargetLinkProps {
+  target:   LintTarget;
+  /** 링크 클릭 시 추가 동작 (모달 닫기 등) */
+  onNavigate?: () => void;
+}
+
+export default function LintTargetLink({ target, onNavigate }: LintTargetLinkProps) {
+  const label = lintTargetLabel(target);
+  const style = { fontFamily: 'monospace', fontSize: 12 };
+
+  switch (target.kind) {
+    case 'rule':
+      return <Link to={`/rules/${target.ruleId}`} style={style} onClick={onNavigate}>{label}</Link>;
+    case 'tag':
+      return <Link to="/tags" state={{ editTag: target.name }} style={style} onClick={onNavigate}>{label}</Link>;
+    case 'compound':
+      return <Link to="/tags" state={{ editCompoundTag: target.name }} style={style} onClick={onNavigate}>{label}</Link>;
+    case 'metadata':
+      return <Link to="/tags" style={style} onClick={onNavigate}>{label}</Link>;
+  }
+}
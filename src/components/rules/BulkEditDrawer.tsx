@@ -0,0 +1,343 @@
+/**
+ * src/components/rules/BulkEditDrawer.tsx
+ *
+ * RulesPage에서 선택한 규칙 일괄 편집 Drawer.
+ * 입력할 때마다 planBulkEdit()으로 필드 단위 변경을 미리보기 표에 보여주고,
+ * "적용" 시 transact() 하나로 묶어 updateRule()을 호출합니다 (실행 취소 한 번으로 되돌림).
+ *
+ * 비워 둔 항목은 변경하지 않습니다.
+ */
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Checkbox,
+  Col,
+  Drawer,
+  Form,
+  Input,
+  Row,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { EditOutlined } from '@ant-design/icons';
+import { useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import type { Rule, RuleCategory, RuleCheckType, RuleSeverity } from '@/types/rule';
+import { RULE_CATEGORY_LABELS, RULE_CHECK_TYPE_LABELS, RULE_SEVERITY_LABELS } from '@/types/rule';
+import {
+  BULK_LIST_FIELD_LABELS,
+  BULK_TEXT_FIELD_LABELS,
+  buildFindPattern,
+  checkAppendCondition,
+  planBulkEdit,
+  type BulkEditSpec,
+  type BulkFieldChange,
+  type BulkListField,
+  type BulkTextField,
+} from '@/utils/bulkEdit';
+
+const { Text } = Typography;
+
+interface BulkEditDrawerProps {
+  open:    boolean;
+  rules:   Rule[];
+  onClose: () => void;
+}
+
+/** 폼 값 (비어 있으면 변경 안 함) */
+interface BulkEditFormValues {
+  severity?:           RuleSeverity;
+  category?:           RuleCategory;
+  checkType?:          RuleCheckType;
+  isActive?:           'true' | 'false';
+  requiredTagsAdd?:    string[];
+  requiredTagsRemove?: string[];
+  excludeTagsAdd?:     string[];
+  excludeTagsRemove?:  string[];
+  keywordsAdd?:        string[];
+  keywordsRemove?:     string[];
+  appendTagCondition?: string;
+  find?:               string;
+  replace?:            string;
+  replaceFields?:      BulkTextField[];
+  useRegex?:           boolean;
+  caseSensitive?:      boolean;
+}
+
+const LIST_FIELDS: BulkListField[] = ['requiredTags', 'excludeTags', 'keywords'];
+
+const FIELD_LABELS: Partial<Record<keyof Rule, string>> = {
+  severity:     '심각도',
+  category:     '카테고리',
+  checkType:    '검사 방식',
+  isActive:     '활성',
+  tagCondition: '태그 조건',
+  ...BULK_LIST_FIELD_LABELS,
+  ...BULK_TEXT_FIELD_LABELS,
+};
+
+const INITIAL_VALUES: BulkEditFormValues = {
+  replaceFields: ['message', 'suggestion', 'description'],
+  useRegex:      false,
+  caseSensitive: true,
+};
+
+function toSpec(values: BulkEditFormValues): BulkEditSpec {
+  const list = (field: BulkListField) => ({
+    add:    values[`${field}Add`] ?? [],
+    remove: values[`${field}Remove`] ?? [],
+  });
+  return {
+    severity:           values.severity,
+    category:           values.category,
+    checkType:          values.checkType,
+    isActive:           values.isActive === undefined ? undefined : values.isActive === 'true',
+    lists:              { requiredTags: list('requiredTags'), excludeTags: list('excludeTags'), keywords: list('keywords') },
+    appendTagCondition: values.appendTagCondition,
+    findReplace:        values.find
+      ? {
+        find:          values.find,
+        replace:       values.replace ?? '',
+        fields:        values.replaceFields ?? [],
+        useRegex:      values.useRegex ?? false,
+        caseSensitive: values.caseSensitive ?? true,
+      }
+      : undefined,
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'boolean') return value ? '활성' : '비활성';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(없음)';
+  if (value === '') return '(빈 값)';
+  return String(value);
+}
+
+export default function BulkEditDrawer({ open, rules, onClose }: BulkEditDrawerProps) {
+  const tags          = useDataStore((s) => s.tags);
+  const updateRule    = useDataStore((s) => s.updateRule);
+  const transact      = useDataStore((s) => s.transact);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+
+  const [form] = Form.useForm<BulkEditFormValues>();
+  const [values, setValues] = useState<BulkEditFormValues>(INITIAL_VALUES);
+
+  const spec = useMemo(() => toSpec(values), [values]);
+  const plan = useMemo(() => planBulkEdit(rules, spec), [rules, spec]);
+
+  const appendError = checkAppendCondition(values.appendTagCondition);
+  const findError   = spec.findReplace ? buildFindPattern(spec.findReplace).error : undefined;
+  const ruleCount   = Object.keys(plan.updates).length;
+
+  /** 선택한 규칙에 이미 있는 값 (제거 후보) */
+  const existing = useMemo(() => {
+    const collect = (field: BulkListField) =>
+      [...new Set(rules.flatMap((r) => r[field]))].sort().map((v) => ({ value: v, label: v }));
+    return { requiredTags: collect('requiredTags'), excludeTags: collect('excludeTags'), keywords: collect('keywords') };
+  }, [rules]);
+
+  const tagOptions = useMemo(
+    () => Object.keys(tags.tags).sort().map((t) => ({ value: t, label: t })),
+    [tags.tags],
+  );
+
+  const handleClose = () => {
+    form.resetFields();
+    setValues(INITIAL_VALUES);
+    onClose();
+  };
+
+  const handleApply = () => {
+    transact(`규칙 ${ruleCount}개 일괄 편집`, () => {
+      Object.entries(plan.updates).forEach(([ruleId, update]) => updateRule(ruleId, update));
+    });
+    notifySuccess('일괄 편집 완료', `${ruleCount}개 규칙, ${plan.changes.length}개 필드를 변경했습니다.`);
+    handleClose();
+  };
+
+  const columns: ColumnsType<BulkFieldChange> = [
+    {
+      title:     '규칙',
+      dataIndex: 'ruleId',
+      width:     150,
+      render:    (id: string) => <Text code style={{ fontSize: 11 }}>{id}</Text>,
+    },
+    {
+      title:     '필드',
+      dataIndex: 'field',
+      width:     90,
+      render:    (field: keyof Rule) => <Tag>{FIELD_LABELS[field] ?? field}</Tag>,
+    },
+    {
+      title:  '변경 전',
+      render: (_, c) => (
+        <Text type="secondary" delete style={{ fontSize: 12 }} ellipsis={{ tooltip: formatValue(c.before) }}>
+          {formatValue(c.before)}
+        </Text>
+      ),
+    },
+    {
+      title:  '변경 후',
+      render: (_, c) => (
+        <Text style={{ fontSize: 12, color: '#389e0d' }} ellipsis={{ tooltip: formatValue(c.after) }}>
+          {formatValue(c.after)}
+        </Text>
+      ),
+    },
+  ];
+
+  return (
+    <Drawer
+      title={<Space><EditOutlined />선택한 규칙 {rules.length}개 일괄 편집</Space>}
+      open={open}
+      onClose={handleClose}
+      size="large"
+      extra={
+        <Button
+          type="primary"
+          onClick={handleApply}
+          disabled={ruleCount === 0 || appendError !== null || findError !== undefined}
+        >
+          {ruleCount}개 규칙에 적용
+        </Button>
+      }
+    >
+      <Form<BulkEditFormValues>
+        form={form}
+        layout="vertical"
+        size="small"
+        initialValues={INITIAL_VALUES}
+        onValuesChange={(_, all) => setValues(all)}
+      >
+        <Card size="small" title="속성 설정" style={{ marginBottom: 12 }}>
+          <Row gutter={12}>
+            <Col span={6}>
+              <Form.Item name="severity" label="심각도">
+                <Select
+                  allowClear
+                  placeholder="변경 안 함"
+                  options={(Object.keys(RULE_SEVERITY_LABELS) as RuleSeverity[]).map((v) => ({ value: v, label: RULE_SEVERITY_LABELS[v] }))}
+                />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="category" label="카테고리">
+                <Select
+                  allowClear
+                  showSearch
+                  placeholder="변경 안 함"
+                  options={(Object.keys(RULE_CATEGORY_LABELS) as RuleCategory[]).map((v) => ({ value: v, label: RULE_CATEGORY_LABELS[v] }))}
+                />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="checkType" label="검사 방식">
+                <Select
+                  allowClear
+                  placeholder="변경 안 함"
+                  options={(Object.keys(RULE_CHECK_TYPE_LABELS) as RuleCheckType[]).map((v) => ({ value: v, label: RULE_CHECK_TYPE_LABELS[v] }))}
+                />
+              </Form.Item>
+            </Col>
+            <Col span={6}>
+              <Form.Item name="isActive" label="활성 여부">
+                <Select
+                  allowClear
+                  placeholder="변경 안 함"
+                  options={[{ value: 'true', label: '활성' }, { value: 'false', label: '비활성' }]}
+                />
+              </Form.Item>
+            </Col>
+          </Row>
+        </Card>
+
+        <Card size="small" title="목록 항목 추가 / 제거" style={{ marginBottom: 12 }}>
+          {LIST_FIELDS.map((field) => (
+            <Row gutter={12} key={field}>
+              <Col span={12}>
+                <Form.Item name={`${field}Add`} label={`${BULK_LIST_FIELD_LABELS[field]} 추가`}>
+                  <Select mode="tags" placeholder="추가할 항목" options={field === 'keywords' ? [] : tagOptions} />
+                </Form.Item>
+              </Col>
+              <Col span={12}>
+                <Form.Item name={`${field}Remove`} label={`${BULK_LIST_FIELD_LABELS[field]} 제거`}>
+                  <Select mode="multiple" placeholder="제거할 항목" options={existing[field]} />
+                </Form.Item>
+              </Col>
+            </Row>
+          ))}
+        </Card>
+
+        <Card size="small" title="태그 조건 / 텍스트" style={{ marginBottom: 12 }}>
+          <Form.Item
+            name="appendTagCondition"
+            label="tagCondition에 && 로 덧붙이기"
+            validateStatus={appendError ? 'error' : undefined}
+            help={appendError ?? '예: !IS_TEST — 기존 조건이 있으면 (기존) && 새 조건, 없으면 새 조건만'}
+          >
+            <Input placeholder="태그 조건식" style={{ fontFamily: 'monospace' }} />
+          </Form.Item>
+
+          <Row gutter={12}>
+            <Col span={12}>
+              <Form.Item
+                name="find"
+                label="찾을 문자열"
+                validateStatus={findError ? 'error' : undefined}
+                help={findError}
+              >
+                <Input placeholder="찾을 문자열 또는 정규식" />
+              </Form.Item>
+            </Col>
+            <Col span={12}>
+              <Form.Item name="replace" label="바꿀 문자열">
+                <Input placeholder={values.useRegex ? '$1 등 그룹 참조 가능' : '바꿀 문자열'} />
+              </Form.Item>
+            </Col>
+          </Row>
+          <Space size={16} wrap>
+            <Form.Item name="replaceFields" noStyle>
+              <Checkbox.Group
+                options={(Object.keys(BULK_TEXT_FIELD_LABELS) as BulkTextField[]).map((f) => ({ value: f, label: BULK_TEXT_FIELD_LABELS[f] }))}
+              />
+            </Form.Item>
+            <Form.Item name="useRegex" valuePropName="checked" noStyle>
+              <Checkbox>정규식</Checkbox>
+            </Form.Item>
+            <Form.Item name="caseSensitive" valuePropName="checked" noStyle>
+              <Checkbox>대소문자 구분</Checkbox>
+            </Form.Item>
+          </Space>
+        </Card>
+      </Form>
+
+      {plan.skipped.length > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 12 }}
+          title={`${plan.skipped.length}개 규칙은 tagCondition을 덧붙이지 못했습니다.`}
+          description={plan.skipped.map((s) => `${s.ruleId}: ${s.reason}`).join('\n')}
+        />
+      )}
+
+      <Card size="small" title={`미리보기 — ${ruleCount}개 규칙, ${plan.changes.length}개 필드 변경`}>
+        <Table<BulkFieldChange>
+          rowKey={(c) => `${c.ruleId}:${c.field}`}
+          size="small"
+          columns={columns}
+          dataSource={plan.changes}
+          tableLayout="fixed"
+          pagination={{ pageSize: 10, showSizeChanger: false, hideOnSinglePage: true }}
+          locale={{ emptyText: '변경될 내용이 없습니다.' }}
+        />
+      </Card>
+    </Drawer>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * src/components/rules/ExportModal.tsx
+ *
+ * 규칙 / 태그 내보내기 다이얼로그.
+ * 범위(전체 / 현재 필터 결과 / 선택한 행)와 형식(JSON / YAML / CSV)을 골라 파일로 내려받습니다.
+ *
+ * JSON / YAML은 PullResponse 구조 하나의 파일,
+ * CSV는 규칙(rules-*.csv)과 태그(tags-*.csv)를 각각 별도 파일로 내려받습니다.
+ * 범위는 규칙에만 적용되고 태그는 항상 전체를 내보냅니다.
+ */
+import { useState } from 'react';
+import { Checkbox, Form, Modal, Radio, Typography } from 'antd';
+import { useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import type { Rule } from '@/types/rule';
+import { EMPTY_TAG_DATA } from '@/types/tag';
+import {
+  TRANSFER_FORMAT_LABELS,
+  buildExportPayload,
+  downloadText,
+  rulesToCsv,
+  serializePayload,
+  tagsToCsv,
+  type TransferFormat,
+} from '@/utils/dataTransfer';
+
+const { Text } = Typography;
+
+type ExportScope = 'all' | 'filtered' | 'selected';
+
+interface ExportModalProps {
+  open:          boolean;
+  filteredRules: Rule[];
+  selectedRules: Rule[];
+  onClose:       () => void;
+}
+
+const MIME: Record<TransferFormat, string> = {
+  json: 'application/json',
+  yaml: 'application/x-yaml',
+  csv:  'text/csv',
+};
+
+function fileStamp(): string {
+  return new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+}
+
+export default function ExportModal({ open, filteredRules, selectedRules, onClose }: ExportModalProps) {
+  const rules         = useDataStore((s) => s.rules);
+  const tags          = useDataStore((s) => s.tags);
+  const baseVersion   = useDataStore((s) => s.baseVersion);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+  const notifyError   = useUiStore((s) => s.notifyError);
+
+  const [scope, setScope]               = useState<ExportScope>('all');
+  const [format, setFormat]             = useState<TransferFormat>('json');
+  const [includeRules, setIncludeRules] = useState(true);
+  const [includeTags, setIncludeTags]   = useState(true);
+
+  const scopedRules = scope === 'all' ? rules : scope === 'filtered' ? filteredRules : selectedRules;
+
+  const handleExport = () => {
+    const stamp = fileStamp();
+    try {
+      if (format === 'csv') {
+        if (includeRules) downloadText(`rules-${stamp}.csv`, rulesToCsv(scopedRules), MIME.csv);
+        if (includeTags)  downloadText(`tags-${stamp}.csv`, tagsToCsv(tags.tags), MIME.csv);
+      } else {
+        const payload = buildExportPayload(
+          includeRules ? scopedRules : [],
+          includeTags ? tags : EMPTY_TAG_DATA,
+          baseVersion,
+        );
+        downloadText(`code-quality-${stamp}.${format}`, serializePayload(payload, format), MIME[format]);
+      }
+      notifySuccess(
+        '내보내기 완료',
+        [includeRules && `규칙 ${scopedRules.length}개`, includeTags && `태그 ${Object.keys(tags.tags).length}개`]
+          .filter(Boolean)
+          .join(', '),
+      );
+      onClose();
+    } catch (err) {
+      console.error('[ExportModal] 내보내기 실패:', err);
+      notifyError('내보내기 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  return (
+    <Modal
+      title="규칙 / 태그 내보내기"
+      open={open}
+      onCancel={onClose}
+      onOk={handleExport}
+      okText="내려받기"
+      cancelText="취소"
+      okButtonProps={{ disabled: !includeRules && !includeTags }}
+    >
+      <Form layout="vertical" style={{ marginTop: 16 }}>
+        <Form.Item label="포함할 데이터">
+          <Checkbox checked={includeRules} onChange={(e) => setIncludeRules(e.target.checked)}>
+            규칙
+          </Checkbox>
+          <Checkbox checked={includeTags} onChange={(e) => setIncludeTags(e.target.checked)}>
+            태그 정의{format !== 'csv' && ' (복합 태그 / 카테고리 포함)'}
+          </Checkbox>
+        </Form.Item>
+
+        <Form.Item label="규칙 범위">
+          <Radio.Group value={scope} onChange={(e) => setScope(e.target.value)} disabled={!includeRules}>
+            <Radio value="all">전체 ({rules.length})</Radio>
+            <Radio value="filtered">현재 필터 결과 ({filteredRules.length})</Radio>
+            <Radio value="selected" disabled={selectedRules.length === 0}>
+              선택한 행 ({selectedRules.length})
+            </Radio>
+          </Radio.Group>
+        </Form.Item>
+
+        <Form.Item
+          label="형식"
+          extra={
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              {format === 'csv'
+                ? '규칙과 태그를 각각 CSV 파일로 내려받습니다. 배열 / 객체 필드는 셀 안에 JSON으로 저장됩니다.'
+                : 'Pull 응답(PullResponse)과 같은 구조로 저장합니다.'}
+            </Text>
+          }
+        >
+          <Radio.Group
+            value={format}
+            onChange={(e) => setFormat(e.target.value)}
+            optionType="button"
+            options={(Object.keys(TRANSFER_FORMAT_LABELS) as TransferFormat[]).map((f) => ({
+              value: f,
+              label: TRANSFER_FORMAT_LABELS[f],
+            }))}
+          />
+        </Form.Item>
+      </Form>
+    </Modal>
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * src/components/rules/ImportModal.tsx
+ *
+ * 규칙 / 태그 가져오기 다이얼로그.
+ *   1. JSON / YAML / CSV 파일 선택 → parseImport()로 Rule / TagDefinition 스키마 검증
+ *   2. 오류가 있는 항목은 제외되고 목록으로 표시 (경고는 적용 가능)
+ *   3. merge(같은 키 덮어쓰기 + 추가) / replace(파일에 있는 섹션 통째로 교체) 선택
+ *   4. 현재 편집본 → 적용 후 Diff 미리보기 확인 후 적용
+ *
+ * 적용은 dataStore.setData()로 한 번에 반영되므로 헤더의 실행 취소로 되돌릴 수 있습니다.
+ */
+import { useMemo, useState } from 'react';
+import { Alert, Empty, List, Modal, Segmented, Space, Tag, Typography, Upload } from 'antd';
+import { InboxOutlined } from '@ant-design/icons';
+import { useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import DiffViewer from '@/components/sync/DiffViewer';
+import type { DiffSummary } from '@/types/api';
+import {
+  detectFormat,
+  parseImport,
+  planImport,
+  type ImportMode,
+  type KeyChangeCount,
+  type ParsedImport,
+} from '@/utils/dataTransfer';
+
+const { Text } = Typography;
+
+interface ImportModalProps {
+  open:    boolean;
+  onClose: () => void;
+}
+
+/** 오류 / 경고 목록에 표시할 최대 항목 수 */
+const MAX_ISSUES = 50;
+
+function changeCount(s: DiffSummary | KeyChangeCount): number {
+  return 'addedCount' in s
+    ? s.addedCount + s.modifiedCount + s.deletedCount
+    : s.added + s.overwritten + s.removed;
+}
+
+function KeyChangeTags({ label, count }: { label: string; count: KeyChangeCount }) {
+  if (changeCount(count) === 0) return null;
+  return (
+    <Space size={4}>
+      <Text style={{ fontSize: 12 }}>{label}</Text>
+      {count.added > 0       && <Tag color="green">+{count.added}</Tag>}
+      {count.overwritten > 0 && <Tag color="orange">~{count.overwritten}</Tag>}
+      {count.removed > 0     && <Tag color="red">-{count.removed}</Tag>}
+    </Space>
+  );
+}
+
+export default function ImportModal({ open, onClose }: ImportModalProps) {
+  const rules         = useDataStore((s) => s.rules);
+  const tags          = useDataStore((s) => s.tags);
+  const setData       = useDataStore((s) => s.setData);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed]     = useState<ParsedImport | null>(null);
+  const [mode, setMode]         = useState<ImportMode>('merge');
+
+  const errors   = parsed?.issues.filter((i) => i.level === 'error') ?? [];
+  const warnings = parsed?.issues.filter((i) => i.level === 'warning') ?? [];
+
+  const plan = useMemo(
+    () => (parsed ? planImport(rules, tags, parsed.data, mode) : null),
+    [parsed, rules, tags, mode],
+  );
+
+  const hasChanges = plan !== null && (
+    changeCount(plan.diff.rules.summary) + changeCount(plan.diff.tags.summary) > 0
+    || changeCount(plan.compoundTags) > 0
+    || changeCount(plan.tagCategories) > 0
+  );
+  // 교체 모드에서는 검증에 실패해 빠진 항목이 현재 편집본에서 삭제되므로 적용을 막음
+  const blockedByErrors = mode === 'replace' && errors.length > 0;
+
+  const handleFile = (file: File) => {
+    const format = detectFormat(file.name);
+    setFileName(file.name);
+    if (!format) {
+      setParsed({
+        data:   {},
+        issues: [{ level: 'error', path: file.name, message: '.json / .yaml / .yml / .csv 파일만 가져올 수 있습니다.' }],
+      });
+      return false;
+    }
+    file.text()
+      .then((text) => setParsed(parseImport(text, format)))
+      .catch((err) => {
+        console.error('[ImportModal] 파일 읽기 실패:', err);
+        setParsed({ data: {}, issues: [{ level: 'error', path: file.name, message: '파일을 읽을 수 없습니다.' }] });
+      });
+    return false; // 업로드 요청 없이 브라우저에서만 처리
+  };
+
+  const handleClose = () => {
+    setFileName(null);
+    setParsed(null);
+    setMode('merge');
+    onClose();
+  };
+
+  const handleApply = () => {
+    if (!plan || !fileName || blockedByErrors) return;
+    setData(plan.rules, plan.tags, `가져오기 (${mode === 'merge' ? '병합' : '교체'}): ${fileName}`);
+    notifySuccess('가져오기 완료', `${fileName}의 데이터를 반영했습니다. 헤더의 실행 취소로 되돌릴 수 있습니다.`);
+    handleClose();
+  };
+
+  const { rules: importedRules, tags: importedTags, compoundTags, tagCategories } = parsed?.data ?? {};
+
+  return (
+    <Modal
+      title="규칙 / 태그 가져오기"
+      open={open}
+      onCancel={handleClose}
+      onOk={handleApply}
+      okText="적용"
+      cancelText="취소"
+      okButtonProps={{ disabled: !hasChanges || blockedByErrors }}
+      width={960}
+    >
+      <Space direction="vertical" size={16} style={{ width: '100%', marginTop: 16 }}>
+        <Upload.Dragger accept=".json,.yaml,.yml,.csv" showUploadList={false} beforeUpload={handleFile}>
+          <p className="ant-upload-drag-icon"><InboxOutlined /></p>
+          <p className="ant-upload-text">{fileName ?? '파일을 끌어다 놓거나 클릭해 선택하세요'}</p>
+          <p className="ant-upload-hint">JSON / YAML (Pull 응답 구조 또는 규칙 배열), CSV (규칙 또는 태그)</p>
+        </Upload.Dragger>
+
+        {parsed && (
+          <Space size={8} wrap>
+            {importedRules  && <Tag color="blue">규칙 {importedRules.length}개</Tag>}
+            {importedTags   && <Tag color="purple">태그 {Object.keys(importedTags).length}개</Tag>}
+            {compoundTags   && <Tag color="cyan">복합 태그 {Object.keys(compoundTags).length}개</Tag>}
+            {tagCategories  && <Tag>카테고리 {Object.keys(tagCategories).length}개</Tag>}
+          </Space>
+        )}
+
+        {(errors.length > 0 || warnings.length > 0) && (
+          <Alert
+            type={errors.length > 0 ? 'error' : 'warning'}
+            showIcon
+            title={`검증 오류 ${errors.length}건 · 경고 ${warnings.length}건${errors.length > 0 ? ' — 병합 모드에서는 오류 항목을 제외하고 가져옵니다.' : ''}`}
+            description={
+              <List
+                size="small"
+                dataSource={[...errors, ...warnings].slice(0, MAX_ISSUES)}
+                style={{ maxHeight: 200, overflowY: 'auto' }}
+                renderItem={(issue) => (
+                  <List.Item style={{ padding: '2px 0' }}>
+                    <Space size={8}>
+                      <Tag color={issue.level === 'error' ? 'red' : 'gold'}>{issue.level === 'error' ? '오류' : '경고'}</Tag>
+                      <Text code style={{ fontSize: 11 }}>{issue.path}</Text>
+                      <Text style={{ fontSize: 12 }}>{issue.message}</Text>
+                    </Space>
+                  </List.Item>
+                )}
+              />
+            }
+          />
+        )}
+
+        {plan && (
+          <>
+            <Space size={16} wrap>
+              <Segmented<ImportMode>
+                value={mode}
+                onChange={setMode}
+                options={[
+                  { value: 'merge',   label: '병합 (덮어쓰기 + 추가)' },
+                  { value: 'replace', label: '교체 (파일 내용으로 대체)' },
+                ]}
+              />
+              <KeyChangeTags label="복합 태그" count={plan.compoundTags} />
+              <KeyChangeTags label="카테고리" count={plan.tagCategories} />
+            </Space>
+            {blockedByErrors && (
+              <Alert
+                type="error"
+                showIcon
+                title={`교체 모드에서는 검증 오류 항목 ${errors.length}건이 현재 편집본에서 삭제됩니다.`}
+                description="파일의 오류를 고치거나 병합 모드로 가져오세요."
+              />
+            )}
+            {mode === 'replace' && (
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                파일에 포함된 섹션(규칙 / 태그 / 복합 태그 / 카테고리)만 교체되고, 없는 섹션은 현재 상태를 유지합니다.
+              </Text>
+            )}
+            {hasChanges
+              ? <DiffViewer diff={plan.diff} source={{ from: '현재 편집본', to: fileName ?? '가져올 파일' }} />
+              : <Empty description="현재 편집본과 달라지는 내용이 없습니다." />}
+          </>
+        )}
+      </Space>
+    </Modal>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * src/components/rules/JavaCodeEditor.tsx
+ *
+ * Java 코드 예시 입력용 Monaco 에디터.
+ * RuleEditPage의 problematicCode / fixedCode 편집과
+ * 패턴 플레이그라운드의 샘플 코드 입력에 공통으로 사용합니다.
+ *
+ * highlights가 주어지면 해당 구간을 Monaco 데코레이션으로 표시합니다.
+ *   - anti : 빨간 배경 (.pattern-match-anti)
+ *   - good : 초록 배경 (.pattern-match-good)
+ */
+import { useEffect, useRef, useState } from 'react';
+import { Tag, Typography } from 'antd';
+import Editor, { type OnMount } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import type { CodeHighlight } from '@/utils/patternTest';
+
+const { Text } = Typography;
+
+// Monaco Java 에디터 공통 옵션
+const MONACO_JAVA_OPTIONS = {
+  minimap:              { enabled: false },
+  fontSize:             12,
+  tabSize:              4,
+  wordWrap:             'on'   as const,
+  scrollBeyondLastLine: false,
+  automaticLayout:      true,
+  lineNumbers:          'on'   as const,
+  folding:              false,
+  renderLineHighlight:  'none' as const,
+  scrollbar:            { vertical: 'auto' as const, horizontal: 'auto' as const },
+};
+
+interface JavaCodeEditorProps {
+  label:       string;
+  value:       string;
+  onChange:    (v: string) => void;
+  placeholder: string;
+  /** 에디터 높이 (기본 180px) */
+  height?:     number;
+  /** 패턴 매칭 하이라이트 구간 */
+  highlights?: CodeHighlight[];
+}
+
+export default function JavaCodeEditor({
+  label,
+  value,
+  onChange,
+  placeholder,
+  height = 180,
+  highlights,
+}: JavaCodeEditorProps) {
+  const [instance, setInstance] = useState<editor.IStandaloneCodeEditor | null>(null);
+  const collectionRef           = useRef<editor.IEditorDecorationsCollection | null>(null);
+
+  const handleMount: OnMount = (ed) => {
+    collectionRef.current = ed.createDecorationsCollection();
+    setInstance(ed);
+  };
+
+  // highlights / value 변경 시 데코레이션 갱신
+  useEffect(() => {
+    const model = instance?.getModel();
+    if (!model || !collectionRef.current) return;
+
+    const decorations = (highlights ?? [])
+      .filter((h) => h.end > h.start)
+      .map((h) => {
+        const start = model.getPositionAt(h.start);
+        const end   = model.getPositionAt(h.end);
+        return {
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn:     start.column,
+            endLineNumber:   end.lineNumber,
+            endColumn:       end.column,
+          },
+          options: {
+            inlineClassName: h.kind === 'anti' ? 'pattern-match-anti' : 'pattern-match-good',
+            hoverMessage:    { value: h.label },
+          },
+        };
+      });
+
+    collectionRef.current.set(decorations);
+  }, [instance, highlights, value]);
+
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+        <Text style={{ fontSize: 13 }}>{label}</Text>
+        <Tag color="orange" style={{ margin: 0, fontSize: 11 }}>Java</Tag>
+      </div>
+      <div
+        style={{
+          border:       '1px solid #d9d9d9',
+          borderRadius: 6,
+          overflow:     'hidden',
+          minHeight:    height,
+          position:     'relative',
+        }}
+      >
+        {value === '' && (
+          <div
+            style={{
+              position:      'absolute',
+              top:           10,
+              left:          60,
+              color:         '#bfbfbf',
+              fontSize:      12,
+              fontFamily:    'monospace',
+              pointerEvents: 'none',
+              zIndex:        1,
+            }}
+          >
+            {placeholder}
+          </div>
+        )}
+        <Editor
+          height={`${height}px`}
+          language="java"
+          value={value}
+          onChange={(v) => onChange(v ?? '')}
+          onMount={handleMount}
+          options={MONACO_JAVA_OPTIONS}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * src/components/rules/PatternPlayground.tsx
+ *
+ * 패턴 플레이그라운드 (RuleEditPage 코드 예시 카드의 사이드 패널).
+ * antiPatterns / goodPatterns를 problematicCode, fixedCode, 임의 샘플 코드에 실행한
+ * 결과(testPatterns)를 패턴별로 보여줍니다.
+ *
+ * - 컴파일 오류(잘못된 정규식 / flags) → 빨간 경고
+ * - anti 패턴이 fixedCode에 매칭, good 패턴이 fixedCode에 미매칭 → 주황 경고
+ * - 대상별 매칭 수 표시, 매칭 텍스트 미리보기
+ *
+ * 검사 결과와 하이라이트 계산은 부모(RuleEditPage)가 담당합니다.
+ * 같은 결과로 Monaco 에디터 하이라이트도 그리기 때문입니다.
+ * 부모는 Worker에서 시간 제한을 두고 검사하고(usePatternTest), 막 추가한 빈 패턴 행은 오류 대신 입력 안내로 넘깁니다.
+ */
+import { Alert, Badge, Card, Empty, Space, Tag, Tooltip, Typography } from 'antd';
+import {
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+  ExperimentOutlined,
+  WarningOutlined,
+} from '@ant-design/icons';
+import JavaCodeEditor from '@/components/rules/JavaCodeEditor';
+import {
+  PATTERN_TARGET_LABELS,
+  type CodeHighlight,
+  type PatternTarget,
+  type PatternTestResult,
+} from '@/utils/patternTest';
+
+const { Text } = Typography;
+
+const TARGETS: PatternTarget[] = ['problematicCode', 'fixedCode', 'sample'];
+
+/** 매칭 텍스트 미리보기 최대 길이 */
+const PREVIEW_LENGTH = 60;
+
+interface PatternPlaygroundProps {
+  results:        PatternTestResult[];
+  sampleCode:     string;
+  /** 샘플 코드 하이라이트 (검사한 코드가 현재 sampleCode와 같을 때만 부모가 채움) */
+  sampleHighlights: CodeHighlight[];
+  onSampleChange: (v: string) => void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 패턴 1개 결과 카드
+// ─────────────────────────────────────────────────────────────────────────────
+
+function ResultItem({ result }: { result: PatternTestResult }) {
+  const isAnti   = result.kind === 'anti';
+  const hasError = result.error !== null;
+  const firstHit = TARGETS.flatMap((t) => result.matches[t])[0];
+
+  return (
+    <Card
+      size="small"
+      style={{
+        marginBottom: 8,
+        borderLeft:   `3px solid ${hasError ? '#ff4d4f' : isAnti ? '#fa541c' : '#52c41a'}`,
+      }}
+      styles={{ body: { padding: '8px 12px' } }}
+    >
+      <Space size={6} wrap style={{ marginBottom: 4 }}>
+        <Tag color={isAnti ? 'volcano' : 'green'} style={{ fontSize: 11, margin: 0 }}>
+          {isAnti ? '안티' : '올바른'} #{result.index + 1}
+        </Tag>
+        <Text code style={{ fontSize: 11, wordBreak: 'break-all' }}>
+          /{result.pattern || '(빈 패턴)'}/{result.flags}
+        </Text>
+      </Space>
+
+      {!hasError && (
+        <Space size={4} wrap style={{ display: 'flex', marginBottom: 4 }}>
+          {TARGETS.map((t) => {
+            const count = result.matches[t].length;
+            return (
+              <Tag key={t} color={count > 0 ? 'blue' : 'default'} style={{ fontSize: 11, margin: 0 }}>
+                {PATTERN_TARGET_LABELS[t]} {count}건
+              </Tag>
+            );
+          })}
+        </Space>
+      )}
+
+      {firstHit && (
+        <Text type="secondary" style={{ fontSize: 11, display: 'block' }}>
+          첫 매칭:{' '}
+          <Text code style={{ fontSize: 11 }}>
+            {firstHit.text.length > PREVIEW_LENGTH
+              ? `${firstHit.text.slice(0, PREVIEW_LENGTH)}…`
+              : firstHit.text || '(빈 문자열)'}
+          </Text>
+        </Text>
+      )}
+
+      {result.warnings.map((w, i) => (
+        <Text
+          key={i}
+          type={w.level === 'error' ? 'danger' : w.level === 'warning' ? 'warning' : 'secondary'}
+          style={{ fontSize: 11, display: 'block', marginTop: 2 }}
+        >
+          {w.level === 'error'   && <CloseCircleOutlined style={{ marginRight: 4 }} />}
+          {w.level === 'warning' && <WarningOutlined style={{ marginRight: 4 }} />}
+          {w.message}
+        </Text>
+      ))}
+
+      {!hasError && result.warnings.length === 0 && (
+        <Text type="success" style={{ fontSize: 11, display: 'block' }}>
+          <CheckCircleOutlined style={{ marginRight: 4 }} />
+          문제 없음
+        </Text>
+      )}
+    </Card>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 메인 컴포넌트
+// ─────────────────────────────────────────────────────────────────────────────
+
+export default function PatternPlayground({
+  results,
+  sampleCode,
+  sampleHighlights,
+  onSampleChange,
+}: PatternPlaygroundProps) {
+  const errorCount   = results.filter((r) => r.error !== null).length;
+  const warningCount = results.filter((r) => r.warnings.some((w) => w.level === 'warning')).length;
+
+  return (
+    <Card
+      size="small"
+      title={
+        <Space>
+          <ExperimentOutlined />
+          패턴 플레이그라운드
+        </Space>
+      }
+      extra={
+        <Space size={8}>
+          <Tooltip title="컴파일 오류">
+            <Badge count={errorCount} showZero color={errorCount > 0 ? 'red' : '#d9d9d9'} />
+          </Tooltip>
+          <Tooltip title="경고가 있는 패턴">
+            <Badge count={warningCount} showZero color={warningCount > 0 ? 'orange' : '#d9d9d9'} />
+          </Tooltip>
+        </Space>
+      }
+      style={{ background: '#fcfcfc' }}
+    >
+      {errorCount > 0 && (
+        <Alert
+          type="error"
+          showIcon
+          title={`${errorCount}개 패턴에 오류가 있습니다 (컴파일 실패 / 검사 시간 초과). Push 전에 수정하세요.`}
+          style={{ marginBottom: 8 }}
+        />
+      )}
+
+      <div style={{ maxHeight: 420, overflowY: 'auto', marginBottom: 12 }}>
+        {results.length === 0 ? (
+          <Empty
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+            description="안티 패턴 / 올바른 패턴을 추가하면 결과가 표시됩니다."
+          />
+        ) : (
+          results.map((r) => <ResultItem key={`${r.kind}-${r.index}`} result={r} />)
+        )}
+      </div>
+
+      <JavaCodeEditor
+        label="샘플 코드 (임의 Java 스니펫)"
+        value={sampleCode}
+        onChange={onSampleChange}
+        placeholder="// 패턴을 시험할 Java 코드를 붙여넣으세요"
+        height={200}
+        highlights={sampleHighlights}
+      />
+    </Card>
+  );
+}
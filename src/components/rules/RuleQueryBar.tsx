@@ -0,0 +1,221 @@
+/**
+ * src/components/rules/RuleQueryBar.tsx
+ *
+ * RulesPage 검색 쿼리 입력창.
+ * - ruleQuery 문법 자동완성 (필드 이름 → 규칙에 실제로 있는 값)
+ * - 문법 도움말 팝오버
+ * - 이름 붙인 프리셋 저장 / 불러오기 / 삭제 (IndexedDB 'filterPresets')
+ * - 잘못된 항목은 입력창 아래에 표시 (나머지 조건은 그대로 적용)
+ */
+import { useEffect, useMemo, useState } from 'react';
+import { AutoComplete, Button, Dropdown, Input, Modal, Popover, Space, Typography } from 'antd';
+import type { MenuProps } from 'antd';
+import {
+  DeleteOutlined,
+  QuestionCircleOutlined,
+  SaveOutlined,
+  SearchOutlined,
+  StarOutlined,
+} from '@ant-design/icons';
+import { useUiStore } from '@/stores/uiStore';
+import {
+  deleteFilterPreset,
+  listFilterPresets,
+  saveFilterPreset,
+  type FilterPreset,
+} from '@/storage/idbStorage';
+import type { Rule } from '@/types/rule';
+import { HAS_FIELDS, QUERY_FIELDS, suggestRuleQuery, type QueryError } from '@/utils/ruleQuery';
+
+const { Text } = Typography;
+
+interface RuleQueryBarProps {
+  value:    string;
+  onChange: (query: string) => void;
+  /** 자동완성 값 후보를 모을 규칙 목록 */
+  rules:    Rule[];
+  errors:   QueryError[];
+}
+
+const EXAMPLES = [
+  ['severity:CRITICAL,HIGH',           '심각도가 CRITICAL 또는 HIGH'],
+  ['tag:USES_CONNECTION',              '필수 · 제외 태그나 조건식에서 태그 참조'],
+  ['-tag:HAS_TRY_WITH_RESOURCES',      '앞에 - 를 붙이면 제외'],
+  ['checkType:llm_*',                  '* 와일드카드'],
+  ['keywords:"SQL Injection"',         '공백이 있는 값은 따옴표'],
+  ['level:>=2',                        '숫자 비교 (level)'],
+  ['has:antiPatterns',                 '값이 있는 규칙'],
+  ['is:inactive',                      '비활성 규칙'],
+  ['커넥션',                           '필드 없이 입력하면 ID / 제목 / 설명 검색'],
+] as const;
+
+function QueryHelp() {
+  return (
+    <Space direction="vertical" size={6} style={{ maxWidth: 420 }}>
+      <Text type="secondary" style={{ fontSize: 12 }}>
+        공백으로 구분한 조건은 모두 만족해야 하고, 쉼표로 나열한 값은 하나만 맞으면 됩니다.
+      </Text>
+      {EXAMPLES.map(([example, desc]) => (
+        <div key={example} style={{ fontSize: 12 }}>
+          <Text code>{example}</Text> <Text type="secondary">{desc}</Text>
+        </div>
+      ))}
+      <Text type="secondary" style={{ fontSize: 12 }}>
+        필드: {Object.keys(QUERY_FIELDS).join(', ')}
+      </Text>
+      <Text type="secondary" style={{ fontSize: 12 }}>
+        has: {Object.keys(HAS_FIELDS).join(', ')}
+      </Text>
+    </Space>
+  );
+}
+
+export default function RuleQueryBar({ value, onChange, rules, errors }: RuleQueryBarProps) {
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+  const notifyError   = useUiStore((s) => s.notifyError);
+
+  const [presets, setPresets]       = useState<FilterPreset[]>([]);
+  const [saveOpen, setSaveOpen]     = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  useEffect(() => {
+    listFilterPresets().then(setPresets);
+  }, []);
+
+  const options = useMemo(
+    () =>
+      suggestRuleQuery(value, rules).map((s) => ({
+        value: s.value,
+        label: (
+          <Space size={8}>
+            <Text style={{ fontSize: 13 }}>{s.label}</Text>
+            {s.hint && <Text type="secondary" style={{ fontSize: 12 }}>{s.hint}</Text>}
+          </Space>
+        ),
+      })),
+    [value, rules],
+  );
+
+  const handleSave = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    try {
+      await saveFilterPreset({ name, query: value, updatedAt: new Date().toISOString() });
+      setPresets(await listFilterPresets());
+      setSaveOpen(false);
+      notifySuccess('프리셋 저장', `"${name}" 검색 조건을 저장했습니다.`);
+    } catch (err) {
+      notifyError('프리셋 저장 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    try {
+      await deleteFilterPreset(name);
+      setPresets((prev) => prev.filter((p) => p.name !== name));
+    } catch (err) {
+      notifyError('프리셋 삭제 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const presetMenu: MenuProps = {
+    items: [
+      ...presets.map((p) => ({
+        key: p.name,
+        label: (
+          <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+            <span>
+              {p.name} <Text type="secondary" style={{ fontSize: 12 }}>{p.query}</Text>
+            </span>
+            <DeleteOutlined
+              style={{ color: '#bfbfbf' }}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete(p.name);
+              }}
+            />
+          </Space>
+        ),
+      })),
+      ...(presets.length > 0 ? [{ type: 'divider' as const }] : []),
+      {
+        key:      '__save',
+        icon:     <SaveOutlined />,
+        label:    '현재 검색 조건 저장…',
+        disabled: value.trim() === '',
+      },
+    ],
+    onClick: ({ key }) => {
+      if (key === '__save') {
+        setPresetName('');
+        setSaveOpen(true);
+        return;
+      }
+      const preset = presets.find((p) => p.name === key);
+      if (preset) onChange(preset.query);
+    },
+  };
+
+  return (
+    <>
+      <Space.Compact style={{ width: '100%' }}>
+        <AutoComplete
+          value={value}
+          options={options}
+          onChange={onChange}
+          filterOption={false}
+          style={{ width: '100%' }}
+        >
+          <Input
+            placeholder="severity:CRITICAL tag:USES_CONNECTION -has:antiPatterns 또는 검색어"
+            prefix={<SearchOutlined style={{ color: '#bfbfbf' }} />}
+            status={errors.length > 0 ? 'warning' : undefined}
+            allowClear
+          />
+        </AutoComplete>
+        <Popover trigger="click" placement="bottomRight" title="검색 문법" content={<QueryHelp />}>
+          <Button icon={<QuestionCircleOutlined />} />
+        </Popover>
+        <Dropdown menu={presetMenu} trigger={['click']} placement="bottomRight">
+          <Button icon={<StarOutlined />}>프리셋</Button>
+        </Dropdown>
+      </Space.Compact>
+
+      {errors.length > 0 && (
+        <div style={{ marginTop: 4 }}>
+          {errors.map((e) => (
+            <Text key={`${e.start}-${e.message}`} type="warning" style={{ display: 'block', fontSize: 12 }}>
+              {e.message}
+            </Text>
+          ))}
+        </div>
+      )}
+
+      <Modal
+        title="검색 프리셋 저장"
+        open={saveOpen}
+        onOk={handleSave}
+        onCancel={() => setSaveOpen(false)}
+        okText="저장"
+        cancelText="취소"
+        okButtonProps={{ disabled: !presetName.trim() }}
+        destroyOnHidden
+      >
+        <Space direction="vertical" style={{ width: '100%' }}>
+          <Input
+            autoFocus
+            placeholder="프리셋 이름"
+            value={presetName}
+            maxLength={40}
+            onChange={(e) => setPresetName(e.target.value)}
+            onPressEnter={handleSave}
+          />
+          <Text code style={{ fontSize: 12 }}>{value}</Text>
+          {presets.some((p) => p.name === presetName.trim()) && (
+            <Text type="warning" style={{ fontSize: 12 }}>같은 이름의 프리셋을 덮어씁니다.</Text>
+          )}
+        </Space>
+      </Modal>
+    </>
+  );
+}
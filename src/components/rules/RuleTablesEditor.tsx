@@ -0,0 +1,226 @@
+/**
+ * src/components/rules/RuleTablesEditor.tsx
+ *
+ * 규칙의 원문 표(Rule.tables) 보기 / 편집 (RuleEditPage "원문 표" 카드).
+ * Form.Item 안에 두면 value / onChange로 tables 필드와 연결됩니다.
+ *
+ * - 미리보기: 표는 markdown을 파싱해 실제 표로, 텍스트 상자는 본문 그대로 표시
+ * - 편집: 셀 그리드 편집기 (행 / 열 추가 · 삭제). 셀을 고칠 때마다 markdown / content / rows / cols 재생성
+ *   그리드는 편집을 시작할 때의 셀로 자체 상태를 가집니다 — markdown을 거쳐 다시 파싱하면
+ *   셀 끝 공백이 입력 도중 잘려 나가기 때문입니다.
+ */
+import { useState } from 'react';
+import { Button, Card, Empty, Input, Popconfirm, Segmented, Select, Space, Table, Tag, Tooltip, Typography } from 'antd';
+import { DeleteOutlined, EditOutlined, EyeOutlined, PlusOutlined } from '@ant-design/icons';
+import type { RuleTable } from '@/types/rule';
+import { buildRuleTable, staleTableIndexes, tableCells, type TableCells } from '@/utils/ruleTable';
+
+const { Text, Paragraph } = Typography;
+const { TextArea }        = Input;
+
+const TABLE_TYPE_LABELS: Record<RuleTable['type'], string> = {
+  table:   '표',
+  textbox: '텍스트 상자',
+};
+
+interface RuleTablesEditorProps {
+  value?:    RuleTable[];
+  onChange?: (tables: RuleTable[]) => void;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 미리보기
+// ─────────────────────────────────────────────────────────────────────────────
+
+function TablePreview({ table }: { table: RuleTable }) {
+  if (table.type === 'textbox') {
+    return (
+      <Paragraph style={{ whiteSpace: 'pre-wrap', marginBottom: 0 }}>
+        {table.content || <Text type="secondary">(비어 있음)</Text>}
+      </Paragraph>
+    );
+  }
+
+  const [header, ...body] = tableCells(table);
+  const cellStyle = { whiteSpace: 'pre-wrap' as const, fontSize: 12 };
+  return (
+    <Table<{ key: number; cells: string[] }>
+      size="small"
+      bordered
+      pagination={false}
+      scroll={{ x: 'max-content' }}
+      columns={header.map((title, c) => ({
+        key:    c,
+        title:  <span style={cellStyle}>{title}</span>,
+        render: (_, row) => <span style={cellStyle}>{row.cells[c]}</span>,
+      }))}
+      dataSource={body.map((cells, r) => ({ key: r, cells }))}
+    />
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 그리드 편집기
+// ─────────────────────────────────────────────────────────────────────────────
+
+function TableGridEditor({ table, onChange }: { table: RuleTable; onChange: (table: RuleTable) => void }) {
+  const [cells, setCells] = useState<TableCells>(() => tableCells(table));
+  const cols = cells[0]?.length ?? 0;
+
+  const commit = (next: TableCells) => {
+    setCells(next);
+    onChange(buildRuleTable('table', next));
+  };
+
+  const setCell = (r: number, c: number, text: string) =>
+    commit(cells.map((row, i) => (i === r ? row.map((cell, j) => (j === c ? text : cell)) : row)));
+  const addRow    = () => commit([...cells, Array<string>(cols).fill('')]);
+  const addCol    = () => commit(cells.map((row) => [...row, '']));
+  const removeRow = (r: number) => commit(cells.filter((_, i) => i !== r));
+  const removeCol = (c: number) => commit(cells.map((row) => row.filter((_, j) => j !== c)));
+
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table style={{ borderCollapse: 'collapse' }}>
+        <tbody>
+          <tr>
+            {cells[0]?.map((_, c) => (
+              <td key={c} style={{ textAlign: 'center' }}>
+                <Tooltip title={`${c + 1}열 삭제`}>
+                  <Button type="text" size="small" icon={<DeleteOutlined />} disabled={cols <= 1} onClick={() => removeCol(c)} />
+                </Tooltip>
+              </td>
+            ))}
+            <td />
+          </tr>
+          {cells.map((row, r) => (
+            <tr key={r}>
+              {row.map((cell, c) => (
+                <td key={c} style={{ padding: 2, minWidth: 140, verticalAlign: 'top' }}>
+                  <TextArea
+                    value={cell}
+                    onChange={(e) => setCell(r, c, e.target.value)}
+                    autoSize={{ minRows: 1, maxRows: 6 }}
+                    style={{ fontSize: 12, fontWeight: r === 0 ? 600 : undefined, background: r === 0 ? '#fafafa' : undefined }}
+                  />
+                </td>
+              ))}
+              <td style={{ verticalAlign: 'top' }}>
+                <Tooltip title={r === 0 ? '머리글 행 삭제' : `${r + 1}행 삭제`}>
+                  <Button type="text" size="small" icon={<DeleteOutlined />} disabled={cells.length <= 1} onClick={() => removeRow(r)} />
+                </Tooltip>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <Space style={{ marginTop: 8 }}>
+        <Button size="small" icon={<PlusOutlined />} onClick={addRow}>행 추가</Button>
+        <Button size="small" icon={<PlusOutlined />} onClick={addCol}>열 추가</Button>
+        <Text type="secondary" style={{ fontSize: 12 }}>첫 행은 머리글입니다.</Text>
+      </Space>
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 메인 컴포넌트
+// ─────────────────────────────────────────────────────────────────────────────
+
+export default function RuleTablesEditor({ value = [], onChange }: RuleTablesEditorProps) {
+  const [editing, setEditing] = useState<ReadonlySet<number>>(new Set());
+  const stale = staleTableIndexes(value);
+
+  const update = (index: number, table: RuleTable) =>
+    onChange?.(value.map((t, i) => (i === index ? table : t)));
+
+  const toggleEditing = (index: number, on: boolean) => {
+    const next = new Set(editing);
+    if (on) next.add(index);
+    else next.delete(index);
+    setEditing(next);
+  };
+
+  const remove = (index: number) => {
+    onChange?.(value.filter((_, i) => i !== index));
+    // 뒤쪽 표의 번호가 당겨지므로 편집 상태는 모두 닫음
+    setEditing(new Set());
+  };
+
+  const add = (type: RuleTable['type']) => {
+    onChange?.([...value, buildRuleTable(type, type === 'table' ? [['', ''], ['', '']] : [['']])]);
+    toggleEditing(value.length, true);
+  };
+
+  const changeType = (index: number, type: RuleTable['type']) => {
+    const cells = tableCells(value[index]);
+    update(index, buildRuleTable(type, type === 'textbox' ? [[cells.map((r) => r.join(' | ')).join('\n')]] : [[value[index].content]]));
+    toggleEditing(index, false);
+  };
+
+  return (
+    <Space direction="vertical" style={{ width: '100%' }}>
+      {value.length === 0 && (
+        <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="원문에서 추출한 표가 없습니다." />
+      )}
+
+      {value.map((table, i) => (
+        <Card
+          key={i}
+          size="small"
+          title={
+            <Space size={6}>
+              <Text>#{i + 1}</Text>
+              <Select
+                size="small"
+                value={table.type}
+                onChange={(t: RuleTable['type']) => changeType(i, t)}
+                options={(Object.keys(TABLE_TYPE_LABELS) as RuleTable['type'][]).map((t) => ({ value: t, label: TABLE_TYPE_LABELS[t] }))}
+                style={{ width: 110 }}
+              />
+              {table.type === 'table' && <Tag>{table.rows} × {table.cols}</Tag>}
+              {stale.includes(i) && (
+                <Tooltip title="저장된 rows / cols가 markdown과 다릅니다. 셀을 편집하면 다시 계산됩니다.">
+                  <Tag color="warning">크기 불일치</Tag>
+                </Tooltip>
+              )}
+            </Space>
+          }
+          extra={
+            <Space size={4}>
+              <Segmented
+                size="small"
+                value={editing.has(i) ? 'edit' : 'view'}
+                onChange={(v) => toggleEditing(i, v === 'edit')}
+                options={[
+                  { value: 'view', icon: <EyeOutlined />,  label: '미리보기' },
+                  { value: 'edit', icon: <EditOutlined />, label: '편집' },
+                ]}
+              />
+              <Popconfirm title="이 표를 삭제하시겠습니까?" onConfirm={() => remove(i)} okText="삭제" cancelText="취소">
+                <Button type="text" size="small" danger icon={<DeleteOutlined />} />
+              </Popconfirm>
+            </Space>
+          }
+        >
+          {!editing.has(i) ? (
+            <TablePreview table={table} />
+          ) : table.type === 'textbox' ? (
+            <TextArea
+              value={table.content}
+              onChange={(e) => update(i, buildRuleTable('textbox', [[e.target.value]]))}
+              autoSize={{ minRows: 3, maxRows: 12 }}
+            />
+          ) : (
+            <TableGridEditor table={table} onChange={(t) => update(i, t)} />
+          )}
+        </Card>
+      ))}
+
+      <Space>
+        <Button size="small" icon={<PlusOutlined />} onClick={() => add('table')}>표 추가</Button>
+        <Button size="small" icon={<PlusOutlined />} onClick={() => add('textbox')}>텍스트 상자 추가</Button>
+      </Space>
+    </Space>
+  );
+}
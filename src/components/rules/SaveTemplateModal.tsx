@@ -0,0 +1,108 @@
+/**
+ * src/components/rules/SaveTemplateModal.tsx
+ *
+ * 편집 중인 규칙을 새 규칙 템플릿으로 저장하는 다이얼로그 (RuleEditPage).
+ * 출처 / 분류 / 검사 타입 / 태그 / 패턴 등 TEMPLATE_FIELDS만 저장하며,
+ * RulesPage의 "새 규칙" 메뉴에서 골라 새 규칙 폼을 미리 채울 수 있습니다.
+ */
+import { useState } from 'react';
+import { Descriptions, Form, Input, Modal, Typography } from 'antd';
+import { useUiStore } from '@/stores/uiStore';
+import { listRuleTemplates, saveRuleTemplate } from '@/storage/idbStorage';
+import type { Rule } from '@/types/rule';
+import { RULE_CATEGORY_LABELS, RULE_CHECK_TYPE_LABELS } from '@/types/rule';
+import { ruleToTemplateFields } from '@/utils/ruleDraft';
+
+const { Text } = Typography;
+
+interface SaveTemplateModalProps {
+  open:    boolean;
+  /** 저장할 규칙 (다이얼로그를 열 때의 편집 내용) */
+  rule:    Rule | null;
+  onClose: () => void;
+}
+
+interface TemplateForm {
+  name:        string;
+  description: string;
+}
+
+export default function SaveTemplateModal({ open, rule, onClose }: SaveTemplateModalProps) {
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+  const notifyError   = useUiStore((s) => s.notifyError);
+
+  const [form]                    = Form.useForm<TemplateForm>();
+  const [existing, setExisting]   = useState<string[]>([]);
+  const [saving, setSaving]       = useState(false);
+  const name = (Form.useWatch('name', form) as string | undefined)?.trim() ?? '';
+
+  const handleSave = async () => {
+    if (!rule) return;
+    const values = await form.validateFields();
+    setSaving(true);
+    try {
+      await saveRuleTemplate({
+        name:        values.name.trim(),
+        description: values.description?.trim() ?? '',
+        fields:      ruleToTemplateFields(rule),
+        updatedAt:   new Date().toISOString(),
+      });
+      notifySuccess('템플릿 저장', `"${values.name.trim()}" 템플릿을 저장했습니다.`);
+      onClose();
+    } catch (err) {
+      notifyError('템플릿 저장 실패', err instanceof Error ? err.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="템플릿으로 저장"
+      open={open}
+      onOk={handleSave}
+      onCancel={onClose}
+      okText="저장"
+      cancelText="취소"
+      confirmLoading={saving}
+      afterOpenChange={(visible) => {
+        if (!visible) return;
+        form.resetFields();
+        listRuleTemplates().then((list) => setExisting(list.map((t) => t.name)));
+      }}
+      destroyOnHidden
+    >
+      <Form form={form} layout="vertical" preserve={false}>
+        <Form.Item
+          name="name"
+          label="템플릿 이름"
+          rules={[{ required: true, whitespace: true, message: '이름을 입력해주세요.' }]}
+          extra={existing.includes(name) && <Text type="warning">같은 이름의 템플릿을 덮어씁니다.</Text>}
+        >
+          <Input placeholder="예: JDBC 리소스 규칙" maxLength={40} />
+        </Form.Item>
+        <Form.Item name="description" label="설명">
+          <Input placeholder="예: Connection / Statement 미반납 검사용 기본값" maxLength={100} />
+        </Form.Item>
+      </Form>
+
+      {rule && (
+        <Descriptions size="small" column={1} bordered title={<Text style={{ fontSize: 13 }}>저장되는 값</Text>}>
+          <Descriptions.Item label="출처">
+            {[rule.sourcePrefix, rule.source, rule.sourceFile].filter(Boolean).join(' · ') || '—'}
+          </Descriptions.Item>
+          <Descriptions.Item label="분류">
+            {RULE_CATEGORY_LABELS[rule.category]} · {rule.severity} · {RULE_CHECK_TYPE_LABELS[rule.checkType]}
+          </Descriptions.Item>
+          <Descriptions.Item label="태그">
+            필수 {rule.requiredTags.length}개 · 제외 {rule.excludeTags.length}개
+            {rule.tagCondition && <> · 조건식 <Text code>{rule.tagCondition}</Text></>}
+          </Descriptions.Item>
+          <Descriptions.Item label="패턴">
+            안티 {rule.antiPatterns.length}개 · 올바른 {rule.goodPatterns.length}개 · 키워드 {rule.keywords.length}개
+          </Descriptions.Item>
+        </Descriptions>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * src/components/rules/TagConditionPreview.tsx
+ *
+ * tagCondition 입력란 아래에 표시되는 조건식 검사 결과.
+ *
+ * - 구문 오류 → 오류 위치를 빨간 배경으로 표시 + 메시지
+ * - 미정의 태그 (tags.tags / tags.compoundTags에 없음) → 빨간 물결 밑줄
+ * - 정규화 결과가 원문과 다르면 "정리" 버튼 노출
+ */
+import { useMemo, type ReactNode } from 'react';
+import { Button, Space, Tooltip, Typography } from 'antd';
+import { CheckCircleOutlined, CloseCircleOutlined, WarningOutlined } from '@ant-design/icons';
+import {
+  findUnknownTagRefs,
+  parseTagExpression,
+  printTagExpression,
+} from '@/utils/tagExpression';
+
+const { Text } = Typography;
+
+interface TagConditionPreviewProps {
+  value:      string;
+  /** 정의된 태그 + 복합 태그 이름 */
+  knownTags:  ReadonlySet<string>;
+  /** "정리" 클릭 시 정규화된 조건식 전달 */
+  onFormat:   (formatted: string) => void;
+}
+
+interface Segment {
+  start: number;
+  end:   number;
+  kind:  'unknown' | 'error';
+  title: string;
+}
+
+/** 원문을 segments 기준으로 잘라 강조 표시 */
+function renderSegments(source: string, segments: Segment[]): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+  segments.forEach((seg, i) => {
+    if (seg.start > cursor) nodes.push(source.slice(cursor, seg.start));
+    // 식의 끝 오류는 원문에 글자가 없으므로 빈 칸을 표시
+    const text = source.slice(seg.start, seg.end) || ' ';
+    nodes.push(
+      <Tooltip key={i} title={seg.title}>
+        <span
+          style={
+            seg.kind === 'error'
+              ? { background: '#ffccc7', borderRadius: 2 }
+              : { textDecoration: 'underline wavy #ff4d4f', textUnderlineOffset: 3 }
+          }
+        >
+          {text}
+        </span>
+      </Tooltip>,
+    );
+    cursor = Math.max(cursor, seg.end);
+  });
+  if (cursor < source.length) nodes.push(source.slice(cursor));
+  return nodes;
+}
+
+export default function TagConditionPreview({ value, knownTags, onFormat }: TagConditionPreviewProps) {
+  const check = useMemo(() => {
+    const parsed = parseTagExpression(value);
+    if (!parsed.ok) {
+      return {
+        error:     parsed.error.message,
+        unknown:   [] as string[],
+        formatted: value,
+        segments:  [{ ...parsed.error, kind: 'error', title: parsed.error.message }] as Segment[],
+      };
+    }
+    const unknownRefs = findUnknownTagRefs(parsed.ast, knownTags);
+    return {
+      error:     null,
+      unknown:   [...new Set(unknownRefs.map((r) => r.name))],
+      formatted: printTagExpression(parsed.ast),
+      segments:  unknownRefs.map((r): Segment => ({
+        start: r.start,
+        end:   r.end,
+        kind:  'unknown',
+        title: `정의되지 않은 태그: ${r.name}`,
+      })),
+    };
+  }, [value, knownTags]);
+
+  if (value.trim() === '') return null;
+
+  const canFormat = check.error === null && check.formatted !== value;
+
+  return (
+    <div
+      style={{
+        border:       `1px solid ${check.error ? '#ffa39e' : check.unknown.length > 0 ? '#ffd591' : '#f0f0f0'}`,
+        borderRadius: 6,
+        padding:      '6px 10px',
+        marginBottom: 8,
+        background:   '#fff',
+      }}
+    >
+      <div style={{ fontFamily: 'monospace', fontSize: 12, whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+        {renderSegments(value, check.segments)}
+      </div>
+      <Space size={8} wrap style={{ marginTop: 4 }}>
+        {check.error ? (
+          <Text type="danger" style={{ fontSize: 11 }}>
+            <CloseCircleOutlined style={{ marginRight: 4 }} />
+            구문 오류 ({check.segments[0].start + 1}번째 글자): {check.error}
+          </Text>
+        ) : check.unknown.length > 0 ? (
+          <Text type="warning" style={{ fontSize: 11 }}>
+            <WarningOutlined style={{ marginRight: 4 }} />
+            정의되지 않은 태그 {check.unknown.length}개: {check.unknown.join(', ')}
+          </Text>
+        ) : (
+          <Text type="success" style={{ fontSize: 11 }}>
+            <CheckCircleOutlined style={{ marginRight: 4 }} />
+            올바른 조건식
+          </Text>
+        )}
+        {canFormat && (
+          <Tooltip title={check.formatted}>
+            <Button
+              size="small"
+              type="link"
+              style={{ fontSize: 11, padding: 0, height: 'auto' }}
+              onClick={() => onFormat(check.formatted)}
+            >
+              정리
+            </Button>
+          </Tooltip>
+        )}
+      </Space>
+    </div>
+  );
+}
@@ -8,18 +8,28 @@
  * - modified: 노란 배경 + 필드별 before/after
  * - deleted : 빨간 배경
  * - hasConflict: 경고 배너
+ * - source     : 로컬 스냅샷 비교(localDiff) 결과일 때 버전 카드 제목을 비교 대상 이름으로 표시
+ * - section    : 전체 / 규칙 / 태그 중 표시할 섹션. section + onSectionChange를 넘기면
+ *                호출 측(SyncPage는 URL)에서 관리하고, 없으면 내부 상태로 관리
+ * - selection  : 선택 Push 모드. 넘기면 추가 / 수정 / 삭제 항목마다 체크박스와 섹션별 전체 선택 표시
+ * - onRevert   : 넘기면 항목마다 "서버 버전으로 되돌리기" 버튼 (추가 → 제거, 삭제 → 복원),
+ *                onRevertField를 넘기면 수정된 규칙의 필드별 되돌리기 버튼도 표시
  */
 import { useState } from 'react';
 import {
   Alert,
   Badge,
+  Button,
   Card,
+  Checkbox,
   Col,
   Collapse,
   Row,
+  Segmented,
   Space,
   Table,
   Tag,
+  Tooltip,
   Typography,
 } from 'antd';
 import type { ColumnsType } from 'antd/es/table';
@@ -29,12 +39,16 @@ import {
   DeleteOutlined,
   WarningOutlined,
   CheckCircleOutlined,
+  RollbackOutlined,
 } from '@ant-design/icons';
 import type { DiffResponse, RuleDiffModified } from '@/types/api';
 import type { TagDiffModified } from '@/types/tag';
+import type { PushSelection } from '@/utils/selectivePush';
+import type { RevertTarget } from '@/utils/revertChanges';
 import {
   RULE_SEVERITY_COLORS,
   RULE_CATEGORY_LABELS,
+  type Rule,
 } from '@/types/rule';
 
 const { Text, Title } = Typography;
@@ -71,17 +85,80 @@ function SummaryBadges({ added, modified, deleted, unchanged }: SummaryBadgesPro
   );
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 선택 Push 체크박스
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SelectableProps {
+  /** 선택된 ruleId / 태그 이름. 없으면 체크박스를 표시하지 않음 */
+  selected?: ReadonlySet<string>;
+  onToggle?: (keys: string[], checked: boolean) => void;
+}
+
+function SelectBox({ id, selected, onToggle }: SelectableProps & { id: string }) {
+  if (!selected || !onToggle) return null;
+  return (
+    <Checkbox
+      checked={selected.has(id)}
+      // Collapse 머리글 안에서도 펼침 / 접힘이 같이 일어나지 않도록
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => onToggle([id], e.target.checked)}
+    />
+  );
+}
+
+function SelectAll({ ids, selected, onToggle }: SelectableProps & { ids: string[] }) {
+  if (!selected || !onToggle || ids.length === 0) return null;
+  const count = ids.filter((id) => selected.has(id)).length;
+  return (
+    <Checkbox
+      checked={count === ids.length}
+      indeterminate={count > 0 && count < ids.length}
+      onChange={(e) => onToggle(ids, e.target.checked)}
+    >
+      <Text style={{ fontSize: 12 }}>Push할 항목 {count} / {ids.length}</Text>
+    </Checkbox>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 되돌리기 버튼
+// ─────────────────────────────────────────────────────────────────────────────
+
+function RevertButton({ title, onClick }: { title: string; onClick?: () => void }) {
+  if (!onClick) return null;
+  return (
+    <Tooltip title={title}>
+      <Button
+        type="text"
+        size="small"
+        icon={<RollbackOutlined />}
+        onClick={(e) => {
+          e.stopPropagation();
+          onClick();
+        }}
+      />
+    </Tooltip>
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 필드별 변경 테이블 (modified 행 확장)
 // ─────────────────────────────────────────────────────────────────────────────
 
 interface FieldChange {
-  field: string;
+  field: keyof Rule;
   local: unknown;
   server: unknown;
 }
 
-function FieldChangesTable({ changes }: { changes: FieldChange[] }) {
+/** 배열 / 객체 필드는 JSON으로 표시 */
+function formatFieldValue(v: unknown): string {
+  if (v === undefined || v === null) return '(없음)';
+  return typeof v === 'object' ? JSON.stringify(v) : String(v);
+}
+
+function FieldChangesTable({ changes, onRevertField }: { changes: FieldChange[]; onRevertField?: (field: keyof Rule) => void }) {
   const columns: ColumnsType<FieldChange> = [
     {
       title: '필드',
@@ -94,7 +171,7 @@ function FieldChangesTable({ changes }: { changes: FieldChange[] }) {
       dataIndex: 'server',
       render: (v: unknown) => (
         <Text style={{ fontSize: 12, color: '#cf1322' }}>
-          {String(v ?? '(없음)')}
+          {formatFieldValue(v)}
         </Text>
       ),
     },
@@ -103,11 +180,18 @@ function FieldChangesTable({ changes }: { changes: FieldChange[] }) {
       dataIndex: 'local',
       render: (v: unknown) => (
         <Text style={{ fontSize: 12, color: '#389e0d' }}>
-          {String(v ?? '(없음)')}
+          {formatFieldValue(v)}
         </Text>
       ),
     },
   ];
+  if (onRevertField) {
+    columns.push({
+      key: 'revert',
+      width: 48,
+      render: (_, c) => <RevertButton title="이 필드만 되돌리기" onClick={() => onRevertField(c.field)} />,
+    });
+  }
 
   return (
     <Table<FieldChange>
@@ -124,13 +208,17 @@ function FieldChangesTable({ changes }: { changes: FieldChange[] }) {
 // 규칙 Diff 섹션
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface RuleDiffSectionProps {
+interface RuleDiffSectionProps extends SelectableProps {
   rules: DiffResponse['rules'];
+  onRevert?:      (ruleId: string) => void;
+  onRevertField?: (ruleId: string, field: keyof Rule) => void;
 }
 
-function RuleDiffSection({ rules }: RuleDiffSectionProps) {
+function RuleDiffSection({ rules, selected, onToggle, onRevert, onRevertField }: RuleDiffSectionProps) {
+  const revert = (ruleId: string) => (onRevert ? () => onRevert(ruleId) : undefined);
   const { added, modified, deleted, unchanged, summary } = rules;
   const hasChanges = summary.addedCount + summary.modifiedCount + summary.deletedCount > 0;
+  const changedIds = [...added, ...modified, ...deleted].map((r) => r.ruleId);
 
   return (
     <Card
@@ -145,6 +233,7 @@ function RuleDiffSection({ rules }: RuleDiffSectionProps) {
           />
         </Space>
       }
+      extra={<SelectAll ids={changedIds} selected={selected} onToggle={onToggle} />}
       size="small"
       style={{ marginBottom: 16 }}
     >
@@ -166,6 +255,7 @@ function RuleDiffSection({ rules }: RuleDiffSectionProps) {
           {added.map(({ ruleId, rule }) => (
             <div key={ruleId} style={{ ...ROW_STYLES.added, padding: '8px 12px', borderRadius: 4, marginBottom: 4 }}>
               <Space size={8} wrap>
+                <SelectBox id={ruleId} selected={selected} onToggle={onToggle} />
                 <Text code style={{ fontSize: 12 }}>{ruleId}</Text>
                 <Text style={{ fontSize: 13 }}>{rule.title}</Text>
                 {rule.severity && (
@@ -178,6 +268,7 @@ function RuleDiffSection({ rules }: RuleDiffSectionProps) {
                     {RULE_CATEGORY_LABELS[rule.category] ?? rule.category}
                   </Text>
                 )}
+                <RevertButton title="추가 취소 (로컬에서 제거)" onClick={revert(ruleId)} />
               </Space>
             </div>
           ))}
@@ -196,6 +287,7 @@ function RuleDiffSection({ rules }: RuleDiffSectionProps) {
               key: item.ruleId,
               label: (
                 <Space size={8} wrap style={{ ...ROW_STYLES.modified, padding: '2px 0' }}>
+                  <SelectBox id={item.ruleId} selected={selected} onToggle={onToggle} />
                   <Text code style={{ fontSize: 12 }}>{item.ruleId}</Text>
                   <Tag color="warning" style={{ fontSize: 11 }}>
                     {item.changes.length}개 필드 변경
@@ -203,9 +295,15 @@ function RuleDiffSection({ rules }: RuleDiffSectionProps) {
                   <Text type="secondary" style={{ fontSize: 11 }}>
                     변경 필드: {item.changes.map((c) => c.field).join(', ')}
                   </Text>
+                  <RevertButton title="서버 버전으로 되돌리기" onClick={revert(item.ruleId)} />
                 </Space>
               ),
-              children: <FieldChangesTable changes={item.changes} />,
+              children: (
+                <FieldChangesTable
+                  changes={item.changes}
+                  onRevertField={onRevertField && ((field) => onRevertField(item.ruleId, field))}
+                />
+              ),
             }))}
           />
         </div>
@@ -220,6 +318,7 @@ function RuleDiffSection({ rules }: RuleDiffSectionProps) {
           {deleted.map(({ ruleId, rule }) => (
             <div key={ruleId} style={{ ...ROW_STYLES.deleted, padding: '8px 12px', borderRadius: 4, marginBottom: 4 }}>
               <Space size={8} wrap>
+                <SelectBox id={ruleId} selected={selected} onToggle={onToggle} />
                 <Text code style={{ fontSize: 12 }}>{ruleId}</Text>
                 <Text style={{ fontSize: 13 }}>{rule.title}</Text>
                 {rule.severity && (
@@ -227,6 +326,7 @@ function RuleDiffSection({ rules }: RuleDiffSectionProps) {
                     {rule.severity}
                   </Tag>
                 )}
+                <RevertButton title="삭제 취소 (서버 버전 복원)" onClick={revert(ruleId)} />
               </Space>
             </div>
           ))}
@@ -240,13 +340,16 @@ function RuleDiffSection({ rules }: RuleDiffSectionProps) {
 // 태그 Diff 섹션
 // ─────────────────────────────────────────────────────────────────────────────
 
-interface TagDiffSectionProps {
+interface TagDiffSectionProps extends SelectableProps {
   tags: DiffResponse['tags'];
+  onRevert?: (name: string) => void;
 }
 
-function TagDiffSection({ tags }: TagDiffSectionProps) {
+function TagDiffSection({ tags, selected, onToggle, onRevert }: TagDiffSectionProps) {
+  const revert = (name: string) => (onRevert ? () => onRevert(name) : undefined);
   const { added, modified, deleted, unchanged, summary } = tags;
   const hasChanges = summary.addedCount + summary.modifiedCount + summary.deletedCount > 0;
+  const changedNames = [...added, ...modified, ...deleted].map((t) => t.name);
 
   return (
     <Card
@@ -261,6 +364,7 @@ function TagDiffSection({ tags }: TagDiffSectionProps) {
           />
         </Space>
       }
+      extra={<SelectAll ids={changedNames} selected={selected} onToggle={onToggle} />}
       size="small"
       style={{ marginBottom: 16 }}
     >
@@ -282,10 +386,12 @@ function TagDiffSection({ tags }: TagDiffSectionProps) {
           {added.map(({ name, tag }) => (
             <div key={name} style={{ ...ROW_STYLES.added, padding: '8px 12px', borderRadius: 4, marginBottom: 4 }}>
               <Space size={8} wrap>
+                <SelectBox id={name} selected={selected} onToggle={onToggle} />
                 <Text code style={{ fontSize: 12 }}>{name}</Text>
                 <Tag color="blue" style={{ fontSize: 11 }}>{tag.category}</Tag>
                 <Tag color="green" style={{ fontSize: 11 }}>Tier {tag.tier}</Tag>
                 <Text type="secondary" style={{ fontSize: 12 }}>{tag.description}</Text>
+                <RevertButton title="추가 취소 (로컬에서 제거)" onClick={revert(name)} />
               </Space>
             </div>
           ))}
@@ -304,8 +410,10 @@ function TagDiffSection({ tags }: TagDiffSectionProps) {
               key: item.name,
               label: (
                 <Space>
+                  <SelectBox id={item.name} selected={selected} onToggle={onToggle} />
                   <Text code style={{ fontSize: 12 }}>{item.name}</Text>
                   <Text type="secondary" style={{ fontSize: 11 }}>태그 정의 변경</Text>
+                  <RevertButton title="서버 버전으로 되돌리기" onClick={revert(item.name)} />
                 </Space>
               ),
               children: (
@@ -338,9 +446,11 @@ function TagDiffSection({ tags }: TagDiffSectionProps) {
           {deleted.map(({ name, tag }) => (
             <div key={name} style={{ ...ROW_STYLES.deleted, padding: '8px 12px', borderRadius: 4, marginBottom: 4 }}>
               <Space size={8} wrap>
+                <SelectBox id={name} selected={selected} onToggle={onToggle} />
                 <Text code style={{ fontSize: 12 }}>{name}</Text>
                 <Tag color="blue" style={{ fontSize: 11 }}>{tag.category}</Tag>
                 <Text type="secondary" style={{ fontSize: 12 }}>{tag.description}</Text>
+                <RevertButton title="삭제 취소 (서버 버전 복원)" onClick={revert(name)} />
               </Space>
             </div>
           ))}
@@ -373,14 +483,52 @@ function TagDiffSection({ tags }: TagDiffSectionProps) {
 // 메인 DiffViewer 컴포넌트
 // ─────────────────────────────────────────────────────────────────────────────
 
+export const DIFF_SECTIONS = ['all', 'rules', 'tags'] as const;
+export type DiffSection = (typeof DIFF_SECTIONS)[number];
+
 interface DiffViewerProps {
   diff: DiffResponse;
+  /** 로컬 비교일 때 비교 기준(from) / 대상(to) 이름. 없으면 서버 Diff로 표시 */
+  source?: { from: string; to: string };
+  section?:         DiffSection;
+  onSectionChange?: (section: DiffSection) => void;
+  /** 선택 Push 모드의 선택 상태. onSelectionChange와 함께 넘기면 항목별 체크박스 표시 */
+  selection?:         PushSelection;
+  onSelectionChange?: (selection: PushSelection) => void;
+  /** 항목 되돌리기 (snapshot:origin 기준). 없으면 되돌리기 버튼을 표시하지 않음 */
+  onRevert?:      (target: RevertTarget) => void;
+  onRevertField?: (ruleId: string, field: keyof Rule) => void;
 }
 
-export default function DiffViewer({ diff }: DiffViewerProps) {
-  const totalChanges =
-    diff.rules.summary.addedCount    + diff.rules.summary.modifiedCount    + diff.rules.summary.deletedCount +
-    diff.tags.summary.addedCount     + diff.tags.summary.modifiedCount     + diff.tags.summary.deletedCount;
+export default function DiffViewer({
+  diff,
+  source,
+  section,
+  onSectionChange,
+  selection,
+  onSelectionChange,
+  onRevert,
+  onRevertField,
+}: DiffViewerProps) {
+  const [localSection, setLocalSection] = useState<DiffSection>('all');
+  const activeSection = section ?? localSection;
+  const changeSection = onSectionChange ?? setLocalSection;
+
+  const ruleChanges =
+    diff.rules.summary.addedCount + diff.rules.summary.modifiedCount + diff.rules.summary.deletedCount;
+  const tagChanges =
+    diff.tags.summary.addedCount  + diff.tags.summary.modifiedCount  + diff.tags.summary.deletedCount;
+
+  const totalChanges = ruleChanges + tagChanges;
+
+  const toggleSelection = (kind: 'rules' | 'tags') =>
+    selection && onSelectionChange
+      ? (keys: string[], checked: boolean) => {
+        const next = new Set(selection[kind]);
+        keys.forEach((k) => (checked ? next.add(k) : next.delete(k)));
+        onSelectionChange({ ...selection, [kind]: next });
+      }
+      : undefined;
 
   return (
     <div>
@@ -389,7 +537,9 @@ export default function DiffViewer({ diff }: DiffViewerProps) {
         <Col xs={24} sm={12}>
           <Card size="small">
             <Space direction="vertical" size={2}>
-              <Text type="secondary" style={{ fontSize: 12 }}>내 기준 버전 (baseVersion)</Text>
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                {source ? `비교 대상 (${source.to})` : '내 기준 버전 (baseVersion)'}
+              </Text>
               <Text strong style={{ fontFamily: 'monospace' }}>{diff.baseVersion}</Text>
             </Space>
           </Card>
@@ -397,7 +547,9 @@ export default function DiffViewer({ diff }: DiffViewerProps) {
         <Col xs={24} sm={12}>
           <Card size="small">
             <Space direction="vertical" size={2}>
-              <Text type="secondary" style={{ fontSize: 12 }}>서버 현재 버전 (currentVersion)</Text>
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                {source ? `비교 기준 (${source.from})` : '서버 현재 버전 (currentVersion)'}
+              </Text>
               <Text strong style={{ fontFamily: 'monospace', color: diff.hasConflict ? '#cf1322' : undefined }}>
                 {diff.currentVersion}
               </Text>
@@ -430,8 +582,12 @@ export default function DiffViewer({ diff }: DiffViewerProps) {
         <Alert
           type="success"
           showIcon
-          title="서버와 동일합니다"
-          description="로컬 데이터가 서버와 완전히 일치합니다. Push가 필요하지 않습니다."
+          title={source ? '두 스냅샷이 동일합니다' : '서버와 동일합니다'}
+          description={
+            source
+              ? `${source.from}와 ${source.to}의 규칙 / 태그가 완전히 일치합니다.`
+              : '로컬 데이터가 서버와 완전히 일치합니다. Push가 필요하지 않습니다.'
+          }
           style={{ marginBottom: 16 }}
         />
       ) : (
@@ -458,8 +614,33 @@ export default function DiffViewer({ diff }: DiffViewerProps) {
       )}
 
       {/* ── 규칙 / 태그 Diff 섹션 ────────────────────────────────────────── */}
-      <RuleDiffSection rules={diff.rules} />
-      <TagDiffSection  tags={diff.tags}  />
+      <Segmented<DiffSection>
+        value={activeSection}
+        onChange={changeSection}
+        options={[
+          { value: 'all',   label: '전체' },
+          { value: 'rules', label: `규칙 (${ruleChanges})` },
+          { value: 'tags',  label: `태그 (${tagChanges})` },
+        ]}
+        style={{ marginBottom: 12 }}
+      />
+      {activeSection !== 'tags' && (
+        <RuleDiffSection
+          rules={diff.rules}
+          selected={selection?.rules}
+          onToggle={toggleSelection('rules')}
+          onRevert={onRevert && ((ruleId) => onRevert({ rules: [ruleId] }))}
+          onRevertField={onRevertField}
+        />
+      )}
+      {activeSection !== 'rules' && (
+        <TagDiffSection
+          tags={diff.tags}
+          selected={selection?.tags}
+          onToggle={toggleSelection('tags')}
+          onRevert={onRevert && ((name) => onRevert({ tags: [name] }))}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,236 @@
+/**
+ * src/components/sync/MergeResolver.tsx
+ *
+ * 3-way 병합 충돌 해결 다이얼로그.
+ * VERSION_CONFLICT 후 dataStore.prepareMerge()로 계산한 MergeResult를 받아
+ * 충돌 항목마다 내 것 / 서버 것 / 직접 편집 중 하나를 선택합니다.
+ *
+ * 자동 병합된 항목(한쪽만 변경)은 요약 수치로만 표시합니다.
+ * "병합 적용" 시 결과가 current, 서버 데이터가 origin이 되고
+ * baseVersion은 서버 currentVersion으로 바뀌므로 그대로 다시 Push할 수 있습니다.
+ */
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Col,
+  Empty,
+  Input,
+  Modal,
+  Radio,
+  Row,
+  Space,
+  Tag,
+  Typography,
+} from 'antd';
+import { BranchesOutlined } from '@ant-design/icons';
+import type { LocalSnapshot } from '@/types/api';
+import {
+  MERGE_SCOPE_LABELS,
+  applyMergeResolutions,
+  type MergeConflict,
+  type MergeDataset,
+  type MergeResult,
+} from '@/utils/threeWayMerge';
+
+const { Text } = Typography;
+const { TextArea } = Input;
+
+type Choice = 'local' | 'remote' | 'custom';
+
+interface Resolution {
+  choice: Choice;
+  /** custom 선택 시 JSON 텍스트 */
+  text:   string;
+}
+
+interface MergeResolverProps {
+  open:     boolean;
+  result:   MergeResult;
+  remote:   LocalSnapshot;
+  onApply:  (merged: MergeDataset) => void;
+  onCancel: () => void;
+}
+
+/** 값 미리보기 — undefined는 항목 없음(삭제)으로 표시 */
+function ValueView({ value, highlight }: { value: unknown; highlight?: string }) {
+  return (
+    <pre
+      style={{
+        margin:     0,
+        padding:    '6px 8px',
+        fontSize:   11,
+        maxHeight:  180,
+        overflow:   'auto',
+        background: highlight ?? '#fafafa',
+        border:     '1px solid #f0f0f0',
+        borderRadius: 4,
+        whiteSpace: 'pre-wrap',
+        wordBreak:  'break-all',
+      }}
+    >
+      {value === undefined ? <Text type="secondary" italic>(없음 / 삭제됨)</Text> : JSON.stringify(value, null, 2)}
+    </pre>
+  );
+}
+
+function toEditText(value: unknown): string {
+  return value === undefined ? '' : JSON.stringify(value, null, 2);
+}
+
+/**
+ * 해결 상태를 최종 값으로 변환합니다.
+ * custom 텍스트가 비어 있으면 삭제(undefined), JSON 오류면 에러 메시지를 반환합니다.
+ */
+function resolveValue(c: MergeConflict, r: Resolution): { value: unknown } | { error: string } {
+  if (r.choice === 'local')  return { value: c.local };
+  if (r.choice === 'remote') return { value: c.remote };
+  if (r.text.trim() === '')  return { value: undefined };
+  try {
+    return { value: JSON.parse(r.text) };
+  } catch {
+    return { error: 'JSON 형식이 올바르지 않습니다.' };
+  }
+}
+
+export default function MergeResolver({ open, result, remote, onApply, onCancel }: MergeResolverProps) {
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>(() =>
+    Object.fromEntries(result.conflicts.map((c) => [c.id, { choice: 'local', text: toEditText(c.local) }])));
+
+  const update = (id: string, patch: Partial<Resolution>) =>
+    setResolutions((prev) => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const setAll = (choice: Exclude<Choice, 'custom'>) =>
+    setResolutions((prev) => Object.fromEntries(
+      Object.entries(prev).map(([id, r]) => [id, { ...r, choice }]),
+    ));
+
+  const resolved = result.conflicts.map((c) => ({ c, out: resolveValue(c, resolutions[c.id]) }));
+  const invalid  = resolved.filter(({ out }) => 'error' in out);
+
+  const handleApply = () => {
+    const values = new Map<string, unknown>();
+    for (const { c, out } of resolved) {
+      if ('value' in out) values.set(c.id, out.value);
+    }
+    onApply(applyMergeResolutions(result, values));
+  };
+
+  const { stats } = result;
+
+  return (
+    <Modal
+      title={<Space><BranchesOutlined />3-way 병합</Space>}
+      open={open}
+      onCancel={onCancel}
+      width={1000}
+      maskClosable={false}
+      footer={
+        <Space>
+          <Button onClick={onCancel}>취소</Button>
+          <Button type="primary" onClick={handleApply} disabled={invalid.length > 0}>
+            병합 적용
+          </Button>
+        </Space>
+      }
+    >
+      <Alert
+        type={result.conflicts.length > 0 ? 'warning' : 'success'}
+        showIcon
+        title={
+          result.conflicts.length > 0
+            ? `충돌 ${result.conflicts.length}건 — 항목별로 적용할 값을 선택하세요.`
+            : '충돌 없이 자동 병합되었습니다.'
+        }
+        description={
+          <Space size={4} wrap>
+            <Tag color="blue">서버 변경 반영 {stats.fromRemote}</Tag>
+            <Tag color="green">내 변경 유지 {stats.fromLocal}</Tag>
+            <Tag>양쪽 동일 변경 {stats.same}</Tag>
+            <Tag color="orange">서버 버전 {remote.baseVersion}</Tag>
+          </Space>
+        }
+        style={{ marginBottom: 12 }}
+      />
+
+      {result.conflicts.length > 0 && (
+        <Space style={{ marginBottom: 12 }}>
+          <Text type="secondary" style={{ fontSize: 12 }}>일괄 선택:</Text>
+          <Button size="small" onClick={() => setAll('local')}>모두 내 것</Button>
+          <Button size="small" onClick={() => setAll('remote')}>모두 서버 것</Button>
+        </Space>
+      )}
+
+      <div style={{ maxHeight: '60vh', overflowY: 'auto' }}>
+        {result.conflicts.length === 0 ? (
+          <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="해결할 충돌이 없습니다." />
+        ) : (
+          resolved.map(({ c, out }) => {
+            const r = resolutions[c.id];
+            return (
+              <Card
+                key={c.id}
+                size="small"
+                style={{ marginBottom: 12 }}
+                title={
+                  <Space size={6}>
+                    <Tag>{MERGE_SCOPE_LABELS[c.scope]}</Tag>
+                    <Text code style={{ fontSize: 12 }}>{c.key}</Text>
+                    {c.field ? (
+                      <Text type="secondary" style={{ fontSize: 12 }}>· {c.field}</Text>
+                    ) : (
+                      <Text type="secondary" style={{ fontSize: 12 }}>· 항목 전체</Text>
+                    )}
+                  </Space>
+                }
+                extra={
+                  <Radio.Group
+                    size="small"
+                    optionType="button"
+                    value={r.choice}
+                    onChange={(e) => update(c.id, { choice: e.target.value as Choice })}
+                    options={[
+                      { value: 'local',  label: '내 것' },
+                      { value: 'remote', label: '서버 것' },
+                      { value: 'custom', label: '직접 편집' },
+                    ]}
+                  />
+                }
+              >
+                <Row gutter={8}>
+                  <Col span={8}>
+                    <Text type="secondary" style={{ fontSize: 11 }}>기준 (origin)</Text>
+                    <ValueView value={c.base} />
+                  </Col>
+                  <Col span={8}>
+                    <Text style={{ fontSize: 11 }}>내 것 (local)</Text>
+                    <ValueView value={c.local} highlight={r.choice === 'local' ? '#f6ffed' : undefined} />
+                  </Col>
+                  <Col span={8}>
+                    <Text style={{ fontSize: 11 }}>서버 것 (remote)</Text>
+                    <ValueView value={c.remote} highlight={r.choice === 'remote' ? '#e6f4ff' : undefined} />
+                  </Col>
+                </Row>
+                {r.choice === 'custom' && (
+                  <div style={{ marginTop: 8 }}>
+                    <TextArea
+                      rows={4}
+                      value={r.text}
+                      onChange={(e) => update(c.id, { text: e.target.value })}
+                      status={'error' in out ? 'error' : undefined}
+                      style={{ fontFamily: 'monospace', fontSize: 12 }}
+                    />
+                    <Text type={'error' in out ? 'danger' : 'secondary'} style={{ fontSize: 11 }}>
+                      {'error' in out ? out.error : 'JSON 값으로 입력하세요. 비워두면 삭제됩니다.'}
+                    </Text>
+                  </div>
+                )}
+              </Card>
+            );
+          })
+        )}
+      </div>
+    </Modal>
+  );
+}
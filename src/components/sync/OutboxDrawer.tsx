@@ -0,0 +1,206 @@
+/**
+ * src/components/sync/OutboxDrawer.tsx
+ *
+ * 오프라인 예약 작업(outbox) 목록 Drawer.
+ * - 작업별 상태 배지 + 상태 이력 Timeline
+ * - 다시 시도(conflict / failed / cancelled → queued), 취소, 완료 항목 정리
+ * - "지금 실행": 대기 중인 작업을 순서대로 실행 (오프라인이면 비활성)
+ * - 재연결 시 자동 실행 스위치 (meta:outboxAutoReplay)
+ * 버전 충돌로 멈춘 작업은 동기화 페이지의 3-way 병합으로 해결한 뒤 다시 시도합니다.
+ */
+import { Link } from 'react-router-dom';
+import {
+  Button,
+  Card,
+  Drawer,
+  Empty,
+  Popconfirm,
+  Space,
+  Switch,
+  Tag,
+  Timeline,
+  Typography,
+} from 'antd';
+import {
+  BranchesOutlined,
+  ClearOutlined,
+  PlayCircleOutlined,
+  RedoOutlined,
+  StopOutlined,
+} from '@ant-design/icons';
+import { useServerStatus, useUiStore } from '@/stores/uiStore';
+import {
+  OUTBOX_KIND_LABELS,
+  OUTBOX_STATUS_COLORS,
+  OUTBOX_STATUS_LABELS,
+  useOutboxStore,
+} from '@/stores/outboxStore';
+import type { OutboxItem, OutboxStatus } from '@/storage/idbStorage';
+
+const { Text } = Typography;
+
+interface OutboxDrawerProps {
+  open:    boolean;
+  onClose: () => void;
+}
+
+const TIMELINE_COLORS: Record<OutboxStatus, string> = {
+  queued:    'gray',
+  running:   'blue',
+  done:      'green',
+  conflict:  'orange',
+  failed:    'red',
+  cancelled: 'gray',
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('ko-KR');
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 작업 카드
+// ─────────────────────────────────────────────────────────────────────────────
+
+function OutboxItemCard({ item, onNavigate }: { item: OutboxItem; onNavigate: () => void }) {
+  const retry  = useOutboxStore((s) => s.retry);
+  const cancel = useOutboxStore((s) => s.cancel);
+  const busy   = useOutboxStore((s) => s.isReplaying);
+
+  const canRetry  = item.status === 'conflict' || item.status === 'failed' || item.status === 'cancelled';
+  const canCancel = item.status === 'queued' || item.status === 'conflict' || item.status === 'failed';
+
+  return (
+    <Card
+      size="small"
+      style={{ marginBottom: 12 }}
+      title={
+        <Space size={6}>
+          <Text type="secondary">#{item.id}</Text>
+          <Tag color="blue" style={{ marginInlineEnd: 0 }}>{OUTBOX_KIND_LABELS[item.kind]}</Tag>
+          <Tag color={OUTBOX_STATUS_COLORS[item.status]} style={{ marginInlineEnd: 0 }}>
+            {OUTBOX_STATUS_LABELS[item.status]}
+          </Tag>
+        </Space>
+      }
+      extra={
+        <Space size={4}>
+          {canRetry && (
+            <Button size="small" icon={<RedoOutlined />} disabled={busy} onClick={() => retry(item.id)}>
+              다시 시도
+            </Button>
+          )}
+          {canCancel && (
+            <Popconfirm title="이 예약 작업을 취소할까요?" okText="취소하기" cancelText="닫기" onConfirm={() => cancel(item.id)}>
+              <Button size="small" danger icon={<StopOutlined />} disabled={busy}>
+                취소
+              </Button>
+            </Popconfirm>
+          )}
+        </Space>
+      }
+    >
+      <Space direction="vertical" size={8} style={{ width: '100%' }}>
+        <Text type="secondary" style={{ fontSize: 12 }}>
+          예약 {formatTime(item.createdAt)}
+          {item.kind === 'push' && (item.message ? <> · 메모: <Text>{item.message}</Text></> : ' · 메모 없음')}
+        </Text>
+
+        {item.status === 'conflict' && (
+          <Link to="/sync" onClick={onNavigate}>
+            <Button size="small" icon={<BranchesOutlined />}>동기화 페이지에서 3-way 병합</Button>
+          </Link>
+        )}
+
+        <Timeline
+          style={{ marginTop: 8, marginBottom: -16 }}
+          items={item.events.map((event) => ({
+            color:    TIMELINE_COLORS[event.status],
+            children: (
+              <Space direction="vertical" size={0}>
+                <Text style={{ fontSize: 12 }}>
+                  <strong>{OUTBOX_STATUS_LABELS[event.status]}</strong>
+                  {event.message && <> — {event.message}</>}
+                </Text>
+                <Text type="secondary" style={{ fontSize: 11 }}>{formatTime(event.at)}</Text>
+              </Space>
+            ),
+          }))}
+        />
+      </Space>
+    </Card>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Drawer
+// ─────────────────────────────────────────────────────────────────────────────
+
+export default function OutboxDrawer({ open, onClose }: OutboxDrawerProps) {
+  const items         = useOutboxStore((s) => s.items);
+  const isReplaying   = useOutboxStore((s) => s.isReplaying);
+  const autoReplay    = useOutboxStore((s) => s.autoReplay);
+  const replay        = useOutboxStore((s) => s.replay);
+  const clearFinished = useOutboxStore((s) => s.clearFinished);
+  const setAutoReplay = useOutboxStore((s) => s.setAutoReplay);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+  const notifyError   = useUiStore((s) => s.notifyError);
+  const { serverStatus } = useServerStatus();
+
+  const queuedCount   = items.filter((i) => i.status === 'queued').length;
+  const finishedCount = items.filter((i) => i.status === 'done' || i.status === 'cancelled').length;
+  const isOffline     = serverStatus === 'disconnected';
+
+  const handleReplay = async () => {
+    const { done, stopped } = await replay();
+    if (stopped) {
+      notifyError(
+        `예약 작업 #${stopped.id} ${OUTBOX_STATUS_LABELS[stopped.status]}`,
+        stopped.events[stopped.events.length - 1]?.message,
+      );
+    } else {
+      notifySuccess('예약 작업 완료', `${done}건을 실행했습니다.`);
+    }
+  };
+
+  return (
+    <Drawer
+      title={`예약 작업 (${items.length})`}
+      open={open}
+      onClose={onClose}
+      width={480}
+      destroyOnHidden
+      extra={
+        <Space>
+          <Button
+            icon={<ClearOutlined />}
+            onClick={() => clearFinished()}
+            disabled={finishedCount === 0 || isReplaying}
+          >
+            완료 항목 정리
+          </Button>
+          <Button
+            type="primary"
+            icon={<PlayCircleOutlined />}
+            onClick={handleReplay}
+            loading={isReplaying}
+            disabled={queuedCount === 0 || isOffline}
+          >
+            지금 실행 ({queuedCount})
+          </Button>
+        </Space>
+      }
+    >
+      <Space style={{ marginBottom: 16 }}>
+        <Switch size="small" checked={autoReplay} onChange={(on) => setAutoReplay(on)} />
+        <Text>서버에 다시 연결되면 확인 없이 자동 실행</Text>
+      </Space>
+      {isOffline && (
+        <Text type="secondary" style={{ display: 'block', fontSize: 12, marginBottom: 16 }}>
+          오프라인 — 서버에 연결되면 실행할 수 있습니다.
+        </Text>
+      )}
+
+      {items.length === 0
+        ? <Empty description="예약된 작업이 없습니다" />
+        : items.map((item) => <OutboxItemCard key={item.id} item={item} onNavigate={onClose} />)}
+    </Drawer>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * src/components/sync/OutboxEnqueueModal.tsx
+ *
+ * 오프라인 중 Push / Pull을 예약하는 모달.
+ * Push는 메모를 받아 두었다가 재실행 성공 시 Push 이력 설명으로 남깁니다.
+ * Pull은 실행 시점에 Push하지 않은 로컬 변경이 있으면 멈춘다는 점을 안내합니다.
+ */
+import { useState } from 'react';
+import { Alert, Input, Modal, Typography } from 'antd';
+import { useUiStore } from '@/stores/uiStore';
+import { OUTBOX_KIND_LABELS, useOutboxStore } from '@/stores/outboxStore';
+import type { OutboxKind } from '@/storage/idbStorage';
+
+const { Paragraph } = Typography;
+
+interface OutboxEnqueueModalProps {
+  /** 예약할 작업 종류 (null이면 닫힘) */
+  kind:    OutboxKind | null;
+  onClose: () => void;
+}
+
+export default function OutboxEnqueueModal({ kind, onClose }: OutboxEnqueueModalProps) {
+  const enqueue       = useOutboxStore((s) => s.enqueue);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+  const notifyError   = useUiStore((s) => s.notifyError);
+  const [message, setMessage] = useState('');
+  const [saving, setSaving]   = useState(false);
+
+  const handleOk = async () => {
+    if (!kind) return;
+    setSaving(true);
+    try {
+      await enqueue(kind, message.trim());
+      notifySuccess(`${OUTBOX_KIND_LABELS[kind]} 예약됨`, '서버에 다시 연결되면 예약 순서대로 실행합니다.');
+      setMessage('');
+      onClose();
+    } catch (err) {
+      console.error('[OutboxEnqueueModal] 예약 실패:', err);
+      notifyError('예약 실패', err instanceof Error ? err.message : undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={kind && `${OUTBOX_KIND_LABELS[kind]} 예약`}
+      open={kind !== null}
+      okText="예약"
+      cancelText="취소"
+      confirmLoading={saving}
+      onOk={handleOk}
+      onCancel={onClose}
+      destroyOnHidden
+    >
+      {kind === 'push' ? (
+        <>
+          <Paragraph type="secondary">
+            서버에 연결되면 Diff로 충돌을 확인한 뒤 Push합니다.
+            예약 이후의 편집도 실행 시점의 로컬 데이터에 함께 포함됩니다.
+          </Paragraph>
+          <Input.TextArea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Push 메모 (선택) — 이력에 설명으로 남습니다"
+            autoSize={{ minRows: 2, maxRows: 5 }}
+            maxLength={200}
+            showCount
+          />
+        </>
+      ) : (
+        <Alert
+          type="info"
+          showIcon
+          title="실행 시점에 Push하지 않은 로컬 변경이 있으면 덮어쓰지 않고 멈춥니다."
+          description="로컬 변경을 올리려면 Push를 먼저 예약하세요."
+        />
+      )}
+    </Modal>
+  );
+}
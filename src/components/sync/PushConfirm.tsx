@@ -4,9 +4,12 @@
  * Push 확인 다이얼로그.
  * - Diff 결과 요약 표시
  * - pushData API 호출 → 성공/충돌/오류 처리
- * - VERSION_CONFLICT(409): 경고 + force Push / Pull 먼저 옵션
+ * - VERSION_CONFLICT(409): 경고 + 3-way 병합 / force Push / Pull 먼저 옵션
+ * - 데이터 검사(dataLint) error가 있으면 Push 차단 + 규칙 / 태그별 수정 링크
+ * - 선택 Push(selectiveInfo)면 보내지 않는 변경 수를 안내하고, 성공 시 실제 보낸 데이터셋을 부모에 전달
  */
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import {
   Modal,
   Button,
@@ -27,10 +30,15 @@ import {
   ExclamationCircleOutlined,
   CheckCircleOutlined,
   CloudDownloadOutlined,
+  StopOutlined,
+  BranchesOutlined,
 } from '@ant-design/icons';
 import { pushData } from '@/api/dataApi';
+import LintTargetLink from '@/components/lint/LintTargetLink';
+import { LINT_CODE_LABELS, lintDataset, type LintReport } from '@/utils/dataLint';
 import { isPushConflict, isPushSuccess } from '@/types/api';
 import type { DiffResponse } from '@/types/api';
+import type { PushDataset } from '@/utils/selectivePush';
 
 const { Text, Title } = Typography;
 
@@ -51,8 +59,11 @@ interface PushConfirmProps {
   baseVersion: number | null;
   ruleCount: number;
   tagCount: number;
-  onPushSuccess: (newVersion: number) => void;  // 성공 시 부모에 newVersion 전달
+  lint: LintReport;                   // 데이터 검사 결과 (error 있으면 Push 차단)
+  selectiveInfo?: { selected: number; skipped: number };  // 선택 Push 모드의 선택 / 제외 변경 수
+  onPushSuccess: (newVersion: number, pushed: PushDataset) => void;  // 성공 시 newVersion + 보낸 데이터셋 전달
   onPullRequested: () => void;                   // "Pull 먼저" 버튼 클릭
+  onMergeRequested: () => void;                  // "3-way 병합" 버튼 클릭
   onClose: () => void;
   getPushPayload: (force: boolean) => Parameters<typeof pushData>[0];
 }
@@ -114,6 +125,43 @@ function DiffSummary({ diff }: { diff: DiffResponse }) {
   );
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 데이터 검사 차단 안내 서브 컴포넌트
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 모달 안에 나열할 최대 오류 수 (나머지는 데이터 검사 페이지에서 확인) */
+const MAX_LINT_ITEMS = 8;
+
+function LintGate({ lint, onNavigate }: { lint: LintReport; onNavigate: () => void }) {
+  const errors = lint.issues.filter((i) => i.level === 'error');
+  return (
+    <Alert
+      type="error"
+      showIcon
+      icon={<StopOutlined />}
+      title={`데이터 검사 오류 ${lint.errorCount}건 — Push할 수 없습니다.`}
+      description={
+        <div>
+          {errors.slice(0, MAX_LINT_ITEMS).map((issue, idx) => (
+            <div key={idx} style={{ fontSize: 12, marginBottom: 2 }}>
+              <LintTargetLink target={issue.target} onNavigate={onNavigate} />
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                {' '}· {LINT_CODE_LABELS[issue.code]}: {issue.message}
+              </Text>
+            </div>
+          ))}
+          <Link to="/lint" onClick={onNavigate} style={{ fontSize: 12 }}>
+            {errors.length > MAX_LINT_ITEMS
+              ? `외 ${errors.length - MAX_LINT_ITEMS}건 — 데이터 검사 페이지에서 보기`
+              : '데이터 검사 페이지에서 보기'}
+          </Link>
+        </div>
+      }
+      style={{ marginBottom: 12 }}
+    />
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 메인 컴포넌트
 // ─────────────────────────────────────────────────────────────────────────────
@@ -124,8 +172,11 @@ export default function PushConfirm({
   baseVersion,
   ruleCount,
   tagCount,
+  lint,
+  selectiveInfo,
   onPushSuccess,
   onPullRequested,
+  onMergeRequested,
   onClose,
   getPushPayload,
 }: PushConfirmProps) {
@@ -145,11 +196,19 @@ export default function PushConfirm({
 
   // ── 공통 Push 호출 ────────────────────────────────────────────────────────
   const executePush = async (force: boolean) => {
+    // 모달이 열린 뒤 다른 탭 등에서 바뀐 데이터도 막도록 보낼 payload로 다시 검사
+    // (다시 시도 / 강제 Push 경로 포함) — 오류가 있으면 LintGate가 보이는 확인 단계로 되돌림
+    const payload = getPushPayload(force);
+    if (lintDataset(payload.rules, payload.tags).errorCount > 0) {
+      setConflictInfo(null);
+      setPhase('confirm');
+      return;
+    }
+
     setPhase('pushing');
     setErrorMessage('');
 
     try {
-      const payload  = getPushPayload(force);
       const response = await pushData(payload);
 
       if (isPushSuccess(response)) {
@@ -161,7 +220,7 @@ export default function PushConfirm({
           tags:        response.tags,
         });
         setPhase('success');
-        onPushSuccess(response.newVersion);
+        onPushSuccess(response.newVersion, { rules: payload.rules, tags: payload.tags });
       } else if (isPushConflict(response)) {
         setConflictInfo({
           baseVersion:    response.baseVersion,
@@ -178,6 +237,7 @@ export default function PushConfirm({
     }
   };
 
+  const lintBlocked     = lint.errorCount > 0;
   const handlePush      = () => executePush(false);
   const handleForcePush = () => executePush(true);
 
@@ -194,6 +254,11 @@ export default function PushConfirm({
     onPullRequested();
   };
 
+  const handleMergeRequested = () => {
+    handleClose();
+    onMergeRequested();
+  };
+
   // ─────────────────────────────────────────────────────────────────────────
   // 렌더 — Phase별 분기
   // ─────────────────────────────────────────────────────────────────────────
@@ -289,33 +354,48 @@ export default function PushConfirm({
         <Space direction="vertical" size={4} style={{ width: '100%' }}>
           <Text strong style={{ fontSize: 13 }}>선택할 수 있는 방법</Text>
           <Text type="secondary" style={{ fontSize: 12 }}>
-            <Text strong style={{ color: '#52c41a' }}>① Pull 먼저:</Text>{' '}
-            서버의 최신 데이터를 가져온 뒤 내 변경사항을 다시 적용하고 Push합니다. (권장)
+            <Text strong style={{ color: '#52c41a' }}>① 3-way 병합:</Text>{' '}
+            마지막 동기화(Pull/Push) 시점을 기준으로 내 변경과 서버 변경을 합칩니다. 충돌 항목만 직접 선택합니다. (권장)
+          </Text>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            <Text strong style={{ color: '#1677ff' }}>② Pull 먼저:</Text>{' '}
+            서버의 최신 데이터를 가져옵니다. 내 로컬 편집은 <Text strong>덮어씌워집니다</Text>.
           </Text>
           <Text type="secondary" style={{ fontSize: 12 }}>
-            <Text strong style={{ color: '#cf1322' }}>② 강제 Push:</Text>{' '}
+            <Text strong style={{ color: '#cf1322' }}>③ 강제 Push:</Text>{' '}
             서버 변경사항을 무시하고 내 로컬 데이터로 덮어씁니다. 서버 변경사항이 <Text strong>유실</Text>될 수 있습니다.
           </Text>
         </Space>
       </Card>
 
-      <Row gutter={12}>
-        <Col span={12}>
+      <Row gutter={8}>
+        <Col span={8}>
+          <Button
+            block
+            type="primary"
+            icon={<BranchesOutlined />}
+            onClick={handleMergeRequested}
+          >
+            3-way 병합 (권장)
+          </Button>
+        </Col>
+        <Col span={8}>
           <Button
             block
             icon={<CloudDownloadOutlined />}
             onClick={handlePullRequested}
             style={{ borderColor: '#1677ff', color: '#1677ff' }}
           >
-            Pull 먼저 (권장)
+            Pull 먼저
           </Button>
         </Col>
-        <Col span={12}>
+        <Col span={8}>
           <Button
             block
             danger
             icon={<ExclamationCircleOutlined />}
             onClick={handleForcePush}
+            disabled={lintBlocked}
           >
             강제 Push (덮어쓰기)
           </Button>
@@ -355,6 +435,22 @@ export default function PushConfirm({
         style={{ marginBottom: 16 }}
       />
 
+      {lintBlocked && <LintGate lint={lint} onNavigate={handleClose} />}
+
+      {selectiveInfo && (
+        <Alert
+          type="warning"
+          showIcon
+          title={`선택 Push — 변경 ${selectiveInfo.selected}개만 업로드합니다.`}
+          description={
+            selectiveInfo.skipped > 0
+              ? `선택하지 않은 ${selectiveInfo.skipped}개 변경은 로컬에 남고, Push 후에도 변경사항으로 표시됩니다.`
+              : '모든 변경을 선택했습니다.'
+          }
+          style={{ marginBottom: 12 }}
+        />
+      )}
+
       {/* 업로드 데이터 요약 */}
       <Card size="small" style={{ marginBottom: 12, background: '#f0f5ff' }}>
         <Row gutter={16}>
@@ -414,7 +510,7 @@ export default function PushConfirm({
     if (phase === 'error')    return (
       <Space>
         <Button onClick={handleClose}>닫기</Button>
-        <Button type="primary" onClick={handlePush} icon={<CloudUploadOutlined />}>
+        <Button type="primary" onClick={handlePush} icon={<CloudUploadOutlined />} disabled={lintBlocked}>
           다시 시도
         </Button>
       </Space>
@@ -427,7 +523,8 @@ export default function PushConfirm({
           type="primary"
           icon={<CloudUploadOutlined />}
           onClick={handlePush}
-          style={{ background: '#52c41a', borderColor: '#52c41a' }}
+          disabled={lintBlocked}
+          style={lintBlocked ? undefined : { background: '#52c41a', borderColor: '#52c41a' }}
         >
           Push 실행
         </Button>
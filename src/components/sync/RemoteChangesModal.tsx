@@ -0,0 +1,148 @@
+/**
+ * src/components/sync/RemoteChangesModal.tsx
+ *
+ * 다른 사람이 Push한 서버 변경 미리보기 모달.
+ * - 마지막 동기화(origin) → 서버 최신 데이터 비교를 DiffViewer로 표시 (origin이 없으면 현재 편집본 기준)
+ * - Pull: 로컬 변경이 있으면 덮어쓰기 확인
+ * - 3-way 병합: 로컬 변경을 유지한 채 서버 변경을 합침 (prepareMerge → MergeResolver → applyMerge)
+ */
+import { useMemo, useState } from 'react';
+import { Alert, Button, Modal, Popconfirm, Space } from 'antd';
+import { BranchesOutlined, CloudDownloadOutlined } from '@ant-design/icons';
+import DiffViewer from '@/components/sync/DiffViewer';
+import MergeResolver from '@/components/sync/MergeResolver';
+import { useChangeSet, useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import type { LocalSnapshot } from '@/types/api';
+import { diffLocal } from '@/utils/localDiff';
+import type { MergeDataset, MergeResult } from '@/utils/threeWayMerge';
+
+interface RemoteChangesModalProps {
+  open:    boolean;
+  /** 감지한 서버 데이터 (remoteStore) */
+  remote:  LocalSnapshot;
+  onClose: () => void;
+}
+
+export default function RemoteChangesModal({ open, remote, onClose }: RemoteChangesModalProps) {
+  const rules         = useDataStore((s) => s.rules);
+  const tags          = useDataStore((s) => s.tags);
+  const origin        = useDataStore((s) => s.origin);
+  const baseVersion   = useDataStore((s) => s.baseVersion);
+  const lastPullAt    = useDataStore((s) => s.lastPullAt);
+  const isLoading     = useDataStore((s) => s.isLoading);
+  const pull          = useDataStore((s) => s.pull);
+  const prepareMerge  = useDataStore((s) => s.prepareMerge);
+  const applyMerge    = useDataStore((s) => s.applyMerge);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+  const notifyError   = useUiStore((s) => s.notifyError);
+  const localChanges  = useChangeSet().total;
+
+  const [merge, setMerge]               = useState<{ result: MergeResult; remote: LocalSnapshot } | null>(null);
+  const [mergeLoading, setMergeLoading] = useState(false);
+
+  // 서버에서 바뀐 내용 = 마지막 동기화 → 서버 최신
+  const diff = useMemo(() => {
+    const base: LocalSnapshot = {
+      ...(origin ?? { rules, tags }),
+      baseVersion: baseVersion ?? 0,
+      savedAt:     lastPullAt ?? '',
+    };
+    return diffLocal(base, remote);
+  }, [origin, rules, tags, baseVersion, lastPullAt, remote]);
+
+  const handlePull = async () => {
+    try {
+      await pull();
+      notifySuccess('Pull 완료', `서버 버전 ${useDataStore.getState().baseVersion}을(를) 불러왔습니다.`);
+      onClose();
+    } catch (err) {
+      notifyError('Pull 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const handleMergeRequested = async () => {
+    setMergeLoading(true);
+    try {
+      setMerge(await prepareMerge());
+    } catch (err) {
+      notifyError('병합 준비 실패', err instanceof Error ? err.message : undefined);
+    } finally {
+      setMergeLoading(false);
+    }
+  };
+
+  const handleMergeApply = async (merged: MergeDataset) => {
+    if (!merge) return;
+    await applyMerge(merged, merge.remote);
+    setMerge(null);
+    notifySuccess('병합 완료', `baseVersion ${merge.remote.baseVersion} 기준으로 병합했습니다. 다시 Push하세요.`);
+    onClose();
+  };
+
+  const pullButton = (
+    <Button type="primary" icon={<CloudDownloadOutlined />} loading={isLoading} onClick={localChanges ? undefined : handlePull}>
+      Pull
+    </Button>
+  );
+
+  return (
+    <>
+      <Modal
+        title={`서버 변경 미리보기 — 버전 ${remote.baseVersion}`}
+        open={open}
+        onCancel={onClose}
+        width={1000}
+        destroyOnHidden
+        footer={
+          <Space>
+            <Button onClick={onClose}>닫기</Button>
+            {localChanges > 0 && origin && (
+              <Button icon={<BranchesOutlined />} loading={mergeLoading} onClick={handleMergeRequested}>
+                3-way 병합
+              </Button>
+            )}
+            {localChanges > 0 ? (
+              <Popconfirm
+                title={`Push하지 않은 로컬 변경 ${localChanges}건이 서버 데이터로 덮어씌워집니다.`}
+                okText="Pull"
+                okButtonProps={{ danger: true }}
+                cancelText="취소"
+                onConfirm={handlePull}
+              >
+                {pullButton}
+              </Popconfirm>
+            ) : pullButton}
+          </Space>
+        }
+      >
+        <Alert
+          type={localChanges > 0 ? 'warning' : 'info'}
+          showIcon
+          style={{ marginBottom: 16 }}
+          title={localChanges > 0
+            ? `Push하지 않은 로컬 변경이 ${localChanges}건 있습니다. 유지하려면 3-way 병합을 사용하세요.`
+            : '로컬 변경이 없습니다. Pull하면 아래 변경이 그대로 반영됩니다.'}
+        />
+        <DiffViewer
+          diff={diff}
+          source={{
+            from: origin ? `마지막 동기화 (버전 ${baseVersion})` : '현재 편집본',
+            to:   `서버 (버전 ${remote.baseVersion})`,
+          }}
+        />
+      </Modal>
+
+      {merge && (
+        <MergeResolver
+          key={merge.remote.savedAt}
+          open
+          result={merge.result}
+          remote={merge.remote}
+          onApply={handleMergeApply}
+          onCancel={() => setMerge(null)}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * src/components/tags/DetectionFields.tsx
+ *
+ * 태그 편집 모달의 탐지(detection) 설정 폼 필드.
+ * 부모 Form 안에서 렌더링되며 탐지 타입에 따라 전용 하위 폼을 보여줍니다.
+ *   - regex       : 패턴, 매치 조건, 대소문자 구분, 주석 제외
+ *   - ast         : 노드 타입 / 메트릭, 연산자, 임계값, 조건
+ *   - ast_context : 컨텍스트(노드 타입 여러 개), 컨텍스트 내부 패턴
+ *   - llm         : 판단 기준, 선행 조건 태그
+ * 알려진 필드 외의 키는 "추가 필드 (JSON)"에서 편집합니다.
+ *
+ * 폼 값 ↔ TagDetection 변환은 utils/tagDetection 참고.
+ */
+import { Col, Form, Input, InputNumber, Radio, Row, Select } from 'antd';
+import type { TagDetectionType } from '@/types/tag';
+import {
+  AST_OPERATORS,
+  DETECTION_TYPE_LABELS,
+  parseExtraFields,
+  type OptionalBool,
+} from '@/utils/tagDetection';
+
+const { TextArea } = Input;
+
+interface DetectionFieldsProps {
+  /** 선행 조건 태그 자동완성용 */
+  tagNames: string[];
+}
+
+const OPTIONAL_BOOL_OPTIONS: { value: OptionalBool; label: string }[] = [
+  { value: 'default', label: '미지정' },
+  { value: 'true',    label: '예' },
+  { value: 'false',   label: '아니오' },
+];
+
+const AST_CONTEXT_SUGGESTIONS = [
+  'finally', 'catch', 'ForStatement', 'WhileStatement', 'DoStatement', 'ForEachStatement', 'SynchronizedStatement',
+];
+
+const monospace = { fontFamily: 'monospace', fontSize: 12 };
+
+function PatternsItem({ label }: { label: string }) {
+  return (
+    <Form.Item name="patterns" label={label}>
+      <TextArea rows={3} placeholder="정규식 패턴 (한 줄에 하나)" style={monospace} />
+    </Form.Item>
+  );
+}
+
+export default function DetectionFields({ tagNames }: DetectionFieldsProps) {
+  return (
+    <>
+      <Form.Item name="detectionType" label="탐지 타입">
+        <Select
+          options={(Object.keys(DETECTION_TYPE_LABELS) as TagDetectionType[]).map((t) => ({
+            value: t,
+            label: DETECTION_TYPE_LABELS[t],
+          }))}
+        />
+      </Form.Item>
+
+      <Form.Item
+        noStyle
+        shouldUpdate={(prev, cur) => prev.detectionType !== cur.detectionType}
+      >
+        {({ getFieldValue }) => {
+          const type = getFieldValue('detectionType') as TagDetectionType;
+
+          if (type === 'regex') return (
+            <>
+              <PatternsItem label="패턴 (줄바꿈으로 구분)" />
+              <Row gutter={12}>
+                <Col span={8}>
+                  <Form.Item name="matchType" label="매치 조건">
+                    <Select
+                      options={[
+                        { value: 'any',  label: 'any (하나라도 매칭)' },
+                        { value: 'all',  label: 'all (모두 매칭)' },
+                        { value: 'none', label: 'none (하나도 매칭 안됨)' },
+                      ]}
+                    />
+                  </Form.Item>
+                </Col>
+                <Col span={8}>
+                  <Form.Item name="caseSensitive" label="대소문자 구분" tooltip="미지정 시 구분(true)">
+                    <Radio.Group optionType="button" size="small" options={OPTIONAL_BOOL_OPTIONS} />
+                  </Form.Item>
+                </Col>
+                <Col span={8}>
+                  <Form.Item name="excludeInComments" label="주석 내 패턴 제외">
+                    <Radio.Group optionType="button" size="small" options={OPTIONAL_BOOL_OPTIONS} />
+                  </Form.Item>
+                </Col>
+              </Row>
+            </>
+          );
+
+          if (type === 'ast') return (
+            <>
+              <Row gutter={12}>
+                <Col span={12}>
+                  <Form.Item name="nodeType" label="노드 타입" tooltip='예: "loop", "ClassDeclaration"'>
+                    <Input placeholder="노드 타입" style={monospace} />
+                  </Form.Item>
+                </Col>
+                <Col span={12}>
+                  <Form.Item name="metric" label="메트릭" tooltip='예: "methodCount", "cyclomaticComplexity"'>
+                    <Input placeholder="메트릭 이름" style={monospace} />
+                  </Form.Item>
+                </Col>
+              </Row>
+              <Row gutter={12}>
+                <Col span={8}>
+                  <Form.Item name="operator" label="비교 연산자">
+                    <Select allowClear placeholder="미지정" options={AST_OPERATORS.map((op) => ({ value: op, label: op }))} />
+                  </Form.Item>
+                </Col>
+                <Col span={8}>
+                  <Form.Item name="threshold" label="임계값">
+                    <InputNumber placeholder="미지정" style={{ width: '100%' }} />
+                  </Form.Item>
+                </Col>
+                <Col span={8}>
+                  <Form.Item name="condition" label="조건" tooltip="중첩 여부 등">
+                    <Input placeholder='예: "nested"' style={monospace} />
+                  </Form.Item>
+                </Col>
+              </Row>
+            </>
+          );
+
+          if (type === 'ast_context') return (
+            <>
+              <Form.Item
+                name="context"
+                label="컨텍스트 (AST 노드 타입 또는 키워드)"
+                rules={[{ required: true, type: 'array', min: 1, message: '컨텍스트를 하나 이상 입력하세요.' }]}
+              >
+                <Select
+                  mode="tags"
+                  placeholder="예: finally, ForStatement"
+                  options={AST_CONTEXT_SUGGESTIONS.map((c) => ({ value: c, label: c }))}
+                  style={monospace}
+                />
+              </Form.Item>
+              <PatternsItem label="컨텍스트 내부 패턴 (줄바꿈으로 구분)" />
+            </>
+          );
+
+          if (type === 'llm') return (
+            <>
+              <Form.Item name="criteria" label="판단 기준 (LLM 프롬프트)">
+                <TextArea rows={3} placeholder="LLM에게 전달할 판단 기준" />
+              </Form.Item>
+              <Form.Item name="triggerTags" label="선행 조건 태그">
+                <Select
+                  mode="tags"
+                  placeholder="예: IS_CONTROLLER, IS_SERVICE"
+                  options={tagNames.map((n) => ({ value: n, label: n }))}
+                  style={monospace}
+                />
+              </Form.Item>
+            </>
+          );
+
+          return null;
+        }}
+      </Form.Item>
+
+      <Form.Item
+        name="extra"
+        label="추가 필드 (JSON)"
+        tooltip="폼에 없는 detection 필드. 저장 시 그대로 포함됩니다."
+        dependencies={['detectionType']}
+        rules={[
+          ({ getFieldValue }) => ({
+            validator: (_, value: string | undefined) => {
+              const { error } = parseExtraFields(value, getFieldValue('detectionType'));
+              return error ? Promise.reject(new Error(error)) : Promise.resolve();
+            },
+          }),
+        ]}
+      >
+        <TextArea rows={2} placeholder='예: { "minOccurrences": 2 }' style={monospace} />
+      </Form.Item>
+    </>
+  );
+}
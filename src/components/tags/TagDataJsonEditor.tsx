@@ -0,0 +1,130 @@
+/**
+ * src/components/tags/TagDataJsonEditor.tsx
+ *
+ * TagData 전체(_metadata / tagCategories / tags / compoundTags)를 Monaco JSON 에디터로 편집합니다.
+ * monacoSetup.ts가 TAG_DATA_MODEL_PATH에 등록한 TAG_DATA_SCHEMA로 자동완성과 인라인 오류를 제공하고,
+ * "적용" 시 같은 스키마로 다시 검증한 뒤 setTags()로 한 번에 반영합니다 (실행 취소 가능).
+ *
+ * 에디터 내용은 적용 전까지 스토어와 독립적입니다.
+ * 편집 중 스토어가 바뀌면(다른 화면 / 실행 취소) "현재 데이터 다시 불러오기"로 맞춥니다.
+ */
+import { useState } from 'react';
+import { Alert, Button, Card, List, Space, Tag, Typography } from 'antd';
+import { CheckOutlined, FormatPainterOutlined, ReloadOutlined } from '@ant-design/icons';
+import Editor from '@monaco-editor/react';
+import { useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import { TAG_DATA_MODEL_PATH, validateTagDataJson, type SchemaError } from '@/utils/tagDataSchema';
+
+const { Text } = Typography;
+
+/** 오류 목록에 표시할 최대 항목 수 */
+const MAX_ERRORS = 50;
+
+const toText = (value: unknown) => JSON.stringify(value, null, 2);
+
+export default function TagDataJsonEditor() {
+  const tags          = useDataStore((s) => s.tags);
+  const setTags       = useDataStore((s) => s.setTags);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+
+  const [text, setText]         = useState(() => toText(tags));
+  const [loadedTags, setLoaded] = useState(tags);
+  const [errors, setErrors]     = useState<SchemaError[]>([]);
+
+  const dirty      = text !== toText(loadedTags);
+  const storeMoved = loadedTags !== tags;
+
+  const handleReload = () => {
+    setText(toText(tags));
+    setLoaded(tags);
+    setErrors([]);
+  };
+
+  const handleFormat = () => {
+    try {
+      setText(toText(JSON.parse(text)));
+    } catch { /* 파싱 오류는 에디터 마커로 표시 */ }
+  };
+
+  const handleApply = () => {
+    const result = validateTagDataJson(text);
+    setErrors(result.errors);
+    if (!result.data) return;
+
+    const next = {
+      ...result.data,
+      _metadata: { ...result.data._metadata, totalTags: Object.keys(result.data.tags).length },
+    };
+    setTags(next, 'Raw JSON 편집');
+    setText(toText(next));
+    // 적용 직후 스토어 값이 next가 되므로 비교 기준도 갱신
+    setLoaded(useDataStore.getState().tags);
+    notifySuccess('적용 완료', `태그 ${Object.keys(next.tags).length}개, 복합 태그 ${Object.keys(next.compoundTags).length}개를 반영했습니다.`);
+  };
+
+  return (
+    <Card
+      title="Raw JSON 편집 (TagData 전체)"
+      size="small"
+      extra={
+        <Space>
+          {dirty && <Tag color="orange">적용 안 된 변경</Tag>}
+          <Button size="small" icon={<FormatPainterOutlined />} onClick={handleFormat}>포맷</Button>
+          <Button size="small" icon={<ReloadOutlined />} onClick={handleReload}>현재 데이터 다시 불러오기</Button>
+          <Button size="small" type="primary" icon={<CheckOutlined />} onClick={handleApply} disabled={!dirty}>
+            검증 후 적용
+          </Button>
+        </Space>
+      }
+    >
+      <Space direction="vertical" size={12} style={{ width: '100%' }}>
+        {storeMoved && (
+          <Alert
+            type="info"
+            showIcon
+            title="에디터를 연 뒤 태그 데이터가 바뀌었습니다."
+            description="적용하면 그 변경을 덮어씁니다. 최신 상태로 다시 시작하려면 '현재 데이터 다시 불러오기'를 누르세요."
+          />
+        )}
+        {errors.length > 0 && (
+          <Alert
+            type="error"
+            showIcon
+            title={`스키마 검증 오류 ${errors.length}건 — 적용하지 않았습니다.`}
+            description={
+              <List
+                size="small"
+                dataSource={errors.slice(0, MAX_ERRORS)}
+                style={{ maxHeight: 200, overflowY: 'auto' }}
+                renderItem={(e) => (
+                  <List.Item style={{ padding: '2px 0' }}>
+                    <Space size={8}>
+                      <Text code style={{ fontSize: 11 }}>{e.path}</Text>
+                      <Text style={{ fontSize: 12 }}>{e.message}</Text>
+                    </Space>
+                  </List.Item>
+                )}
+              />
+            }
+          />
+        )}
+        <Editor
+          height="640px"
+          language="json"
+          path={TAG_DATA_MODEL_PATH}
+          value={text}
+          onChange={(v) => setText(v ?? '')}
+          options={{
+            minimap:              { enabled: false },
+            fontSize:             13,
+            tabSize:              2,
+            wordWrap:             'on',
+            scrollBeyondLastLine: false,
+            automaticLayout:      true,
+          }}
+        />
+      </Space>
+    </Card>
+  );
+}
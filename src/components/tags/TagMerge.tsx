@@ -62,6 +62,8 @@ interface PreviewRow {
   afterCondition: string;
   beforeRequired: string[];
   afterRequired: string[];
+  /** tagCondition을 파싱할 수 없어 병합 대상 태그 참조를 바꾸지 못했으면 파서 오류 */
+  conditionError: string | null;
 }
 
 export default function TagMerge({ open, onClose }: TagMergeProps) {
@@ -70,6 +72,8 @@ export default function TagMerge({ open, onClose }: TagMergeProps) {
   const updateRule    = useDataStore((s) => s.updateRule);
   const upsertTag     = useDataStore((s) => s.upsertTag);
   const deleteTag     = useDataStore((s) => s.deleteTag);
+  const recordHistory = useDataStore((s) => s.recordHistory);
+  const transact      = useDataStore((s) => s.transact);
   const notifySuccess = useUiStore((s) => s.notifySuccess);
   const notifyError   = useUiStore((s) => s.notifyError);
 
@@ -94,7 +98,7 @@ export default function TagMerge({ open, onClose }: TagMergeProps) {
   const previewRows: PreviewRow[] = useMemo(() => {
     if (!newTag.name || selectedTags.length === 0) return [];
     return affectedRules.map((rule) => {
-      const updated = mergeTagsInRule(rule, selectedTags, newTag.name);
+      const { rule: updated, conditionError } = mergeTagsInRule(rule, selectedTags, newTag.name);
       return {
         ruleId:          rule.ruleId,
         title:           rule.title,
@@ -102,10 +106,14 @@ export default function TagMerge({ open, onClose }: TagMergeProps) {
         afterCondition:  updated.tagCondition ?? '',
         beforeRequired:  rule.requiredTags ?? [],
         afterRequired:   updated.requiredTags ?? [],
+        conditionError,
       };
     });
   }, [affectedRules, selectedTags, newTag.name]);
 
+  // tagCondition을 갱신하지 못해 삭제될 태그를 계속 참조하게 되는 규칙
+  const failedRows = previewRows.filter((row) => row.conditionError);
+
   // ── 유효성 검사 ─────────────────────────────────────────────────────────
   const validateStep1 = () => {
     if (selectedTags.length < 2) {
@@ -130,32 +138,46 @@ export default function TagMerge({ open, onClose }: TagMergeProps) {
   };
 
   // ── 적용 ────────────────────────────────────────────────────────────────
-  const handleApply = () => {
+  const handleApply = async () => {
     try {
-      // 1. 새 태그 생성 (첫 번째 선택 태그의 설정을 기반으로)
-      const baseDef = tags.tags[selectedTags[0]];
-      const merged: TagDefinition = {
-        category:         baseDef?.category ?? 'general',
-        description:      newTag.description || selectedTags.join(' + '),
-        extractionMethod: newTag.extractionMethod,
-        tier:             newTag.tier,
-        detection:        baseDef?.detection ?? { type: 'regex', patterns: [], matchType: 'any' },
-      };
-      upsertTag(newTag.name, merged);
+      // 0. 적용 전 상태를 이력에 기록 (이력 페이지에서 복원 가능)
+      await recordHistory('tagMerge', `${selectedTags.join(', ')} 병합 전`);
 
-      // 2. 영향받는 규칙 업데이트
-      affectedRules.forEach((rule) => {
-        const updated = mergeTagsInRule(rule, selectedTags, newTag.name);
-        updateRule(rule.ruleId, updated);
-      });
+      // 1~3은 undo 한 번으로 되돌릴 수 있도록 하나의 항목으로 기록
+      const failedRuleIds: string[] = [];
+      transact(`태그 ${selectedTags.length}개를 ${newTag.name}(으)로 병합`, () => {
+        // 1. 새 태그 생성 (첫 번째 선택 태그의 설정을 기반으로)
+        const baseDef = tags.tags[selectedTags[0]];
+        const merged: TagDefinition = {
+          category:         baseDef?.category ?? 'general',
+          description:      newTag.description || selectedTags.join(' + '),
+          extractionMethod: newTag.extractionMethod,
+          tier:             newTag.tier,
+          detection:        baseDef?.detection ?? { type: 'regex', patterns: [], matchType: 'any' },
+        };
+        upsertTag(newTag.name, merged);
 
-      // 3. 원본 태그들 삭제
-      selectedTags.forEach((t) => deleteTag(t));
+        // 2. 영향받는 규칙 업데이트
+        affectedRules.forEach((rule) => {
+          const update = mergeTagsInRule(rule, selectedTags, newTag.name);
+          if (update.conditionError) failedRuleIds.push(rule.ruleId);
+          updateRule(rule.ruleId, update.rule);
+        });
+
+        // 3. 원본 태그들 삭제
+        selectedTags.forEach((t) => deleteTag(t));
+      });
 
       notifySuccess(
         '태그 병합 완료',
         `${selectedTags.join(', ')} → "${newTag.name}" / 영향 규칙 ${affectedRules.length}개 업데이트`,
       );
+      if (failedRuleIds.length > 0) {
+        notifyError(
+          `tagCondition을 갱신하지 못한 규칙 ${failedRuleIds.length}개`,
+          `조건식 오류로 삭제된 태그 참조가 남아 있습니다. 직접 수정하세요: ${failedRuleIds.join(', ')}`,
+        );
+      }
       handleClose();
     } catch (err) {
       notifyError('태그 병합 실패', err instanceof Error ? err.message : undefined);
@@ -388,6 +410,24 @@ export default function TagMerge({ open, onClose }: TagMergeProps) {
             </Space>
           </Card>
 
+          {failedRows.length > 0 && (
+            <Alert
+              type="warning"
+              showIcon
+              style={{ marginBottom: 12 }}
+              title={`tagCondition을 해석할 수 없는 규칙 ${failedRows.length}개 — 조건식의 병합 대상 태그 참조는 바뀌지 않습니다.`}
+              description={
+                <ul style={{ margin: 0, paddingLeft: 18 }}>
+                  {failedRows.map((row) => (
+                    <li key={row.ruleId}>
+                      <Text code style={{ fontSize: 11 }}>{row.ruleId}</Text> {row.conditionError}
+                    </li>
+                  ))}
+                </ul>
+              }
+            />
+          )}
+
           {previewRows.length > 0 ? (
             <>
               <Title level={5} style={{ marginBottom: 8 }}>
@@ -43,6 +43,7 @@ import {
   findRulesUsingTag,
   replaceTagInRule,
   removeTagFromRule,
+  type RuleTagRefUpdate,
 } from '@/utils/tagRefUpdate';
 
 const { Text, Title } = Typography;
@@ -75,6 +76,8 @@ interface PreviewRow {
   assignment: TagAssignment;
   before:     { tagCondition: string; requiredTags: string[] };
   after:      { tagCondition: string; requiredTags: string[] };
+  /** tagCondition을 파싱할 수 없어 원본 태그 참조를 바꾸지 못했으면 파서 오류 */
+  conditionError: string | null;
 }
 
 export default function TagSplit({ open, onClose }: TagSplitProps) {
@@ -83,6 +86,8 @@ export default function TagSplit({ open, onClose }: TagSplitProps) {
   const updateRule    = useDataStore((s) => s.updateRule);
   const upsertTag     = useDataStore((s) => s.upsertTag);
   const deleteTag     = useDataStore((s) => s.deleteTag);
+  const recordHistory = useDataStore((s) => s.recordHistory);
+  const transact      = useDataStore((s) => s.transact);
   const notifySuccess = useUiStore((s) => s.notifySuccess);
   const notifyError   = useUiStore((s) => s.notifyError);
 
@@ -118,26 +123,21 @@ export default function TagSplit({ open, onClose }: TagSplitProps) {
     setAssignmentMap((prev) => ({ ...prev, [ruleId]: val }));
   };
 
-  // 특정 배정에 따른 after 상태 계산
-  const computeAfter = (rule: Rule, assignment: TagAssignment) => {
-    if (!sourceTag) return { tagCondition: rule.tagCondition ?? '', requiredTags: rule.requiredTags ?? [] };
-    if (assignment === 'A') {
-      const updated = replaceTagInRule(rule, sourceTag, tagA.name);
-      return { tagCondition: updated.tagCondition ?? '', requiredTags: updated.requiredTags ?? [] };
-    }
-    if (assignment === 'B') {
-      const updated = replaceTagInRule(rule, sourceTag, tagB.name);
-      return { tagCondition: updated.tagCondition ?? '', requiredTags: updated.requiredTags ?? [] };
-    }
+  // 특정 배정에 따른 규칙 갱신 결과 (미리보기와 적용에서 함께 사용)
+  const computeUpdate = (rule: Rule, assignment: TagAssignment): RuleTagRefUpdate => {
+    if (!sourceTag)          return { rule, conditionError: null };
+    if (assignment === 'A')  return replaceTagInRule(rule, sourceTag, tagA.name);
+    if (assignment === 'B')  return replaceTagInRule(rule, sourceTag, tagB.name);
     if (assignment === 'BOTH') {
       // 원본 → tagA 로 교체한 뒤, tagB도 requiredTags에 추가
-      const updatedA = replaceTagInRule(rule, sourceTag, tagA.name);
-      const bothRequired = [...new Set([...(updatedA.requiredTags ?? []), tagB.name])];
-      return { tagCondition: updatedA.tagCondition ?? '', requiredTags: bothRequired };
+      const withA = replaceTagInRule(rule, sourceTag, tagA.name);
+      return {
+        ...withA,
+        rule: { ...withA.rule, requiredTags: [...new Set([...(withA.rule.requiredTags ?? []), tagB.name])] },
+      };
     }
     // REMOVE
-    const updated = removeTagFromRule(rule, sourceTag);
-    return { tagCondition: updated.tagCondition ?? '', requiredTags: updated.requiredTags ?? [] };
+    return removeTagFromRule(rule, sourceTag);
   };
 
   // 미리보기 행 목록 (Step 3)
@@ -145,7 +145,7 @@ export default function TagSplit({ open, onClose }: TagSplitProps) {
     if (!sourceTag || !tagA.name || !tagB.name) return [];
     return affectedRules.map((rule) => {
       const assignment = assignmentMap[rule.ruleId] ?? 'A';
-      const after      = computeAfter(rule, assignment);
+      const update     = computeUpdate(rule, assignment);
       return {
         ruleId:     rule.ruleId,
         title:      rule.title,
@@ -154,11 +154,18 @@ export default function TagSplit({ open, onClose }: TagSplitProps) {
           tagCondition: rule.tagCondition ?? '',
           requiredTags: rule.requiredTags ?? [],
         },
-        after,
+        after: {
+          tagCondition: update.rule.tagCondition ?? '',
+          requiredTags: update.rule.requiredTags ?? [],
+        },
+        conditionError: update.conditionError,
       };
     });
   }, [affectedRules, sourceTag, tagA.name, tagB.name, assignmentMap]);
 
+  // tagCondition을 갱신하지 못해 삭제될 원본 태그를 계속 참조하게 되는 규칙
+  const failedRows = previewRows.filter((row) => row.conditionError);
+
   // ── 유효성 검사 ─────────────────────────────────────────────────────────
   const validateStep0 = () => {
     if (!sourceTag) { notifyError('원본 태그를 선택하세요.'); return false; }
@@ -182,47 +189,44 @@ export default function TagSplit({ open, onClose }: TagSplitProps) {
   };
 
   // ── 적용 ────────────────────────────────────────────────────────────────
-  const handleApply = () => {
+  const handleApply = async () => {
     if (!sourceTag || !sourceDef) return;
     try {
-      // 1. 새 태그 A / B 생성
-      const newTagA: TagDefinition = { ...sourceDef, description: tagA.description || `${sourceDef.description} (A)` };
-      const newTagB: TagDefinition = { ...sourceDef, description: tagB.description || `${sourceDef.description} (B)` };
-      upsertTag(tagA.name, newTagA);
-      upsertTag(tagB.name, newTagB);
+      // 0. 적용 전 상태를 이력에 기록 (이력 페이지에서 복원 가능)
+      await recordHistory('tagSplit', `"${sourceTag}" 분할 전`);
 
-      // 2. 각 규칙에 선택된 배정 적용
+      // 1~3은 undo 한 번으로 되돌릴 수 있도록 하나의 항목으로 기록
       let updatedCount = 0;
-      affectedRules.forEach((rule) => {
-        const assignment = assignmentMap[rule.ruleId] ?? 'A';
-        let updated: Partial<Rule>;
-
-        if (assignment === 'A') {
-          updated = replaceTagInRule(rule, sourceTag, tagA.name);
-        } else if (assignment === 'B') {
-          updated = replaceTagInRule(rule, sourceTag, tagB.name);
-        } else if (assignment === 'BOTH') {
-          const withA = replaceTagInRule(rule, sourceTag, tagA.name);
-          updated = {
-            ...withA,
-            requiredTags: [...new Set([...(withA.requiredTags ?? []), tagB.name])],
-          };
-        } else {
-          // REMOVE
-          updated = removeTagFromRule(rule, sourceTag);
-        }
-
-        updateRule(rule.ruleId, updated);
-        updatedCount++;
+      const failedRuleIds: string[] = [];
+      transact(`태그 분할: ${sourceTag} → ${tagA.name}, ${tagB.name}`, () => {
+        // 1. 새 태그 A / B 생성
+        const newTagA: TagDefinition = { ...sourceDef, description: tagA.description || `${sourceDef.description} (A)` };
+        const newTagB: TagDefinition = { ...sourceDef, description: tagB.description || `${sourceDef.description} (B)` };
+        upsertTag(tagA.name, newTagA);
+        upsertTag(tagB.name, newTagB);
+
+        // 2. 각 규칙에 선택된 배정 적용
+        affectedRules.forEach((rule) => {
+          const update = computeUpdate(rule, assignmentMap[rule.ruleId] ?? 'A');
+          if (update.conditionError) failedRuleIds.push(rule.ruleId);
+          updateRule(rule.ruleId, update.rule);
+          updatedCount++;
+        });
+
+        // 3. 원본 태그 삭제
+        deleteTag(sourceTag);
       });
 
-      // 3. 원본 태그 삭제
-      deleteTag(sourceTag);
-
       notifySuccess(
         '태그 분할 완료',
         `"${sourceTag}" → "${tagA.name}", "${tagB.name}" / ${updatedCount}개 규칙 업데이트`,
       );
+      if (failedRuleIds.length > 0) {
+        notifyError(
+          `tagCondition을 갱신하지 못한 규칙 ${failedRuleIds.length}개`,
+          `조건식 오류로 "${sourceTag}" 참조가 남아 있습니다. 직접 수정하세요: ${failedRuleIds.join(', ')}`,
+        );
+      }
       handleClose();
     } catch (err) {
       notifyError('태그 분할 실패', err instanceof Error ? err.message : undefined);
@@ -603,6 +607,24 @@ export default function TagSplit({ open, onClose }: TagSplitProps) {
             </Row>
           </Card>
 
+          {failedRows.length > 0 && (
+            <Alert
+              type="warning"
+              showIcon
+              style={{ marginBottom: 12 }}
+              title={`tagCondition을 해석할 수 없는 규칙 ${failedRows.length}개 — 조건식의 "${sourceTag}" 참조는 바뀌지 않습니다.`}
+              description={
+                <ul style={{ margin: 0, paddingLeft: 18 }}>
+                  {failedRows.map((row) => (
+                    <li key={row.ruleId}>
+                      <Text code style={{ fontSize: 11 }}>{row.ruleId}</Text> {row.conditionError}
+                    </li>
+                  ))}
+                </ul>
+              }
+            />
+          )}
+
           {previewRows.length > 0 && (
             <>
               <Title level={5} style={{ marginBottom: 8 }}>
@@ -0,0 +1,119 @@
+/**
+ * src/hooks/useCrossTabSync.ts
+ *
+ * 같은 브라우저의 탭끼리 dataStore(rules / tags / baseVersion / lastPullAt / lastPushAt / origin)를 실시간 공유하는 훅.
+ *
+ * 동작:
+ *   - 로컬 변경 → SEND_DEBOUNCE_MS 뒤 마지막 공유 상태(shared)와 비교한 항목 단위 변경(DataPatch)만 전송
+ *     baseVersion 등 동기화 정보도 바뀐 값만 보냄 (늦게 도착한 메시지가 다른 탭의 Pull 결과를 되돌리지 않도록)
+ *   - 다른 탭의 변경 수신 → 패치에 든 규칙(ruleId) / 태그(이름)만 반영 (수신 적용은 다시 전송하지 않음)
+ *     그래서 두 탭이 서로 다른 항목을 동시에 고쳐도 둘 다 남습니다. 같은 항목이면 나중에 받은 쪽으로 맞춰짐
+ *   - hydrate(IndexedDB 복원)는 전송하지 않음 — 새 탭이 열릴 때 다른 탭의 최신 상태를 덮어쓰지 않도록
+ *
+ * 수신 시 undo / redo 스택에서는 받은 패치와 같은 항목을 건드리는 항목만 뺍니다.
+ * 그 항목을 되돌리면 다른 탭의 변경을 조용히 덮어쓰게 되기 때문입니다. 나머지 항목은 그대로 되돌릴 수 있습니다.
+ */
+import { useEffect } from 'react';
+import { useDataStore, type UndoEntry } from '@/stores/dataStore';
+import { CHANNEL_NAMES, createBroadcastTransport } from '@/realtime/transport';
+import { applyPatch, diffData, isEmptyPatch, patchKeys, type DataPatch, type PatchTarget } from '@/utils/dataPatch';
+import type { Rule } from '@/types/rule';
+import type { TagData } from '@/types/tag';
+
+const SEND_DEBOUNCE_MS = 150;
+
+/** 항목 단위로 나누지 않고 값 그대로 공유하는 동기화 정보 */
+interface SyncMeta {
+  baseVersion: number | null;
+  lastPullAt:  string | null;
+  lastPushAt:  string | null;
+  origin:      { rules: Rule[]; tags: TagData } | null;
+}
+
+interface DataSyncMessage {
+  type:  'data';
+  patch: DataPatch;
+  /** 바뀐 값만 */
+  meta:  Partial<SyncMeta>;
+}
+
+const META_KEYS = ['baseVersion', 'lastPullAt', 'lastPushAt', 'origin'] as const;
+
+function pickMeta(state: SyncMeta): SyncMeta {
+  const { baseVersion, lastPullAt, lastPushAt, origin } = state;
+  return { baseVersion, lastPullAt, lastPushAt, origin };
+}
+
+export default function useCrossTabSync(): void {
+  useEffect(() => {
+    const transport = createBroadcastTransport<DataSyncMessage>(CHANNEL_NAMES.data);
+    let applyingRemote = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    // 마지막으로 다른 탭과 맞춘 상태 — 보낼 때는 여기서 바뀐 것만, 받을 때는 여기에도 반영
+    const initial = useDataStore.getState();
+    let shared: PatchTarget = { rules: initial.rules, tags: initial.tags };
+    let sharedMeta          = pickMeta(initial);
+
+    const send = () => {
+      timer = null;
+      const state = useDataStore.getState();
+      const patch = diffData(shared, state);
+      const meta: Partial<SyncMeta> = {};
+      for (const key of META_KEYS) {
+        if (state[key] !== sharedMeta[key]) Object.assign(meta, { [key]: state[key] });
+      }
+      shared     = { rules: state.rules, tags: state.tags };
+      sharedMeta = pickMeta(state);
+      if (isEmptyPatch(patch) && Object.keys(meta).length === 0) return;
+      transport.send({ type: 'data', patch, meta });
+    };
+
+    const unsubscribeStore = useDataStore.subscribe((state, prev) => {
+      if (applyingRemote) return;
+      if (!prev.isHydrated) {
+        // hydrate 결과는 보내지 않고 공유 기준으로만 삼음
+        shared     = { rules: state.rules, tags: state.tags };
+        sharedMeta = pickMeta(state);
+        return;
+      }
+      if (state.rules === prev.rules && state.tags === prev.tags && META_KEYS.every((key) => state[key] === prev[key])) {
+        return;
+      }
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(send, SEND_DEBOUNCE_MS);
+    });
+
+    const unsubscribeTransport = transport.subscribe((message) => {
+      if (message.type !== 'data') return;
+      const { rules, tags, undoStack, redoStack } = useDataStore.getState();
+      // 패치에 없는 항목의 아직 보내지 않은 로컬 변경은 유지 — 다음 전송 때 shared와 비교해 그대로 나감
+      const merged = applyPatch({ rules, tags }, message.patch, 'after');
+      shared       = applyPatch(shared, message.patch, 'after');
+      sharedMeta   = { ...sharedMeta, ...message.meta };
+
+      const touched = patchKeys(message.patch);
+      const keep    = (entry: UndoEntry) => ![...patchKeys(entry.patch)].some((key) => touched.has(key));
+
+      applyingRemote = true;
+      try {
+        useDataStore.setState({
+          ...merged,
+          ...message.meta,
+          undoStack: undoStack.filter(keep),
+          redoStack: redoStack.filter(keep),
+        });
+      } finally {
+        applyingRemote = false;
+      }
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribeStore();
+      unsubscribeTransport();
+      transport.close();
+    };
+  }, []);
+}
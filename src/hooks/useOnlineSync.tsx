@@ -9,6 +9,9 @@
  *   - 이전 상태가 'disconnected'이고 현재 상태가 'connected'인 경우에만 모달 표시
  *     (앱 최초 기동 시 'checking' → 'connected' 전환은 무시)
  *   - 모달에서 "동기화 페이지로 이동" 선택 시 /sync 페이지로 이동
+ *   - 오프라인 중 예약한 작업(outbox)이 있으면 안내 모달 대신 예약 작업을 실행
+ *     autoReplay가 켜져 있으면 바로, 꺼져 있으면 확인 모달을 거쳐 실행하고 결과를 알림으로 표시
+ *     (버전 충돌로 멈추면 3-way 병합을 위해 /sync로 안내)
  *
  * 주의:
  *   - react-router-dom의 useNavigate를 사용하므로 반드시 <BrowserRouter> 내부에서 호출해야 합니다.
@@ -20,6 +23,7 @@ import { Modal } from 'antd';
 import { WifiOutlined } from '@ant-design/icons';
 import { useUiStore, type ServerStatus } from '@/stores/uiStore';
 import { useDataStore } from '@/stores/dataStore';
+import { OUTBOX_STATUS_LABELS, useOutboxStore } from '@/stores/outboxStore';
 
 export default function useOnlineSync(): void {
   const serverStatus   = useUiStore((s) => s.serverStatus);
@@ -37,6 +41,37 @@ export default function useOnlineSync(): void {
     // ('checking' → 'connected'는 앱 초기 기동이므로 무시)
     if (prev !== 'disconnected' || serverStatus !== 'connected') return;
 
+    const outbox      = useOutboxStore.getState();
+    const queuedCount = outbox.items.filter((i) => i.status === 'queued').length;
+    if (queuedCount > 0) {
+      const { notifySuccess, notifyError } = useUiStore.getState();
+      const runQueued = async () => {
+        const { done, stopped } = await useOutboxStore.getState().replay();
+        if (!stopped) {
+          notifySuccess('예약 작업 완료', `오프라인 중 예약한 작업 ${done}건을 실행했습니다.`);
+          return;
+        }
+        const reason = stopped.events[stopped.events.length - 1]?.message;
+        notifyError(`예약 작업 #${stopped.id} ${OUTBOX_STATUS_LABELS[stopped.status]}`, reason);
+        if (stopped.status === 'conflict') navigate('/sync');
+      };
+
+      if (outbox.autoReplay) {
+        void runQueued();
+        return;
+      }
+      Modal.confirm({
+        title: '서버에 연결되었습니다',
+        icon: <WifiOutlined style={{ color: '#52c41a' }} />,
+        content: `오프라인 중 예약한 작업 ${queuedCount}건이 있습니다. 지금 순서대로 실행하시겠습니까?`,
+        okText: '지금 실행',
+        cancelText: '나중에',
+        okButtonProps: { type: 'primary' },
+        onOk: runQueued,
+      });
+      return;
+    }
+
     // 로컬 데이터가 없으면 동기화 안내 불필요
     if (!hasLocalData) return;
 
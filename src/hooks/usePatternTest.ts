@@ -0,0 +1,84 @@
+/**
+ * src/hooks/usePatternTest.ts
+ *
+ * 규칙 패턴 검사(testPatterns)를 Web Worker에서 실행하는 커스텀 훅.
+ * RuleEditPage의 패턴 플레이그라운드와 코드 예시 하이라이트에 사용합니다.
+ *
+ * - 입력이 바뀔 때마다 Worker에 요청하고, 마지막 요청의 응답만 반영
+ * - PATTERN_TEST_TIMEOUT_MS 안에 응답이 없으면 (ReDoS 등) Worker를 terminate하고
+ *   다음 요청 때 새로 만듦 → 결과는 timedOutPatterns로 모든 패턴을 오류 표시
+ *
+ * 결과는 검사한 입력과 함께 반환합니다. 응답이 오기 전에 코드가 더 바뀌었을 수 있으므로
+ * 호출 쪽은 input의 코드가 현재 에디터 내용과 같을 때만 매칭 offset으로 하이라이트해야 합니다.
+ */
+import { useEffect, useRef, useState } from 'react';
+import PatternTestWorker from '@/utils/patternTest.worker?worker';
+import type { PatternTestRequest, PatternTestResponse } from '@/utils/patternTest.worker';
+import { timedOutPatterns, type PatternTarget, type PatternTestResult } from '@/utils/patternTest';
+import type { AntiPattern, GoodPattern } from '@/types/rule';
+
+/** 검사 1회 최대 시간 */
+const PATTERN_TEST_TIMEOUT_MS = 1_000;
+
+export interface PatternTestInput<A extends AntiPattern = AntiPattern, G extends GoodPattern = GoodPattern> {
+  antiPatterns: A[];
+  goodPatterns: G[];
+  sources:      Record<PatternTarget, string>;
+}
+
+export interface PatternTestOutput<A extends AntiPattern, G extends GoodPattern> {
+  /** 검사한 입력 (현재 입력보다 이전 것일 수 있음) */
+  input:   PatternTestInput<A, G>;
+  results: PatternTestResult[];
+}
+
+/** input은 바뀔 때만 새 객체여야 합니다 (useMemo) */
+export default function usePatternTest<A extends AntiPattern, G extends GoodPattern>(
+  input: PatternTestInput<A, G>,
+): PatternTestOutput<A, G> | null {
+  const [output, setOutput] = useState<PatternTestOutput<A, G> | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const lastIdRef = useRef(0);
+
+  useEffect(() => {
+    const worker = workerRef.current ?? new PatternTestWorker();
+    workerRef.current = worker;
+    const id = ++lastIdRef.current;
+
+    const timer = setTimeout(() => {
+      // 실행 중인 정규식은 멈출 수 없으므로 Worker째 버림
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+      setOutput({ input, results: timedOutPatterns(input.antiPatterns, input.goodPatterns, PATTERN_TEST_TIMEOUT_MS) });
+    }, PATTERN_TEST_TIMEOUT_MS);
+
+    const handleMessage = (event: MessageEvent<PatternTestResponse>) => {
+      if (event.data.id !== id) return;
+      clearTimeout(timer);
+      setOutput({ input, results: event.data.results });
+    };
+    worker.addEventListener('message', handleMessage);
+
+    const request: PatternTestRequest = {
+      id,
+      antiPatterns: input.antiPatterns,
+      goodPatterns: input.goodPatterns,
+      sources:      input.sources,
+    };
+    worker.postMessage(request);
+
+    // 다음 입력이 오면 이 요청의 응답 / 시간 제한은 무시
+    // (Worker가 아직 이 요청을 실행 중이면 다음 요청의 시간 제한이 대신 걸림)
+    return () => {
+      clearTimeout(timer);
+      worker.removeEventListener('message', handleMessage);
+    };
+  }, [input]);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  return output;
+}
@@ -3,10 +3,14 @@
  *
  * /health 엔드포인트를 30초 간격으로 폴링하는 커스텀 훅.
  * 마운트 시 즉시 1회 호출 후 인터벌 시작, 언마운트 시 정리.
+ * 연결되어 있으면 서버 데이터 버전도 확인합니다 (remoteStore — 자체 간격으로 throttle).
+ * 확인 시각과 결과는 BroadcastChannel로 다른 탭과 공유해 탭마다 따로 받지 않습니다.
  */
 import { useEffect, useRef } from 'react';
 import { checkHealth } from '@/api/healthApi';
 import { useUiStore } from '@/stores/uiStore';
+import { useRemoteStore } from '@/stores/remoteStore';
+import { CHANNEL_NAMES, createBroadcastTransport } from '@/realtime/transport';
 
 const POLL_INTERVAL_MS = 30_000;
 
@@ -17,10 +21,13 @@ export default function usePollHealth() {
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   useEffect(() => {
+    const disconnectRemote = useRemoteStore.getState().connectRemote(createBroadcastTransport(CHANNEL_NAMES.remote));
+
     const poll = async () => {
       try {
         const res = await checkHealth();
         setServerChecked(res.version);
+        void useRemoteStore.getState().checkRemote();
       } catch {
         setServerDisconnected();
       }
@@ -32,6 +39,7 @@ export default function usePollHealth() {
 
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
+      disconnectRemote();
     };
   }, [setServerChecked, setServerDisconnected, setServerStatus]);
 }
\ No newline at end of file
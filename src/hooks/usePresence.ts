@@ -0,0 +1,18 @@
+/**
+ * src/hooks/usePresence.ts
+ *
+ * 앱 수명 동안 presenceStore를 기본 Transport(BroadcastChannel)에 연결하는 훅.
+ * 서버 측 presence 채널을 붙일 때는 이 훅에서 Transport만 바꾸면 됩니다.
+ */
+import { useEffect } from 'react';
+import { usePresenceStore } from '@/stores/presenceStore';
+import { CHANNEL_NAMES, createBroadcastTransport } from '@/realtime/transport';
+
+export default function usePresence(): void {
+  const connectPresence = usePresenceStore((s) => s.connectPresence);
+
+  useEffect(
+    () => connectPresence(createBroadcastTransport(CHANNEL_NAMES.presence)),
+    [connectPresence],
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * src/hooks/useUndoShortcuts.ts
+ *
+ * 전역 실행 취소 / 다시 실행 단축키.
+ *   - Ctrl(⌘)+Z        : undo
+ *   - Ctrl(⌘)+Shift+Z  : redo
+ *   - Ctrl+Y           : redo
+ *
+ * 입력 필드(input / textarea / contenteditable, Monaco 포함)에 포커스가 있으면
+ * 브라우저 / 에디터 자체의 텍스트 undo가 동작하도록 가로채지 않습니다.
+ */
+import { useEffect } from 'react';
+import { useDataStore } from '@/stores/dataStore';
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export default function useUndoShortcuts(): void {
+  const undo = useDataStore((s) => s.undo);
+  const redo = useDataStore((s) => s.redo);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
@@ -0,0 +1,103 @@
+/**
+ * src/hooks/useUrlState.ts
+ *
+ * 화면 상태를 react-router search params에 두는 훅.
+ * 새로고침 / 링크 공유 / 뒤로 가기로 같은 화면(필터, 페이지, 펼친 항목 등)을 복원할 수 있습니다.
+ *
+ * 스키마는 파라미터 이름 → ParamCodec이며, 기본값과 같은 값은 URL에서 빠집니다.
+ * 스키마 객체는 렌더마다 새로 만들지 않도록 모듈 상수로 선언해 넘기세요.
+ *
+ * @example
+ * const SCHEMA = { q: urlParam.string(), page: urlParam.number(1) };
+ * const [state, update] = useUrlState(SCHEMA);
+ * update({ q: 'severity:HIGH', page: 1 });           // 뒤로 가기로 되돌릴 수 있는 변경
+ * update({ q: typing }, { replace: true });           // 입력 중에는 history를 쌓지 않음
+ */
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 코덱
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ParamCodec<T> {
+  /** URL 값 → 상태 (파라미터가 없거나 잘못되었으면 기본값) */
+  parse(raw: string | null): T;
+  /** 상태 → URL 값. 기본값이면 null (파라미터 제거) */
+  serialize(value: T): string | null;
+}
+
+export const urlParam = {
+  string: (fallback = ''): ParamCodec<string> => ({
+    parse:     (raw) => raw ?? fallback,
+    serialize: (value) => (value === fallback ? null : value),
+  }),
+
+  /** 정해진 값 중 하나 (목록에 없는 값은 기본값으로) */
+  oneOf: <T extends string>(values: readonly T[], fallback: T): ParamCodec<T> => ({
+    parse:     (raw) => (values.includes(raw as T) ? (raw as T) : fallback),
+    serialize: (value) => (value === fallback ? null : value),
+  }),
+
+  /** 1 이상의 정수 */
+  number: (fallback: number): ParamCodec<number> => ({
+    parse: (raw) => {
+      const n = Number(raw);
+      return raw !== null && Number.isInteger(n) && n > 0 ? n : fallback;
+    },
+    serialize: (value) => (value === fallback ? null : String(value)),
+  }),
+
+  /** 쉼표로 구분한 문자열 목록 (빈 목록이 기본값) */
+  list: (): ParamCodec<string[]> => ({
+    parse:     (raw) => (raw ? raw.split(',').filter(Boolean) : []),
+    serialize: (value) => (value.length === 0 ? null : value.join(',')),
+  }),
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 훅
+// ─────────────────────────────────────────────────────────────────────────────
+
+type UrlSchema = Record<string, ParamCodec<unknown>>;
+
+export type UrlState<S extends UrlSchema> = {
+  [K in keyof S]: S[K] extends ParamCodec<infer T> ? T : never;
+};
+
+export interface UrlUpdateOptions {
+  /** true면 현재 history 항목을 교체 (입력 중인 검색어 등) */
+  replace?: boolean;
+}
+
+export default function useUrlState<S extends UrlSchema>(
+  schema: S,
+): [UrlState<S>, (patch: Partial<UrlState<S>>, options?: UrlUpdateOptions) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const state = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(schema).map(([key, codec]) => [key, codec.parse(searchParams.get(key))]),
+      ) as UrlState<S>,
+    [schema, searchParams],
+  );
+
+  const update = useCallback(
+    (patch: Partial<UrlState<S>>, options?: UrlUpdateOptions) => {
+      setSearchParams((prev) => {
+        // 스키마에 없는 파라미터(다른 컴포넌트 소유)는 그대로 유지
+        const next = new URLSearchParams(prev);
+        for (const [key, value] of Object.entries(patch)) {
+          const raw = schema[key].serialize(value);
+          if (raw === null) next.delete(key);
+          else next.set(key, raw);
+        }
+        return next;
+      }, { replace: options?.replace });
+    },
+    [schema, setSearchParams],
+  );
+
+  return [state, update];
+}
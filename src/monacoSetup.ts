@@ -9,12 +9,16 @@
  * 해결: loader.config({ monaco })로 로컬 npm 번들을 직접 지정합니다.
  *       Vite ?worker 문법으로 Web Worker도 로컬에서 초기화합니다.
  *
+ * JSON 스키마도 여기서 한 번만 등록합니다. jsonDefaults의 진단 옵션은 모든 JSON 에디터가 공유하므로
+ * 에디터 마운트 때마다 덮어쓰지 않고, 기존 옵션 / 스키마를 유지한 채 fileMatch 기준으로 추가합니다.
+ *
  * 반드시 main.tsx 최상단에서 import 해야 합니다 (App 렌더 전).
  */
 import { loader } from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
 import editorWorker from 'monaco-editor/esm/vs/editor/editor.worker?worker';
 import jsonWorker   from 'monaco-editor/esm/vs/language/json/json.worker?worker';
+import { TAG_DATA_MODEL_PATH, TAG_DATA_SCHEMA } from '@/utils/tagDataSchema';
 
 // Vite 환경에서 Monaco Web Worker 수동 초기화
 // (CDN 로딩 없이 로컬 번들만 사용)
@@ -26,4 +30,15 @@ import jsonWorker   from 'monaco-editor/esm/vs/language/json/json.worker?worker'
 };
 
 // CDN 대신 로컬 번들된 monaco 인스턴스를 loader에 직접 주입
-loader.config({ monaco });
\ No newline at end of file
+loader.config({ monaco });
+
+// TagData JSON 에디터(TagDataJsonEditor) 스키마 등록
+const jsonDiagnostics = monaco.json.jsonDefaults.diagnosticsOptions;
+monaco.json.jsonDefaults.setDiagnosticsOptions({
+  ...jsonDiagnostics,
+  validate: true,
+  schemas:  [
+    ...(jsonDiagnostics.schemas ?? []).filter((s) => !s.fileMatch?.includes(TAG_DATA_MODEL_PATH)),
+    { uri: 'inmemory://schema/tag-data.schema.json', fileMatch: [TAG_DATA_MODEL_PATH], schema: TAG_DATA_SCHEMA },
+  ],
+});
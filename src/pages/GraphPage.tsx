@@ -0,0 +1,127 @@
+/**
+ * src/pages/GraphPage.tsx
+ *
+ * 의존 그래프 페이지.
+ * 태그 → 복합 태그 → 규칙 참조 관계를 한 화면에서 보여줍니다.
+ * TagSplit / TagMerge 같은 리팩터링 전에 영향 범위를 확인하는 용도입니다.
+ *
+ * - 태그 카테고리 / 규칙 카테고리 필터
+ * - 고아 태그(사용하는 규칙 없음)만 보기
+ * - 노드 클릭 → 태그: TagsPage 편집 모달, 규칙: RuleEditPage
+ */
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, Col, Empty, Row, Select, Space, Switch, Tag, Typography } from 'antd';
+import { ApartmentOutlined } from '@ant-design/icons';
+import { useDataStore } from '@/stores/dataStore';
+import DependencyGraph from '@/components/graph/DependencyGraph';
+import { RULE_CATEGORY_LABELS, type RuleCategory } from '@/types/rule';
+import { buildTagGraph, filterGraph, type GraphNode } from '@/utils/tagGraph';
+
+const { Title, Text } = Typography;
+
+export default function GraphPage() {
+  const navigate = useNavigate();
+  const rules    = useDataStore((s) => s.rules);
+  const tags     = useDataStore((s) => s.tags);
+
+  const [tagCategories, setTagCategories]   = useState<string[]>([]);
+  const [ruleCategories, setRuleCategories] = useState<RuleCategory[]>([]);
+  const [orphansOnly, setOrphansOnly]       = useState(false);
+
+  const graph   = useMemo(() => buildTagGraph(tags, rules), [tags, rules]);
+  const visible = useMemo(
+    () => filterGraph(graph, { tagCategories, ruleCategories, orphansOnly }),
+    [graph, tagCategories, ruleCategories, orphansOnly],
+  );
+
+  const orphanTagCount = [...graph.orphans].filter((id) => graph.byId.get(id)?.kind === 'tag').length;
+
+  const tagCategoryOptions = useMemo(
+    () => Object.entries(tags.tagCategories).map(([id, desc]) => ({ value: id, label: `${id} (${desc})` })),
+    [tags.tagCategories],
+  );
+  const ruleCategoryOptions = useMemo(
+    () => [...new Set(rules.map((r) => r.category))]
+      .sort()
+      .map((c) => ({ value: c, label: RULE_CATEGORY_LABELS[c] ?? c })),
+    [rules],
+  );
+
+  const handleNodeClick = (node: GraphNode) => {
+    switch (node.kind) {
+      case 'rule':     navigate(`/rules/${node.name}`); break;
+      case 'tag':      navigate('/tags', { state: { editTag: node.name } }); break;
+      case 'compound': navigate('/tags', { state: { editCompoundTag: node.name } }); break;
+    }
+  };
+
+  return (
+    <div>
+      <Title level={4} style={{ marginBottom: 24 }}>
+        <ApartmentOutlined style={{ marginRight: 8 }} />
+        의존 그래프
+      </Title>
+
+      <Card style={{ marginBottom: 16 }}>
+        <Row gutter={[16, 12]} align="middle">
+          <Col xs={24} md={9}>
+            <Select
+              mode="multiple"
+              allowClear
+              placeholder="태그 카테고리"
+              options={tagCategoryOptions}
+              value={tagCategories}
+              onChange={setTagCategories}
+              style={{ width: '100%' }}
+            />
+          </Col>
+          <Col xs={24} md={9}>
+            <Select
+              mode="multiple"
+              allowClear
+              placeholder="규칙 카테고리"
+              options={ruleCategoryOptions}
+              value={ruleCategories}
+              onChange={setRuleCategories}
+              style={{ width: '100%' }}
+              disabled={orphansOnly}
+            />
+          </Col>
+          <Col xs={24} md={6}>
+            <Space>
+              <Switch size="small" checked={orphansOnly} onChange={setOrphansOnly} />
+              <Text style={{ fontSize: 13 }}>고아 태그만</Text>
+              <Tag color={orphanTagCount > 0 ? 'red' : 'default'}>{orphanTagCount}</Tag>
+            </Space>
+          </Col>
+        </Row>
+        <Space size={16} style={{ marginTop: 12 }} wrap>
+          <Text type="secondary" style={{ fontSize: 11 }}>
+            <span style={{ color: '#1677ff' }}>━</span> 조건식
+          </Text>
+          <Text type="secondary" style={{ fontSize: 11 }}>
+            <span style={{ color: '#52c41a' }}>━</span> 필수(requires / requiredTags)
+          </Text>
+          <Text type="secondary" style={{ fontSize: 11 }}>
+            <span style={{ color: '#fa541c' }}>┅</span> 제외(excludes / excludeTags)
+          </Text>
+          <Text type="secondary" style={{ fontSize: 11 }}>
+            빨간 점선 테두리: 어떤 규칙에도 쓰이지 않는 태그
+          </Text>
+        </Space>
+      </Card>
+
+      <Card styles={{ body: { overflow: 'auto', maxHeight: 'calc(100vh - 320px)', padding: 0 } }}>
+        {visible.size === 0 ? (
+          <Empty
+            style={{ padding: 48 }}
+            description={graph.nodes.length === 0 ? 'Pull 후 그래프가 표시됩니다.' : '조건에 맞는 노드가 없습니다.'}
+          />
+        ) : (
+          <DependencyGraph graph={graph} visible={visible} onNodeClick={handleNodeClick} />
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * src/pages/HistoryPage.tsx
+ *
+ * 스냅샷 이력 페이지.
+ * IndexedDB 'history'에 기록된 스냅샷 목록(사유 / 시각 / 규칙·태그 수)을 보여주고
+ * 항목별로 현재 편집본과 비교(localDiff → DiffViewer)하거나 복원합니다.
+ *
+ * 복원 시 현재 상태가 'restore' 이력으로 먼저 기록되므로 복원도 되돌릴 수 있습니다.
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { Button, Card, Drawer, Popconfirm, Space, Table, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import {
+  DeleteOutlined,
+  DiffOutlined,
+  HistoryOutlined,
+  ReloadOutlined,
+  RollbackOutlined,
+} from '@ant-design/icons';
+import { useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import {
+  HISTORY_LIMITS,
+  deleteHistoryEntry,
+  listHistory,
+  loadHistorySnapshot,
+  type HistoryEntry,
+  type HistoryReason,
+} from '@/storage/idbStorage';
+import DiffViewer from '@/components/sync/DiffViewer';
+import type { DiffResponse } from '@/types/api';
+import { diffLocal } from '@/utils/localDiff';
+
+const { Title, Text } = Typography;
+
+const REASON_LABELS: Record<HistoryReason, { label: string; color: string }> = {
+  pull:     { label: 'Pull',       color: 'blue' },
+  push:     { label: 'Push',       color: 'green' },
+  merge:    { label: '3-way 병합', color: 'cyan' },
+  tagSplit: { label: '태그 분할',  color: 'purple' },
+  tagMerge: { label: '태그 병합',  color: 'purple' },
+  autosave: { label: '자동 기록',  color: 'default' },
+  restore:  { label: '복원 전',    color: 'orange' },
+};
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('ko-KR', {
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  });
+}
+
+export default function HistoryPage() {
+  const rules          = useDataStore((s) => s.rules);
+  const tags           = useDataStore((s) => s.tags);
+  const baseVersion    = useDataStore((s) => s.baseVersion);
+  const restoreHistory = useDataStore((s) => s.restoreHistory);
+  const notifySuccess  = useUiStore((s) => s.notifySuccess);
+  const notifyError    = useUiStore((s) => s.notifyError);
+
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [compare, setCompare] = useState<{ entry: HistoryEntry; diff: DiffResponse } | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setEntries(await listHistory());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    listHistory().then((list) => {
+      setEntries(list);
+      setLoading(false);
+    });
+  }, []);
+
+  // ── 현재 편집본과 비교 ────────────────────────────────────────────────────
+  const handleCompare = async (entry: HistoryEntry) => {
+    const snapshot = await loadHistorySnapshot(entry.id);
+    if (!snapshot) {
+      notifyError('비교 실패', `이력 #${entry.id}의 스냅샷을 불러올 수 없습니다.`);
+      return;
+    }
+    const current = { rules, tags, baseVersion: baseVersion ?? 0, savedAt: new Date().toISOString() };
+    setCompare({ entry, diff: diffLocal(snapshot, current) });
+  };
+
+  // ── 복원 ──────────────────────────────────────────────────────────────────
+  const handleRestore = async (entry: HistoryEntry) => {
+    try {
+      await restoreHistory(entry.id);
+      notifySuccess('복원 완료', `${formatDateTime(entry.createdAt)} 시점의 규칙 / 태그로 되돌렸습니다.`);
+      setCompare(null);
+      await reload();
+    } catch (err) {
+      notifyError('복원 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+      await reload();
+    } catch (err) {
+      notifyError('삭제 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const columns: ColumnsType<HistoryEntry> = [
+    {
+      title:     '#',
+      dataIndex: 'id',
+      width:     60,
+      render:    (id: number) => <Text type="secondary" style={{ fontSize: 12 }}>{id}</Text>,
+    },
+    {
+      title:     '기록 시각',
+      dataIndex: 'createdAt',
+      width:     190,
+      render:    (iso: string) => <Text style={{ fontSize: 12 }}>{formatDateTime(iso)}</Text>,
+    },
+    {
+      title:  '사유',
+      width:  200,
+      render: (_, e) => (
+        <Space size={4} wrap>
+          <Tag color={REASON_LABELS[e.reason].color}>{REASON_LABELS[e.reason].label}</Tag>
+          {e.label && <Text type="secondary" style={{ fontSize: 12 }}>{e.label}</Text>}
+        </Space>
+      ),
+    },
+    {
+      title:     'baseVersion',
+      dataIndex: 'baseVersion',
+      width:     110,
+      render:    (v: number) => <Text style={{ fontSize: 12, fontFamily: 'monospace' }}>{v}</Text>,
+    },
+    {
+      title:  '데이터',
+      render: (_, e) => (
+        <Space size={4} wrap>
+          <Tag color="blue">{e.ruleCount}개 규칙</Tag>
+          <Tag color="purple">{e.tagCount}개 태그</Tag>
+          <Tag color="cyan">{e.compoundTagCount}개 복합 태그</Tag>
+        </Space>
+      ),
+    },
+    {
+      title:  '작업',
+      width:  260,
+      render: (_, e) => (
+        <Space size={4}>
+          <Button size="small" icon={<DiffOutlined />} onClick={() => handleCompare(e)}>
+            현재와 비교
+          </Button>
+          <Popconfirm
+            title="이 시점으로 복원할까요?"
+            description="현재 상태는 '복원 전' 이력으로 먼저 기록됩니다."
+            okText="복원"
+            cancelText="취소"
+            onConfirm={() => handleRestore(e)}
+          >
+            <Button size="small" icon={<RollbackOutlined />}>복원</Button>
+          </Popconfirm>
+          <Popconfirm
+            title="이 이력을 삭제할까요?"
+            okText="삭제"
+            okButtonProps={{ danger: true }}
+            cancelText="취소"
+            onConfirm={() => handleDelete(e)}
+          >
+            <Button size="small" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Title level={4} style={{ marginBottom: 24 }}>
+        <HistoryOutlined style={{ marginRight: 8 }} />
+        변경 이력
+      </Title>
+
+      <Card
+        title={`스냅샷 ${entries.length}개`}
+        extra={
+          <Space>
+            <Text type="secondary" style={{ fontSize: 12 }}>
+              최대 {HISTORY_LIMITS.maxEntries}개 (자동 기록 {HISTORY_LIMITS.maxAutosave}개) 보관
+            </Text>
+            <Button size="small" icon={<ReloadOutlined />} onClick={reload}>새로고침</Button>
+          </Space>
+        }
+      >
+        <Table<HistoryEntry>
+          rowKey="id"
+          size="small"
+          loading={loading}
+          columns={columns}
+          dataSource={entries}
+          pagination={{ pageSize: 20, showSizeChanger: false, hideOnSinglePage: true }}
+          locale={{ emptyText: '기록된 이력이 없습니다. Pull / Push 또는 편집 시 자동으로 기록됩니다.' }}
+        />
+      </Card>
+
+      <Drawer
+        title={compare && `#${compare.entry.id} (${formatDateTime(compare.entry.createdAt)}) → 현재 편집본`}
+        open={compare !== null}
+        onClose={() => setCompare(null)}
+        size="large"
+        extra={
+          compare && (
+            <Popconfirm
+              title="이 시점으로 복원할까요?"
+              okText="복원"
+              cancelText="취소"
+              onConfirm={() => handleRestore(compare.entry)}
+            >
+              <Button type="primary" icon={<RollbackOutlined />}>이 시점으로 복원</Button>
+            </Popconfirm>
+          )
+        }
+      >
+        {compare && (
+          <DiffViewer
+            diff={compare.diff}
+            source={{ from: `이력 #${compare.entry.id}`, to: '현재 편집본' }}
+          />
+        )}
+      </Drawer>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * src/pages/LintPage.tsx
+ *
+ * 데이터 검사 페이지.
+ * 로컬 rules + TagData의 참조 무결성을 검사해 error / warning 목록을 보여줍니다.
+ * error가 남아 있으면 PushConfirm에서 Push가 차단됩니다.
+ */
+import { useMemo, useState } from 'react';
+import { Alert, Button, Card, Col, Row, Segmented, Space, Statistic, Table, Tag, Typography } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { SafetyCertificateOutlined, ToolOutlined } from '@ant-design/icons';
+import { useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import LintTargetLink from '@/components/lint/LintTargetLink';
+import { LINT_CODE_LABELS, lintDataset, type LintIssue, type LintLevel } from '@/utils/dataLint';
+
+const { Title, Text } = Typography;
+
+type LevelFilter = LintLevel | 'all';
+
+const TARGET_KIND_LABELS: Record<LintIssue['target']['kind'], string> = {
+  rule:     '규칙',
+  tag:      '태그',
+  compound: '복합 태그',
+  metadata: '메타데이터',
+};
+
+export default function LintPage() {
+  const rules         = useDataStore((s) => s.rules);
+  const tags          = useDataStore((s) => s.tags);
+  const setTags       = useDataStore((s) => s.setTags);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+
+  const [level, setLevel] = useState<LevelFilter>('all');
+
+  const report  = useMemo(() => lintDataset(rules, tags), [rules, tags]);
+  // 같은 ruleId가 중복된 경우 이슈 내용이 겹칠 수 있어 순번을 key로 사용
+  const visible = (level === 'all' ? report.issues : report.issues.filter((i) => i.level === level))
+    .map((issue, idx) => ({ ...issue, key: idx }));
+  const hasStaleTotal = report.issues.some((i) => i.code === 'STALE_TOTAL_TAGS');
+
+  const fixTotalTags = () => {
+    setTags({
+      ...tags,
+      _metadata: { ...tags._metadata, totalTags: Object.keys(tags.tags).length },
+    }, 'totalTags 자동 수정');
+    notifySuccess('수정 완료', '_metadata.totalTags를 실제 태그 수로 맞췄습니다.');
+  };
+
+  const columns: ColumnsType<LintIssue> = [
+    {
+      title:  '수준',
+      width:  90,
+      render: (_, i) => (
+        <Tag color={i.level === 'error' ? 'error' : 'warning'}>{i.level === 'error' ? '오류' : '경고'}</Tag>
+      ),
+    },
+    {
+      title:  '항목',
+      width:  160,
+      render: (_, i) => <Text style={{ fontSize: 12 }}>{LINT_CODE_LABELS[i.code]}</Text>,
+    },
+    {
+      title:  '대상',
+      width:  240,
+      render: (_, i) => (
+        <Space size={4}>
+          <Tag style={{ fontSize: 11 }}>{TARGET_KIND_LABELS[i.target.kind]}</Tag>
+          <LintTargetLink target={i.target} />
+        </Space>
+      ),
+    },
+    {
+      title:     '내용',
+      dataIndex: 'message',
+      render:    (msg: string) => <Text style={{ fontSize: 12 }}>{msg}</Text>,
+    },
+  ];
+
+  return (
+    <div>
+      <Title level={4} style={{ marginBottom: 24 }}>
+        <SafetyCertificateOutlined style={{ marginRight: 8 }} />
+        데이터 검사
+      </Title>
+
+      <Card style={{ marginBottom: 16 }}>
+        <Row gutter={[24, 16]} align="middle">
+          <Col xs={12} sm={6}>
+            <Statistic
+              title="오류"
+              value={report.errorCount}
+              styles={{ content: { color: report.errorCount > 0 ? '#cf1322' : '#52c41a' } }}
+            />
+          </Col>
+          <Col xs={12} sm={6}>
+            <Statistic
+              title="경고"
+              value={report.warningCount}
+              styles={{ content: { color: report.warningCount > 0 ? '#d48806' : undefined } }}
+            />
+          </Col>
+          <Col xs={24} sm={12}>
+            {report.errorCount > 0 ? (
+              <Alert type="error" showIcon title="오류를 모두 수정해야 Push할 수 있습니다." />
+            ) : (
+              <Alert type="success" showIcon title="Push를 막는 오류가 없습니다." />
+            )}
+          </Col>
+        </Row>
+      </Card>
+
+      <Card
+        title="검사 결과"
+        extra={
+          <Space>
+            {hasStaleTotal && (
+              <Button size="small" icon={<ToolOutlined />} onClick={fixTotalTags}>
+                totalTags 자동 수정
+              </Button>
+            )}
+            <Segmented<LevelFilter>
+              size="small"
+              value={level}
+              onChange={setLevel}
+              options={[
+                { value: 'all',     label: `전체 ${report.issues.length}` },
+                { value: 'error',   label: `오류 ${report.errorCount}` },
+                { value: 'warning', label: `경고 ${report.warningCount}` },
+              ]}
+            />
+          </Space>
+        }
+      >
+        <Table<LintIssue>
+          size="small"
+          columns={columns}
+          dataSource={visible}
+          pagination={{ pageSize: 50, showSizeChanger: false, hideOnSinglePage: true }}
+          locale={{ emptyText: '발견된 문제가 없습니다.' }}
+        />
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+/**
+ * src/pages/OutlinePage.tsx
+ *
+ * 규칙 목차 페이지.
+ * 가이드라인 문서 구조(source → sourceFile → 절 번호 7 → 7.3 → 7.3.1)대로 규칙을 트리로 보여줍니다.
+ * - 장(최상위 절) / 파일 / 출처마다 검사 타입별 규칙 수 (커버리지)
+ * - 형제 절 사이에 빠진 번호 표시, 같은 절 번호를 가진 규칙이 여럿이면 "번호 중복" 표시
+ * - 절을 끌어 놓으면 형제 절 번호를 다시 매기고, 바뀌는 sectionNumber / ruleId 를 미리 보여준 뒤 적용
+ *   (같은 파일 안에서만 이동, 적용은 실행 취소 한 번으로 되돌림)
+ * - 출처 필터 · 누락 번호 표시 여부는 URL search params에 보관
+ */
+import { useMemo, useState, type Key } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  Card,
+  Empty,
+  Modal,
+  Select,
+  Space,
+  Switch,
+  Table,
+  Tag,
+  Tooltip,
+  Tree,
+  Typography,
+} from 'antd';
+import type { TreeDataNode, TreeProps } from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { OrderedListOutlined } from '@ant-design/icons';
+import { useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import type { Rule, RuleCheckType } from '@/types/rule';
+import { RULE_CHECK_TYPE_LABELS } from '@/types/rule';
+import useUrlState, { urlParam } from '@/hooks/useUrlState';
+import {
+  applySectionChanges,
+  buildOutline,
+  compareSections,
+  parentSection,
+  planSectionMove,
+  type CheckTypeCoverage,
+  type OutlineNode,
+  type SectionChange,
+  type SectionMove,
+} from '@/utils/ruleOutline';
+
+const { Title, Text } = Typography;
+
+const CHECK_TYPE_COLORS: Record<RuleCheckType, string> = {
+  pure_regex:     'blue',
+  llm_with_regex: 'cyan',
+  llm_contextual: 'purple',
+  llm_with_ast:   'geekblue',
+};
+
+const URL_SCHEMA = {
+  source: urlParam.string(),
+  gaps:   urlParam.oneOf(['show', 'hide'] as const, 'show'),
+};
+
+/** 트리 노드 key → 드래그 / 드롭 판단에 필요한 정보 */
+type NodeMeta =
+  | { kind: 'source' }
+  | { kind: 'file';    source: string; sourceFile: string }
+  | { kind: 'section'; source: string; sourceFile: string; section: string; siblings: string[] };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 노드 제목
+// ─────────────────────────────────────────────────────────────────────────────
+
+function CoverageTags({ coverage, total }: { coverage: CheckTypeCoverage; total: number }) {
+  return (
+    <Space size={2}>
+      <Tag style={{ marginInlineEnd: 0 }}>{total}개</Tag>
+      {(Object.keys(RULE_CHECK_TYPE_LABELS) as RuleCheckType[])
+        .filter((t) => coverage[t] > 0)
+        .map((t) => (
+          <Tag key={t} color={CHECK_TYPE_COLORS[t]} style={{ marginInlineEnd: 0, fontSize: 11 }}>
+            {RULE_CHECK_TYPE_LABELS[t]} {coverage[t]}
+          </Tag>
+        ))}
+    </Space>
+  );
+}
+
+function RuleLinks({ rules, onOpen }: { rules: Rule[]; onOpen: (ruleId: string) => void }) {
+  if (rules.length === 0) return <Text type="secondary">(규칙 없음)</Text>;
+  return (
+    <>
+      {rules.map((r) => (
+        <Tooltip key={r.ruleId} title={`${r.ruleId} · ${RULE_CHECK_TYPE_LABELS[r.checkType] ?? r.checkType}`}>
+          <a
+            onClick={(e) => { e.stopPropagation(); onOpen(r.ruleId); }}
+            style={{ color: r.isActive ? undefined : '#bfbfbf' }}
+          >
+            {r.title || r.ruleId}
+          </a>
+        </Tooltip>
+      ))}
+      {rules.length > 1 && <Tag color="warning">번호 중복</Tag>}
+    </>
+  );
+}
+
+const countGaps = (nodes: OutlineNode[]): number =>
+  nodes.reduce((sum, n) => sum + n.gaps.length + countGaps(n.children), 0);
+
+function gapNode(key: string, section: string): TreeDataNode {
+  return {
+    key,
+    isLeaf:     true,
+    selectable: false,
+    title:      <Text type="danger" style={{ fontSize: 12 }}><Text code>{section}</Text> 번호 누락</Text>,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 메인 페이지
+// ─────────────────────────────────────────────────────────────────────────────
+
+export default function OutlinePage() {
+  const navigate      = useNavigate();
+  const rules         = useDataStore((s) => s.rules);
+  const tags          = useDataStore((s) => s.tags);
+  const setData       = useDataStore((s) => s.setData);
+  const notifySuccess = useUiStore((s) => s.notifySuccess);
+  const [url, updateUrl] = useUrlState(URL_SCHEMA);
+
+  const [expanded, setExpanded] = useState<Key[] | null>(null);
+  const [pending, setPending]   = useState<{ move: SectionMove; changes: SectionChange[] } | null>(null);
+
+  const outline = useMemo(() => buildOutline(rules), [rules]);
+  const visible  = useMemo(
+    () => (url.source ? outline.filter((s) => s.source === url.source) : outline),
+    [outline, url.source],
+  );
+  const showGaps = url.gaps === 'show';
+
+  const gapCount = useMemo(
+    () => visible.flatMap((s) => s.files).reduce((sum, f) => sum + f.gaps.length + countGaps(f.sections), 0),
+    [visible],
+  );
+
+  const { treeData, meta, defaultExpanded } = useMemo(() => {
+    const meta = new Map<Key, NodeMeta>();
+    const defaultExpanded: Key[] = [];
+    const openRule = (ruleId: string) => navigate(`/rules/${ruleId}`);
+
+    const sectionNodes = (
+      nodes: OutlineNode[],
+      gaps: string[],
+      source: string,
+      sourceFile: string,
+    ): TreeDataNode[] => {
+      const siblings = nodes.map((n) => n.section);
+      const items: TreeDataNode[] = nodes.map((node) => {
+        const key = JSON.stringify(['section', source, sourceFile, node.section]);
+        meta.set(key, { kind: 'section', source, sourceFile, section: node.section, siblings });
+        const isChapter = parentSection(node.section) === null;
+        return {
+          key,
+          title: (
+            <Space size={6} wrap>
+              <Text code strong={isChapter}>{node.section}</Text>
+              <RuleLinks rules={node.rules} onOpen={openRule} />
+              {isChapter && <CoverageTags coverage={node.coverage} total={node.total} />}
+            </Space>
+          ),
+          children: node.children.length > 0 || (showGaps && node.gaps.length > 0)
+            ? sectionNodes(node.children, node.gaps, source, sourceFile)
+            : undefined,
+        };
+      });
+      if (!showGaps || gaps.length === 0) return items;
+
+      const gapItems = gaps.map((g) => ({
+        section: g,
+        node:    gapNode(JSON.stringify(['gap', source, sourceFile, g]), g),
+      }));
+      return [...nodes.map((n, i) => ({ section: n.section, node: items[i] })), ...gapItems]
+        .sort((a, b) => compareSections(a.section, b.section))
+        .map((x) => x.node);
+    };
+
+    const treeData = visible.map((src): TreeDataNode => {
+      const srcKey = JSON.stringify(['source', src.source]);
+      meta.set(srcKey, { kind: 'source' });
+      defaultExpanded.push(srcKey);
+      return {
+        key:        srcKey,
+        selectable: false,
+        title: (
+          <Space size={8}>
+            <Text strong>{src.source || '(출처 없음)'}</Text>
+            <CoverageTags coverage={src.coverage} total={src.total} />
+          </Space>
+        ),
+        children: src.files.map((file): TreeDataNode => {
+          const fileKey = JSON.stringify(['file', src.source, file.sourceFile]);
+          meta.set(fileKey, { kind: 'file', source: src.source, sourceFile: file.sourceFile });
+          defaultExpanded.push(fileKey);
+          const unnumbered: TreeDataNode[] = file.unnumbered.length === 0 ? [] : [{
+            key:        JSON.stringify(['unnumbered', src.source, file.sourceFile]),
+            isLeaf:     true,
+            selectable: false,
+            title: (
+              <Space size={6} wrap>
+                <Tag color="default">절 번호 없음</Tag>
+                <RuleLinks rules={file.unnumbered} onOpen={openRule} />
+              </Space>
+            ),
+          }];
+          return {
+            key:        fileKey,
+            selectable: false,
+            title: (
+              <Space size={8}>
+                <Text>{file.sourceFile || '(파일 없음)'}</Text>
+                <CoverageTags coverage={file.coverage} total={file.total} />
+              </Space>
+            ),
+            children: [...sectionNodes(file.sections, file.gaps, src.source, file.sourceFile), ...unnumbered],
+          };
+        }),
+      };
+    });
+
+    return { treeData, meta, defaultExpanded };
+  }, [visible, showGaps, navigate]);
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // 드래그 앤 드롭 재번호
+  // ─────────────────────────────────────────────────────────────────────────
+  const allowDrop: TreeProps['allowDrop'] = ({ dragNode, dropNode, dropPosition }) => {
+    const drag = meta.get(dragNode.key);
+    const drop = meta.get(dropNode.key);
+    if (drag?.kind !== 'section' || !drop) return false;
+    if (drop.kind === 'file') {
+      return dropPosition === 0 && drop.source === drag.source && drop.sourceFile === drag.sourceFile;
+    }
+    if (drop.kind !== 'section') return false;
+    if (drop.source !== drag.source || drop.sourceFile !== drag.sourceFile) return false;
+    return drop.section !== drag.section && !drop.section.startsWith(`${drag.section}.`);
+  };
+
+  const handleDrop: TreeProps['onDrop'] = (info) => {
+    const drag = meta.get(info.dragNode.key);
+    const drop = meta.get(info.node.key);
+    if (drag?.kind !== 'section' || !drop) return;
+
+    let parent: string | null;
+    let index: number;
+    if (drop.kind === 'file') {
+      parent = null;
+      index  = 0;
+    } else if (drop.kind === 'section' && !info.dropToGap) {
+      parent = drop.section;
+      index  = 0;
+    } else if (drop.kind === 'section') {
+      const relative = info.dropPosition - Number(info.node.pos.split('-').at(-1));
+      parent = parentSection(drop.section);
+      index  = drop.siblings.filter((s) => s !== drag.section).indexOf(drop.section) + (relative > 0 ? 1 : 0);
+    } else {
+      return;
+    }
+
+    const move: SectionMove = { source: drag.source, sourceFile: drag.sourceFile, section: drag.section, parent, index };
+    const changes = planSectionMove(rules, move);
+    if (changes.length === 0) return;
+    setPending({ move, changes });
+  };
+
+  const applyPending = () => {
+    if (!pending) return;
+    const { move, changes } = pending;
+    setData(applySectionChanges(rules, changes), tags, `목차 재번호: ${move.sourceFile} ${move.section}`);
+    notifySuccess('재번호 완료', `${changes.length}개 규칙의 절 번호를 변경했습니다.`);
+    setPending(null);
+  };
+
+  const changeColumns: ColumnsType<SectionChange> = [
+    {
+      title:  '절 번호',
+      width:  150,
+      render: (_, c) => (
+        <Space size={4}>
+          <Text type="secondary" delete>{c.fromSection}</Text>→<Text strong>{c.toSection}</Text>
+        </Space>
+      ),
+    },
+    {
+      title:  'ruleId',
+      render: (_, c) => c.toRuleId === c.rule.ruleId
+        ? <Text code style={{ fontSize: 11 }}>{c.rule.ruleId}</Text>
+        : (
+          <Space size={4} wrap>
+            <Text code delete style={{ fontSize: 11 }}>{c.rule.ruleId}</Text>→
+            <Text code style={{ fontSize: 11, color: '#389e0d' }}>{c.toRuleId}</Text>
+          </Space>
+        ),
+    },
+    {
+      title:  'level',
+      width:  70,
+      render: (_, c) => (c.toLevel === c.rule.level ? c.rule.level : `${c.rule.level} → ${c.toLevel}`),
+    },
+    {
+      title:    '제목',
+      ellipsis: true,
+      render:   (_, c) => <Text style={{ fontSize: 12 }}>{c.rule.title}</Text>,
+    },
+  ];
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // 렌더
+  // ─────────────────────────────────────────────────────────────────────────
+  return (
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+        <Space align="center">
+          <Title level={4} style={{ margin: 0 }}>규칙 목차</Title>
+          {gapCount > 0 && <Tag color="error">번호 누락 {gapCount}</Tag>}
+        </Space>
+        <Space>
+          <Select
+            allowClear
+            placeholder="출처 전체"
+            style={{ width: 220 }}
+            value={url.source || undefined}
+            onChange={(v?: string) => updateUrl({ source: v ?? '' })}
+            options={outline.map((s) => ({ value: s.source, label: s.source || '(출처 없음)' }))}
+          />
+          <Space size={4}>
+            <Switch
+              size="small"
+              checked={showGaps}
+              onChange={(checked) => updateUrl({ gaps: checked ? 'show' : 'hide' })}
+            />
+            <Text type="secondary" style={{ fontSize: 12 }}>누락 번호 표시</Text>
+          </Space>
+        </Space>
+      </div>
+
+      <Alert
+        type="info"
+        showIcon
+        icon={<OrderedListOutlined />}
+        title="절을 끌어 다른 위치에 놓으면 같은 파일 안의 형제 절 번호가 다시 매겨집니다. 적용 전에 바뀌는 절 번호와 ruleId를 확인할 수 있습니다."
+        style={{ marginBottom: 16 }}
+      />
+
+      <Card>
+        {treeData.length === 0 ? (
+          <Empty description="규칙이 없습니다. 서버에서 Pull 하거나 규칙을 추가하세요." />
+        ) : (
+          <Tree
+            blockNode
+            showLine
+            draggable={{ icon: false, nodeDraggable: (node) => meta.get(node.key)?.kind === 'section' }}
+            allowDrop={allowDrop}
+            onDrop={handleDrop}
+            treeData={treeData}
+            expandedKeys={expanded ?? defaultExpanded}
+            onExpand={(keys) => setExpanded(keys)}
+          />
+        )}
+      </Card>
+
+      <Modal
+        title={pending && `절 ${pending.move.section} 이동 — ${pending.changes.length}개 규칙 변경`}
+        open={pending !== null}
+        onOk={applyPending}
+        onCancel={() => setPending(null)}
+        okText="적용"
+        cancelText="취소"
+        width={860}
+        destroyOnHidden
+      >
+        <Table<SectionChange>
+          size="small"
+          rowKey={(c) => c.rule.ruleId}
+          columns={changeColumns}
+          dataSource={pending?.changes ?? []}
+          pagination={false}
+          scroll={{ y: 420 }}
+        />
+      </Modal>
+    </div>
+  );
+}
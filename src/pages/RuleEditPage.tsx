@@ -12,6 +12,17 @@
  * 변경사항 ⑤: tagCondition → 태그/연산자 클릭 보조 버튼
  * 변경사항 ⑥: problematicCode / fixedCode → Monaco Editor (Java)
  * 변경사항 ⑦: 출처 필드를 기본 정보 Card로 통합, Form 최대 폭 1600으로 확장
+ * 변경사항 ⑧: 패턴 플레이그라운드 — antiPatterns / goodPatterns를 코드 예시에 실행,
+ *             매칭 구간 Monaco 하이라이트 + 잘못된 정규식 / 오탐 경고
+ * 변경사항 ⑨: tagCondition 구문 검사 — 저장 시 파싱 오류 차단, 미정의 태그 밑줄, 정리(정규화)
+ * 변경사항 ⑩: 편집 중 표시(presence) — 다른 탭 / 사용자가 같은 규칙을 열고 있으면 경고 (소프트 락)
+ * 변경사항 ⑪: 복제 / 템플릿 — /rules/new?clone=<ruleId> 는 기존 규칙 복제(ruleId 재생성),
+ *             /rules/new?template=<이름> 은 저장된 템플릿으로 새 규칙 폼을 미리 채움.
+ *             헤더의 "템플릿으로 저장"으로 현재 편집 내용을 템플릿으로 저장
+ * 변경사항 ⑫: 원문 표 — tables 미리보기 / 셀 그리드 편집(RuleTablesEditor), hasTables · hasImages 스위치,
+ *             hasTables 값과 표 개수가 다르면 경고 + 맞추기 버튼
+ * 변경사항 ⑬: 서버 버전으로 되돌리기 — 마지막 동기화(snapshot:origin) 값으로 규칙을 되돌림.
+ *             로컬에서 추가한 규칙이면 삭제 후 목록으로 이동
  *
  * [Fix] 로컬 CATEGORY_ABBR 상수 제거 → rule.ts의 RULE_CATEGORY_ABBR import
  *   - 수정 전: RuleEditPage 내부에 9개짜리 CATEGORY_ABBR 로컬 상수 정의
@@ -20,7 +31,7 @@
  *              이후 카테고리 추가 시 rule.ts 한 곳만 수정하면 됨
  */
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import {
   Alert,
   AutoComplete,
@@ -31,6 +42,7 @@ import {
   Form,
   Input,
   InputNumber,
+  Popconfirm,
   Result,
   Row,
   Segmented,
@@ -46,20 +58,40 @@ import type { InputRef } from 'antd';
 import {
   ArrowLeftOutlined,
   CodeOutlined,
+  CopyOutlined,
   DeleteOutlined,
+  ExperimentOutlined,
   FormOutlined,
   PlusOutlined,
+  RollbackOutlined,
   SaveOutlined,
+  SnippetsOutlined,
   SyncOutlined,
   ThunderboltOutlined,
 } from '@ant-design/icons';
 import Editor from '@monaco-editor/react';
 import { useDataStore } from '@/stores/dataStore';
 import { useUiStore } from '@/stores/uiStore';
-import type { Rule, RuleCategory, RuleSeverity, RuleCheckType } from '@/types/rule';
+import { editorsOf, usePresenceStore } from '@/stores/presenceStore';
+import JavaCodeEditor from '@/components/rules/JavaCodeEditor';
+import PatternPlayground from '@/components/rules/PatternPlayground';
+import RuleTablesEditor from '@/components/rules/RuleTablesEditor';
+import SaveTemplateModal from '@/components/rules/SaveTemplateModal';
+import TagConditionPreview from '@/components/rules/TagConditionPreview';
+import { loadRuleTemplate } from '@/storage/idbStorage';
+import usePatternTest from '@/hooks/usePatternTest';
+import {
+  collectHighlights,
+  type CodeHighlight,
+  type PatternTarget,
+  type PatternTestResult,
+} from '@/utils/patternTest';
+import { applyTemplate, buildRuleId, cloneRule } from '@/utils/ruleDraft';
+import { tablesFlagMismatch } from '@/utils/ruleTable';
+import { findUnknownTagRefs, parseTagExpression } from '@/utils/tagExpression';
+import type { Rule, RuleCategory, RuleSeverity, RuleCheckType, RuleTable } from '@/types/rule';
 import {
   RULE_CATEGORY_LABELS,
-  RULE_CATEGORY_ABBR,      // [Fix] 로컬 상수 삭제 후 여기서 import
   RULE_SEVERITY_LABELS,
   RULE_SEVERITY_COLORS,
   RULE_CHECK_TYPE_LABELS,
@@ -81,8 +113,38 @@ interface PatternItem {
   description: string;
 }
 
+/** 편집 중인 패턴 행 — 저장할 때 touched는 빠집니다 (toPatterns) */
+interface PatternRow extends PatternItem {
+  /** 한 번이라도 고친 행인지. "추가"로 막 만든 행은 "패턴이 비어 있습니다" 오류 대신 입력 안내를 표시 */
+  touched: boolean;
+}
+
 const EMPTY_PATTERN: PatternItem = { pattern: '', flags: 'g', description: '' };
 
+const toPatternRows = (items: PatternItem[] | undefined): PatternRow[] =>
+  (items ?? []).map((item) => ({ ...item, touched: true }));
+
+function toPatterns(rows: PatternRow[]): PatternItem[] {
+  return rows.map((row) => {
+    const item: Partial<PatternRow> = { ...row };
+    delete item.touched;
+    return item as PatternItem;
+  });
+}
+
+/**
+ * 대상 코드의 매칭 하이라이트.
+ * 매칭 offset은 검사한 코드 기준이므로, 검사 뒤에 코드가 바뀌었으면 다음 결과가 올 때까지 표시하지 않습니다.
+ */
+function currentHighlights(
+  results: PatternTestResult[],
+  tested: Record<PatternTarget, string> | undefined,
+  target: PatternTarget,
+  text: string,
+): CodeHighlight[] {
+  return tested?.[target] === text ? collectHighlights(results, target) : [];
+}
+
 // ⑤ tagCondition 연산자 버튼 목록
 const TAG_OPERATORS = [
   { label: '(',  value: '(',    title: '여는 괄호' },
@@ -92,20 +154,6 @@ const TAG_OPERATORS = [
   { label: '!',  value: '!',    title: 'NOT 조건' },
 ];
 
-// ⑥ Monaco Java 에디터 공통 옵션
-const MONACO_JAVA_OPTIONS = {
-  minimap:              { enabled: false },
-  fontSize:             12,
-  tabSize:              4,
-  wordWrap:             'on'   as const,
-  scrollBeyondLastLine: false,
-  automaticLayout:      true,
-  lineNumbers:          'on'   as const,
-  folding:              false,
-  renderLineHighlight:  'none' as const,
-  scrollbar:            { vertical: 'auto' as const, horizontal: 'auto' as const },
-};
-
 const DEFAULT_RULE: Rule = {
   ruleId:          '',
   sectionNumber:   '',
@@ -159,76 +207,23 @@ function toAutoCompleteOptions(rules: Rule[], field: keyof Rule) {
     .map((v) => ({ value: v }));
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// ⑥ JavaCodeEditor 서브 컴포넌트
-// ─────────────────────────────────────────────────────────────────────────────
-
-interface JavaCodeEditorProps {
-  label:       string;
-  value:       string;
-  onChange:    (v: string) => void;
-  placeholder: string;
-}
-
-function JavaCodeEditor({ label, value, onChange, placeholder }: JavaCodeEditorProps) {
-  return (
-    <div>
-      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
-        <Text style={{ fontSize: 13 }}>{label}</Text>
-        <Tag color="orange" style={{ margin: 0, fontSize: 11 }}>Java</Tag>
-      </div>
-      <div
-        style={{
-          border:       '1px solid #d9d9d9',
-          borderRadius: 6,
-          overflow:     'hidden',
-          minHeight:    180,
-          position:     'relative',
-        }}
-      >
-        {value === '' && (
-          <div
-            style={{
-              position:      'absolute',
-              top:           10,
-              left:          60,
-              color:         '#bfbfbf',
-              fontSize:      12,
-              fontFamily:    'monospace',
-              pointerEvents: 'none',
-              zIndex:        1,
-            }}
-          >
-            {placeholder}
-          </div>
-        )}
-        <Editor
-          height="180px"
-          language="java"
-          value={value}
-          onChange={(v) => onChange(v ?? '')}
-          options={MONACO_JAVA_OPTIONS}
-        />
-      </div>
-    </div>
-  );
-}
-
 // ─────────────────────────────────────────────────────────────────────────────
 // PatternEditor 서브 컴포넌트
 // ─────────────────────────────────────────────────────────────────────────────
 
 interface PatternEditorProps {
   label:    string;
-  value:    PatternItem[];
-  onChange: (v: PatternItem[]) => void;
+  value:    PatternRow[];
+  onChange: (v: PatternRow[]) => void;
+  /** ⑧ 인덱스별 컴파일 오류 메시지 (플레이그라운드 결과) */
+  errors?:  (string | null)[];
 }
 
-function PatternEditor({ label, value, onChange }: PatternEditorProps) {
-  const add    = () => onChange([...value, { ...EMPTY_PATTERN }]);
+function PatternEditor({ label, value, onChange, errors }: PatternEditorProps) {
+  const add    = () => onChange([...value, { ...EMPTY_PATTERN, touched: false }]);
   const remove = (idx: number) => onChange(value.filter((_, i) => i !== idx));
   const update = (idx: number, field: keyof PatternItem, val: string) =>
-    onChange(value.map((item, i) => i === idx ? { ...item, [field]: val } : item));
+    onChange(value.map((item, i) => i === idx ? { ...item, [field]: val, touched: true } : item));
 
   return (
     <div>
@@ -250,7 +245,12 @@ function PatternEditor({ label, value, onChange }: PatternEditorProps) {
         >
           <Row gutter={8}>
             <Col span={16}>
-              <Form.Item label="pattern" style={{ marginBottom: 4 }}>
+              <Form.Item
+                label="pattern"
+                style={{ marginBottom: 4 }}
+                validateStatus={errors?.[idx] ? 'error' : undefined}
+                help={errors?.[idx] ?? undefined}
+              >
                 <Input
                   value={item.pattern}
                   onChange={(e) => update(idx, 'pattern', e.target.value)}
@@ -297,9 +297,12 @@ function PatternEditor({ label, value, onChange }: PatternEditorProps) {
 // ─────────────────────────────────────────────────────────────────────────────
 
 export default function RuleEditPage() {
-  const { id }   = useParams<{ id: string }>();
-  const navigate = useNavigate();
-  const isNew    = !id || id === 'new';
+  const { id }         = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate       = useNavigate();
+  const isNew          = !id || id === 'new';
+  const cloneId        = isNew ? searchParams.get('clone')    : null;
+  const templateName   = isNew ? searchParams.get('template') : null;
 
   const rules         = useDataStore((s) => s.rules);
   const tags          = useDataStore((s) => s.tags);
@@ -308,20 +311,34 @@ export default function RuleEditPage() {
   const baseVersion   = useDataStore((s) => s.baseVersion);
   const addRule       = useDataStore((s) => s.addRule);
   const updateRule    = useDataStore((s) => s.updateRule);
+  const revertToOrigin = useDataStore((s) => s.revertToOrigin);
   const notifySuccess = useUiStore((s) => s.notifySuccess);
   const notifyError   = useUiStore((s) => s.notifyError);
+  const peers         = usePresenceStore((s) => s.peers);
+  const setEditing    = usePresenceStore((s) => s.setEditing);
 
   const [mode, setMode]                       = useState<EditMode>('form');
   const [form]                                = Form.useForm<Rule>();
   const [jsonValue, setJsonValue]             = useState('');
   const [jsonError, setJsonError]             = useState<string | null>(null);
   const [keywords, setKeywords]               = useState<string[]>([]);
-  const [antiPatterns, setAntiPatterns]       = useState<PatternItem[]>([]);
-  const [goodPatterns, setGoodPatterns]       = useState<PatternItem[]>([]);
+  const [antiPatterns, setAntiPatterns]       = useState<PatternRow[]>([]);
+  const [goodPatterns, setGoodPatterns]       = useState<PatternRow[]>([]);
   const [kwInput, setKwInput]                 = useState('');
   const [notFound, setNotFound]               = useState(false);
   const [problematicCode, setProblematicCode] = useState<string>('');
   const [fixedCode, setFixedCode]             = useState<string>('');
+  const [sampleCode, setSampleCode]           = useState<string>('');
+  const [showPlayground, setShowPlayground]   = useState(true);
+  const [templateDraft, setTemplateDraft]     = useState<Rule | null>(null);
+
+  // ⑩ 이 규칙을 편집 중임을 다른 탭 / 사용자에게 알림
+  useEffect(() => {
+    if (isNew || !id) return;
+    setEditing(id);
+    return () => setEditing(null);
+  }, [id, isNew, setEditing]);
+  const otherEditors = isNew || !id ? [] : editorsOf(peers, id);
 
   // ⑤ tagCondition Input ref — 커서 위치 추적
   const tagConditionRef = useRef<InputRef>(null);
@@ -332,20 +349,64 @@ export default function RuleEditPage() {
     [tags.tags],
   );
 
+  // ⑨ 조건식에서 참조 가능한 이름 — 태그 + 복합 태그
+  const knownTagNames = useMemo(
+    () => new Set([...Object.keys(tags.tags), ...Object.keys(tags.compoundTags)]),
+    [tags.tags, tags.compoundTags],
+  );
+  const tagConditionValue = (Form.useWatch('tagCondition', form) as string | undefined) ?? '';
+
+  // ⑫ hasTables ↔ tables 개수 일치 여부
+  const watchedTables    = (Form.useWatch('tables', form) as RuleTable[] | undefined) ?? [];
+  const watchedHasTables = (Form.useWatch('hasTables', form) as boolean | undefined) ?? false;
+  const tablesMismatch   = tablesFlagMismatch({ hasTables: watchedHasTables, tables: watchedTables });
+
   // ②③ AutoComplete 옵션 — rules 배열에서 동적 추출
   const sourcePrefixOptions = useMemo(() => toAutoCompleteOptions(rules, 'sourcePrefix'), [rules]);
   const sourceFileOptions   = useMemo(() => toAutoCompleteOptions(rules, 'sourceFile'),   [rules]);
   const sourceOptions       = useMemo(() => toAutoCompleteOptions(rules, 'source'),       [rules]);
 
+  // ⑧ 패턴 플레이그라운드 — 패턴 / 코드 변경 시마다 Worker에서 재실행 (usePatternTest, 시간 제한)
+  const patternInput = useMemo(
+    () => ({ antiPatterns, goodPatterns, sources: { problematicCode, fixedCode, sample: sampleCode } }),
+    [antiPatterns, goodPatterns, problematicCode, fixedCode, sampleCode],
+  );
+  const patternTest = usePatternTest(patternInput);
+  const patternResults = useMemo(() => {
+    if (!patternTest) return [];
+    const { input, results } = patternTest;
+    return results.map((r) => ((r.kind === 'anti' ? input.antiPatterns : input.goodPatterns)[r.index]?.touched === false
+      ? { ...r, error: null, warnings: [{ level: 'info' as const, message: '패턴을 입력하세요.' }] }
+      : r));
+  }, [patternTest]);
+  const testedSources = patternTest?.input.sources;
+  const problematicHighlights = useMemo(
+    () => (showPlayground ? currentHighlights(patternResults, testedSources, 'problematicCode', problematicCode) : []),
+    [patternResults, testedSources, showPlayground, problematicCode],
+  );
+  const fixedHighlights = useMemo(
+    () => (showPlayground ? currentHighlights(patternResults, testedSources, 'fixedCode', fixedCode) : []),
+    [patternResults, testedSources, showPlayground, fixedCode],
+  );
+  const sampleHighlights = useMemo(
+    () => currentHighlights(patternResults, testedSources, 'sample', sampleCode),
+    [patternResults, testedSources, sampleCode],
+  );
+
+  const antiErrors = patternResults.filter((r) => r.kind === 'anti').map((r) => r.error);
+  const goodErrors = patternResults.filter((r) => r.kind === 'good').map((r) => r.error);
+
   // ─────────────────────────────────────────────────────────────────────────
   // 초기 데이터 로드
   // ─────────────────────────────────────────────────────────────────────────
+  // setFieldsValue는 기존 값에 합치므로, 먼저 비워야 불러온 규칙에 없는 필드가 남지 않음
   const initFromRule = useCallback(
     (rule: Rule) => {
+      form.resetFields();
       form.setFieldsValue(rule);
       setKeywords(rule.keywords ?? []);
-      setAntiPatterns((rule.antiPatterns ?? []) as PatternItem[]);
-      setGoodPatterns((rule.goodPatterns ?? []) as PatternItem[]);
+      setAntiPatterns(toPatternRows(rule.antiPatterns));
+      setGoodPatterns(toPatternRows(rule.goodPatterns));
       setProblematicCode(rule.problematicCode ?? '');
       setFixedCode(rule.fixedCode ?? '');
       setJsonValue(JSON.stringify(rule, null, 2));
@@ -353,25 +414,41 @@ export default function RuleEditPage() {
     [form],
   );
 
+  // 편집 중인 규칙 / 복제 원본 — 이 규칙이 바뀔 때만(저장, undo / redo, 다른 탭의 편집) 폼을 다시 채움
+  const editingRule = useMemo(() => (isNew ? undefined : rules.find((r) => r.ruleId === id)), [isNew, rules, id]);
+  const cloneSource = useMemo(() => (cloneId ? rules.find((r) => r.ruleId === cloneId) : undefined), [cloneId, rules]);
+  const hasRules    = rules.length > 0;
+
   useEffect(() => {
     if (isNew) {
-      form.setFieldsValue(DEFAULT_RULE);
-      setJsonValue(JSON.stringify(DEFAULT_RULE, null, 2));
-      setKeywords([]);
-      setAntiPatterns([]);
-      setGoodPatterns([]);
-      setProblematicCode('');
-      setFixedCode('');
+      // ⑪ 복제 — 원본이 아직 로드되지 않았으면 rules가 채워진 뒤 다시 실행됨
+      if (cloneSource) {
+        const existingIds = new Set(useDataStore.getState().rules.map((r) => r.ruleId));
+        initFromRule(cloneRule(cloneSource, existingIds));
+        return;
+      }
+      // ⑪ 템플릿 — IndexedDB에서 읽어 DEFAULT_RULE 위에 덮어씀
+      if (templateName) {
+        let cancelled = false;
+        loadRuleTemplate(templateName)
+          .then((template) => {
+            if (cancelled) return;
+            if (!template) notifyError('템플릿 없음', `"${templateName}" 템플릿을 찾을 수 없습니다.`);
+            initFromRule(template ? applyTemplate(DEFAULT_RULE, template.fields) : DEFAULT_RULE);
+          })
+          .catch((err) => console.error('[RuleEditPage] 템플릿 로드 실패:', err));
+        return () => { cancelled = true; };
+      }
+      initFromRule(DEFAULT_RULE);
     } else {
-      const found = rules.find((r) => r.ruleId === id);
-      if (found) {
+      if (editingRule) {
         setNotFound(false);
-        initFromRule(found);
-      } else if (isHydrated && rules.length > 0) {
+        initFromRule(editingRule);
+      } else if (isHydrated && hasRules) {
         setNotFound(true);
       }
     }
-  }, [id, isNew, rules, isHydrated, form, initFromRule]);
+  }, [isNew, cloneSource, templateName, editingRule, hasRules, isHydrated, form, initFromRule, notifyError]);
 
   // ─────────────────────────────────────────────────────────────────────────
   // ⑤ tagCondition 커서 삽입 헬퍼
@@ -402,29 +479,19 @@ export default function RuleEditPage() {
   //   신규 카테고리(validation, business_logic 등)가 선택된 상태에서도
   //   올바른 약어로 ruleId를 자동 생성할 수 있게 됨
   // ─────────────────────────────────────────────────────────────────────────
+  // ⑪ 생성 규칙은 복제와 공유하도록 utils/ruleDraft.buildRuleId로 이동
+  // ─────────────────────────────────────────────────────────────────────────
   const handleAutoRuleId = () => {
-    const prefix   = (form.getFieldValue('sourcePrefix') as string)?.trim();
-    const section  = (form.getFieldValue('sectionNumber') as string)?.trim();
-    const category = form.getFieldValue('category') as RuleCategory;
-
-    if (!prefix && !section) {
-      notifyError('자동 생성 실패', '소스 프리픽스와 절 번호를 먼저 입력해주세요.');
-      return;
-    }
-    if (!prefix) {
-      notifyError('자동 생성 실패', '소스 프리픽스를 먼저 입력해주세요.');
-      return;
-    }
-    if (!section) {
-      notifyError('자동 생성 실패', '절 번호를 먼저 입력해주세요.');
+    const { ruleId: generated, error } = buildRuleId(
+      form.getFieldValue('sourcePrefix') as string,
+      form.getFieldValue('sectionNumber') as string,
+      form.getFieldValue('category') as RuleCategory,
+    );
+    if (error !== undefined) {
+      notifyError('자동 생성 실패', error);
       return;
     }
 
-    // [Fix] RULE_CATEGORY_ABBR: 16개 카테고리 전체 커버
-    const abbr        = RULE_CATEGORY_ABBR[category] ?? 'GEN';
-    const sectionPart = section.replace(/\./g, '_');
-    const generated   = `${prefix}.${abbr}.${sectionPart}`;
-
     if (rules.some((r) => r.ruleId === generated)) {
       notifyError('자동 생성 실패', `이미 존재하는 ruleId입니다: ${generated}`);
       return;
@@ -437,17 +504,18 @@ export default function RuleEditPage() {
   // ─────────────────────────────────────────────────────────────────────────
   // 모드 전환
   // ─────────────────────────────────────────────────────────────────────────
+  /** 폼 필드 + 폼 밖에서 관리하는 키워드 / 패턴 / 코드 예시를 합친 규칙 */
+  const collectFormRule = (): Rule => ({
+    ...(form.getFieldsValue(true) as Rule),
+    problematicCode: problematicCode.trim() || null,
+    fixedCode:       fixedCode.trim()       || null,
+    keywords,
+    antiPatterns: toPatterns(antiPatterns),
+    goodPatterns: toPatterns(goodPatterns),
+  });
+
   const switchToJson = () => {
-    const values  = form.getFieldsValue(true) as Rule;
-    const merged: Rule = {
-      ...values,
-      problematicCode: problematicCode.trim() || null,
-      fixedCode:       fixedCode.trim()       || null,
-      keywords,
-      antiPatterns,
-      goodPatterns,
-    };
-    setJsonValue(JSON.stringify(merged, null, 2));
+    setJsonValue(JSON.stringify(collectFormRule(), null, 2));
     setJsonError(null);
     setMode('json');
   };
@@ -477,6 +545,9 @@ export default function RuleEditPage() {
     if (isNew && rules.some((r) => r.ruleId === rule.ruleId.trim())) {
       return `이미 존재하는 ruleId입니다: ${rule.ruleId}`;
     }
+    // ⑨ JSON 모드에서도 조건식 구문 검사
+    const parsed = parseTagExpression(rule.tagCondition ?? '');
+    if (!parsed.ok) return `태그 조건식 오류: ${parsed.error.message}`;
     return null;
   };
 
@@ -498,8 +569,8 @@ export default function RuleEditPage() {
       problematicCode: problematicCode.trim() || null,
       fixedCode:       fixedCode.trim()       || null,
       keywords,
-      antiPatterns,
-      goodPatterns,
+      antiPatterns: toPatterns(antiPatterns),
+      goodPatterns: toPatterns(goodPatterns),
       metadata: {
         ...(values.metadata ?? DEFAULT_RULE.metadata),
         createdAt: isNew
@@ -549,6 +620,44 @@ export default function RuleEditPage() {
 
   const handleSave = () => (mode === 'form' ? handleFormSave() : handleJsonSave());
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // ⑪ 복제 / 템플릿으로 저장
+  // ─────────────────────────────────────────────────────────────────────────
+  const handleClone = () => navigate(`/rules/new?clone=${encodeURIComponent(id ?? '')}`);
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // ⑬ 서버 버전으로 되돌리기
+  // ─────────────────────────────────────────────────────────────────────────
+  const handleRevert = async () => {
+    if (!id) return;
+    try {
+      const count = await revertToOrigin({ rules: [id] });
+      const rule  = useDataStore.getState().rules.find((r) => r.ruleId === id);
+      if (!rule) {
+        notifySuccess('되돌리기 완료', `${id}은(는) 로컬에서 추가한 규칙이라 삭제했습니다.`);
+        navigate('/rules');
+        return;
+      }
+      // 스토어 값이 그대로면 effect가 다시 돌지 않으므로 저장하지 않은 폼 편집은 직접 버림
+      if (count === 0) initFromRule(rule);
+      notifySuccess('되돌리기 완료', `${id} 규칙을 마지막 동기화(Pull/Push) 데이터로 되돌렸습니다.`);
+    } catch (err) {
+      notifyError('되돌리기 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const openSaveTemplate = () => {
+    if (mode === 'form') {
+      setTemplateDraft(collectFormRule());
+      return;
+    }
+    try {
+      setTemplateDraft(JSON.parse(jsonValue) as Rule);
+    } catch {
+      setJsonError('JSON 형식이 올바르지 않습니다. 수정 후 다시 시도하세요.');
+    }
+  };
+
   // ─────────────────────────────────────────────────────────────────────────
   // 키워드 칩 헬퍼
   // ─────────────────────────────────────────────────────────────────────────
@@ -642,7 +751,11 @@ export default function RuleEditPage() {
         <Space>
           <Button icon={<ArrowLeftOutlined />} onClick={() => navigate('/rules')}>목록</Button>
           <Title level={4} style={{ margin: 0 }}>
-            {isNew ? '새 규칙 추가' : `규칙 편집: ${id}`}
+            {!isNew
+              ? `규칙 편집: ${id}`
+              : cloneId
+                ? `규칙 복제: ${cloneId}`
+                : templateName ? `새 규칙 (템플릿: ${templateName})` : '새 규칙 추가'}
           </Title>
         </Space>
         <Space>
@@ -654,10 +767,29 @@ export default function RuleEditPage() {
               { label: <Space><CodeOutlined />JSON 에디터</Space>, value: 'json' },
             ]}
           />
+          {!isNew && <Button icon={<CopyOutlined />} onClick={handleClone}>복제</Button>}
+          {!isNew && (
+            <Popconfirm
+              title="서버 버전으로 되돌리기"
+              description="마지막 동기화(Pull/Push) 이후의 편집(저장하지 않은 편집 포함)을 버립니다. 로컬에서 추가한 규칙이면 삭제됩니다."
+              onConfirm={handleRevert}
+              okText="되돌리기"
+              cancelText="취소"
+            >
+              <Button icon={<RollbackOutlined />}>되돌리기</Button>
+            </Popconfirm>
+          )}
+          <Button icon={<SnippetsOutlined />} onClick={openSaveTemplate}>템플릿으로 저장</Button>
           <Button type="primary" icon={<SaveOutlined />} onClick={handleSave}>저장</Button>
         </Space>
       </div>
 
+      <SaveTemplateModal
+        open={templateDraft !== null}
+        rule={templateDraft}
+        onClose={() => setTemplateDraft(null)}
+      />
+
       {isNew && baseVersion === null && (
         <Alert
           type="warning"
@@ -669,6 +801,16 @@ export default function RuleEditPage() {
         />
       )}
 
+      {otherEditors.length > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          title={`${otherEditors.map((p) => p.userName).join(', ')}에서 이 규칙을 편집 중입니다.`}
+          description="다른 탭에서 저장한 내용은 이 화면에 바로 반영되고, 나중에 저장한 쪽이 최종 값이 됩니다. 동시에 수정하지 않도록 주의하세요."
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
       {jsonError && (
         <Alert
           type="error"
@@ -870,14 +1012,45 @@ export default function RuleEditPage() {
 
               {/* ⑤ tagCondition + 보조 버튼 */}
               <Col xs={24}>
-                <Form.Item name="tagCondition" label="태그 조건식">
+                <Form.Item
+                  name="tagCondition"
+                  label="태그 조건식"
+                  rules={[
+                    {
+                      validator: (_, value: string | undefined) => {
+                        const parsed = parseTagExpression(value ?? '');
+                        return parsed.ok
+                          ? Promise.resolve()
+                          : Promise.reject(new Error(parsed.error.message));
+                      },
+                    },
+                    {
+                      warningOnly: true,
+                      validator: (_, value: string | undefined) => {
+                        const parsed = parseTagExpression(value ?? '');
+                        if (!parsed.ok) return Promise.resolve();
+                        const unknown = findUnknownTagRefs(parsed.ast, knownTagNames);
+                        return unknown.length === 0 || knownTagNames.size === 0
+                          ? Promise.resolve()
+                          : Promise.reject(new Error(
+                              `정의되지 않은 태그: ${[...new Set(unknown.map((r) => r.name))].join(', ')}`,
+                            ));
+                      },
+                    },
+                  ]}
+                >
                   <Input
                     ref={tagConditionRef}
                     placeholder="예: (IS_SERVICE || IS_CONTROLLER)"
                     style={{ fontFamily: 'monospace' }}
                   />
                 </Form.Item>
-                <div style={{ marginTop: -12, marginBottom: 8 }}>
+                <TagConditionPreview
+                  value={tagConditionValue}
+                  knownTags={knownTagNames}
+                  onFormat={(formatted) => form.setFieldValue('tagCondition', formatted)}
+                />
+                <div style={{ marginBottom: 8 }}>
                   <Space size={4} wrap>
                     <Text type="secondary" style={{ fontSize: 11, marginRight: 4 }}>연산자:</Text>
                     {TAG_OPERATORS.map((op) => (
@@ -999,43 +1172,120 @@ export default function RuleEditPage() {
           </Card>
 
           {/* ── 코드 예시 ────────────────────────────────────────────────── */}
-          <Card title="코드 예시" style={{ marginBottom: 16 }}>
+          <Card
+            title="코드 예시"
+            style={{ marginBottom: 16 }}
+            extra={
+              <Space size={6}>
+                <ExperimentOutlined style={{ color: '#8c8c8c' }} />
+                <Text type="secondary" style={{ fontSize: 12 }}>패턴 플레이그라운드</Text>
+                <Switch size="small" checked={showPlayground} onChange={setShowPlayground} />
+              </Space>
+            }
+          >
             <Row gutter={16}>
-              <Col xs={24} lg={12}>
-                <Form.Item style={{ marginBottom: 12 }}>
-                  <JavaCodeEditor
-                    label="위반 코드 예시 (problematicCode)"
-                    value={problematicCode}
-                    onChange={setProblematicCode}
-                    placeholder="// 위반 코드 예시를 입력하세요"
-                  />
-                </Form.Item>
+              <Col xs={24} xl={showPlayground ? 16 : 24}>
+                <Row gutter={16}>
+                  <Col xs={24} lg={12}>
+                    <Form.Item style={{ marginBottom: 12 }}>
+                      <JavaCodeEditor
+                        label="위반 코드 예시 (problematicCode)"
+                        value={problematicCode}
+                        onChange={setProblematicCode}
+                        placeholder="// 위반 코드 예시를 입력하세요"
+                        highlights={problematicHighlights}
+                      />
+                    </Form.Item>
+                  </Col>
+                  <Col xs={24} lg={12}>
+                    <Form.Item style={{ marginBottom: 12 }}>
+                      <JavaCodeEditor
+                        label="수정된 코드 예시 (fixedCode)"
+                        value={fixedCode}
+                        onChange={setFixedCode}
+                        placeholder="// 수정된 코드 예시를 입력하세요"
+                        highlights={fixedHighlights}
+                      />
+                    </Form.Item>
+                  </Col>
+                </Row>
+                <Row gutter={16}>
+                  <Col xs={24} lg={12}>
+                    <Form.Item label="안티 패턴 (antiPatterns)">
+                      <PatternEditor
+                        label="안티 패턴"
+                        value={antiPatterns}
+                        onChange={setAntiPatterns}
+                        errors={antiErrors}
+                      />
+                    </Form.Item>
+                  </Col>
+                  <Col xs={24} lg={12}>
+                    <Form.Item label="올바른 패턴 (goodPatterns)">
+                      <PatternEditor
+                        label="올바른 패턴"
+                        value={goodPatterns}
+                        onChange={setGoodPatterns}
+                        errors={goodErrors}
+                      />
+                    </Form.Item>
+                  </Col>
+                </Row>
               </Col>
-              <Col xs={24} lg={12}>
-                <Form.Item style={{ marginBottom: 12 }}>
-                  <JavaCodeEditor
-                    label="수정된 코드 예시 (fixedCode)"
-                    value={fixedCode}
-                    onChange={setFixedCode}
-                    placeholder="// 수정된 코드 예시를 입력하세요"
+              {showPlayground && (
+                <Col xs={24} xl={8}>
+                  <PatternPlayground
+                    results={patternResults}
+                    sampleCode={sampleCode}
+                    sampleHighlights={sampleHighlights}
+                    onSampleChange={setSampleCode}
                   />
-                </Form.Item>
-              </Col>
-            </Row>
-            <Row gutter={16}>
-              <Col xs={24} lg={12}>
-                <Form.Item label="안티 패턴 (antiPatterns)">
-                  <PatternEditor label="안티 패턴" value={antiPatterns} onChange={setAntiPatterns} />
-                </Form.Item>
-              </Col>
-              <Col xs={24} lg={12}>
-                <Form.Item label="올바른 패턴 (goodPatterns)">
-                  <PatternEditor label="올바른 패턴" value={goodPatterns} onChange={setGoodPatterns} />
-                </Form.Item>
-              </Col>
+                </Col>
+              )}
             </Row>
           </Card>
 
+          {/* ── 원문 표 (⑫) ─────────────────────────────────────────────── */}
+          <Card
+            title="원문 표"
+            style={{ marginBottom: 16 }}
+            extra={
+              <Space size={16}>
+                <Space size={6}>
+                  <Text type="secondary" style={{ fontSize: 12 }}>hasTables</Text>
+                  <Form.Item name="hasTables" valuePropName="checked" noStyle>
+                    <Switch size="small" />
+                  </Form.Item>
+                </Space>
+                <Tooltip title="이미지 자체는 저장하지 않고, 원문 해당 절에 이미지가 있었는지만 기록합니다.">
+                  <Space size={6}>
+                    <Text type="secondary" style={{ fontSize: 12 }}>hasImages</Text>
+                    <Form.Item name="hasImages" valuePropName="checked" noStyle>
+                      <Switch size="small" />
+                    </Form.Item>
+                  </Space>
+                </Tooltip>
+              </Space>
+            }
+          >
+            {tablesMismatch && (
+              <Alert
+                type="warning"
+                showIcon
+                title={`hasTables가 ${watchedHasTables ? '켜져' : '꺼져'} 있지만 표는 ${watchedTables.length}개입니다.`}
+                action={
+                  <Button size="small" onClick={() => form.setFieldValue('hasTables', watchedTables.length > 0)}>
+                    표 개수에 맞추기
+                  </Button>
+                }
+                style={{ marginBottom: 12 }}
+              />
+            )}
+            <Form.Item name="tables" noStyle>
+              <RuleTablesEditor />
+            </Form.Item>
+          </Card>
+
           {/* ── 키워드 ──────────────────────────────────────────────────── */}
           <Card title="키워드" style={{ marginBottom: 16 }}>
             <Space wrap style={{ marginBottom: 8 }}>
@@ -4,9 +4,17 @@
  * 규칙 목록 페이지.
  * - Ant Design Table로 규칙 목록 표시
  * - category / severity / checkType / isActive 필터
- * - title · ruleId · description 텍스트 검색
+ * - 검색 쿼리 (RuleQueryBar — field:value 조건, 자동완성, 프리셋)
+ * - 필터 · 검색 쿼리 · 정렬 · 페이지는 URL search params에 보관 (useUrlState)
+ *   → 새로고침 / 링크 공유 / 뒤로 가기로 같은 목록 복원
  * - 행 클릭 → /rules/:ruleId 이동
  * - 규칙 추가 / 삭제 (로컬 스토어)
+ * - 규칙 복제(행 액션) · 템플릿으로 새 규칙 만들기("새 규칙" 메뉴, 템플릿은 IndexedDB에 저장)
+ * - 선택한 규칙 일괄 편집 (BulkEditDrawer) · 서버 버전(마지막 동기화 — Pull/Push)으로 일괄 되돌리기
+ * - JSON / YAML / CSV 내보내기(전체 · 필터 결과 · 선택 행) / 가져오기
+ * - 다른 탭 / 사용자가 편집 중인 규칙은 ruleId 옆에 잠금 아이콘 표시 (presence 소프트 락)
+ * - 마지막 동기화(Pull/Push) 대비 변경 상태 배지(changeSet) + "변경된 규칙만" 필터
+ *   — 이 필터에서는 로컬에서 삭제한 규칙도 "삭제됨 — Push 대기" 행으로 보여 주고 복원할 수 있음
  *
  * 버그 수정:
  *   1. 필터 변경 시 유령 행 남는 문제
@@ -22,6 +30,8 @@
  *      - legend(활성 설명)와 Pagination을 같은 행에 flex 배치
  *      - 너비 부족 시: legend 위, Pagination 아래로 자연스럽게 래핑
  *      - marginTop: 12 / marginBottom: 24 로 상하 여백 확보
+ *   5. 외부 Pagination이 행을 나누지 않던 문제
+ *      → 정렬을 직접 수행(sorter: true + SORTERS)한 뒤 현재 페이지 범위만 Table에 전달
  */
 import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
@@ -29,7 +39,6 @@ import {
   Table,
   Button,
   Space,
-  Input,
   Select,
   Switch,
   Tag,
@@ -41,17 +50,27 @@ import {
   Card,
   Badge,
   Pagination,
+  Dropdown,
 } from 'antd';
-import type { ColumnsType, TablePaginationConfig } from 'antd/es/table';
+import type { MenuProps } from 'antd';
+import type { ColumnsType, SortOrder } from 'antd/es/table/interface';
 import {
   PlusOutlined,
   DeleteOutlined,
-  SearchOutlined,
   ReloadOutlined,
   FilterOutlined,
+  DownloadOutlined,
+  UploadOutlined,
+  LockOutlined,
+  EditOutlined,
+  CopyOutlined,
+  DownOutlined,
+  SnippetsOutlined,
+  RollbackOutlined,
 } from '@ant-design/icons';
-import { useDataStore } from '@/stores/dataStore';
+import { useChangeSet, useDataStore } from '@/stores/dataStore';
 import { useUiStore } from '@/stores/uiStore';
+import { editorsOf, usePresenceStore } from '@/stores/presenceStore';
 import type { Rule, RuleCategory, RuleSeverity, RuleCheckType } from '@/types/rule';
 import {
   RULE_CATEGORY_LABELS,
@@ -59,80 +78,149 @@ import {
   RULE_SEVERITY_COLORS,
   RULE_CHECK_TYPE_LABELS,
 } from '@/types/rule';
+import ExportModal from '@/components/rules/ExportModal';
+import ImportModal from '@/components/rules/ImportModal';
+import BulkEditDrawer from '@/components/rules/BulkEditDrawer';
+import ChangeStatusTag from '@/components/common/ChangeStatusTag';
+import RuleQueryBar from '@/components/rules/RuleQueryBar';
+import { matchesRuleQuery, parseRuleQuery } from '@/utils/ruleQuery';
+import useUrlState, { urlParam } from '@/hooks/useUrlState';
+import { deleteRuleTemplate, listRuleTemplates, type RuleTemplate } from '@/storage/idbStorage';
 
 const { Text } = Typography;
 const { Option } = Select;
 
 interface Filters {
-  search:    string;
   category:  RuleCategory | 'all';
   severity:  RuleSeverity | 'all';
   checkType: RuleCheckType | 'all';
   isActive:  'all' | 'true' | 'false';
+  changed:   'all' | 'changed';
 }
 
 const INITIAL_FILTERS: Filters = {
-  search:    '',
   category:  'all',
   severity:  'all',
   checkType: 'all',
   isActive:  'all',
+  changed:   'all',
 };
 
+type SortKey = 'ruleId' | 'title' | 'severity' | 'isActive';
+
+const SEVERITY_ORDER: RuleSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
+
+const SORTERS: Record<SortKey, (a: Rule, b: Rule) => number> = {
+  ruleId:   (a, b) => a.ruleId.localeCompare(b.ruleId),
+  title:    (a, b) => a.title.localeCompare(b.title),
+  severity: (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity),
+  isActive: (a, b) => Number(b.isActive) - Number(a.isActive),
+};
+
+/** URL 파라미터. sort는 'ruleId'(오름차순) / '-ruleId'(내림차순) 형식 */
+const URL_SCHEMA = {
+  q:         urlParam.string(),
+  category:  urlParam.oneOf<Filters['category']>(['all', ...Object.keys(RULE_CATEGORY_LABELS) as RuleCategory[]], 'all'),
+  severity:  urlParam.oneOf<Filters['severity']>(['all', ...SEVERITY_ORDER], 'all'),
+  checkType: urlParam.oneOf<Filters['checkType']>(['all', ...Object.keys(RULE_CHECK_TYPE_LABELS) as RuleCheckType[]], 'all'),
+  isActive:  urlParam.oneOf<Filters['isActive']>(['all', 'true', 'false'], 'all'),
+  changed:   urlParam.oneOf<Filters['changed']>(['all', 'changed'], 'all'),
+  sort:      urlParam.string(),
+  page:      urlParam.number(1),
+  size:      urlParam.number(20),
+};
+
+function parseSort(raw: string): { key: SortKey; order: SortOrder } | null {
+  const key = raw.replace(/^-/, '');
+  return Object.hasOwn(SORTERS, key)
+    ? { key: key as SortKey, order: raw.startsWith('-') ? 'descend' : 'ascend' }
+    : null;
+}
+
 export default function RulesPage() {
   const navigate      = useNavigate();
   const rules         = useDataStore((s) => s.rules);
+  const changeSet     = useChangeSet();
   const deleteRule    = useDataStore((s) => s.deleteRule);
   const updateRule    = useDataStore((s) => s.updateRule);
+  const transact      = useDataStore((s) => s.transact);
+  const revertToOrigin = useDataStore((s) => s.revertToOrigin);
   const isLoading     = useDataStore((s) => s.isLoading);
   const pull          = useDataStore((s) => s.pull);
   const notifySuccess = useUiStore((s) => s.notifySuccess);
   const notifyError   = useUiStore((s) => s.notifyError);
+  const peers         = usePresenceStore((s) => s.peers);
+  const [url, updateUrl] = useUrlState(URL_SCHEMA);
 
-  const [filters, setFilters]               = useState<Filters>(INITIAL_FILTERS);
   const [selectedRowKeys, setSelectedRowKeys] = useState<string[]>([]);
+  const [exportOpen, setExportOpen]           = useState(false);
+  const [importOpen, setImportOpen]           = useState(false);
+  const [bulkEditOpen, setBulkEditOpen]       = useState(false);
+  const [templates, setTemplates]             = useState<RuleTemplate[]>([]);
 
-  const [pagination, setPagination] = useState<TablePaginationConfig>({
-    current:  1,
-    pageSize: 20,
-  });
+  const filters: Filters = {
+    category:  url.category,
+    severity:  url.severity,
+    checkType: url.checkType,
+    isActive:  url.isActive,
+    changed:   url.changed,
+  };
+  const query  = url.q;
+  const parsed = useMemo(() => parseRuleQuery(query), [query]);
+  const sort   = useMemo(() => parseSort(url.sort), [url.sort]);
 
   const filteredRules = useMemo(() => {
-    const keyword = filters.search.toLowerCase();
-    return rules.filter((rule) => {
+    const onlyChanged = filters.changed === 'changed';
+    return (onlyChanged ? [...rules, ...changeSet.deletedRules] : rules).filter((rule) => {
+      if (onlyChanged && !changeSet.rules.has(rule.ruleId)) return false;
       if (filters.category  !== 'all' && rule.category  !== filters.category)  return false;
       if (filters.severity  !== 'all' && rule.severity  !== filters.severity)  return false;
       if (filters.checkType !== 'all' && rule.checkType !== filters.checkType) return false;
       if (filters.isActive === 'true'  && !rule.isActive) return false;
       if (filters.isActive === 'false' &&  rule.isActive) return false;
-      if (keyword) {
-        const hit =
-          rule.ruleId.toLowerCase().includes(keyword)      ||
-          rule.title.toLowerCase().includes(keyword)       ||
-          rule.description.toLowerCase().includes(keyword);
-        if (!hit) return false;
-      }
-      return true;
+      return matchesRuleQuery(rule, parsed);
     });
-  }, [rules, filters]);
+  }, [rules, changeSet, filters.changed, filters.category, filters.severity, filters.checkType, filters.isActive, parsed]);
+
+  const isDeleted = (ruleId: string) => changeSet.rules.get(ruleId) === 'deleted';
+
+  const sortedRules = useMemo(() => {
+    if (!sort) return filteredRules;
+    const compare = SORTERS[sort.key];
+    return [...filteredRules].sort(sort.order === 'descend' ? (a, b) => compare(b, a) : compare);
+  }, [filteredRules, sort]);
+
+  // 삭제 / 필터로 행이 줄어 현재 페이지가 범위를 벗어나면 마지막 페이지를 표시
+  const lastPage    = Math.max(1, Math.ceil(sortedRules.length / url.size));
+  const currentPage = Math.min(url.page, lastPage);
+  const pagedRules  = sortedRules.slice((currentPage - 1) * url.size, currentPage * url.size);
+
+  const selectedRules = useMemo(
+    () => rules.filter((r) => selectedRowKeys.includes(r.ruleId)),
+    [rules, selectedRowKeys],
+  );
 
   // Fix #1: 필터 변경 시 current → 1 리셋
   const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
-    setFilters((prev) => ({ ...prev, [key]: value }));
-    setPagination((prev) => ({ ...prev, current: 1 }));
+    const patch: Partial<Filters> = {};
+    patch[key] = value;
+    updateUrl({ ...patch, page: 1 });
   };
 
-  const resetFilters = () => {
-    setFilters(INITIAL_FILTERS);
-    setPagination((prev) => ({ ...prev, current: 1 }));
-  };
+  // 쿼리는 입력할 때마다 바뀌므로 history 항목을 쌓지 않고 교체
+  const setQuery = (next: string) => updateUrl({ q: next, page: 1 }, { replace: true });
+
+  const resetFilters = () => updateUrl({ ...INITIAL_FILTERS, q: '', page: 1 });
+
+  const sortOrderOf = (key: SortKey): SortOrder => (sort?.key === key ? sort.order : null);
 
   const isFiltered =
-    filters.search    !== ''    ||
+    query             !== ''    ||
     filters.category  !== 'all' ||
     filters.severity  !== 'all' ||
     filters.checkType !== 'all' ||
-    filters.isActive  !== 'all';
+    filters.isActive  !== 'all' ||
+    filters.changed   !== 'all';
 
   const handlePull = async () => {
     try {
@@ -150,11 +238,34 @@ export default function RulesPage() {
   };
 
   const handleDeleteSelected = () => {
-    selectedRowKeys.forEach((id) => deleteRule(id));
+    transact(`규칙 ${selectedRowKeys.length}개 삭제`, () => selectedRowKeys.forEach((id) => deleteRule(id)));
     notifySuccess('삭제 완료', `${selectedRowKeys.length}개 규칙이 삭제되었습니다.`);
     setSelectedRowKeys([]);
   };
 
+  const handleRestore = async (ruleId: string) => {
+    try {
+      await revertToOrigin({ rules: [ruleId] });
+      notifySuccess('복원 완료', `규칙 ${ruleId}을(를) 마지막 동기화(Pull/Push) 데이터에서 복원했습니다.`);
+    } catch (err) {
+      notifyError('복원 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  // 로컬에서 추가한 규칙은 제거되므로 선택을 비움
+  const handleRevertSelected = async () => {
+    try {
+      const count = await revertToOrigin({ rules: selectedRowKeys });
+      notifySuccess(
+        '되돌리기 완료',
+        count > 0 ? `${count}개 규칙을 마지막 동기화(Pull/Push) 데이터로 되돌렸습니다.` : '선택한 규칙에 로컬 변경이 없습니다.',
+      );
+      setSelectedRowKeys([]);
+    } catch (err) {
+      notifyError('되돌리기 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
   // Fix #3: isActive 인라인 토글
   const handleToggleActive = (ruleId: string, checked: boolean, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -171,17 +282,30 @@ export default function RulesPage() {
       dataIndex: 'ruleId',
       key:       'ruleId',
       width:     160,
-      sorter: (a, b) => a.ruleId.localeCompare(b.ruleId),
-      render: (id: string) => (
-        <Text code style={{ fontSize: 12, whiteSpace: 'nowrap' }}>{id}</Text>
-      ),
+      sorter:    true,
+      sortOrder: sortOrderOf('ruleId'),
+      render: (id: string) => {
+        const editors = editorsOf(peers, id);
+        return (
+          <Space size={4}>
+            <Text code style={{ fontSize: 12, whiteSpace: 'nowrap' }}>{id}</Text>
+            <ChangeStatusTag status={changeSet.rules.get(id)} />
+            {editors.length > 0 && (
+              <Tooltip title={`${editors.map((p) => p.userName).join(', ')}에서 편집 중`}>
+                <LockOutlined style={{ color: '#fa8c16' }} />
+              </Tooltip>
+            )}
+          </Space>
+        );
+      },
     },
     {
       title:     '제목',
       dataIndex: 'title',
       key:       'title',
       ellipsis:  true,
-      sorter: (a, b) => a.title.localeCompare(b.title),
+      sorter:    true,
+      sortOrder: sortOrderOf('title'),
       render: (title: string, record) => (
         <Tooltip title={record.description}><span>{title}</span></Tooltip>
       ),
@@ -200,10 +324,8 @@ export default function RulesPage() {
       dataIndex: 'severity',
       key:       'severity',
       width:     90,
-      sorter: (a, b) => {
-        const order: RuleSeverity[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'];
-        return order.indexOf(a.severity) - order.indexOf(b.severity);
-      },
+      sorter:    true,
+      sortOrder: sortOrderOf('severity'),
       render: (s: RuleSeverity) => (
         <Tag color={RULE_SEVERITY_COLORS[s]} style={{ fontSize: 11 }}>
           {RULE_SEVERITY_LABELS[s]}
@@ -234,12 +356,14 @@ export default function RulesPage() {
       key:       'isActive',
       width:     70,
       align:     'center',
-      sorter: (a, b) => Number(b.isActive) - Number(a.isActive),
+      sorter:    true,
+      sortOrder: sortOrderOf('isActive'),
       render: (v: boolean, record) => (
         <Tooltip title={v ? '클릭하여 비활성화' : '클릭하여 활성화'}>
           <Switch
             size="small"
             checked={v}
+            disabled={isDeleted(record.ruleId)}
             onClick={(checked, e) =>
               handleToggleActive(record.ruleId, checked, e as unknown as React.MouseEvent)
             }
@@ -250,33 +374,104 @@ export default function RulesPage() {
     {
       title: '',
       key:   'action',
-      width: 60,
+      width: 88,
       align: 'center',
-      render: (_, record) => (
-        <Popconfirm
-          title="규칙 삭제"
-          description={`"${record.title}"을(를) 삭제하시겠습니까?`}
-          onConfirm={(e) => { e?.stopPropagation(); handleDelete(record.ruleId); }}
-          onCancel={(e) => e?.stopPropagation()}
-          okText="삭제"
-          cancelText="취소"
-          okButtonProps={{ danger: true }}
-        >
+      render: (_, record) => isDeleted(record.ruleId) ? (
+        <Tooltip title="삭제 취소 — 마지막 동기화(Pull/Push) 데이터에서 복원">
           <Button
             type="text"
-            danger
             size="small"
-            icon={<DeleteOutlined />}
-            onClick={(e) => e.stopPropagation()}
+            icon={<RollbackOutlined />}
+            onClick={(e) => {
+              e.stopPropagation();
+              handleRestore(record.ruleId);
+            }}
           />
-        </Popconfirm>
+        </Tooltip>
+      ) : (
+        <Space size={0}>
+          <Tooltip title="복제">
+            <Button
+              type="text"
+              size="small"
+              icon={<CopyOutlined />}
+              onClick={(e) => {
+                e.stopPropagation();
+                navigate(`/rules/new?clone=${encodeURIComponent(record.ruleId)}`);
+              }}
+            />
+          </Tooltip>
+          <Popconfirm
+            title="규칙 삭제"
+            description={`"${record.title}"을(를) 삭제하시겠습니까?`}
+            onConfirm={(e) => { e?.stopPropagation(); handleDelete(record.ruleId); }}
+            onCancel={(e) => e?.stopPropagation()}
+            okText="삭제"
+            cancelText="취소"
+            okButtonProps={{ danger: true }}
+          >
+            <Button
+              type="text"
+              danger
+              size="small"
+              icon={<DeleteOutlined />}
+              onClick={(e) => e.stopPropagation()}
+            />
+          </Popconfirm>
+        </Space>
       ),
     },
   ];
 
+  // ── 템플릿으로 새 규칙 ─────────────────────────────────────────────────
+  // 템플릿은 규칙 편집 페이지에서 저장하므로 메뉴를 열 때마다 다시 읽음
+  const refreshTemplates = (open: boolean) => {
+    if (!open) return;
+    listRuleTemplates()
+      .then(setTemplates)
+      .catch((err) => console.error('[RulesPage] 템플릿 목록 로드 실패:', err));
+  };
+
+  const handleDeleteTemplate = async (name: string) => {
+    try {
+      await deleteRuleTemplate(name);
+      setTemplates((prev) => prev.filter((t) => t.name !== name));
+    } catch (err) {
+      notifyError('템플릿 삭제 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const templateMenu: MenuProps = {
+    items: templates.length === 0
+      ? [{ key: '__empty', disabled: true, label: '저장된 템플릿 없음 — 규칙 편집 화면에서 "템플릿으로 저장"' }]
+      : templates.map((t) => ({
+          key:  t.name,
+          icon: <SnippetsOutlined />,
+          label: (
+            <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+              <span>
+                {t.name} {t.description && <Text type="secondary" style={{ fontSize: 12 }}>{t.description}</Text>}
+              </span>
+              <Popconfirm
+                title="템플릿 삭제"
+                description={`"${t.name}" 템플릿을 삭제하시겠습니까?`}
+                onConfirm={(e) => { e?.stopPropagation(); handleDeleteTemplate(t.name); }}
+                onCancel={(e) => e?.stopPropagation()}
+                okText="삭제"
+                cancelText="취소"
+                okButtonProps={{ danger: true }}
+              >
+                <DeleteOutlined style={{ color: '#bfbfbf' }} onClick={(e) => e.stopPropagation()} />
+              </Popconfirm>
+            </Space>
+          ),
+        })),
+    onClick: ({ key }) => navigate(`/rules/new?template=${encodeURIComponent(key)}`),
+  };
+
   // Fix #1 핵심: 필터 조합이 바뀌면 Table을 완전히 리마운트
   // → Ant Design 내부 페이지 offset 상태 초기화 → 유령 행 제거
-  const tableKey = `${filters.category}-${filters.severity}-${filters.checkType}-${filters.isActive}`;
+  const tableKey = `${filters.category}-${filters.severity}-${filters.checkType}-${filters.isActive}-${filters.changed}`;
 
   return (
     <div>
@@ -301,28 +496,56 @@ export default function RulesPage() {
               </Button>
             </Popconfirm>
           )}
+          {selectedRowKeys.length > 0 && (
+            <Button icon={<EditOutlined />} onClick={() => setBulkEditOpen(true)}>
+              일괄 편집 ({selectedRowKeys.length})
+            </Button>
+          )}
+          {selectedRowKeys.length > 0 && (
+            <Popconfirm
+              title="서버 버전으로 되돌리기"
+              description={`선택한 ${selectedRowKeys.length}개 규칙의 로컬 편집을 버립니다. 로컬에서 추가한 규칙은 삭제됩니다.`}
+              onConfirm={handleRevertSelected}
+              okText="되돌리기"
+              cancelText="취소"
+            >
+              <Button icon={<RollbackOutlined />}>
+                되돌리기 ({selectedRowKeys.length})
+              </Button>
+            </Popconfirm>
+          )}
+          <Button icon={<UploadOutlined />} onClick={() => setImportOpen(true)}>
+            가져오기
+          </Button>
+          <Button icon={<DownloadOutlined />} onClick={() => setExportOpen(true)}>
+            내보내기
+          </Button>
           <Button icon={<ReloadOutlined />} onClick={handlePull} loading={isLoading}>
             Pull
           </Button>
-          <Button type="primary" icon={<PlusOutlined />} onClick={() => navigate('/rules/new')}>
-            새 규칙
-          </Button>
+          <Space.Compact>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => navigate('/rules/new')}>
+              새 규칙
+            </Button>
+            <Dropdown
+              menu={templateMenu}
+              trigger={['click']}
+              placement="bottomRight"
+              onOpenChange={refreshTemplates}
+            >
+              <Button type="primary" icon={<DownOutlined />} title="템플릿으로 새 규칙" />
+            </Dropdown>
+          </Space.Compact>
         </Space>
       </div>
 
       {/* ── 필터 ────────────────────────────────────────────────────────── */}
       <Card size="small" style={{ marginBottom: 16 }} styles={{ body: { padding: '12px 16px' } }}>
         <Row gutter={[12, 12]} align="middle">
-          <Col xs={24} sm={12} lg={6}>
-            <Input
-              placeholder="규칙 ID / 제목 / 설명 검색"
-              prefix={<SearchOutlined style={{ color: '#bfbfbf' }} />}
-              value={filters.search}
-              onChange={(e) => setFilter('search', e.target.value)}
-              allowClear
-            />
+          <Col xs={24}>
+            <RuleQueryBar value={query} onChange={setQuery} rules={rules} errors={parsed.errors} />
           </Col>
-          <Col xs={12} sm={6} lg={4}>
+          <Col xs={12} sm={6} lg={5}>
             <Select
               style={{ width: '100%' }}
               value={filters.category}
@@ -334,7 +557,7 @@ export default function RulesPage() {
               ))}
             </Select>
           </Col>
-          <Col xs={12} sm={6} lg={3}>
+          <Col xs={12} sm={6} lg={4}>
             <Select
               style={{ width: '100%' }}
               value={filters.severity}
@@ -348,7 +571,7 @@ export default function RulesPage() {
               ))}
             </Select>
           </Col>
-          <Col xs={12} sm={6} lg={4}>
+          <Col xs={12} sm={6} lg={5}>
             <Select
               style={{ width: '100%' }}
               value={filters.checkType}
@@ -371,7 +594,17 @@ export default function RulesPage() {
               <Option value="false"><Badge status="default" text="비활성" /></Option>
             </Select>
           </Col>
-          <Col xs={24} sm={6} lg={2}>
+          <Col xs={12} sm={6} lg={4}>
+            <Select
+              style={{ width: '100%' }}
+              value={filters.changed}
+              onChange={(v) => setFilter('changed', v)}
+            >
+              <Option value="all">전체 변경 상태</Option>
+              <Option value="changed">변경된 규칙만 ({changeSet.rules.size})</Option>
+            </Select>
+          </Col>
+          <Col xs={12} sm={6} lg={3}>
             <Button
               icon={<FilterOutlined />}
               onClick={resetFilters}
@@ -388,19 +621,25 @@ export default function RulesPage() {
       <Table<Rule>
         key={tableKey}
         columns={columns}
-        dataSource={filteredRules}
+        dataSource={pagedRules}
         rowKey="ruleId"
         loading={isLoading}
         size="small"
         pagination={false}
+        onChange={(_pagination, _filters, sorter) => {
+          const { columnKey, order } = Array.isArray(sorter) ? sorter[0] : sorter;
+          updateUrl({ sort: order ? `${order === 'descend' ? '-' : ''}${String(columnKey)}` : '', page: 1 });
+        }}
         rowSelection={{
           selectedRowKeys,
           onChange: (keys) => setSelectedRowKeys(keys as string[]),
         }}
-        onRow={(record) => ({
-          onClick: () => navigate(`/rules/${record.ruleId}`),
-          style: { cursor: 'pointer' },
-        })}
+        onRow={(record) => (isDeleted(record.ruleId)
+          ? { style: { opacity: 0.6 } }
+          : {
+            onClick: () => navigate(`/rules/${record.ruleId}`),
+            style: { cursor: 'pointer' },
+          })}
         locale={{
           emptyText: rules.length === 0
             ? 'Pull을 실행하여 서버에서 규칙을 불러오세요.'
@@ -446,17 +685,26 @@ export default function RulesPage() {
 
         {/* Pagination — 너비 부족 시 아래로 내려감 */}
         <Pagination
-          current={pagination.current}
-          pageSize={pagination.pageSize}
+          current={currentPage}
+          pageSize={url.size}
           total={filteredRules.length}
           showSizeChanger
           pageSizeOptions={['10', '20', '50', '100']}
           showTotal={(total, range) => `${range[0]}-${range[1]} / 전체 ${total}개`}
-          onChange={(page, size) => setPagination({ current: page, pageSize: size })}
+          onChange={(page, size) => updateUrl({ page: size === url.size ? page : 1, size })}
           size="small"
           style={{ marginLeft: 'auto' }}
         />
       </div>
+
+      <ExportModal
+        open={exportOpen}
+        filteredRules={filteredRules.filter((r) => !isDeleted(r.ruleId))}
+        selectedRules={selectedRules}
+        onClose={() => setExportOpen(false)}
+      />
+      <ImportModal open={importOpen} onClose={() => setImportOpen(false)} />
+      <BulkEditDrawer open={bulkEditOpen} rules={selectedRules} onClose={() => setBulkEditOpen(false)} />
     </div>
   );
 }
\ No newline at end of file
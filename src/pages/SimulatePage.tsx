@@ -0,0 +1,365 @@
+/**
+ * src/pages/SimulatePage.tsx
+ *
+ * 태그 시뮬레이션 페이지.
+ * 샘플 Java 파일을 붙여넣거나 드롭하면 서버 파이프라인 없이 로컬 데이터로
+ * 어떤 태그가 붙고 어떤 규칙이 적용 / 위반되는지 확인합니다.
+ *
+ * - Tier 1 regex 태그: 자동 평가 (matchType / caseSensitive / excludeInComments)
+ * - AST / LLM 태그, Tier 2 태그: 체크박스로 수동 토글 ("what if")
+ * - 복합 태그: expression 또는 requires / excludes로 파생
+ * - 규칙: 활성 규칙만 태그 조건 충족 여부 + antiPatterns 매칭 → 위반 후보 목록
+ */
+import { useDeferredValue, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Alert,
+  Badge,
+  Card,
+  Checkbox,
+  Col,
+  Empty,
+  Row,
+  Segmented,
+  Space,
+  Table,
+  Tabs,
+  Tag,
+  Tooltip,
+  Typography,
+  Upload,
+} from 'antd';
+import type { ColumnsType } from 'antd/es/table';
+import { ExperimentOutlined, InboxOutlined } from '@ant-design/icons';
+import { useDataStore } from '@/stores/dataStore';
+import { useUiStore } from '@/stores/uiStore';
+import JavaCodeEditor from '@/components/rules/JavaCodeEditor';
+import { RULE_SEVERITY_COLORS, RULE_SEVERITY_LABELS } from '@/types/rule';
+import type { CodeHighlight } from '@/utils/patternTest';
+import { isAutoEvaluatedTag, simulateTags, type RuleSimulationResult, type TagOrigin } from '@/utils/tagSimulation';
+
+const { Title, Text } = Typography;
+
+type RuleFilter = 'violated' | 'applies' | 'all';
+
+const ORIGIN_COLORS: Record<TagOrigin, string> = {
+  regex:    'blue',
+  manual:   'purple',
+  compound: 'cyan',
+};
+
+const ORIGIN_LABELS: Record<TagOrigin, string> = {
+  regex:    '정규식',
+  manual:   '수동',
+  compound: '복합',
+};
+
+export default function SimulatePage() {
+  const rules       = useDataStore((s) => s.rules);
+  const tags        = useDataStore((s) => s.tags);
+  const notifyError = useUiStore((s) => s.notifyError);
+
+  const [source, setSource]         = useState('');
+  const [fileName, setFileName]     = useState<string | null>(null);
+  const [manualTags, setManualTags] = useState<Set<string>>(new Set());
+  const [ruleFilter, setRuleFilter] = useState<RuleFilter>('violated');
+
+  // 입력 중 전체 규칙 재평가로 타이핑이 끊기지 않도록 지연 값 사용
+  const deferredSource = useDeferredValue(source);
+
+  const result = useMemo(
+    () => simulateTags(deferredSource, tags, rules, manualTags),
+    [deferredSource, tags, rules, manualTags],
+  );
+
+  // AST / LLM / Tier 2 태그 — 수동 토글 대상
+  const manualCandidates = useMemo(
+    () => Object.entries(tags.tags)
+      .filter(([, def]) => !isAutoEvaluatedTag(def))
+      .map(([name, def]) => ({
+        name,
+        type:        def.tier === 2 ? `${def.detection.type} · Tier 2` : def.detection.type,
+        description: def.description,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [tags.tags],
+  );
+
+  const matchedRegex   = result.regexTags.filter((t) => t.matched);
+  const regexErrors    = result.regexTags.filter((t) => t.errors.length > 0);
+  const violatedCount  = result.rules.filter((r) => r.violated).length;
+  const appliesCount   = result.rules.filter((r) => r.applies).length;
+
+  const visibleRules = result.rules.filter((r) =>
+    ruleFilter === 'all' ? true : ruleFilter === 'applies' ? r.applies : r.violated,
+  );
+
+  // 위반 후보 규칙의 antiPattern 매칭 구간을 에디터에 표시
+  const highlights = useMemo<CodeHighlight[]>(
+    () => result.rules
+      .filter((r) => r.violated)
+      .flatMap((r) => r.antiPatternHits.flatMap((hits, i) => hits.map((h) => ({
+        start: h.start,
+        end:   h.end,
+        kind:  'anti' as const,
+        label: `${r.rule.ruleId} 안티 패턴 #${i + 1}`,
+      })))),
+    [result.rules],
+  );
+
+  const toggleManual = (name: string, checked: boolean) => {
+    setManualTags((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(name); else next.delete(name);
+      return next;
+    });
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      setSource(await file.text());
+      setFileName(file.name);
+    } catch (err) {
+      console.error('[SimulatePage] 파일 읽기 실패:', err);
+      notifyError('파일 읽기 실패', file.name);
+    }
+  };
+
+  // ── 규칙 결과 테이블 ──────────────────────────────────────────────────────
+  const columns: ColumnsType<RuleSimulationResult> = [
+    {
+      title:     '규칙 ID',
+      dataIndex: ['rule', 'ruleId'],
+      width:     170,
+      render:    (id: string) => (
+        <Link to={`/rules/${id}`} style={{ fontFamily: 'monospace', fontSize: 12 }}>{id}</Link>
+      ),
+    },
+    {
+      title:     '제목',
+      dataIndex: ['rule', 'title'],
+      ellipsis:  true,
+    },
+    {
+      title:  '심각도',
+      width:  90,
+      render: (_, r) => (
+        <Tag color={RULE_SEVERITY_COLORS[r.rule.severity]}>{RULE_SEVERITY_LABELS[r.rule.severity]}</Tag>
+      ),
+    },
+    {
+      title:  '태그 조건',
+      width:  280,
+      render: (_, r) => (
+        <Space direction="vertical" size={2}>
+          {r.rule.tagCondition ? (
+            <Tooltip title={r.conditionError ?? r.rule.tagCondition}>
+              <Tag color={r.conditionError ? 'red' : r.conditionMet ? 'green' : 'default'}>
+                조건식 {r.conditionError ? '오류' : r.conditionMet ? '충족' : '미충족'}
+              </Tag>
+            </Tooltip>
+          ) : (
+            <Text type="secondary" style={{ fontSize: 11 }}>조건식 없음</Text>
+          )}
+          {r.missingRequired.length > 0 && (
+            <Text type="warning" style={{ fontSize: 11 }}>필수 누락: {r.missingRequired.join(', ')}</Text>
+          )}
+          {r.presentExcluded.length > 0 && (
+            <Text type="warning" style={{ fontSize: 11 }}>제외 태그 존재: {r.presentExcluded.join(', ')}</Text>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title:  '안티 패턴',
+      width:  120,
+      render: (_, r) => {
+        const total = r.antiPatternHits.reduce((sum, h) => sum + h.length, 0);
+        if (r.antiPatternHits.length === 0) return <Text type="secondary" style={{ fontSize: 11 }}>없음</Text>;
+        return <Tag color={total > 0 ? 'volcano' : 'default'}>{total}건 매칭</Tag>;
+      },
+    },
+    {
+      title:  '결과',
+      width:  100,
+      render: (_, r) =>
+        r.violated ? <Badge status="error" text="위반 후보" />
+        : r.applies ? <Badge status="processing" text="적용" />
+        : <Badge status="default" text="미적용" />,
+    },
+  ];
+
+  return (
+    <div>
+      <Title level={4} style={{ marginBottom: 24 }}>
+        <ExperimentOutlined style={{ marginRight: 8 }} />
+        태그 시뮬레이션
+      </Title>
+
+      {rules.length === 0 && Object.keys(tags.tags).length === 0 && (
+        <Alert
+          type="info"
+          showIcon
+          title="로컬 데이터가 없습니다. 동기화 페이지에서 Pull을 먼저 실행하세요."
+          style={{ marginBottom: 16 }}
+        />
+      )}
+
+      <Row gutter={16}>
+        {/* ── 샘플 소스 ───────────────────────────────────────────────────── */}
+        <Col xs={24} xl={14}>
+          <Card
+            title="샘플 소스"
+            extra={fileName && <Text type="secondary" style={{ fontSize: 12 }}>{fileName}</Text>}
+            style={{ marginBottom: 16 }}
+          >
+            <Upload.Dragger
+              accept=".java,.txt"
+              showUploadList={false}
+              beforeUpload={(file) => { handleFile(file); return false; }}
+              style={{ marginBottom: 12 }}
+            >
+              <Space>
+                <InboxOutlined style={{ fontSize: 20, color: '#1677ff' }} />
+                <Text type="secondary">.java 파일을 드롭하거나 클릭해 선택하세요</Text>
+              </Space>
+            </Upload.Dragger>
+            <JavaCodeEditor
+              label="Java 소스"
+              value={source}
+              onChange={(v) => { setSource(v); setFileName(null); }}
+              placeholder="// 시뮬레이션할 Java 코드를 붙여넣으세요"
+              height={460}
+              highlights={highlights}
+            />
+          </Card>
+        </Col>
+
+        {/* ── 태그 결과 ───────────────────────────────────────────────────── */}
+        <Col xs={24} xl={10}>
+          <Card
+            title="활성 태그"
+            extra={<Tag color="blue">{result.activeTags.size}개</Tag>}
+            style={{ marginBottom: 16 }}
+          >
+            <div style={{ minHeight: 32, marginBottom: 12 }}>
+              {result.activeTags.size === 0 ? (
+                <Text type="secondary" style={{ fontSize: 12 }}>활성 태그 없음</Text>
+              ) : (
+                <Space size={[4, 4]} wrap>
+                  {[...result.activeTags].map(([name, origin]) => (
+                    <Tooltip key={name} title={ORIGIN_LABELS[origin]}>
+                      <Tag color={ORIGIN_COLORS[origin]} style={{ fontFamily: 'monospace', fontSize: 11 }}>
+                        {name}
+                      </Tag>
+                    </Tooltip>
+                  ))}
+                </Space>
+              )}
+            </div>
+
+            {regexErrors.length > 0 && (
+              <Alert
+                type="warning"
+                showIcon
+                title={`${regexErrors.length}개 태그에 컴파일되지 않는 패턴이 있습니다.`}
+                description={regexErrors.map((t) => `${t.name} — ${t.errors.join('; ')}`).join('\n')}
+                style={{ marginBottom: 12, whiteSpace: 'pre-line' }}
+              />
+            )}
+
+            <Tabs
+              size="small"
+              items={[
+                {
+                  key:   'regex',
+                  label: `정규식 (${matchedRegex.length}/${result.regexTags.length})`,
+                  children: matchedRegex.length === 0 ? (
+                    <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="매칭된 정규식 태그 없음" />
+                  ) : (
+                    <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+                      {matchedRegex.map((t) => (
+                        <div key={t.name} style={{ marginBottom: 6 }}>
+                          <Text code style={{ fontSize: 11 }}>{t.name}</Text>
+                          <Text type="secondary" style={{ fontSize: 11 }}>
+                            {' '}패턴 매칭 {t.hits.map((h) => h.length).join(' / ')}건
+                          </Text>
+                        </div>
+                      ))}
+                    </div>
+                  ),
+                },
+                {
+                  key:   'manual',
+                  label: `AST / LLM / Tier 2 (${manualTags.size}/${manualCandidates.length})`,
+                  children: manualCandidates.length === 0 ? (
+                    <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="AST / LLM / Tier 2 태그 없음" />
+                  ) : (
+                    <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+                      {manualCandidates.map((t) => (
+                        <div key={t.name} style={{ marginBottom: 4 }}>
+                          <Checkbox
+                            checked={manualTags.has(t.name)}
+                            onChange={(e) => toggleManual(t.name, e.target.checked)}
+                          >
+                            <Text code style={{ fontSize: 11 }}>{t.name}</Text>
+                            <Tag style={{ fontSize: 10, marginLeft: 4 }}>{t.type}</Tag>
+                            <Text type="secondary" style={{ fontSize: 11 }}>{t.description}</Text>
+                          </Checkbox>
+                        </div>
+                      ))}
+                    </div>
+                  ),
+                },
+                {
+                  key:   'compound',
+                  label: `복합 (${result.compoundTags.filter((t) => t.matched).length}/${result.compoundTags.length})`,
+                  children: result.compoundTags.length === 0 ? (
+                    <Empty image={Empty.PRESENTED_IMAGE_SIMPLE} description="복합 태그 없음" />
+                  ) : (
+                    <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+                      {result.compoundTags.map((t) => (
+                        <div key={t.name} style={{ marginBottom: 4 }}>
+                          <Badge status={t.error ? 'error' : t.matched ? 'success' : 'default'} />
+                          <Text code style={{ fontSize: 11 }}>{t.name}</Text>
+                          {t.error && <Text type="danger" style={{ fontSize: 11 }}> {t.error}</Text>}
+                        </div>
+                      ))}
+                    </div>
+                  ),
+                },
+              ]}
+            />
+          </Card>
+        </Col>
+      </Row>
+
+      {/* ── 규칙 결과 ─────────────────────────────────────────────────────── */}
+      <Card
+        title="규칙 판정"
+        extra={
+          <Segmented<RuleFilter>
+            size="small"
+            value={ruleFilter}
+            onChange={setRuleFilter}
+            options={[
+              { value: 'violated', label: `위반 후보 ${violatedCount}` },
+              { value: 'applies',  label: `적용 ${appliesCount}` },
+              { value: 'all',      label: `전체 ${result.rules.length}` },
+            ]}
+          />
+        }
+        style={{ marginBottom: 24 }}
+      >
+        <Table<RuleSimulationResult>
+          rowKey={(r) => r.rule.ruleId}
+          size="small"
+          columns={columns}
+          dataSource={visibleRules}
+          pagination={{ pageSize: 20, showSizeChanger: false, hideOnSinglePage: true }}
+          locale={{ emptyText: source ? '해당하는 규칙이 없습니다.' : '샘플 소스를 입력하세요.' }}
+        />
+      </Card>
+    </div>
+  );
+}
@@ -4,19 +4,32 @@
  * 데이터 동기화 페이지.
  * - Pull  : 서버 → 로컬
  * - Diff  : 로컬 vs 서버 비교 → DiffViewer
+ *           오프라인이면 snapshot:origin ↔ 현재 편집본을 로컬에서 비교 (localDiff)
+ *           "로컬 스냅샷 비교" 카드에서 origin / lastPush / current 중 임의의 두 스냅샷 비교
  * - Push  : 로컬 → 서버, PushConfirm 다이얼로그, 충돌 처리
+ *           데이터 검사(dataLint) 오류가 있으면 PushConfirm에서 차단
+ *           VERSION_CONFLICT 시 3-way 병합 → MergeResolver에서 충돌 해결 후 다시 Push
+ *           "선택한 변경만 Push"를 켜면 DiffViewer에서 고른 변경만 origin 위에 얹어 Push (selectivePush)
+ *           — 데이터 검사와 Push 요약도 실제로 보낼 데이터셋 기준
+ * - 되돌리기: Push 대상 Diff(서버 Diff 또는 origin → current)에서 항목 / 필드별로 snapshot:origin 값으로
+ *           되돌린 뒤 같은 비교를 다시 실행
+ * - 오프라인이면 Pull / Push 버튼이 "예약"으로 바뀌어 outbox에 쌓이고, 재연결 시 순서대로 실행 (outboxStore)
+ * - 로컬 비교 대상 슬롯과 DiffViewer 섹션(전체 / 규칙 / 태그)은 URL search params에 보관
  */
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import {
   Alert,
   Button,
   Card,
+  Checkbox,
   Col,
   Divider,
   Row,
+  Select,
   Space,
   Spin,
   Statistic,
+  Switch,
   Tag,
   Typography,
 } from 'antd';
@@ -25,16 +38,70 @@ import {
   CloudDownloadOutlined,
   CloudUploadOutlined,
   DiffOutlined,
+  FieldTimeOutlined,
+  SwapRightOutlined,
 } from '@ant-design/icons';
 import { useDataStore } from '@/stores/dataStore';
-import { useUiStore } from '@/stores/uiStore';
+import { useServerStatus, useUiStore } from '@/stores/uiStore';
+import { useOutboxStore } from '@/stores/outboxStore';
+import { loadSnapshot, type OutboxKind, type SnapshotSlot } from '@/storage/idbStorage';
 import { diffData } from '@/api/dataApi';
-import DiffViewer from '@/components/sync/DiffViewer';
+import DiffViewer, { DIFF_SECTIONS } from '@/components/sync/DiffViewer';
 import PushConfirm from '@/components/sync/PushConfirm';
-import type { DiffResponse } from '@/types/api';
+import MergeResolver from '@/components/sync/MergeResolver';
+import OutboxDrawer from '@/components/sync/OutboxDrawer';
+import OutboxEnqueueModal from '@/components/sync/OutboxEnqueueModal';
+import type { DiffResponse, LocalSnapshot } from '@/types/api';
+import type { Rule } from '@/types/rule';
+import { lintDataset } from '@/utils/dataLint';
+import { diffLocal } from '@/utils/localDiff';
+import type { RevertTarget } from '@/utils/revertChanges';
+import {
+  buildSelectiveDataset,
+  hasTagMetaChanges,
+  selectAllChanges,
+  type PushDataset,
+  type PushSelection,
+} from '@/utils/selectivePush';
+import type { MergeDataset, MergeResult } from '@/utils/threeWayMerge';
+import useUrlState, { urlParam } from '@/hooks/useUrlState';
 
 const { Title, Text } = Typography;
 
+const SNAPSHOT_LABELS: Record<SnapshotSlot, string> = {
+  'snapshot:origin':   'origin (마지막 동기화 — Pull/Push)',
+  'snapshot:lastPush': 'lastPush (마지막 Push)',
+  'snapshot:current':  'current (현재 편집본)',
+};
+
+const SNAPSHOT_SLOTS   = Object.keys(SNAPSHOT_LABELS) as SnapshotSlot[];
+const SNAPSHOT_OPTIONS = SNAPSHOT_SLOTS.map((value) => ({ value, label: SNAPSHOT_LABELS[value] }));
+
+const URL_SCHEMA = {
+  section: urlParam.oneOf(DIFF_SECTIONS, 'all'),
+  from:    urlParam.oneOf(SNAPSHOT_SLOTS, 'snapshot:origin'),
+  to:      urlParam.oneOf(SNAPSHOT_SLOTS, 'snapshot:current'),
+};
+
+/** Diff 결과 — slots가 있으면 로컬 스냅샷 비교 결과 */
+interface DiffView {
+  diff:   DiffResponse;
+  slots?: { from: SnapshotSlot; to: SnapshotSlot };
+}
+
+/** 선택 Push 모드 상태 — origin은 모드를 켤 때 읽은 snapshot:origin */
+interface SelectivePush {
+  origin:         LocalSnapshot;
+  selection:      PushSelection;
+  tagMetaChanged: boolean;
+}
+
+function countChanges(diff: DiffResponse): number {
+  const r = diff.rules.summary;
+  const t = diff.tags.summary;
+  return r.addedCount + r.modifiedCount + r.deletedCount + t.addedCount + t.modifiedCount + t.deletedCount;
+}
+
 function formatDateTime(iso: string | null): string {
   if (!iso) return '없음';
   return new Date(iso).toLocaleString('ko-KR', {
@@ -52,39 +119,115 @@ export default function SyncPage() {
   const isLoading        = useDataStore((s) => s.isLoading);
   const pull             = useDataStore((s) => s.pull);
   const applyPushSuccess = useDataStore((s) => s.applyPushSuccess);
+  const prepareMerge     = useDataStore((s) => s.prepareMerge);
+  const applyMerge       = useDataStore((s) => s.applyMerge);
+  const revertToOrigin   = useDataStore((s) => s.revertToOrigin);
+  const revertRuleField  = useDataStore((s) => s.revertRuleField);
   const notifySuccess    = useUiStore((s) => s.notifySuccess);
   const notifyError      = useUiStore((s) => s.notifyError);
+  const { serverStatus } = useServerStatus();
+  const outboxCount      = useOutboxStore((s) => s.items.length);
 
-  const [diffResult, setDiffResult]     = useState<DiffResponse | null>(null);
+  const [diffView, setDiffViewState]    = useState<DiffView | null>(null);
+  const [selective, setSelective]       = useState<SelectivePush | null>(null);
   const [diffLoading, setDiffLoading]   = useState(false);
   const [diffError, setDiffError]       = useState<string | null>(null);
   const [pushOpen, setPushOpen]         = useState(false);
+  const [merge, setMerge]               = useState<{ result: MergeResult; remote: LocalSnapshot } | null>(null);
+  const [mergeLoading, setMergeLoading] = useState(false);
+  const [enqueueKind, setEnqueueKind]   = useState<OutboxKind | null>(null);
+  const [outboxOpen, setOutboxOpen]     = useState(false);
+  const [url, updateUrl]                = useUrlState(URL_SCHEMA);
+  const { from: compareFrom, to: compareTo } = url;
 
   const hasPullData = baseVersion !== null;
+  const isOffline   = serverStatus === 'disconnected';
+  const diffResult  = diffView?.diff ?? null;
+  // Push 요약에는 서버 Diff 또는 origin → current 비교만 의미가 있음
+  const pushDiff    = !diffView?.slots
+    || (diffView.slots.from === 'snapshot:origin' && diffView.slots.to === 'snapshot:current')
+    ? diffResult
+    : null;
+
+  // 실제로 업로드할 데이터셋 — 선택 Push면 origin + 선택한 변경
+  const payload = useMemo<PushDataset>(
+    () => (selective ? buildSelectiveDataset(selective.origin, { rules, tags }, selective.selection) : { rules, tags }),
+    [selective, rules, tags],
+  );
+  const lintReport  = useMemo(() => lintDataset(payload.rules, payload.tags), [payload]);
+  const confirmDiff = useMemo(
+    () => (selective ? diffLocal(selective.origin, { ...selective.origin, ...payload }) : pushDiff),
+    [selective, payload, pushDiff],
+  );
+  const selectiveInfo = useMemo(() => {
+    if (!selective || !pushDiff) return undefined;
+    const metaChanged = selective.tagMetaChanged ? 1 : 0;
+    const selected    = selective.selection.rules.size + selective.selection.tags.size
+      + (selective.selection.tagMeta ? metaChanged : 0);
+    return { selected, skipped: countChanges(pushDiff) + metaChanged - selected };
+  }, [selective, pushDiff]);
+
+  // Diff 결과가 바뀌면 선택 목록의 기준도 바뀌므로 선택 Push 모드를 끔
+  const setDiffView = (view: DiffView | null) => {
+    setDiffViewState(view);
+    setSelective(null);
+  };
 
   // ── Pull ──────────────────────────────────────────────────────────────────
   const handlePull = async () => {
     try {
       await pull();
-      setDiffResult(null);
+      setDiffView(null);
       notifySuccess('Pull 완료', '서버에서 최신 데이터를 불러왔습니다.');
     } catch (err) {
       notifyError('Pull 실패', err instanceof Error ? err.message : undefined);
     }
   };
 
+  // ── 로컬 스냅샷 비교 ──────────────────────────────────────────────────────
+  // current는 IndexedDB 저장이 비동기라 스토어 상태를 그대로 사용
+  // (되돌리기 직후 다시 비교할 때도 최신 값이 필요하므로 렌더 시점 값이 아닌 getState())
+  const readSnapshot = async (slot: SnapshotSlot) => {
+    if (slot === 'snapshot:current') {
+      const { rules, tags } = useDataStore.getState();
+      return { savedAt: new Date().toISOString(), baseVersion: baseVersion ?? 0, rules, tags };
+    }
+    return loadSnapshot(slot);
+  };
+
+  const runLocalDiff = async (from: SnapshotSlot, to: SnapshotSlot) => {
+    setDiffLoading(true);
+    setDiffError(null);
+    try {
+      const [fromSnap, toSnap] = await Promise.all([readSnapshot(from), readSnapshot(to)]);
+      if (!fromSnap || !toSnap) {
+        notifyError('로컬 비교 실패', `${SNAPSHOT_LABELS[fromSnap ? to : from]} 스냅샷이 없습니다.`);
+        return;
+      }
+      setDiffView({ diff: diffLocal(fromSnap, toSnap), slots: { from, to } });
+    } finally {
+      setDiffLoading(false);
+    }
+  };
+
   // ── Diff ──────────────────────────────────────────────────────────────────
-  const handleDiff = async () => {
+  const handleDiff = async (quiet = false) => {
     if (baseVersion === null) {
       notifyError('Diff 실패', 'Pull을 먼저 실행하세요.');
       return;
     }
+    // 오프라인 — 서버 대신 마지막 동기화(Pull/Push) 스냅샷(origin)과 비교
+    if (isOffline) {
+      await runLocalDiff('snapshot:origin', 'snapshot:current');
+      return;
+    }
     setDiffLoading(true);
     setDiffError(null);
     try {
+      const { rules, tags } = useDataStore.getState();
       const result = await diffData({ baseVersion, rules, tags });
-      setDiffResult(result);
-      notifySuccess('Diff 완료', '변경사항 비교가 완료되었습니다.');
+      setDiffView({ diff: result });
+      if (!quiet) notifySuccess('Diff 완료', '변경사항 비교가 완료되었습니다.');
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Diff 요청 실패';
       setDiffError(msg);
@@ -94,19 +237,91 @@ export default function SyncPage() {
     }
   };
 
+  // ── 되돌리기 (snapshot:origin 기준) ───────────────────────────────────────
+  const refreshDiff = async () => {
+    if (diffView?.slots) await runLocalDiff(diffView.slots.from, diffView.slots.to);
+    else await handleDiff(true);
+  };
+
+  const handleRevert = async (target: RevertTarget) => {
+    try {
+      const count = await revertToOrigin(target);
+      if (count === 0) {
+        notifySuccess('되돌릴 변경 없음', '마지막 동기화(Pull/Push) 데이터와 이미 같습니다.');
+        return;
+      }
+      notifySuccess('되돌리기 완료', '마지막 동기화(Pull/Push) 데이터로 되돌렸습니다. 헤더의 실행 취소로 복구할 수 있습니다.');
+      await refreshDiff();
+    } catch (err) {
+      notifyError('되돌리기 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  const handleRevertField = async (ruleId: string, field: keyof Rule) => {
+    try {
+      if (!(await revertRuleField(ruleId, field))) {
+        notifyError('되돌리기 실패', `${ruleId} 규칙이 마지막 동기화(Pull/Push) 데이터 또는 현재 데이터에 없습니다.`);
+        return;
+      }
+      notifySuccess('필드 되돌리기 완료', `${ruleId}.${field}`);
+      await refreshDiff();
+    } catch (err) {
+      notifyError('되돌리기 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
+  // ── 선택 Push 모드 ────────────────────────────────────────────────────────
+  const handleSelectiveToggle = async (on: boolean) => {
+    if (!on || !pushDiff) {
+      setSelective(null);
+      return;
+    }
+    const origin = await loadSnapshot('snapshot:origin');
+    if (!origin) {
+      notifyError('선택 Push 불가', `${SNAPSHOT_LABELS['snapshot:origin']} 스냅샷이 없습니다. Pull을 먼저 실행하세요.`);
+      return;
+    }
+    const tagMetaChanged = hasTagMetaChanges(origin, { rules, tags });
+    setSelective({ origin, selection: selectAllChanges(pushDiff, tagMetaChanged), tagMetaChanged });
+  };
+
+  const updateSelection = (selection: PushSelection) =>
+    setSelective((prev) => (prev ? { ...prev, selection } : prev));
+
   // ── Push 성공 콜백 ────────────────────────────────────────────────────────
-  const handlePushSuccess = async (newVersion: number) => {
+  const handlePushSuccess = async (newVersion: number, pushed: PushDataset) => {
     const pushedAt = new Date().toISOString();
-    await applyPushSuccess(newVersion, pushedAt);
-    setDiffResult(null); // Push 완료 후 Diff 결과 초기화
+    await applyPushSuccess(newVersion, pushedAt, selective ? pushed : undefined);
+    setDiffView(null); // Push 완료 후 Diff 결과 초기화
     notifySuccess('Push 완료', `새 버전: ${newVersion}`);
   };
 
+  // ── 3-way 병합 (VERSION_CONFLICT) ─────────────────────────────────────────
+  const handleMergeRequested = async () => {
+    setMergeLoading(true);
+    try {
+      setMerge(await prepareMerge());
+    } catch (err) {
+      notifyError('병합 준비 실패', err instanceof Error ? err.message : undefined);
+    } finally {
+      setMergeLoading(false);
+    }
+  };
+
+  const handleMergeApply = async (merged: MergeDataset) => {
+    if (!merge) return;
+    const { remote } = merge;
+    await applyMerge(merged, remote);
+    setMerge(null);
+    setDiffView(null);
+    notifySuccess('병합 완료', `baseVersion ${remote.baseVersion} 기준으로 병합했습니다. 다시 Push하세요.`);
+  };
+
   // ── PushConfirm에 전달할 payload 생성 ────────────────────────────────────
   const getPushPayload = (force: boolean) => ({
     baseVersion:  baseVersion ?? undefined,
-    rules,
-    tags,
+    rules:        payload.rules,
+    tags:         payload.tags,
     force,
   });
 
@@ -155,7 +370,15 @@ export default function SyncPage() {
       </Card>
 
       {/* ── 액션 카드 3열 ────────────────────────────────────────────────── */}
-      <Card title="동기화 작업" style={{ marginBottom: 24 }}>
+      <Card
+        title="동기화 작업"
+        style={{ marginBottom: 24 }}
+        extra={
+          <Button size="small" icon={<FieldTimeOutlined />} onClick={() => setOutboxOpen(true)}>
+            예약 작업 ({outboxCount})
+          </Button>
+        }
+      >
         <Row gutter={[16, 16]}>
           {/* Pull */}
           <Col xs={24} sm={8}>
@@ -172,12 +395,12 @@ export default function SyncPage() {
                 </Text>
                 <Button
                   type="primary"
-                  icon={<CloudDownloadOutlined />}
-                  onClick={handlePull}
+                  icon={isOffline ? <FieldTimeOutlined /> : <CloudDownloadOutlined />}
+                  onClick={isOffline ? () => setEnqueueKind('pull') : handlePull}
                   loading={isLoading}
                   block
                 >
-                  Pull 실행
+                  {isOffline ? 'Pull 예약' : 'Pull 실행'}
                 </Button>
               </Space>
             </Card>
@@ -194,16 +417,17 @@ export default function SyncPage() {
                 <Text strong>Diff</Text>
                 <Text type="secondary" style={{ fontSize: 12 }}>
                   로컬 편집본과 서버를 비교합니다.
-                  <br />Push 전에 변경사항을 확인하세요.
+                  <br />
+                  {isOffline ? '오프라인 — 마지막 동기화(Pull/Push) 스냅샷과 비교합니다.' : 'Push 전에 변경사항을 확인하세요.'}
                 </Text>
                 <Button
                   icon={<DiffOutlined />}
-                  onClick={handleDiff}
+                  onClick={() => handleDiff()}
                   loading={diffLoading}
                   disabled={!hasPullData}
                   block
                 >
-                  Diff 실행
+                  {isOffline ? '로컬 Diff 실행' : 'Diff 실행'}
                 </Button>
               </Space>
             </Card>
@@ -220,11 +444,12 @@ export default function SyncPage() {
                 <Text strong>Push</Text>
                 <Text type="secondary" style={{ fontSize: 12 }}>
                   로컬 데이터를 서버에 업로드합니다.
-                  <br />서버 데이터는 자동 백업됩니다.
+                  <br />
+                  {isOffline ? '오프라인 — 서버에 연결되면 실행하도록 예약합니다.' : '서버 데이터는 자동 백업됩니다.'}
                 </Text>
                 <Button
-                  icon={<CloudUploadOutlined />}
-                  onClick={() => setPushOpen(true)}
+                  icon={isOffline ? <FieldTimeOutlined /> : <CloudUploadOutlined />}
+                  onClick={() => (isOffline ? setEnqueueKind('push') : setPushOpen(true))}
                   disabled={!hasPullData}
                   style={
                     hasPullData
@@ -233,7 +458,7 @@ export default function SyncPage() {
                   }
                   block
                 >
-                  Push 실행
+                  {isOffline ? 'Push 예약' : 'Push 실행'}
                 </Button>
               </Space>
             </Card>
@@ -241,6 +466,36 @@ export default function SyncPage() {
         </Row>
       </Card>
 
+      {/* ── 로컬 스냅샷 비교 ─────────────────────────────────────────────── */}
+      <Card title="로컬 스냅샷 비교" size="small" style={{ marginBottom: 24 }}>
+        <Space wrap>
+          <Select<SnapshotSlot>
+            value={compareFrom}
+            onChange={(from) => updateUrl({ from })}
+            options={SNAPSHOT_OPTIONS}
+            style={{ width: 200 }}
+          />
+          <SwapRightOutlined />
+          <Select<SnapshotSlot>
+            value={compareTo}
+            onChange={(to) => updateUrl({ to })}
+            options={SNAPSHOT_OPTIONS}
+            style={{ width: 200 }}
+          />
+          <Button
+            icon={<DiffOutlined />}
+            onClick={() => runLocalDiff(compareFrom, compareTo)}
+            loading={diffLoading}
+            disabled={compareFrom === compareTo}
+          >
+            비교
+          </Button>
+          <Text type="secondary" style={{ fontSize: 12 }}>
+            서버 연결 없이 IndexedDB에 저장된 스냅샷끼리 비교합니다.
+          </Text>
+        </Space>
+      </Card>
+
       {/* ── Pull 안내 ────────────────────────────────────────────────────── */}
       {!hasPullData && (
         <Alert
@@ -266,13 +521,46 @@ export default function SyncPage() {
       )}
 
       {/* ── Diff 결과 ────────────────────────────────────────────────────── */}
-      <Spin spinning={diffLoading}>
+      <Spin spinning={diffLoading || mergeLoading}>
         {diffResult && (
           <>
             <Divider>
-              <Text type="secondary" style={{ fontSize: 13 }}>Diff 결과</Text>
+              <Text type="secondary" style={{ fontSize: 13 }}>
+                {diffView?.slots ? '로컬 비교 결과' : 'Diff 결과'}
+              </Text>
             </Divider>
-            <DiffViewer diff={diffResult} />
+            {pushDiff && countChanges(pushDiff) + (selective?.tagMetaChanged ? 1 : 0) > 0 && (
+              <Space wrap style={{ marginBottom: 12 }}>
+                <Switch checked={selective !== null} onChange={handleSelectiveToggle} />
+                <Text>선택한 변경만 Push</Text>
+                {selective?.tagMetaChanged && (
+                  <Checkbox
+                    checked={selective.selection.tagMeta}
+                    onChange={(e) => updateSelection({ ...selective.selection, tagMeta: e.target.checked })}
+                  >
+                    복합 태그 / 태그 카테고리 변경 포함
+                  </Checkbox>
+                )}
+                {selectiveInfo && (
+                  <Text type="secondary" style={{ fontSize: 12 }}>
+                    {selectiveInfo.selected}개 선택 · 선택하지 않은 {selectiveInfo.skipped}개는 로컬에 남습니다.
+                  </Text>
+                )}
+              </Space>
+            )}
+            <DiffViewer
+              diff={diffResult}
+              section={url.section}
+              onSectionChange={(section) => updateUrl({ section })}
+              selection={pushDiff ? selective?.selection : undefined}
+              onSelectionChange={updateSelection}
+              onRevert={pushDiff ? handleRevert : undefined}
+              onRevertField={pushDiff ? handleRevertField : undefined}
+              source={diffView?.slots && {
+                from: SNAPSHOT_LABELS[diffView.slots.from],
+                to:   SNAPSHOT_LABELS[diffView.slots.to],
+              }}
+            />
           </>
         )}
       </Spin>
@@ -280,15 +568,34 @@ export default function SyncPage() {
       {/* ── Push 확인 모달 ───────────────────────────────────────────────── */}
       <PushConfirm
         open={pushOpen}
-        diff={diffResult}
+        diff={confirmDiff}
         baseVersion={baseVersion}
-        ruleCount={rules.length}
-        tagCount={Object.keys(tags.tags).length}
+        ruleCount={payload.rules.length}
+        tagCount={Object.keys(payload.tags.tags).length}
+        lint={lintReport}
+        selectiveInfo={selectiveInfo}
         onPushSuccess={handlePushSuccess}
         onPullRequested={handlePull}
+        onMergeRequested={handleMergeRequested}
         onClose={() => setPushOpen(false)}
         getPushPayload={getPushPayload}
       />
+
+      {/* ── 오프라인 예약 작업 ───────────────────────────────────────────── */}
+      <OutboxEnqueueModal kind={enqueueKind} onClose={() => setEnqueueKind(null)} />
+      <OutboxDrawer open={outboxOpen} onClose={() => setOutboxOpen(false)} />
+
+      {/* ── 3-way 병합 모달 ──────────────────────────────────────────────── */}
+      {merge && (
+        <MergeResolver
+          key={merge.remote.savedAt}
+          open
+          result={merge.result}
+          remote={merge.remote}
+          onApply={handleMergeApply}
+          onCancel={() => setMerge(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -8,12 +8,17 @@
  * - 태그 추가/수정/삭제 (로컬 스토어)
  * - tagCategories 표시 및 편집
  * - 태그 분할 / 병합 (TagSplit, TagMerge)
+ * - Raw JSON 모드: TagData 전체를 스키마 검증되는 Monaco 에디터로 편집 (TagDataJsonEditor)
+ * - location.state { editTag | editCompoundTag } → 진입 시 해당 편집 모달 열기 (의존 그래프 / 명령 팔레트에서 이동)
+ * - 태그 이름 / 설명 검색, 접은 카테고리, 목록 / JSON 보기는 URL search params에 보관
+ * - 마지막 동기화(Pull/Push) 대비 변경 상태 배지(changeSet) + "변경된 태그만" 필터 (삭제한 태그도 표시 · 복원)
  *
  * 버그 수정:
  *   - tagCount === 0 상태(Pull 전)에서 Pull 중 로딩 표시 안 되던 문제
  *     → <Empty>를 <Spin>으로 감싸 해결 (Table이 없으면 loading prop 효과 없음)
  */
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import {
   Collapse,
   Table,
@@ -34,6 +39,7 @@ import {
   Empty,
   Divider,
   Spin,             // ← 추가
+  Segmented,
 } from 'antd';
 import type { ColumnsType } from 'antd/es/table';
 import {
@@ -45,8 +51,12 @@ import {
   AppstoreOutlined,
   ScissorOutlined,
   MergeCellsOutlined,
+  UnorderedListOutlined,
+  CodeOutlined,
+  SearchOutlined,
+  RollbackOutlined,
 } from '@ant-design/icons';
-import { useDataStore } from '@/stores/dataStore';
+import { useChangeSet, useDataStore } from '@/stores/dataStore';
 import { useUiStore } from '@/stores/uiStore';
 import type {
   TagDefinition,
@@ -59,10 +69,15 @@ import {
 } from '@/types/tag';
 import TagSplit from '@/components/tags/TagSplit';
 import TagMerge from '@/components/tags/TagMerge';
+import DetectionFields from '@/components/tags/DetectionFields';
+import TagDataJsonEditor from '@/components/tags/TagDataJsonEditor';
+import { parseTagExpression } from '@/utils/tagExpression';
+import { detectionToFormValues, formValuesToDetection } from '@/utils/tagDetection';
+import useUrlState, { urlParam } from '@/hooks/useUrlState';
+import ChangeStatusTag from '@/components/common/ChangeStatusTag';
 
 const { Title, Text } = Typography;
 const { Option } = Select;
-const { TextArea } = Input;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // 상수
@@ -81,6 +96,17 @@ const DETECTION_TYPE_COLORS: Record<string, string> = {
   llm:         'red',
 };
 
+/** 목록(카테고리별 카드) / Raw JSON 에디터 */
+type TagsView = 'list' | 'json';
+
+/** URL 파라미터. collapsed는 접은 카테고리 목록 (새 카테고리는 펼친 상태로 시작) */
+const URL_SCHEMA = {
+  view:      urlParam.oneOf<TagsView>(['list', 'json'], 'list'),
+  q:         urlParam.string(),
+  collapsed: urlParam.list(),
+  changed:   urlParam.oneOf<'all' | 'changed'>(['all', 'changed'], 'all'),
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 태그 편집 모달
 // ─────────────────────────────────────────────────────────────────────────────
@@ -90,45 +116,28 @@ interface TagModalProps {
   tagName:    string | null;
   initial?:   TagDefinition;
   categories: string[];
+  tagNames:   string[];
   onOk:       (name: string, tag: TagDefinition) => void;
   onCancel:   () => void;
 }
 
-function TagModal({ open, tagName, initial, categories, onOk, onCancel }: TagModalProps) {
+function TagModal({ open, tagName, initial, categories, tagNames, onOk, onCancel }: TagModalProps) {
   const [form] = Form.useForm();
   const isNew  = tagName === null;
 
-  const buildDetection = (values: Record<string, unknown>) => {
-    const type = values.detectionType as string;
-    if (type === 'regex') {
-      const raw = (values.patterns as string) ?? '';
-      return {
-        type:      'regex' as const,
-        patterns:  raw.split('\n').map((p: string) => p.trim()).filter(Boolean),
-        matchType: (values.matchType as 'any' | 'all' | 'none') ?? 'any',
-      };
-    }
-    if (type === 'llm') {
-      return {
-        type:        'llm' as const,
-        criteria:    (values.criteria as string) ?? '',
-        triggerTags: ((values.triggerTags as string) ?? '')
-          .split(',').map((t: string) => t.trim()).filter(Boolean),
-      };
-    }
-    return { type: type as 'ast', nodeType: values.nodeType as string | undefined };
-  };
-
   const handleOk = async () => {
     try {
-      const values    = await form.validateFields();
-      const detection = buildDetection(values);
+      await form.validateFields();
+      // 다른 탐지 타입의 하위 폼은 언마운트되어 있으므로 스토어 전체 값을 사용
+      const values    = form.getFieldsValue(true);
+      const detection = formValuesToDetection(values, initial?.detection);
       const tag: TagDefinition = {
         category:         values.category,
         description:      values.description,
         extractionMethod: values.extractionMethod,
         tier:             values.tier,
         detection,
+        ...(initial?.notes !== undefined && { notes: initial.notes }),
       };
       onOk(isNew ? values.name : tagName!, tag);
       form.resetFields();
@@ -136,25 +145,20 @@ function TagModal({ open, tagName, initial, categories, onOk, onCancel }: TagMod
   };
 
   const getInitialValues = () => {
+    const detectionValues = detectionToFormValues(initial?.detection);
     if (!initial) {
       return {
         tier:             1,
         extractionMethod: 'regex',
-        detectionType:    'regex',
-        matchType:        'any',
+        ...detectionValues,
       };
     }
-    const d = initial.detection;
     return {
       category:         initial.category,
       description:      initial.description,
       extractionMethod: initial.extractionMethod,
       tier:             initial.tier,
-      detectionType:    d.type,
-      patterns:    d.type === 'regex' ? (d.patterns ?? []).join('\n') : '',
-      matchType:   d.type === 'regex' ? (d.matchType ?? 'any') : 'any',
-      criteria:    d.type === 'llm'   ? (d.criteria ?? '') : '',
-      triggerTags: d.type === 'llm'   ? (d.triggerTags ?? []).join(', ') : '',
+      ...detectionValues,
     };
   };
 
@@ -214,55 +218,7 @@ function TagModal({ open, tagName, initial, categories, onOk, onCancel }: TagMod
           <Input placeholder="태그 설명" />
         </Form.Item>
 
-        <Form.Item name="detectionType" label="탐지 타입">
-          <Select>
-            <Option value="regex">regex</Option>
-            <Option value="ast">ast</Option>
-            <Option value="ast_context">ast_context</Option>
-            <Option value="llm">llm</Option>
-          </Select>
-        </Form.Item>
-
-        <Form.Item
-          noStyle
-          shouldUpdate={(prev, cur) => prev.detectionType !== cur.detectionType}
-        >
-          {({ getFieldValue }) => {
-            const type = getFieldValue('detectionType');
-            if (type === 'regex') return (
-              <>
-                <Form.Item name="patterns" label="패턴 (줄바꿈으로 구분)">
-                  <TextArea
-                    rows={3}
-                    placeholder="정규식 패턴 (한 줄에 하나)"
-                    style={{ fontFamily: 'monospace', fontSize: 12 }}
-                  />
-                </Form.Item>
-                <Form.Item name="matchType" label="매치 조건">
-                  <Select>
-                    <Option value="any">any (하나라도 매칭)</Option>
-                    <Option value="all">all (모두 매칭)</Option>
-                    <Option value="none">none (하나도 매칭 안됨)</Option>
-                  </Select>
-                </Form.Item>
-              </>
-            );
-            if (type === 'llm') return (
-              <>
-                <Form.Item name="criteria" label="판단 기준 (LLM 프롬프트)">
-                  <TextArea rows={3} placeholder="LLM에게 전달할 판단 기준" />
-                </Form.Item>
-                <Form.Item name="triggerTags" label="선행 조건 태그 (쉼표 구분)">
-                  <Input
-                    placeholder="예: IS_CONTROLLER, IS_SERVICE"
-                    style={{ fontFamily: 'monospace' }}
-                  />
-                </Form.Item>
-              </>
-            );
-            return null;
-          }}
-        </Form.Item>
+        <DetectionFields tagNames={tagNames} />
       </Form>
     </Modal>
   );
@@ -355,7 +311,20 @@ function CompoundTagModal({ open, tagName, initial, onOk, onCancel }: CompoundTa
             </Form.Item>
           </Col>
           <Col span={12}>
-            <Form.Item name="expression" label="불리언 표현식 (선택)">
+            <Form.Item
+              name="expression"
+              label="불리언 표현식 (선택)"
+              rules={[
+                {
+                  validator: (_, value: string | undefined) => {
+                    const parsed = parseTagExpression(value ?? '');
+                    return parsed.ok
+                      ? Promise.resolve()
+                      : Promise.reject(new Error(parsed.error.message));
+                  },
+                },
+              ]}
+            >
               <Input
                 placeholder="예: TAG_A && !TAG_B"
                 style={{ fontFamily: 'monospace' }}
@@ -425,7 +394,15 @@ function CategoryModal({ open, catId, initial, onOk, onCancel }: CategoryModalPr
 // 메인 페이지
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** 다른 페이지에서 특정 태그 편집 모달을 열며 진입할 때 전달하는 location.state */
+interface TagsPageLocationState {
+  editTag?:         string;
+  editCompoundTag?: string;
+}
+
 export default function TagsPage() {
+  const location          = useLocation();
+  const navigate          = useNavigate();
   const tags              = useDataStore((s) => s.tags);
   const isLoading         = useDataStore((s) => s.isLoading);
   const pull              = useDataStore((s) => s.pull);
@@ -435,24 +412,67 @@ export default function TagsPage() {
   const deleteCompoundTag = useDataStore((s) => s.deleteCompoundTag);
   const upsertTagCategory = useDataStore((s) => s.upsertTagCategory);
   const deleteTagCategory = useDataStore((s) => s.deleteTagCategory);
+  const revertToOrigin    = useDataStore((s) => s.revertToOrigin);
+  const changeSet         = useChangeSet();
   const notifySuccess     = useUiStore((s) => s.notifySuccess);
   const notifyError       = useUiStore((s) => s.notifyError);
 
-  const [tagModal, setTagModal]           = useState<{ open: boolean; name: string | null }>({ open: false, name: null });
-  const [compoundModal, setCompoundModal] = useState<{ open: boolean; name: string | null }>({ open: false, name: null });
+  const entryState = location.state as TagsPageLocationState | null;
+  const [tagModal, setTagModal]           = useState<{ open: boolean; name: string | null }>(() =>
+    entryState?.editTag ? { open: true, name: entryState.editTag } : { open: false, name: null });
+  const [compoundModal, setCompoundModal] = useState<{ open: boolean; name: string | null }>(() =>
+    entryState?.editCompoundTag ? { open: true, name: entryState.editCompoundTag } : { open: false, name: null });
   const [categoryModal, setCategoryModal] = useState<{ open: boolean; id: string | null }>({ open: false, id: null });
   const [splitOpen, setSplitOpen]         = useState(false);
   const [mergeOpen, setMergeOpen]         = useState(false);
-
+  const [url, updateUrl]                  = useUrlState(URL_SCHEMA);
+  const { view, q: search }               = url;
+
+  // 태그 페이지에 있는 채로 명령 팔레트에서 다른 태그를 고르면 같은 경로 이동이라 리마운트되지 않음
+  // → location.key가 바뀌면 렌더 중에 모달 상태를 맞춤
+  const [entryKey, setEntryKey] = useState(location.key);
+  if (entryKey !== location.key) {
+    setEntryKey(location.key);
+    if (entryState?.editTag)         setTagModal({ open: true, name: entryState.editTag });
+    if (entryState?.editCompoundTag) setCompoundModal({ open: true, name: entryState.editCompoundTag });
+  }
+
+  // 쓴 진입 state는 지움 — history state는 새로고침 / 뒤로 가기에도 남아 모달이 다시 열리기 때문
+  const hasEntryEdit = Boolean(entryState?.editTag || entryState?.editCompoundTag);
+  useEffect(() => {
+    if (hasEntryEdit) navigate(location.pathname + location.search, { replace: true, state: null });
+  }, [hasEntryEdit, navigate, location.pathname, location.search]);
+
+  const onlyChanged = url.changed === 'changed';
   const tagsByCategory = useMemo(() => {
+    const keyword = search.trim().toLowerCase();
     const map: Record<string, Array<{ name: string; def: TagDefinition }>> = {};
-    Object.entries(tags.tags).forEach(([name, def]) => {
+    const entries = Object.entries(tags.tags);
+    // 변경된 태그만 볼 때는 로컬에서 삭제한 태그(origin 값)도 함께 표시
+    if (onlyChanged) entries.push(...changeSet.deletedTags.map(({ name, tag }) => [name, tag] as [string, TagDefinition]));
+    entries.forEach(([name, def]) => {
+      if (onlyChanged && !changeSet.tags.has(name)) return;
+      if (keyword && !name.toLowerCase().includes(keyword) && !def.description.toLowerCase().includes(keyword)) return;
       const cat = def.category || 'uncategorized';
       if (!map[cat]) map[cat] = [];
       map[cat].push({ name, def });
     });
     return map;
-  }, [tags.tags]);
+  }, [tags.tags, search, onlyChanged, changeSet]);
+
+  const visibleCategories = Object.keys(tagsByCategory);
+  const openCategories    = visibleCategories.filter((c) => !url.collapsed.includes(c));
+
+  // 검색으로 가려진 카테고리의 접힘 상태는 그대로 유지
+  const handleCollapseChange = (keys: string | string[]) => {
+    const open = Array.isArray(keys) ? keys : [keys];
+    updateUrl({
+      collapsed: [
+        ...url.collapsed.filter((c) => !visibleCategories.includes(c)),
+        ...visibleCategories.filter((c) => !open.includes(c)),
+      ],
+    });
+  };
 
   const categoryList  = Object.keys(tags.tagCategories);
   const tagCount      = Object.keys(tags.tags).length;
@@ -467,6 +487,15 @@ export default function TagsPage() {
     }
   };
 
+  const handleRestoreTag = async (name: string) => {
+    try {
+      await revertToOrigin({ tags: [name] });
+      notifySuccess('복원 완료', `태그 ${name}을(를) 마지막 동기화(Pull/Push) 데이터에서 복원했습니다.`);
+    } catch (err) {
+      notifyError('복원 실패', err instanceof Error ? err.message : undefined);
+    }
+  };
+
   const handleTagOk = (name: string, tag: TagDefinition) => {
     upsertTag(name, tag);
     notifySuccess('저장 완료', `태그 ${name}이(가) 저장되었습니다.`);
@@ -492,7 +521,10 @@ export default function TagsPage() {
       key:       'name',
       width:     200,
       render: (name: string) => (
-        <Text code style={{ fontSize: 12 }}>{name}</Text>
+        <Space size={4}>
+          <Text code style={{ fontSize: 12 }}>{name}</Text>
+          <ChangeStatusTag status={changeSet.tags.get(name)} />
+        </Space>
       ),
     },
     {
@@ -541,7 +573,11 @@ export default function TagsPage() {
       key:   'actions',
       width: 80,
       align: 'center' as const,
-      render: (_, { name, def }) => (
+      render: (_, { name, def }) => changeSet.tags.get(name) === 'deleted' ? (
+        <Tooltip title="삭제 취소 — 마지막 동기화(Pull/Push) 데이터에서 복원">
+          <Button type="text" size="small" icon={<RollbackOutlined />} onClick={() => handleRestoreTag(name)} />
+        </Tooltip>
+      ) : (
         <Space size={4}>
           <Tooltip title="수정">
             <Button
@@ -589,6 +625,7 @@ export default function TagsPage() {
           pagination={false}
           scroll={{ x: 700 }}
           loading={isLoading}
+          onRow={({ name }) => (changeSet.tags.get(name) === 'deleted' ? { style: { opacity: 0.6 } } : {})}
         />
       ),
     };
@@ -611,6 +648,14 @@ export default function TagsPage() {
         </Space>
 
         <Space>
+          <Segmented<TagsView>
+            value={view}
+            onChange={(next) => updateUrl({ view: next })}
+            options={[
+              { label: <Space><UnorderedListOutlined />목록</Space>, value: 'list' },
+              { label: <Space><CodeOutlined />Raw JSON</Space>,     value: 'json' },
+            ]}
+          />
           <Button icon={<ReloadOutlined />} onClick={handlePull} loading={isLoading}>
             Pull
           </Button>
@@ -630,185 +675,221 @@ export default function TagsPage() {
         </Space>
       </div>
 
-      {/* ── 태그 카테고리 카드 ───────────────────────────────────────────── */}
-      <Card
-        title={<Space><AppstoreOutlined />태그 카테고리</Space>}
-        size="small"
-        style={{ marginBottom: 16 }}
-        extra={
-          <Button
-            size="small"
-            icon={<PlusOutlined />}
-            onClick={() => setCategoryModal({ open: true, id: null })}
-          >
-            카테고리 추가
-          </Button>
-        }
-      >
-        {categoryList.length === 0 ? (
-          <Text type="secondary">Pull을 실행하면 카테고리가 표시됩니다.</Text>
+      {view === 'json' && <TagDataJsonEditor />}
+
+      {view === 'list' && (
+        <>
+        {/* ── 태그 카테고리 카드 ───────────────────────────────────────────── */}
+        <Card
+          title={<Space><AppstoreOutlined />태그 카테고리</Space>}
+          size="small"
+          style={{ marginBottom: 16 }}
+          extra={
+            <Button
+              size="small"
+              icon={<PlusOutlined />}
+              onClick={() => setCategoryModal({ open: true, id: null })}
+            >
+              카테고리 추가
+            </Button>
+          }
+        >
+          {categoryList.length === 0 ? (
+            <Text type="secondary">Pull을 실행하면 카테고리가 표시됩니다.</Text>
+          ) : (
+            <Space wrap>
+              {categoryList.map((id) => (
+                <Tag
+                  key={id}
+                  style={{ padding: '4px 8px', cursor: 'default' }}
+                  closeIcon={<DeleteOutlined style={{ fontSize: 10 }} />}
+                  onClose={(e) => {
+                    e.preventDefault();
+                    deleteTagCategory(id);
+                    notifySuccess('삭제 완료', `카테고리 ${id}이(가) 삭제되었습니다.`);
+                  }}
+                >
+                  <Space size={4}>
+                    <Text code style={{ fontSize: 11 }}>{id}</Text>
+                    <Text type="secondary" style={{ fontSize: 11 }}>
+                      {tags.tagCategories[id]}
+                    </Text>
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<EditOutlined style={{ fontSize: 10 }} />}
+                      style={{ padding: 0, height: 'auto' }}
+                      onClick={() => setCategoryModal({ open: true, id })}
+                    />
+                  </Space>
+                </Tag>
+              ))}
+            </Space>
+          )}
+        </Card>
+
+        {/* ── 태그 목록 (카테고리별 Collapse) ─────────────────────────────── */}
+        {/*
+          Fix: tagCount === 0 일 때 Table이 없으므로 loading prop 효과 없음
+          → <Spin>으로 Empty를 감싸 Pull 중 로딩 표시
+        */}
+        {tagCount === 0 ? (
+          <Spin spinning={isLoading}>
+            <Empty
+              description={
+                isLoading
+                  ? '서버에서 태그를 불러오는 중...'
+                  : 'Pull을 실행하여 서버에서 태그를 불러오세요.'
+              }
+              style={{ padding: '48px 0' }}
+            />
+          </Spin>
         ) : (
-          <Space wrap>
-            {categoryList.map((id) => (
-              <Tag
-                key={id}
-                style={{ padding: '4px 8px', cursor: 'default' }}
-                closeIcon={<DeleteOutlined style={{ fontSize: 10 }} />}
-                onClose={(e) => {
-                  e.preventDefault();
-                  deleteTagCategory(id);
-                  notifySuccess('삭제 완료', `카테고리 ${id}이(가) 삭제되었습니다.`);
-                }}
+          <>
+            <Space wrap style={{ marginBottom: 12 }}>
+              <Input
+                placeholder="태그 이름 / 설명 검색"
+                prefix={<SearchOutlined style={{ color: '#bfbfbf' }} />}
+                value={search}
+                onChange={(e) => updateUrl({ q: e.target.value }, { replace: true })}
+                allowClear
+                style={{ width: 360 }}
+              />
+              <Select
+                value={url.changed}
+                onChange={(changed) => updateUrl({ changed })}
+                style={{ width: 180 }}
               >
-                <Space size={4}>
-                  <Text code style={{ fontSize: 11 }}>{id}</Text>
-                  <Text type="secondary" style={{ fontSize: 11 }}>
-                    {tags.tagCategories[id]}
-                  </Text>
-                  <Button
-                    type="text"
-                    size="small"
-                    icon={<EditOutlined style={{ fontSize: 10 }} />}
-                    style={{ padding: 0, height: 'auto' }}
-                    onClick={() => setCategoryModal({ open: true, id })}
-                  />
-                </Space>
-              </Tag>
-            ))}
-          </Space>
+                <Option value="all">전체 변경 상태</Option>
+                <Option value="changed">변경된 태그만 ({changeSet.tags.size})</Option>
+              </Select>
+            </Space>
+            {collapseItems.length === 0 ? (
+              <Empty
+                description={search
+                  ? `"${search}"와(과) 일치하는 태그가 없습니다.`
+                  : '마지막 동기화(Pull/Push) 이후 변경된 태그가 없습니다.'}
+                style={{ padding: '24px 0' }}
+              />
+            ) : (
+              <Collapse
+                items={collapseItems}
+                activeKey={openCategories}
+                onChange={handleCollapseChange}
+                style={{ marginBottom: 24 }}
+              />
+            )}
+          </>
         )}
-      </Card>
-
-      {/* ── 태그 목록 (카테고리별 Collapse) ─────────────────────────────── */}
-      {/*
-        Fix: tagCount === 0 일 때 Table이 없으므로 loading prop 효과 없음
-        → <Spin>으로 Empty를 감싸 Pull 중 로딩 표시
-      */}
-      {tagCount === 0 ? (
-        <Spin spinning={isLoading}>
-          <Empty
-            description={
-              isLoading
-                ? '서버에서 태그를 불러오는 중...'
-                : 'Pull을 실행하여 서버에서 태그를 불러오세요.'
-            }
-            style={{ padding: '48px 0' }}
-          />
-        </Spin>
-      ) : (
-        <Collapse
-          items={collapseItems}
-          defaultActiveKey={Object.keys(tagsByCategory)}
-          style={{ marginBottom: 24 }}
-        />
-      )}
 
-      <Divider />
+        <Divider />
 
-      {/* ── 복합 태그 섹션 ────────────────────────────────────────────────── */}
-      <div
-        style={{
-          display:        'flex',
-          justifyContent: 'space-between',
-          alignItems:     'center',
-          marginBottom:   12,
-        }}
-      >
-        <Space>
-          <Title level={5} style={{ margin: 0 }}>복합 태그 (Compound Tags)</Title>
-          <Tag>{compoundCount}개</Tag>
-        </Space>
-        <Button
-          icon={<PlusOutlined />}
-          onClick={() => setCompoundModal({ open: true, name: null })}
+        {/* ── 복합 태그 섹션 ────────────────────────────────────────────────── */}
+        <div
+          style={{
+            display:        'flex',
+            justifyContent: 'space-between',
+            alignItems:     'center',
+            marginBottom:   12,
+          }}
         >
-          복합 태그 추가
-        </Button>
-      </div>
+          <Space>
+            <Title level={5} style={{ margin: 0 }}>복합 태그 (Compound Tags)</Title>
+            <Tag>{compoundCount}개</Tag>
+          </Space>
+          <Button
+            icon={<PlusOutlined />}
+            onClick={() => setCompoundModal({ open: true, name: null })}
+          >
+            복합 태그 추가
+          </Button>
+        </div>
 
-      {compoundCount === 0 ? (
-        <Spin spinning={isLoading}>
-          <Empty description={
-            isLoading
-              ? '서버에서 복합 태그를 불러오는 중...'
-              : "복합 태그가 없습니다."
-              }
-              style={{ padding: '24px 0' }} />
-        </Spin>
-      ) : (
-        <Row gutter={[12, 12]}>
-          {Object.entries(tags.compoundTags).map(([name, ct]) => (
-            <Col key={name} xs={24} sm={12} lg={8}>
-              <Card
-                size="small"
-                title={<Text code style={{ fontSize: 12 }}>{name}</Text>}
-                extra={
-                  <Space size={4}>
-                    <Tooltip title="수정">
-                      <Button
-                        type="text"
-                        size="small"
-                        icon={<EditOutlined />}
-                        onClick={() => setCompoundModal({ open: true, name })}
-                      />
-                    </Tooltip>
-                    <Popconfirm
-                      title={`복합 태그 "${name}" 삭제`}
-                      onConfirm={() => {
-                        deleteCompoundTag(name);
-                        notifySuccess('삭제 완료', `복합 태그 ${name}이(가) 삭제되었습니다.`);
-                      }}
-                      okText="삭제"
-                      cancelText="취소"
-                      okButtonProps={{ danger: true }}
-                    >
-                      <Button type="text" danger size="small" icon={<DeleteOutlined />} />
-                    </Popconfirm>
-                  </Space>
+        {compoundCount === 0 ? (
+          <Spin spinning={isLoading}>
+            <Empty description={
+              isLoading
+                ? '서버에서 복합 태그를 불러오는 중...'
+                : "복합 태그가 없습니다."
                 }
-              >
-                <Text type="secondary" style={{ fontSize: 12, display: 'block', marginBottom: 8 }}>
-                  {ct.description}
-                </Text>
-
-                {ct.severity && (
-                  <div style={{ marginBottom: 6 }}>
-                    <Text type="secondary" style={{ fontSize: 11 }}>심각도: </Text>
-                    <Tag color="red" style={{ fontSize: 11 }}>{ct.severity}</Tag>
-                  </div>
-                )}
-
-                {(ct.requires ?? []).length > 0 && (
-                  <div style={{ marginBottom: 4 }}>
-                    <Text type="secondary" style={{ fontSize: 11 }}>필수: </Text>
-                    <Space wrap size={4}>
-                      {(ct.requires ?? []).map((t) => (
-                        <Tag key={t} color="blue" style={{ fontSize: 11 }}>{t}</Tag>
-                      ))}
-                    </Space>
-                  </div>
-                )}
-
-                {(ct.excludes ?? []).length > 0 && (
-                  <div>
-                    <Text type="secondary" style={{ fontSize: 11 }}>제외: </Text>
-                    <Space wrap size={4}>
-                      {(ct.excludes ?? []).map((t) => (
-                        <Tag key={t} color="orange" style={{ fontSize: 11 }}>{t}</Tag>
-                      ))}
+                style={{ padding: '24px 0' }} />
+          </Spin>
+        ) : (
+          <Row gutter={[12, 12]}>
+            {Object.entries(tags.compoundTags).map(([name, ct]) => (
+              <Col key={name} xs={24} sm={12} lg={8}>
+                <Card
+                  size="small"
+                  title={<Text code style={{ fontSize: 12 }}>{name}</Text>}
+                  extra={
+                    <Space size={4}>
+                      <Tooltip title="수정">
+                        <Button
+                          type="text"
+                          size="small"
+                          icon={<EditOutlined />}
+                          onClick={() => setCompoundModal({ open: true, name })}
+                        />
+                      </Tooltip>
+                      <Popconfirm
+                        title={`복합 태그 "${name}" 삭제`}
+                        onConfirm={() => {
+                          deleteCompoundTag(name);
+                          notifySuccess('삭제 완료', `복합 태그 ${name}이(가) 삭제되었습니다.`);
+                        }}
+                        okText="삭제"
+                        cancelText="취소"
+                        okButtonProps={{ danger: true }}
+                      >
+                        <Button type="text" danger size="small" icon={<DeleteOutlined />} />
+                      </Popconfirm>
                     </Space>
-                  </div>
-                )}
-
-                {ct.expression && (
-                  <div style={{ marginTop: 6 }}>
-                    <Text code style={{ fontSize: 11 }}>{ct.expression}</Text>
-                  </div>
-                )}
-              </Card>
-            </Col>
-          ))}
-        </Row>
+                  }
+                >
+                  <Text type="secondary" style={{ fontSize: 12, display: 'block', marginBottom: 8 }}>
+                    {ct.description}
+                  </Text>
+
+                  {ct.severity && (
+                    <div style={{ marginBottom: 6 }}>
+                      <Text type="secondary" style={{ fontSize: 11 }}>심각도: </Text>
+                      <Tag color="red" style={{ fontSize: 11 }}>{ct.severity}</Tag>
+                    </div>
+                  )}
+
+                  {(ct.requires ?? []).length > 0 && (
+                    <div style={{ marginBottom: 4 }}>
+                      <Text type="secondary" style={{ fontSize: 11 }}>필수: </Text>
+                      <Space wrap size={4}>
+                        {(ct.requires ?? []).map((t) => (
+                          <Tag key={t} color="blue" style={{ fontSize: 11 }}>{t}</Tag>
+                        ))}
+                      </Space>
+                    </div>
+                  )}
+
+                  {(ct.excludes ?? []).length > 0 && (
+                    <div>
+                      <Text type="secondary" style={{ fontSize: 11 }}>제외: </Text>
+                      <Space wrap size={4}>
+                        {(ct.excludes ?? []).map((t) => (
+                          <Tag key={t} color="orange" style={{ fontSize: 11 }}>{t}</Tag>
+                        ))}
+                      </Space>
+                    </div>
+                  )}
+
+                  {ct.expression && (
+                    <div style={{ marginTop: 6 }}>
+                      <Text code style={{ fontSize: 11 }}>{ct.expression}</Text>
+                    </div>
+                  )}
+                </Card>
+              </Col>
+            ))}
+          </Row>
+        )}
+        </>
       )}
 
       {/* ── 모달들 ────────────────────────────────────────────────────────── */}
@@ -817,6 +898,7 @@ export default function TagsPage() {
         tagName={tagModal.name}
         initial={tagModal.name ? tags.tags[tagModal.name] : undefined}
         categories={categoryList}
+        tagNames={Object.keys(tags.tags)}
         onOk={handleTagOk}
         onCancel={() => setTagModal({ open: false, name: null })}
       />
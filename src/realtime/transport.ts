@@ -0,0 +1,110 @@
+/**
+ * src/realtime/transport.ts
+ *
+ * 탭 / 사용자 간 메시지 전송 추상화.
+ *
+ * Transport는 "내가 보낸 메시지는 나에게 돌아오지 않는" 브로드캐스트 채널입니다.
+ *   - createBroadcastTransport : 같은 브라우저의 다른 탭 (BroadcastChannel)
+ *   - createMockTransportHub   : 한 페이지 안의 메모리 허브 (개발 / 테스트용 가짜 동료)
+ *
+ * 서버 측 채널(WebSocket 등)은 같은 인터페이스로 구현해 presenceStore.connectPresence()에 넘기면 됩니다.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 인터페이스
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface Transport<T> {
+  /** 나를 제외한 모든 참가자에게 전송 */
+  send:      (message: T) => void;
+  /** 수신 핸들러 등록. 반환 함수로 해제 */
+  subscribe: (handler: (message: T) => void) => () => void;
+  close:     () => void;
+}
+
+/** BroadcastChannel 이름 (같은 origin의 탭끼리만 공유) */
+export const CHANNEL_NAMES = {
+  data:     'code-quality-admin:data',
+  presence: 'code-quality-admin:presence',
+  remote:   'code-quality-admin:remote',
+} as const;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BroadcastChannel
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * BroadcastChannel 기반 Transport.
+ * BroadcastChannel이 없는 환경에서는 아무 일도 하지 않는 Transport를 반환합니다.
+ */
+export function createBroadcastTransport<T>(name: string): Transport<T> {
+  if (typeof BroadcastChannel === 'undefined') {
+    console.warn('[transport] BroadcastChannel 미지원 — 탭 간 동기화를 사용할 수 없습니다.');
+    return { send: () => {}, subscribe: () => () => {}, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(name);
+  return {
+    send: (message) => {
+      try {
+        channel.postMessage(message);
+      } catch (error) {
+        console.error(`[transport] ${name} 전송 실패:`, error);
+      }
+    },
+    subscribe: (handler) => {
+      const listener = (e: MessageEvent<T>) => handler(e.data);
+      channel.addEventListener('message', listener);
+      return () => channel.removeEventListener('message', listener);
+    },
+    close: () => channel.close(),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 메모리 허브 (모의 Transport)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface MockTransportHub<T> {
+  /** 허브에 연결된 새 참가자 */
+  connect: () => Transport<T>;
+}
+
+/**
+ * 메모리 안에서 메시지를 주고받는 허브.
+ * connect()로 만든 참가자끼리 BroadcastChannel처럼 비동기로 메시지가 전달됩니다.
+ *
+ * @example
+ * const hub = createMockTransportHub<PresenceMessage>();
+ * connectPresence(hub.connect());
+ * const colleague = hub.connect();
+ * colleague.send({ type: 'presence', peer: { clientId: 'mock', userName: '동료', editingRuleId: 'G1.ERR.1' } });
+ */
+export function createMockTransportHub<T>(): MockTransportHub<T> {
+  const members = new Set<Set<(message: T) => void>>();
+
+  return {
+    connect: () => {
+      const handlers = new Set<(message: T) => void>();
+      members.add(handlers);
+      return {
+        send: (message) => {
+          // structuredClone으로 BroadcastChannel과 같은 복사 의미를 흉내냄
+          const copy = structuredClone(message);
+          members.forEach((other) => {
+            if (other === handlers) return;
+            queueMicrotask(() => other.forEach((h) => h(copy)));
+          });
+        },
+        subscribe: (handler) => {
+          handlers.add(handler);
+          return () => handlers.delete(handler);
+        },
+        close: () => {
+          handlers.clear();
+          members.delete(handlers);
+        },
+      };
+    },
+  };
+}
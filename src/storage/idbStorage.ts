@@ -10,13 +10,19 @@
  *
  * DB 구조:
  *   DB명: 'code-quality-admin'
- *   버전: 1
+ *   버전: 5
  *   스토어:
- *     - 'snapshots' : 스냅샷 데이터 (origin / current / lastPush)
- *     - 'meta'      : 메타데이터 (lastPullAt / lastPushAt / baseVersion)
+ *     - 'snapshots'   : 스냅샷 데이터 (origin / current / lastPush)
+ *     - 'meta'        : 메타데이터 (lastPullAt / lastPushAt / baseVersion)
+ *     - 'history'     : 스냅샷 이력 목록 (v2, autoIncrement id + 요약 정보)
+ *     - 'historyData' : 이력 id → 스냅샷 본문 (v2, 목록 조회 시 본문을 읽지 않도록 분리)
+ *     - 'filterPresets' : RulesPage 검색 쿼리 프리셋 (v3, name이 key)
+ *     - 'ruleTemplates' : 새 규칙 템플릿 (v4, name이 key)
+ *     - 'outbox'        : 오프라인 중 예약한 동기화 작업 (v5, autoIncrement id + 상태 이력)
  */
 import { openDB, type IDBPDatabase } from 'idb';
 import type { LocalSnapshot } from '@/types/api';
+import type { Rule } from '@/types/rule';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // 타입 정의
@@ -24,7 +30,7 @@ import type { LocalSnapshot } from '@/types/api';
 
 /** 스냅샷 슬롯 키 */
 export type SnapshotSlot =
-  | 'snapshot:origin'    // Pull 시 받은 서버 원본 (읽기 전용 기준점)
+  | 'snapshot:origin'    // 마지막 동기화(Pull / Push / 병합) 시점의 서버 데이터 (읽기 전용 기준점)
   | 'snapshot:current'   // 현재 로컬 편집 중인 데이터
   | 'snapshot:lastPush'; // 마지막 Push 성공 시점 데이터
 
@@ -32,13 +38,94 @@ export type SnapshotSlot =
 export type MetaSlot =
   | 'meta:lastPullAt'   // 마지막 Pull 시각 (ISO datetime string)
   | 'meta:lastPushAt'   // 마지막 Push 시각 (ISO datetime string)
-  | 'meta:baseVersion'; // 현재 baseVersion (number)
+  | 'meta:baseVersion'  // 현재 baseVersion (number)
+  | 'meta:userName'     // presence 표시 이름 (string)
+  | 'meta:outboxAutoReplay'; // 재연결 시 예약 작업 자동 실행 여부 (boolean)
 
 /** 메타 슬롯별 값 타입 매핑 */
 interface MetaValueMap {
   'meta:lastPullAt': string;
   'meta:lastPushAt': string;
   'meta:baseVersion': number;
+  'meta:userName': string;
+  'meta:outboxAutoReplay': boolean;
+}
+
+/** 이력 기록 사유 */
+export type HistoryReason =
+  | 'pull'      // Pull 완료 직후 (서버 데이터)
+  | 'push'      // Push 성공 직후
+  | 'merge'     // 3-way 병합 적용 직후
+  | 'tagSplit'  // 태그 분할 적용 직전
+  | 'tagMerge'  // 태그 병합 적용 직전
+  | 'autosave'  // 편집 중 주기적 자동 기록
+  | 'restore';  // 이력 복원 직전 (복원 전 상태 보존)
+
+/** 이력 목록 항목 (스냅샷 본문 제외) */
+export interface HistoryEntry {
+  id:               number;
+  reason:           HistoryReason;
+  /** 기록 시각 (ISO 8601 datetime) */
+  createdAt:        string;
+  /** 부가 설명 (예: 분할 대상 태그 이름) */
+  label?:           string;
+  baseVersion:      number;
+  ruleCount:        number;
+  tagCount:         number;
+  compoundTagCount: number;
+}
+
+/** 보관 한도 — 초과 시 오래된 항목부터 삭제 */
+export const HISTORY_LIMITS = {
+  /** 전체 최대 항목 수 */
+  maxEntries:  50,
+  /** autosave 항목 최대 수 (Pull / Push 등 이벤트 항목이 자동 저장에 밀려나지 않도록) */
+  maxAutosave: 20,
+} as const;
+
+/** RulesPage 검색 쿼리 프리셋 (이름으로 저장) */
+export interface FilterPreset {
+  name:      string;
+  /** ruleQuery 문법의 쿼리 문자열 */
+  query:     string;
+  /** 저장 시각 (ISO 8601 datetime) */
+  updatedAt: string;
+}
+
+/** 새 규칙 템플릿 — 출처 / 분류 / 태그 / 패턴 등 반복 입력 필드 묶음 */
+export interface RuleTemplate {
+  name:        string;
+  description: string;
+  /** ruleDraft.TEMPLATE_FIELDS에 해당하는 필드만 저장 */
+  fields:      Partial<Rule>;
+  /** 저장 시각 (ISO 8601 datetime) */
+  updatedAt:   string;
+}
+
+/** 예약 동기화 작업 종류 */
+export type OutboxKind = 'push' | 'pull';
+
+/** 예약 작업 상태 — queued → running → done / conflict / failed, 사용자가 취소하면 cancelled */
+export type OutboxStatus = 'queued' | 'running' | 'done' | 'conflict' | 'failed' | 'cancelled';
+
+export interface OutboxEvent {
+  /** 기록 시각 (ISO 8601 datetime) */
+  at:       string;
+  status:   OutboxStatus;
+  message?: string;
+}
+
+/** 오프라인 중 예약한 동기화 작업 */
+export interface OutboxItem {
+  id:        number;
+  kind:      OutboxKind;
+  /** Push 메모 (Push 이력 항목의 설명으로 남음) */
+  message:   string;
+  /** 예약 시각 (ISO 8601 datetime) */
+  createdAt: string;
+  status:    OutboxStatus;
+  /** 상태 변경 이력 (오래된 항목 → 최신 항목) */
+  events:    OutboxEvent[];
 }
 
 /** DB 스키마 정의 (idb 타입 파라미터용) */
@@ -49,7 +136,29 @@ interface CodeQualityDB {
   };
   meta: {
     key: MetaSlot;
-    value: string | number;
+    value: string | number | boolean;
+  };
+  history: {
+    key: number;
+    /** add 시점에는 id가 없음 (autoIncrement) */
+    value: Omit<HistoryEntry, 'id'> & { id?: number };
+  };
+  historyData: {
+    key: number;
+    value: LocalSnapshot;
+  };
+  filterPresets: {
+    key: string;
+    value: FilterPreset;
+  };
+  ruleTemplates: {
+    key: string;
+    value: RuleTemplate;
+  };
+  outbox: {
+    key: number;
+    /** add 시점에는 id가 없음 (autoIncrement) */
+    value: Omit<OutboxItem, 'id'> & { id?: number };
   };
 }
 
@@ -58,7 +167,7 @@ interface CodeQualityDB {
 // ─────────────────────────────────────────────────────────────────────────────
 
 const DB_NAME = 'code-quality-admin';
-const DB_VERSION = 1;
+const DB_VERSION = 5;
 
 /** DB 인스턴스 (싱글톤) */
 let dbInstance: IDBPDatabase<CodeQualityDB> | null = null;
@@ -80,6 +189,25 @@ const getDB = async (): Promise<IDBPDatabase<CodeQualityDB>> => {
       if (!db.objectStoreNames.contains('meta')) {
         db.createObjectStore('meta');
       }
+      // v2: 스냅샷 이력 (목록 / 본문 분리)
+      if (!db.objectStoreNames.contains('history')) {
+        db.createObjectStore('history', { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains('historyData')) {
+        db.createObjectStore('historyData');
+      }
+      // v3: 규칙 검색 프리셋
+      if (!db.objectStoreNames.contains('filterPresets')) {
+        db.createObjectStore('filterPresets', { keyPath: 'name' });
+      }
+      // v4: 새 규칙 템플릿
+      if (!db.objectStoreNames.contains('ruleTemplates')) {
+        db.createObjectStore('ruleTemplates', { keyPath: 'name' });
+      }
+      // v5: 오프라인 예약 작업
+      if (!db.objectStoreNames.contains('outbox')) {
+        db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+      }
     },
     blocked() {
       console.warn('[idbStorage] DB 업그레이드가 다른 탭에 의해 차단되었습니다.');
@@ -202,13 +330,295 @@ export const loadMeta = async <K extends MetaSlot>(
   }
 };
 
+// ─────────────────────────────────────────────────────────────────────────────
+// 이력 API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 보관 한도를 넘는 이력을 오래된 순으로 삭제합니다.
+ * autosave 한도를 먼저 적용한 뒤 전체 한도를 적용합니다.
+ */
+const pruneHistory = async (db: IDBPDatabase<CodeQualityDB>): Promise<void> => {
+  const entries = (await db.getAll('history')) as HistoryEntry[]; // id 오름차순 = 오래된 순
+  const autosaves  = entries.filter((e) => e.reason === 'autosave');
+  const removeIds  = new Set(
+    autosaves.slice(0, Math.max(0, autosaves.length - HISTORY_LIMITS.maxAutosave)).map((e) => e.id),
+  );
+  const remaining  = entries.filter((e) => !removeIds.has(e.id));
+  remaining
+    .slice(0, Math.max(0, remaining.length - HISTORY_LIMITS.maxEntries))
+    .forEach((e) => removeIds.add(e.id));
+
+  if (removeIds.size === 0) return;
+  const tx = db.transaction(['history', 'historyData'], 'readwrite');
+  await Promise.all([
+    ...[...removeIds].flatMap((id) => [
+      tx.objectStore('history').delete(id),
+      tx.objectStore('historyData').delete(id),
+    ]),
+    tx.done,
+  ]);
+};
+
+/**
+ * 스냅샷을 이력에 추가합니다.
+ * 이력 기록 실패가 Pull / Push 등 본 작업을 막지 않도록 예외를 던지지 않고 null을 반환합니다.
+ *
+ * @param reason   - 기록 사유
+ * @param snapshot - 기록할 스냅샷
+ * @param label    - 목록에 함께 표시할 설명
+ * @returns 추가된 이력 항목 또는 실패 시 null
+ *
+ * @example
+ * await addHistoryEntry('tagSplit', { rules, tags, baseVersion, savedAt }, 'BUSINESS_LOGIC');
+ */
+export const addHistoryEntry = async (
+  reason: HistoryReason,
+  snapshot: LocalSnapshot,
+  label?: string,
+): Promise<HistoryEntry | null> => {
+  try {
+    const db = await getDB();
+    const summary: Omit<HistoryEntry, 'id'> = {
+      reason,
+      createdAt:        new Date().toISOString(),
+      label,
+      baseVersion:      snapshot.baseVersion,
+      ruleCount:        snapshot.rules.length,
+      tagCount:         Object.keys(snapshot.tags.tags).length,
+      compoundTagCount: Object.keys(snapshot.tags.compoundTags).length,
+    };
+
+    const tx = db.transaction(['history', 'historyData'], 'readwrite');
+    const id = (await tx.objectStore('history').add(summary)) as number;
+    await tx.objectStore('historyData').put(snapshot, id);
+    await tx.done;
+
+    await pruneHistory(db);
+    return { ...summary, id };
+  } catch (error) {
+    console.error(`[idbStorage] addHistoryEntry(${reason}) 실패:`, error);
+    return null;
+  }
+};
+
+/**
+ * 이력 목록을 최신순으로 반환합니다 (스냅샷 본문 제외).
+ */
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  try {
+    const db = await getDB();
+    const entries = (await db.getAll('history')) as HistoryEntry[];
+    return entries.reverse();
+  } catch (error) {
+    console.error('[idbStorage] listHistory() 실패:', error);
+    return [];
+  }
+};
+
+/**
+ * 이력 항목의 스냅샷 본문을 불러옵니다.
+ *
+ * @returns LocalSnapshot 또는 항목이 없으면 null
+ */
+export const loadHistorySnapshot = async (id: number): Promise<LocalSnapshot | null> => {
+  try {
+    const db = await getDB();
+    return (await db.get('historyData', id)) ?? null;
+  } catch (error) {
+    console.error(`[idbStorage] loadHistorySnapshot(${id}) 실패:`, error);
+    return null;
+  }
+};
+
+/**
+ * 이력 항목 하나를 삭제합니다.
+ */
+export const deleteHistoryEntry = async (id: number): Promise<void> => {
+  try {
+    const db = await getDB();
+    const tx = db.transaction(['history', 'historyData'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('history').delete(id),
+      tx.objectStore('historyData').delete(id),
+      tx.done,
+    ]);
+  } catch (error) {
+    console.error(`[idbStorage] deleteHistoryEntry(${id}) 실패:`, error);
+    throw error;
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 필터 프리셋 API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 저장된 검색 프리셋을 이름순으로 반환합니다.
+ */
+export const listFilterPresets = async (): Promise<FilterPreset[]> => {
+  try {
+    const db = await getDB();
+    return await db.getAll('filterPresets');
+  } catch (error) {
+    console.error('[idbStorage] listFilterPresets() 실패:', error);
+    return [];
+  }
+};
+
+/**
+ * 검색 프리셋을 저장합니다. 같은 이름이 있으면 덮어씁니다.
+ *
+ * @example
+ * await saveFilterPreset({ name: '심각 리소스', query: 'severity:CRITICAL category:resource_management', updatedAt: new Date().toISOString() });
+ */
+export const saveFilterPreset = async (preset: FilterPreset): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.put('filterPresets', preset);
+  } catch (error) {
+    console.error(`[idbStorage] saveFilterPreset(${preset.name}) 실패:`, error);
+    throw error;
+  }
+};
+
+/**
+ * 검색 프리셋 하나를 삭제합니다.
+ */
+export const deleteFilterPreset = async (name: string): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.delete('filterPresets', name);
+  } catch (error) {
+    console.error(`[idbStorage] deleteFilterPreset(${name}) 실패:`, error);
+    throw error;
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 규칙 템플릿 API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 저장된 규칙 템플릿을 이름순으로 반환합니다.
+ */
+export const listRuleTemplates = async (): Promise<RuleTemplate[]> => {
+  try {
+    const db = await getDB();
+    return await db.getAll('ruleTemplates');
+  } catch (error) {
+    console.error('[idbStorage] listRuleTemplates() 실패:', error);
+    return [];
+  }
+};
+
+/**
+ * 이름으로 규칙 템플릿 하나를 불러옵니다.
+ *
+ * @returns RuleTemplate 또는 없으면 null
+ */
+export const loadRuleTemplate = async (name: string): Promise<RuleTemplate | null> => {
+  try {
+    const db = await getDB();
+    return (await db.get('ruleTemplates', name)) ?? null;
+  } catch (error) {
+    console.error(`[idbStorage] loadRuleTemplate(${name}) 실패:`, error);
+    return null;
+  }
+};
+
+/**
+ * 규칙 템플릿을 저장합니다. 같은 이름이 있으면 덮어씁니다.
+ */
+export const saveRuleTemplate = async (template: RuleTemplate): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.put('ruleTemplates', template);
+  } catch (error) {
+    console.error(`[idbStorage] saveRuleTemplate(${template.name}) 실패:`, error);
+    throw error;
+  }
+};
+
+/**
+ * 규칙 템플릿 하나를 삭제합니다.
+ */
+export const deleteRuleTemplate = async (name: string): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.delete('ruleTemplates', name);
+  } catch (error) {
+    console.error(`[idbStorage] deleteRuleTemplate(${name}) 실패:`, error);
+    throw error;
+  }
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 예약 작업(outbox) API
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 예약 작업 전체를 예약 순서(id 오름차순)로 반환합니다.
+ */
+export const listOutbox = async (): Promise<OutboxItem[]> => {
+  try {
+    const db = await getDB();
+    return (await db.getAll('outbox')) as OutboxItem[];
+  } catch (error) {
+    console.error('[idbStorage] listOutbox() 실패:', error);
+    return [];
+  }
+};
+
+/**
+ * 예약 작업을 추가합니다.
+ *
+ * @returns 새로 할당된 id
+ */
+export const addOutboxItem = async (item: Omit<OutboxItem, 'id'>): Promise<number> => {
+  try {
+    const db = await getDB();
+    return (await db.add('outbox', item)) as number;
+  } catch (error) {
+    console.error('[idbStorage] addOutboxItem() 실패:', error);
+    throw error;
+  }
+};
+
+/**
+ * 예약 작업의 상태 / 이력을 덮어씁니다.
+ */
+export const saveOutboxItem = async (item: OutboxItem): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.put('outbox', item);
+  } catch (error) {
+    console.error(`[idbStorage] saveOutboxItem(${item.id}) 실패:`, error);
+    throw error;
+  }
+};
+
+/**
+ * 예약 작업들을 삭제합니다.
+ */
+export const deleteOutboxItems = async (ids: number[]): Promise<void> => {
+  try {
+    const db = await getDB();
+    const tx = db.transaction('outbox', 'readwrite');
+    await Promise.all([...ids.map((id) => tx.store.delete(id)), tx.done]);
+  } catch (error) {
+    console.error('[idbStorage] deleteOutboxItems() 실패:', error);
+    throw error;
+  }
+};
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 유틸리티
 // ─────────────────────────────────────────────────────────────────────────────
 
 /**
- * 모든 스냅샷과 메타데이터를 삭제합니다.
- * 초기화 또는 완전 리셋 시 사용합니다.
+ * 모든 스냅샷, 메타데이터(meta:outboxAutoReplay 포함), 이력, 필터 프리셋, 규칙 템플릿, 예약 작업을 삭제합니다.
+ * 초기화 또는 완전 리셋 시 사용합니다. object store를 추가하면 여기에도 추가하세요.
  *
  * @example
  * await clearAll(); // DB 전체 초기화
@@ -216,10 +626,18 @@ export const loadMeta = async <K extends MetaSlot>(
 export const clearAll = async (): Promise<void> => {
   try {
     const db = await getDB();
-    const tx = db.transaction(['snapshots', 'meta'], 'readwrite');
+    const tx = db.transaction(
+      ['snapshots', 'meta', 'history', 'historyData', 'filterPresets', 'ruleTemplates', 'outbox'],
+      'readwrite',
+    );
     await Promise.all([
       tx.objectStore('snapshots').clear(),
       tx.objectStore('meta').clear(),
+      tx.objectStore('history').clear(),
+      tx.objectStore('historyData').clear(),
+      tx.objectStore('filterPresets').clear(),
+      tx.objectStore('ruleTemplates').clear(),
+      tx.objectStore('outbox').clear(),
       tx.done,
     ]);
   } catch (error) {
@@ -254,10 +672,14 @@ export const saveAfterPull = async (snapshot: LocalSnapshot): Promise<void> => {
 
 /**
  * Push 성공 시 lastPush 슬롯과 메타를 한 번에 저장하는 편의 함수.
+ * Push한 데이터가 곧 서버 데이터이므로 origin도 함께 갱신합니다
+ * (3-way 병합의 기준점이 Pull 시점에 머물러 있으면 이미 Push한 변경이 다시 충돌로 잡힘).
  *
- * @param snapshot   - 현재 로컬 스냅샷 (Push한 데이터)
+ * @param snapshot   - Push한 데이터 (= 새 서버 데이터)
  * @param pushedAt   - Push 완료 시각 (서버 응답의 pushedAt)
  * @param newVersion - Push 후 새 버전 (서버 응답의 newVersion)
+ * @param current    - 로컬 편집본. 선택 Push로 일부 변경만 보냈을 때 Push하지 않은 편집이 남은 데이터
+ *                     (생략하면 snapshot과 같음)
  *
  * @example
  * const pushRes = await pushData({ ... });
@@ -269,6 +691,7 @@ export const saveAfterPush = async (
   snapshot: LocalSnapshot,
   pushedAt: string,
   newVersion: number,
+  current: LocalSnapshot = snapshot,
 ): Promise<void> => {
   const updatedSnapshot: LocalSnapshot = {
     ...snapshot,
@@ -277,9 +700,29 @@ export const saveAfterPush = async (
   };
 
   await Promise.all([
+    saveSnapshot('snapshot:origin', updatedSnapshot),
     saveSnapshot('snapshot:lastPush', updatedSnapshot),
-    saveSnapshot('snapshot:current', updatedSnapshot),
+    saveSnapshot('snapshot:current', { ...current, baseVersion: newVersion, savedAt: pushedAt }),
     saveMeta('meta:lastPushAt', pushedAt),
     saveMeta('meta:baseVersion', newVersion),
   ]);
-};
\ No newline at end of file
+};
+
+/**
+ * 3-way 병합 완료 시 호출하는 편의 함수.
+ * 병합 때 받은 서버 데이터를 새 origin으로, 병합 결과를 current로 저장합니다.
+ *
+ * @param origin  - 병합 시점의 서버 스냅샷 (baseVersion = 서버 currentVersion)
+ * @param current - 병합 결과 스냅샷 (baseVersion은 origin과 동일)
+ */
+export const saveAfterMerge = async (
+  origin: LocalSnapshot,
+  current: LocalSnapshot,
+): Promise<void> => {
+  await Promise.all([
+    saveSnapshot('snapshot:origin', origin),
+    saveSnapshot('snapshot:current', current),
+    saveMeta('meta:lastPullAt', origin.savedAt),
+    saveMeta('meta:baseVersion', origin.baseVersion),
+  ]);
+};
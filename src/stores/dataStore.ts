@@ -14,20 +14,54 @@
  *              동일 ruleId 규칙이 배열에 2개 이상 삽입 가능
  *              → Push 시 Qdrant에 마지막 값만 남아 Pull 후 엉뚱한 Diff 발생
  *   - 수정 후: set() 호출 전 some()으로 중복 체크 → 중복이면 warn 후 return
+ *
+ * ─── 3-way 병합 ───────────────────────────────────────────────────────────────
+ * prepareMerge()  : origin(IndexedDB) + current + 서버 최신 데이터로 병합 초안 계산
+ * applyMerge()    : 충돌 해결이 끝난 결과를 current로, 서버 데이터를 origin으로 저장
+ *
+ * ─── 스냅샷 이력 ─────────────────────────────────────────────────────────────
+ * Pull / Push / 병합 직후, 태그 분할·병합 직전(recordHistory), 편집 중 10분 간격(persistCurrent)으로
+ * IndexedDB 'history'에 스냅샷을 남깁니다. restoreHistory()는 복원 전 상태도 이력에 남긴 뒤
+ * 규칙 / 태그만 되돌립니다 (baseVersion은 유지 → 복원 결과도 일반 편집처럼 Push).
+ *
+ * ─── undo / redo ─────────────────────────────────────────────────────────────
+ * 모든 편집 액션은 withUndo()로 감싸 바뀐 규칙(ruleId) · 태그(이름)별 이전·이후 값(DataPatch)을
+ * UndoEntry로 남깁니다. undo / redo는 그 항목만 바꾸므로, 사이에 다른 탭에서 바뀐 항목은 덮어쓰지 않습니다.
+ * 여러 액션을 묶는 작업(태그 분할·병합, 규칙 일괄 삭제)은 transact()로 한 항목으로 기록합니다.
+ * Pull / 3-way 병합은 기준 데이터 자체를 바꾸므로 스택을 비웁니다.
+ *
+ * ─── 로컬 변경 되돌리기 ──────────────────────────────────────────────────────
+ * revertToOrigin() / revertRuleField()는 snapshot:origin(마지막 동기화 — Pull/Push)을 읽어 지정한 규칙 · 태그 ·
+ * 필드만 되돌립니다 (revertChanges). 일반 편집처럼 undo 항목으로 남으므로 되돌리기도 취소할 수 있습니다.
+ *
+ * ─── 변경 집합 ───────────────────────────────────────────────────────────────
+ * origin 상태는 snapshot:origin의 메모리 사본입니다 (hydrate / Pull / Push / 병합 때 갱신).
+ * useChangeSet()은 origin ↔ 현재 편집본의 규칙 · 태그별 상태(changeSet)를 돌려주며,
+ * 입력 참조가 같으면 이전 결과를 재사용하므로 여러 컴포넌트가 구독해도 한 번만 계산합니다.
  */
 import { create } from 'zustand';
 import { useShallow } from 'zustand/react/shallow';
 import { pullData } from '@/api/dataApi';
 import {
+  addHistoryEntry,
+  loadHistorySnapshot,
+  saveAfterMerge,
   saveAfterPull,
   saveAfterPush,
   saveSnapshot,
   loadSnapshot,
   loadMeta,
+  type HistoryReason,
 } from '@/storage/idbStorage';
+import { usePresenceStore } from '@/stores/presenceStore';
+import type { LocalSnapshot } from '@/types/api';
 import type { Rule } from '@/types/rule';
 import type { TagData, TagDefinition, CompoundTag } from '@/types/tag';
 import { EMPTY_TAG_DATA } from '@/types/tag';
+import { mergeDatasets, type MergeDataset, type MergeResult } from '@/utils/threeWayMerge';
+import { revertDataset, revertRuleFieldValue, type RevertTarget } from '@/utils/revertChanges';
+import { computeChangeSet, EMPTY_CHANGE_SET, type ChangeSet } from '@/utils/changeSet';
+import { applyPatch, diffData, isEmptyPatch, type DataPatch } from '@/utils/dataPatch';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // 타입
@@ -39,9 +73,24 @@ interface DataState {
   baseVersion: number | null;
   lastPullAt:  string | null;
   lastPushAt:  string | null;
+  /** 마지막 Pull / Push 시점의 서버 데이터 (snapshot:origin) — 변경 집합 기준 */
+  origin:      { rules: Rule[]; tags: TagData } | null;
   isLoading:   boolean;
   isHydrated:  boolean;
   error:       string | null;
+  /** 오래된 항목 → 최신 항목 순 */
+  undoStack:   UndoEntry[];
+  /** 마지막 원소가 다음 redo 대상 */
+  redoStack:   UndoEntry[];
+}
+
+export interface UndoEntry {
+  id:     number;
+  /** 헤더 드롭다운에 표시할 설명 (예: "규칙 삭제: G1.ERR.7_3_1") */
+  label:  string;
+  at:     string;
+  /** undo는 before, redo는 after 쪽으로 적용 */
+  patch:  DataPatch;
 }
 
 interface DataActions {
@@ -66,10 +115,36 @@ interface DataActions {
   deleteTagCategory: (id: string) => void;
 
   // 태그 전체 교체
-  setTags: (tags: TagData) => void;
+  setTags: (tags: TagData, label?: string) => void;
+
+  // 규칙 + 태그 전체 교체 (파일 가져오기)
+  setData: (rules: Rule[], tags: TagData, label?: string) => void;
+
+  // 로컬 변경 되돌리기 (snapshot:origin 기준) — 실제로 되돌린 항목 수 반환
+  revertToOrigin:  (target: RevertTarget) => Promise<number>;
+  revertRuleField: (ruleId: string, field: keyof Rule) => Promise<boolean>;
+
+  // Push 성공 후 버전 갱신 (pushed: 선택 Push로 보낸 데이터셋, 없으면 현재 데이터 전체 / label: 이력 설명)
+  applyPushSuccess: (
+    newVersion: number,
+    pushedAt: string,
+    pushed?: { rules: Rule[]; tags: TagData },
+    label?: string,
+  ) => Promise<void>;
+
+  // VERSION_CONFLICT 3-way 병합
+  prepareMerge: () => Promise<{ result: MergeResult; remote: LocalSnapshot }>;
+  applyMerge:   (merged: MergeDataset, remote: LocalSnapshot) => Promise<void>;
 
-  // Push 성공 후 버전 갱신
-  applyPushSuccess: (newVersion: number, pushedAt: string) => Promise<void>;
+  // 스냅샷 이력
+  recordHistory:  (reason: HistoryReason, label?: string) => Promise<void>;
+  restoreHistory: (id: number) => Promise<void>;
+
+  // undo / redo
+  /** fn 안에서 호출한 액션들을 label 하나의 undo 항목으로 묶음 */
+  transact: (label: string, fn: () => void) => void;
+  undo:     (steps?: number) => void;
+  redo:     (steps?: number) => void;
 
   clearError:     () => void;
   persistCurrent: () => Promise<void>;
@@ -77,6 +152,36 @@ interface DataActions {
 
 type DataStore = DataState & DataActions;
 
+/** persistCurrent에서 autosave 이력을 남기는 최소 간격 */
+const AUTOSAVE_HISTORY_INTERVAL_MS = 10 * 60 * 1_000;
+let lastAutosaveHistoryAt = 0;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// undo 기록 헬퍼
+// ─────────────────────────────────────────────────────────────────────────────
+
+const UNDO_LIMIT = 100;
+let undoSeq = 0;
+/** transact() 실행 중이면 개별 액션은 undo 항목을 만들지 않음 */
+let inTransaction = false;
+
+/** 이전 rules / tags와 현재 상태를 비교해 바뀐 항목만 undo 항목으로 추가 */
+function pushUndo(label: string, prevRules: Rule[], prevTags: TagData) {
+  const { rules, tags, undoStack } = useDataStore.getState();
+  const patch = diffData({ rules: prevRules, tags: prevTags }, { rules, tags });
+  if (isEmptyPatch(patch)) return;
+
+  const entry: UndoEntry = { id: ++undoSeq, label, at: new Date().toISOString(), patch };
+  useDataStore.setState({ undoStack: [...undoStack, entry].slice(-UNDO_LIMIT), redoStack: [] });
+}
+
+/** mutate 실행 전후를 비교해 undo 항목을 남김 */
+function withUndo(label: string, mutate: () => void) {
+  const { rules, tags } = useDataStore.getState();
+  mutate();
+  if (!inTransaction) pushUndo(label, rules, tags);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // 스토어
 // ─────────────────────────────────────────────────────────────────────────────
@@ -87,9 +192,12 @@ export const useDataStore = create<DataStore>((set, get) => ({
   baseVersion: null,
   lastPullAt:  null,
   lastPushAt:  null,
+  origin:      null,
   isLoading:   false,
   isHydrated:  false,
   error:       null,
+  undoStack:   [],
+  redoStack:   [],
 
   // ── Pull ───────────────────────────────────────────────────────────────────
   pull: async () => {
@@ -101,8 +209,12 @@ export const useDataStore = create<DataStore>((set, get) => ({
       const baseVersion = pullRes.version;
       const lastPullAt  = pullRes.pulledAt;
 
-      set({ rules, tags, baseVersion, lastPullAt, isLoading: false, error: null });
+      set({
+        rules, tags, baseVersion, lastPullAt, origin: { rules, tags },
+        isLoading: false, error: null, undoStack: [], redoStack: [],
+      });
       await saveAfterPull({ rules, tags, baseVersion, savedAt: lastPullAt });
+      await addHistoryEntry('pull', { rules, tags, baseVersion, savedAt: lastPullAt });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Pull 실패';
       set({ isLoading: false, error: message });
@@ -113,12 +225,14 @@ export const useDataStore = create<DataStore>((set, get) => ({
   // ── Hydrate ────────────────────────────────────────────────────────────────
   hydrate: async () => {
     try {
-      const [snapshot, lastPullAt, lastPushAt, baseVersion] = await Promise.all([
+      const [snapshot, originSnapshot, lastPullAt, lastPushAt, baseVersion] = await Promise.all([
         loadSnapshot('snapshot:current'),
+        loadSnapshot('snapshot:origin'),
         loadMeta('meta:lastPullAt'),
         loadMeta('meta:lastPushAt'),
         loadMeta('meta:baseVersion'),
       ]);
+      const origin = originSnapshot ? { rules: originSnapshot.rules, tags: originSnapshot.tags } : null;
 
       if (snapshot) {
         set({
@@ -127,10 +241,11 @@ export const useDataStore = create<DataStore>((set, get) => ({
           baseVersion: snapshot.baseVersion ?? baseVersion,
           lastPullAt:  lastPullAt ?? snapshot.savedAt,
           lastPushAt,
+          origin,
           isHydrated:  true,
         });
       } else {
-        set({ baseVersion, lastPullAt, lastPushAt, isHydrated: true });
+        set({ baseVersion, lastPullAt, lastPushAt, origin, isHydrated: true });
       }
     } catch (error) {
       console.error('[dataStore] hydrate 실패:', error);
@@ -154,25 +269,26 @@ export const useDataStore = create<DataStore>((set, get) => ({
       console.warn(`[dataStore] addRule: 중복 ruleId 무시 → "${rule.ruleId}"`);
       return;
     }
-    set((s) => ({ rules: [...s.rules, rule] }));
+    withUndo(`규칙 추가: ${rule.ruleId}`, () => set((s) => ({ rules: [...s.rules, rule] })));
     get().persistCurrent().catch(console.error);
   },
 
   updateRule: (ruleId, updates) => {
-    set((s) => ({
+    withUndo(`규칙 수정: ${ruleId}`, () => set((s) => ({
       rules: s.rules.map((r) => (r.ruleId === ruleId ? { ...r, ...updates } : r)),
-    }));
+    })));
     get().persistCurrent().catch(console.error);
   },
 
   deleteRule: (ruleId) => {
-    set((s) => ({ rules: s.rules.filter((r) => r.ruleId !== ruleId) }));
+    withUndo(`규칙 삭제: ${ruleId}`, () => set((s) => ({ rules: s.rules.filter((r) => r.ruleId !== ruleId) })));
     get().persistCurrent().catch(console.error);
   },
 
   // ── 태그 CRUD ──────────────────────────────────────────────────────────────
   upsertTag: (name, tag) => {
-    set((s) => ({
+    const label = name in get().tags.tags ? `태그 수정: ${name}` : `태그 추가: ${name}`;
+    withUndo(label, () => set((s) => ({
       tags: {
         ...s.tags,
         tags: { ...s.tags.tags, [name]: tag },
@@ -182,12 +298,12 @@ export const useDataStore = create<DataStore>((set, get) => ({
           lastUpdated: new Date().toISOString(),
         },
       },
-    }));
+    })));
     get().persistCurrent().catch(console.error);
   },
 
   deleteTag: (name) => {
-    set((s) => {
+    withUndo(`태그 삭제: ${name}`, () => set((s) => {
       const next = { ...s.tags.tags };
       delete next[name];
       return {
@@ -201,70 +317,202 @@ export const useDataStore = create<DataStore>((set, get) => ({
           },
         },
       };
-    });
+    }));
     get().persistCurrent().catch(console.error);
   },
 
   // ── 복합 태그 CRUD ─────────────────────────────────────────────────────────
   upsertCompoundTag: (name, tag) => {
-    set((s) => ({
+    const label = name in get().tags.compoundTags ? `복합 태그 수정: ${name}` : `복합 태그 추가: ${name}`;
+    withUndo(label, () => set((s) => ({
       tags: {
         ...s.tags,
         compoundTags: { ...s.tags.compoundTags, [name]: { ...tag, name } },
       },
-    }));
+    })));
     get().persistCurrent().catch(console.error);
   },
 
   deleteCompoundTag: (name) => {
-    set((s) => {
+    withUndo(`복합 태그 삭제: ${name}`, () => set((s) => {
       const next = { ...s.tags.compoundTags };
       delete next[name];
       return { tags: { ...s.tags, compoundTags: next } };
-    });
+    }));
     get().persistCurrent().catch(console.error);
   },
 
   // ── 태그 카테고리 CRUD ─────────────────────────────────────────────────────
   upsertTagCategory: (id, description) => {
-    set((s) => ({
+    const label = id in get().tags.tagCategories ? `태그 카테고리 수정: ${id}` : `태그 카테고리 추가: ${id}`;
+    withUndo(label, () => set((s) => ({
       tags: {
         ...s.tags,
         tagCategories: { ...s.tags.tagCategories, [id]: description },
       },
-    }));
+    })));
     get().persistCurrent().catch(console.error);
   },
 
   deleteTagCategory: (id) => {
-    set((s) => {
+    withUndo(`태그 카테고리 삭제: ${id}`, () => set((s) => {
       const next = { ...s.tags.tagCategories };
       delete next[id];
       return { tags: { ...s.tags, tagCategories: next } };
-    });
+    }));
     get().persistCurrent().catch(console.error);
   },
 
-  setTags: (tags) => {
-    set({ tags });
+  setTags: (tags, label = '태그 데이터 교체') => {
+    withUndo(label, () => set({ tags }));
     get().persistCurrent().catch(console.error);
   },
 
+  setData: (rules, tags, label = '데이터 가져오기') => {
+    withUndo(label, () => set({ rules, tags }));
+    get().persistCurrent().catch(console.error);
+  },
+
+  // ── 로컬 변경 되돌리기 ────────────────────────────────────────────────────
+  revertToOrigin: async (target) => {
+    const origin = await loadSnapshot('snapshot:origin');
+    if (!origin) throw new Error('마지막 동기화(Pull/Push) 스냅샷(snapshot:origin)이 없습니다. Pull을 먼저 실행하세요.');
+
+    const { rules, tags } = get();
+    const { dataset, reverted } = revertDataset({ rules, tags }, origin, target);
+    if (reverted === 0) return 0;
+
+    const names = [...(target.rules ?? []), ...(target.tags ?? [])];
+    const label = names.length === 1 ? `서버 버전으로 되돌리기: ${names[0]}` : `서버 버전으로 되돌리기: ${reverted}개`;
+    withUndo(label, () => set({ rules: dataset.rules, tags: dataset.tags }));
+    get().persistCurrent().catch(console.error);
+    return reverted;
+  },
+
+  revertRuleField: async (ruleId, field) => {
+    const origin = await loadSnapshot('snapshot:origin');
+    if (!origin) throw new Error('마지막 동기화(Pull/Push) 스냅샷(snapshot:origin)이 없습니다. Pull을 먼저 실행하세요.');
+
+    const next = revertRuleFieldValue(get().rules, origin.rules, ruleId, field);
+    if (!next) return false;
+    withUndo(`필드 되돌리기: ${ruleId}.${field}`, () => set((s) => ({
+      rules: s.rules.map((r) => (r.ruleId === ruleId ? next : r)),
+    })));
+    get().persistCurrent().catch(console.error);
+    return true;
+  },
+
   // ── Push 성공 후 버전 갱신 ────────────────────────────────────────────────
-  applyPushSuccess: async (newVersion, pushedAt) => {
+  applyPushSuccess: async (newVersion, pushedAt, pushed, label) => {
     const { rules, tags } = get();
-    set({ baseVersion: newVersion, lastPushAt: pushedAt });
+    set({ baseVersion: newVersion, lastPushAt: pushedAt, origin: pushed ?? { rules, tags } });
+    // 다른 참가자의 서버 변경 배너에 "누가" Push했는지 표시되도록 알림
+    usePresenceStore.getState().announcePush(newVersion, pushedAt);
+    // 선택 Push면 서버에는 pushed만 반영됨 → origin은 pushed, current는 Push하지 않은 편집을 포함한 로컬 데이터
+    const current: LocalSnapshot = { rules, tags, baseVersion: newVersion, savedAt: pushedAt };
+    const server:  LocalSnapshot = pushed ? { ...pushed, baseVersion: newVersion, savedAt: pushedAt } : current;
     try {
-      await saveAfterPush(
-        { rules, tags, baseVersion: newVersion, savedAt: pushedAt },
-        pushedAt,
-        newVersion,
-      );
+      await saveAfterPush(server, pushedAt, newVersion, current);
+      await addHistoryEntry('push', server, label);
     } catch (error) {
       console.error('[dataStore] applyPushSuccess IndexedDB 저장 실패:', error);
     }
   },
 
+  // ── 3-way 병합 ────────────────────────────────────────────────────────────
+  prepareMerge: async () => {
+    const origin = await loadSnapshot('snapshot:origin');
+    if (!origin) {
+      throw new Error('병합 기준(origin) 스냅샷이 없습니다. Pull을 먼저 실행하세요.');
+    }
+    const pullRes = await pullData();
+    const remote: LocalSnapshot = {
+      rules:       pullRes.rules.items, // ⚠️ .items
+      tags:        pullRes.tags,
+      baseVersion: pullRes.version,
+      savedAt:     pullRes.pulledAt,
+    };
+    const { rules, tags } = get();
+    return { result: mergeDatasets(origin, { rules, tags }, remote), remote };
+  },
+
+  applyMerge: async (merged, remote) => {
+    set({
+      rules:       merged.rules,
+      tags:        merged.tags,
+      baseVersion: remote.baseVersion,
+      lastPullAt:  remote.savedAt,
+      origin:      { rules: remote.rules, tags: remote.tags },
+      undoStack:   [],
+      redoStack:   [],
+    });
+    try {
+      const current = { ...merged, baseVersion: remote.baseVersion, savedAt: new Date().toISOString() };
+      await saveAfterMerge(remote, current);
+      await addHistoryEntry('merge', current, `서버 버전 ${remote.baseVersion}`);
+    } catch (error) {
+      console.error('[dataStore] applyMerge IndexedDB 저장 실패:', error);
+    }
+  },
+
+  // ── 스냅샷 이력 ──────────────────────────────────────────────────────────
+  recordHistory: async (reason, label) => {
+    const { rules, tags, baseVersion } = get();
+    if (baseVersion === null) return;
+    await addHistoryEntry(reason, { rules, tags, baseVersion, savedAt: new Date().toISOString() }, label);
+  },
+
+  restoreHistory: async (id) => {
+    const snapshot = await loadHistorySnapshot(id);
+    if (!snapshot) throw new Error(`이력 #${id}을(를) 찾을 수 없습니다.`);
+
+    await get().recordHistory('restore', `#${id} 복원 전`);
+    withUndo(`이력 #${id} 복원`, () => set({ rules: snapshot.rules, tags: snapshot.tags }));
+    await get().persistCurrent();
+  },
+
+  // ── undo / redo ───────────────────────────────────────────────────────────
+  transact: (label, fn) => {
+    if (inTransaction) {
+      fn();
+      return;
+    }
+    const { rules, tags } = get();
+    inTransaction = true;
+    try {
+      fn();
+    } finally {
+      inTransaction = false;
+    }
+    pushUndo(label, rules, tags);
+  },
+
+  undo: (steps = 1) => {
+    const { rules, tags, undoStack, redoStack } = get();
+    const n = Math.min(steps, undoStack.length);
+    if (n === 0) return;
+
+    // 최신 항목부터 차례로 before 적용
+    const undone = undoStack.slice(-n).reverse();
+    const data   = undone.reduce((acc, e) => applyPatch(acc, e.patch, 'before'), { rules, tags });
+
+    set({ ...data, undoStack: undoStack.slice(0, -n), redoStack: [...redoStack, ...undone] });
+    get().persistCurrent().catch(console.error);
+  },
+
+  redo: (steps = 1) => {
+    const { rules, tags, undoStack, redoStack } = get();
+    const n = Math.min(steps, redoStack.length);
+    if (n === 0) return;
+
+    // 가장 오래전에 되돌린 항목부터 차례로 after 적용
+    const redone = redoStack.slice(-n).reverse();
+    const data   = redone.reduce((acc, e) => applyPatch(acc, e.patch, 'after'), { rules, tags });
+
+    set({ ...data, undoStack: [...undoStack, ...redone], redoStack: redoStack.slice(0, -n) });
+    get().persistCurrent().catch(console.error);
+  },
+
   clearError: () => set({ error: null }),
 
   // ── persistCurrent ─────────────────────────────────────────────────────────
@@ -272,10 +520,15 @@ export const useDataStore = create<DataStore>((set, get) => ({
     const { rules, tags, baseVersion } = get();
     if (baseVersion === null) return;
     try {
-      await saveSnapshot('snapshot:current', {
-        rules, tags, baseVersion,
-        savedAt: new Date().toISOString(),
-      });
+      const snapshot = { rules, tags, baseVersion, savedAt: new Date().toISOString() };
+      await saveSnapshot('snapshot:current', snapshot);
+
+      // 주기적 이력 기록 — 실수로 대량 삭제해도 최대 10분 전 상태로 복원 가능
+      const now = Date.now();
+      if (now - lastAutosaveHistoryAt >= AUTOSAVE_HISTORY_INTERVAL_MS) {
+        lastAutosaveHistoryAt = now;
+        await addHistoryEntry('autosave', snapshot);
+      }
     } catch (error) {
       console.error('[dataStore] persistCurrent 실패:', error);
     }
@@ -306,6 +559,21 @@ export const useVersionInfo = () =>
     })),
   );
 
+let changeSetCache: { origin: DataState['origin']; rules: Rule[]; tags: TagData; result: ChangeSet } | null = null;
+
+function selectChangeSet(s: DataState): ChangeSet {
+  if (!s.origin) return EMPTY_CHANGE_SET;
+  const c = changeSetCache;
+  if (c && c.origin === s.origin && c.rules === s.rules && c.tags === s.tags) return c.result;
+
+  const result = computeChangeSet(s.origin, { rules: s.rules, tags: s.tags });
+  changeSetCache = { origin: s.origin, rules: s.rules, tags: s.tags, result };
+  return result;
+}
+
+/** origin 대비 로컬 변경 집합 (origin이 없으면 빈 집합) */
+export const useChangeSet = () => useDataStore(selectChangeSet);
+
 export const useDataStatus = () =>
   useDataStore(
     useShallow((s) => ({
@@ -0,0 +1,245 @@
+/**
+ * src/stores/outboxStore.ts
+ *
+ * 오프라인 예약 작업(outbox) Zustand 스토어.
+ * 서버에 연결할 수 없을 때 요청한 Push / Pull을 IndexedDB 'outbox'에 쌓아 두고,
+ * 연결이 돌아오면 예약 순서대로 다시 실행(replay)합니다.
+ *
+ * Push 재실행 절차:
+ *   1. 데이터 검사(dataLint) — error가 있으면 failed
+ *   2. Diff — hasConflict(서버가 baseVersion 이후 변경됨)면 conflict
+ *      변경사항이 없으면 Push 없이 done
+ *   3. Push(force 없음) — VERSION_CONFLICT면 conflict, 성공하면 applyPushSuccess(메모는 Push 이력 설명)
+ * Push는 예약 시점이 아니라 실행 시점의 로컬 데이터를 올립니다 (예약 후 편집도 함께 반영).
+ * Pull은 실행 시점에 Push하지 않은 로컬 변경이 있으면 덮어쓰지 않고 conflict로 멈춥니다.
+ *
+ * conflict / failed가 나면 뒤의 작업은 queued로 남기고 멈춥니다 — 앞선 작업 결과에 기대는 경우가 많기 때문입니다.
+ * 충돌은 동기화 페이지의 3-way 병합으로 해결한 뒤 "다시 시도"로 queued에 되돌려 실행합니다.
+ * 상태가 바뀔 때마다 OutboxItem.events에 시각과 설명을 남깁니다.
+ */
+import { create } from 'zustand';
+import { diffData, pushData } from '@/api/dataApi';
+import {
+  addOutboxItem,
+  deleteOutboxItems,
+  listOutbox,
+  loadMeta,
+  saveMeta,
+  saveOutboxItem,
+  type OutboxItem,
+  type OutboxKind,
+  type OutboxStatus,
+} from '@/storage/idbStorage';
+import { useDataStore } from '@/stores/dataStore';
+import { isPushConflict } from '@/types/api';
+import type { DiffResponse } from '@/types/api';
+import { computeChangeSet } from '@/utils/changeSet';
+import { lintDataset } from '@/utils/dataLint';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const OUTBOX_KIND_LABELS: Record<OutboxKind, string> = {
+  push: 'Push',
+  pull: 'Pull',
+};
+
+export const OUTBOX_STATUS_LABELS: Record<OutboxStatus, string> = {
+  queued:    '대기',
+  running:   '실행 중',
+  done:      '완료',
+  conflict:  '버전 충돌',
+  failed:    '실패',
+  cancelled: '취소됨',
+};
+
+export const OUTBOX_STATUS_COLORS: Record<OutboxStatus, string> = {
+  queued:    'default',
+  running:   'processing',
+  done:      'success',
+  conflict:  'warning',
+  failed:    'error',
+  cancelled: 'default',
+};
+
+/** 재실행 결과 요약 */
+export interface ReplaySummary {
+  done:    number;
+  /** 멈춘 작업 (conflict / failed). 끝까지 실행했으면 null */
+  stopped: OutboxItem | null;
+}
+
+interface OutboxState {
+  /** 예약 순서(id 오름차순) */
+  items:       OutboxItem[];
+  isLoaded:    boolean;
+  isReplaying: boolean;
+  /** 재연결 시 확인 없이 바로 실행 */
+  autoReplay:  boolean;
+}
+
+interface OutboxActions {
+  load:          () => Promise<void>;
+  enqueue:       (kind: OutboxKind, message?: string) => Promise<void>;
+  /** conflict / failed / cancelled 작업을 다시 queued로 */
+  retry:         (id: number) => Promise<void>;
+  cancel:        (id: number) => Promise<void>;
+  /** done / cancelled 작업을 목록에서 삭제 */
+  clearFinished: () => Promise<void>;
+  setAutoReplay: (on: boolean) => Promise<void>;
+  replay:        () => Promise<ReplaySummary>;
+}
+
+type OutboxStore = OutboxState & OutboxActions;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 헬퍼
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 아직 처리되지 않은 작업 — 배너 / 재연결 안내 대상 */
+export const isPendingOutboxItem = (item: OutboxItem) =>
+  item.status === 'queued' || item.status === 'conflict' || item.status === 'failed';
+
+function withStatus(item: OutboxItem, status: OutboxStatus, message?: string): OutboxItem {
+  return { ...item, status, events: [...item.events, { at: new Date().toISOString(), status, message }] };
+}
+
+function summarizeDiff(diff: DiffResponse): { total: number; text: string } {
+  const r = diff.rules.summary;
+  const t = diff.tags.summary;
+  return {
+    total: r.addedCount + r.modifiedCount + r.deletedCount + t.addedCount + t.modifiedCount + t.deletedCount,
+    text:  `규칙 +${r.addedCount} ~${r.modifiedCount} -${r.deletedCount}, 태그 +${t.addedCount} ~${t.modifiedCount} -${t.deletedCount}`,
+  };
+}
+
+/** 작업 하나 실행 — 상태가 바뀔 때마다 update로 저장 */
+async function runItem(item: OutboxItem, update: (next: OutboxItem) => Promise<OutboxItem>): Promise<OutboxItem> {
+  let current = await update(withStatus(item, 'running', '실행 시작'));
+  const data  = useDataStore.getState();
+
+  if (item.kind === 'pull') {
+    // 오프라인 중 편집을 조용히 덮어쓰지 않도록 — Push 경로처럼 멈추고 사용자가 결정
+    const localChanges = data.origin ? computeChangeSet(data.origin, { rules: data.rules, tags: data.tags }).total : 0;
+    if (localChanges > 0) {
+      return update(withStatus(current, 'conflict',
+        `Push하지 않은 로컬 변경 ${localChanges}건이 있습니다. Push 또는 3-way 병합으로 정리한 뒤 다시 시도하세요.`));
+    }
+    await data.pull();
+    return update(withStatus(current, 'done', `Pull 완료 — 버전 ${useDataStore.getState().baseVersion}`));
+  }
+
+  const { rules, tags, baseVersion } = data;
+  if (baseVersion === null) return update(withStatus(current, 'failed', 'Pull 데이터가 없습니다. Pull을 먼저 실행하세요.'));
+
+  const lint = lintDataset(rules, tags);
+  if (lint.errorCount > 0) {
+    return update(withStatus(current, 'failed', `데이터 검사 오류 ${lint.errorCount}건 — 수정 후 다시 시도하세요.`));
+  }
+
+  const diff    = await diffData({ baseVersion, rules, tags });
+  const summary = summarizeDiff(diff);
+  if (diff.hasConflict) {
+    return update(withStatus(current, 'conflict',
+      `서버 버전 ${diff.currentVersion}이(가) baseVersion ${baseVersion}보다 최신입니다. 3-way 병합 후 다시 시도하세요.`));
+  }
+  if (summary.total === 0) return update(withStatus(current, 'done', '서버와 같습니다 — Push 생략'));
+  current = await update(withStatus(current, 'running', `Diff: ${summary.text}`));
+
+  const response = await pushData({ baseVersion, rules, tags, force: false });
+  if (isPushConflict(response)) {
+    return update(withStatus(current, 'conflict', `${response.message} (서버 버전 ${response.currentVersion})`));
+  }
+  // origin은 실제로 보낸 데이터 — 요청 중에 한 편집은 Push되지 않았으므로 변경 집합에 남아야 함
+  await data.applyPushSuccess(response.newVersion, response.pushedAt, { rules, tags }, item.message || undefined);
+  return update(withStatus(current, 'done', `Push 완료 — 새 버전 ${response.newVersion}`));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 스토어
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const useOutboxStore = create<OutboxStore>((set, get) => {
+  /** 작업 하나를 IndexedDB와 상태에 함께 반영 */
+  const update = async (next: OutboxItem) => {
+    set((s) => ({ items: s.items.map((i) => (i.id === next.id ? next : i)) }));
+    await saveOutboxItem(next);
+    return next;
+  };
+
+  return {
+    items:       [],
+    isLoaded:    false,
+    isReplaying: false,
+    autoReplay:  false,
+
+    load: async () => {
+      const [items, autoReplay] = await Promise.all([listOutbox(), loadMeta('meta:outboxAutoReplay')]);
+      // 실행 도중 탭이 닫힌 작업은 결과를 알 수 없으므로 실패로 기록 (다시 시도 가능)
+      const restored = await Promise.all(items.map((item) => (item.status === 'running'
+        ? update(withStatus(item, 'failed', '실행 중 앱이 종료되었습니다.'))
+        : item)));
+      set({ items: restored, autoReplay: autoReplay ?? false, isLoaded: true });
+    },
+
+    enqueue: async (kind, message = '') => {
+      const createdAt = new Date().toISOString();
+      const draft: Omit<OutboxItem, 'id'> = {
+        kind, message, createdAt, status: 'queued', events: [{ at: createdAt, status: 'queued', message: '예약됨' }],
+      };
+      const id = await addOutboxItem(draft);
+      set((s) => ({ items: [...s.items, { ...draft, id }] }));
+    },
+
+    retry: async (id) => {
+      const item = get().items.find((i) => i.id === id);
+      if (!item || item.status === 'queued' || item.status === 'running') return;
+      await update(withStatus(item, 'queued', '다시 시도 예약'));
+    },
+
+    cancel: async (id) => {
+      const item = get().items.find((i) => i.id === id);
+      if (!item || item.status === 'running' || item.status === 'done') return;
+      await update(withStatus(item, 'cancelled', '사용자가 취소'));
+    },
+
+    clearFinished: async () => {
+      const ids = get().items.filter((i) => i.status === 'done' || i.status === 'cancelled').map((i) => i.id);
+      if (ids.length === 0) return;
+      await deleteOutboxItems(ids);
+      set((s) => ({ items: s.items.filter((i) => !ids.includes(i.id)) }));
+    },
+
+    setAutoReplay: async (on) => {
+      set({ autoReplay: on });
+      await saveMeta('meta:outboxAutoReplay', on);
+    },
+
+    replay: async () => {
+      const summary: ReplaySummary = { done: 0, stopped: null };
+      if (get().isReplaying) return summary;
+      set({ isReplaying: true });
+      try {
+        for (const item of get().items.filter((i) => i.status === 'queued')) {
+          let result: OutboxItem;
+          try {
+            result = await runItem(item, update);
+          } catch (error) {
+            console.error(`[outboxStore] 예약 작업 #${item.id} 실행 실패:`, error);
+            const latest = get().items.find((i) => i.id === item.id) ?? item;
+            result = await update(withStatus(latest, 'failed', error instanceof Error ? error.message : '실행 실패'));
+          }
+          if (result.status !== 'done') {
+            summary.stopped = result;
+            break;
+          }
+          summary.done++;
+        }
+      } finally {
+        set({ isReplaying: false });
+      }
+      return summary;
+    },
+  };
+});
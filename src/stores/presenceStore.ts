@@ -0,0 +1,192 @@
+/**
+ * src/stores/presenceStore.ts
+ *
+ * 다른 탭 / 동료의 접속 상태(presence)와 규칙 편집 소프트 락 Zustand 스토어.
+ *
+ * 프로토콜 (Transport<PresenceMessage>):
+ *   - hello    : 접속 직후 전송. 받은 쪽은 자기 presence로 응답
+ *   - presence : 상태 변경 시 + HEARTBEAT_MS 간격으로 전송
+ *   - bye      : 탭을 닫을 때 전송
+ *   - pushed   : Push 성공 직후 전송. 받은 쪽은 lastPeerPush로 보관 (서버 변경 배너의 "누가")
+ *   PEER_TIMEOUT_MS 동안 소식이 없는 참가자는 목록에서 제거합니다 (bye 유실 대비).
+ *
+ * "소프트" 락: 편집을 막지 않고 RulesPage / RuleEditPage에 "다른 탭에서 편집 중" 표시만 합니다.
+ * Transport는 기본으로 BroadcastChannel(같은 브라우저의 탭)이며,
+ * 서버 채널이나 createMockTransportHub()로 바꿔 연결할 수 있습니다.
+ */
+import { create } from 'zustand';
+import { loadMeta, saveMeta } from '@/storage/idbStorage';
+import type { Transport } from '@/realtime/transport';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입 정의
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PeerInfo {
+  /** 탭마다 고유한 ID (새로고침 시 새로 발급) */
+  clientId:      string;
+  /** 표시 이름 */
+  userName:      string;
+  /** 편집 중인 규칙 (RuleEditPage) */
+  editingRuleId: string | null;
+}
+
+export type PresenceMessage =
+  | { type: 'hello';    peer: PeerInfo }
+  | { type: 'presence'; peer: PeerInfo }
+  | { type: 'bye';      clientId: string }
+  | { type: 'pushed';   push: PushNotice };
+
+/** 다른 참가자의 Push 알림 */
+export interface PushNotice {
+  userName: string;
+  /** Push로 할당된 데이터 버전 */
+  version:  number;
+  pushedAt: string;
+}
+
+interface PresenceState {
+  self:      PeerInfo;
+  /** 다른 참가자 (clientId → 정보 + 마지막 수신 시각) */
+  peers:     Record<string, PeerInfo & { lastSeen: number }>;
+  connected: boolean;
+  /** 마지막으로 받은 다른 참가자의 Push 알림 */
+  lastPeerPush: PushNotice | null;
+}
+
+interface PresenceActions {
+  /** transport에 연결. 반환 함수로 연결 해제 (기존 연결은 먼저 해제) */
+  connectPresence: (transport: Transport<PresenceMessage>) => () => void;
+  setEditing:      (ruleId: string | null) => void;
+  setUserName:     (name: string) => void;
+  /** 내 Push 성공을 다른 참가자에게 알림 */
+  announcePush:    (version: number, pushedAt: string) => void;
+}
+
+type PresenceStore = PresenceState & PresenceActions;
+
+const HEARTBEAT_MS    = 5_000;
+const PEER_TIMEOUT_MS = 15_000;
+
+const CLIENT_ID = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : Math.random().toString(36).slice(2);
+
+/** 이름을 정하기 전 기본 표시 이름 */
+const defaultUserName = () => `탭 ${CLIENT_ID.slice(0, 4)}`;
+
+// 현재 연결 (모듈 단위 싱글턴 — idbStorage의 dbInstance와 같은 방식)
+let transport: Transport<PresenceMessage> | null = null;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 스토어
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const usePresenceStore = create<PresenceStore>((set, get) => {
+  const announce = (type: 'hello' | 'presence') => transport?.send({ type, peer: get().self });
+
+  const upsertPeer = (peer: PeerInfo) =>
+    set((s) => ({ peers: { ...s.peers, [peer.clientId]: { ...peer, lastSeen: Date.now() } } }));
+
+  const removePeer = (clientId: string) =>
+    set((s) => {
+      if (!(clientId in s.peers)) return s;
+      const next = { ...s.peers };
+      delete next[clientId];
+      return { peers: next };
+    });
+
+  const handleMessage = (message: PresenceMessage) => {
+    switch (message.type) {
+      case 'hello':
+        upsertPeer(message.peer);
+        announce('presence');
+        break;
+      case 'presence':
+        upsertPeer(message.peer);
+        break;
+      case 'bye':
+        removePeer(message.clientId);
+        break;
+      case 'pushed':
+        set({ lastPeerPush: message.push });
+        break;
+    }
+  };
+
+  return {
+    self:      { clientId: CLIENT_ID, userName: defaultUserName(), editingRuleId: null },
+    peers:     {},
+    connected: false,
+    lastPeerPush: null,
+
+    connectPresence: (next) => {
+      transport?.send({ type: 'bye', clientId: CLIENT_ID });
+      transport?.close();
+      transport = next;
+
+      const unsubscribe = next.subscribe(handleMessage);
+      set({ peers: {}, connected: true });
+      announce('hello');
+
+      // 저장된 표시 이름 복원 후 다시 알림
+      loadMeta('meta:userName')
+        .then((name) => {
+          if (name && transport === next) {
+            set((s) => ({ self: { ...s.self, userName: name } }));
+            announce('presence');
+          }
+        })
+        .catch((err) => console.error('[presenceStore] 표시 이름 불러오기 실패:', err));
+
+      const heartbeat = setInterval(() => {
+        announce('presence');
+        const cutoff = Date.now() - PEER_TIMEOUT_MS;
+        Object.values(get().peers)
+          .filter((p) => p.lastSeen < cutoff)
+          .forEach((p) => removePeer(p.clientId));
+      }, HEARTBEAT_MS);
+
+      const sayBye = () => next.send({ type: 'bye', clientId: CLIENT_ID });
+      window.addEventListener('pagehide', sayBye);
+
+      return () => {
+        clearInterval(heartbeat);
+        window.removeEventListener('pagehide', sayBye);
+        unsubscribe();
+        if (transport === next) {
+          sayBye();
+          next.close();
+          transport = null;
+          set({ peers: {}, connected: false });
+        }
+      };
+    },
+
+    setEditing: (ruleId) => {
+      if (get().self.editingRuleId === ruleId) return;
+      set((s) => ({ self: { ...s.self, editingRuleId: ruleId } }));
+      announce('presence');
+    },
+
+    setUserName: (name) => {
+      const userName = name.trim() || defaultUserName();
+      set((s) => ({ self: { ...s.self, userName } }));
+      announce('presence');
+      saveMeta('meta:userName', userName).catch((err) =>
+        console.error('[presenceStore] 표시 이름 저장 실패:', err));
+    },
+
+    announcePush: (version, pushedAt) =>
+      transport?.send({ type: 'pushed', push: { userName: get().self.userName, version, pushedAt } }),
+  };
+});
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 셀렉터
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** ruleId를 편집 중인 다른 참가자 목록 */
+export function editorsOf(peers: PresenceState['peers'], ruleId: string): PeerInfo[] {
+  return Object.values(peers).filter((p) => p.editingRuleId === ruleId);
+}
@@ -0,0 +1,121 @@
+/**
+ * src/stores/remoteStore.ts
+ *
+ * 서버 데이터 변경 감지 Zustand 스토어.
+ * 다른 사람이 Push해 서버 버전이 로컬 baseVersion보다 앞서면 그 서버 데이터를 보관합니다.
+ * RemoteUpdateBanner가 이를 보고 "서버에 새 데이터" 배너와 변경 미리보기를 띄웁니다.
+ *
+ * 서버에는 데이터 버전만 돌려주는 엔드포인트가 없어 GET /api/data/pull로 확인합니다.
+ * 전체 데이터를 받으므로 usePollHealth의 health 폴링보다 드물게(CHECK_INTERVAL_MS) 실행하고,
+ * 받은 데이터는 미리보기 Diff에 그대로 재사용합니다 (미리보기 때 다시 요청하지 않음).
+ *
+ * 탭 간 공유 (connectRemote, CHANNEL_NAMES.remote):
+ *   - checking : 확인을 시작한 탭이 전송. 받은 탭은 checkedAt을 갱신해 같은 간격 안에서는 직접 확인하지 않음
+ *   - checked  : 받은 서버 데이터를 전송. 받은 탭은 자기 baseVersion과 비교해 새로울 때만 보관
+ * 그래서 탭을 여러 개 열어도 간격마다 한 탭만 전체 데이터를 받습니다.
+ *
+ * 버전은 Push 시각(Unix ms)이므로 "언제" Push됐는지는 버전에서 읽습니다.
+ * "누가"는 서버가 알려주지 않아 presence 채널로 받은 Push 알림(presenceStore.lastPeerPush)이 있을 때만 표시합니다.
+ */
+import { create } from 'zustand';
+import { pullData } from '@/api/dataApi';
+import { useDataStore } from '@/stores/dataStore';
+import type { Transport } from '@/realtime/transport';
+import type { LocalSnapshot } from '@/types/api';
+
+/** 서버 변경 확인 최소 간격 */
+const CHECK_INTERVAL_MS = 2 * 60 * 1_000;
+
+interface RemoteState {
+  /** 로컬 baseVersion보다 새로운 서버 데이터 (없으면 null) */
+  remote:     LocalSnapshot | null;
+  /** 마지막 확인 시각 (ISO datetime) */
+  checkedAt:  string | null;
+  isChecking: boolean;
+}
+
+export type RemoteMessage =
+  | { type: 'checking'; at: string }
+  | { type: 'checked';  server: LocalSnapshot; checkedAt: string };
+
+interface RemoteActions {
+  /** 다른 탭과 확인 시각 / 결과를 공유할 transport에 연결. 반환 함수로 연결 해제 */
+  connectRemote: (transport: Transport<RemoteMessage>) => () => void;
+  /** 서버 버전 확인. force가 아니면 CHECK_INTERVAL_MS 안의 재확인 / 숨겨진 탭에서는 건너뜀 */
+  checkRemote: (force?: boolean) => Promise<void>;
+}
+
+type RemoteStore = RemoteState & RemoteActions;
+
+// 현재 연결 (presenceStore와 같은 모듈 단위 싱글턴)
+let transport: Transport<RemoteMessage> | null = null;
+
+/** 서버 데이터가 이 탭의 baseVersion보다 새로우면 그대로, 아니면 null */
+function newerThanLocal(server: LocalSnapshot): LocalSnapshot | null {
+  const current = useDataStore.getState().baseVersion;
+  return current !== null && server.baseVersion > current ? server : null;
+}
+
+export const useRemoteStore = create<RemoteStore>((set, get) => ({
+  remote:     null,
+  checkedAt:  null,
+  isChecking: false,
+
+  connectRemote: (next) => {
+    transport?.close();
+    transport = next;
+    const unsubscribe = next.subscribe((message) => {
+      if (message.type === 'checking') {
+        set({ checkedAt: message.at });
+        return;
+      }
+      // 탭마다 Pull / Push 시점이 달라 baseVersion이 다를 수 있으므로 이 탭 기준으로 판단
+      set({ remote: newerThanLocal(message.server), checkedAt: message.checkedAt });
+    });
+    return () => {
+      unsubscribe();
+      if (transport === next) {
+        next.close();
+        transport = null;
+      }
+    };
+  },
+
+  checkRemote: async (force = false) => {
+    const { baseVersion, isHydrated } = useDataStore.getState();
+    const { checkedAt, isChecking } = get();
+    if (!isHydrated || baseVersion === null || isChecking) return;
+    if (!force) {
+      if (typeof document !== 'undefined' && document.hidden) return;
+      if (checkedAt && Date.now() - new Date(checkedAt).getTime() < CHECK_INTERVAL_MS) return;
+    }
+
+    set({ isChecking: true });
+    transport?.send({ type: 'checking', at: new Date().toISOString() });
+    try {
+      const pullRes = await pullData();
+      const server: LocalSnapshot = {
+        rules: pullRes.rules.items, tags: pullRes.tags, baseVersion: pullRes.version, savedAt: pullRes.pulledAt,
+      };
+      const checkedAt = new Date().toISOString();
+      // 요청 중에 Pull / Push로 baseVersion이 바뀌었을 수 있으므로 응답 시점 값과 비교
+      set({ remote: newerThanLocal(server), checkedAt });
+      transport?.send({ type: 'checked', server, checkedAt });
+    } catch (error) {
+      // 연결 끊김은 usePollHealth가 오프라인 배너로 알리므로 기록만 남김
+      console.error('[remoteStore] 서버 버전 확인 실패:', error);
+    } finally {
+      set({ isChecking: false });
+    }
+  },
+}));
+
+/**
+ * 아직 반영하지 않은 서버 데이터.
+ * Pull / Push / 병합으로 baseVersion이 따라잡으면 다시 확인하지 않아도 바로 null이 됩니다.
+ */
+export function useRemoteUpdate(): LocalSnapshot | null {
+  const remote      = useRemoteStore((s) => s.remote);
+  const baseVersion = useDataStore((s) => s.baseVersion);
+  return remote && baseVersion !== null && remote.baseVersion > baseVersion ? remote : null;
+}
@@ -6,6 +6,7 @@
  * 책임:
  *   - 서버 연결 상태 (serverConnected, lastCheckedAt)
  *   - 토스트 알림 큐 (notifications[])
+ *   - 명령 팔레트 열림 여부 (헤더 버튼 / Ctrl+K 공용)
  *
  * 서버 연결 폴링은 App.tsx(AppInner)에서 usePollHealth()로 30초 간격 실행합니다.
  *
@@ -48,6 +49,9 @@ interface UiState {
 
   // ── 알림 큐 ────────────────────────────────────────────────────────────────
   notifications: Notification[];
+
+  // ── 명령 팔레트 ────────────────────────────────────────────────────────────
+  commandPaletteOpen: boolean;
 }
 
 interface UiActions {
@@ -83,6 +87,9 @@ interface UiActions {
 
   /** 정보 알림 */
   notifyInfo: (title: string, message?: string) => void;
+
+  // ── 명령 팔레트 ────────────────────────────────────────────────────────────
+  setCommandPaletteOpen: (open: boolean) => void;
 }
 
 type UiStore = UiState & UiActions;
@@ -104,6 +111,7 @@ export const useUiStore = create<UiStore>((set, get) => ({
   lastCheckedAt: null,
   serverVersion: null,
   notifications: [],
+  commandPaletteOpen: false,
 
   // ── 서버 상태 액션 ──────────────────────────────────────────────────────────
   setServerStatus: (status) => set({ serverStatus: status }),
@@ -156,6 +164,9 @@ export const useUiStore = create<UiStore>((set, get) => ({
 
   notifyInfo: (title, message) =>
     get().addNotification({ type: 'info', title, message }),
+
+  // ── 명령 팔레트 ─────────────────────────────────────────────────────────────
+  setCommandPaletteOpen: (open) => set({ commandPaletteOpen: open }),
 }));
 
 // ─────────────────────────────────────────────────────────────────────────────
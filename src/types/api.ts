@@ -160,7 +160,7 @@ export interface RuleDiffDeleted {
 /** 규칙 필드 단위 변경 상세 */
 export interface RuleFieldChange {
   /** 변경된 필드명 (예: "severity", "message") */
-  field: string;
+  field: keyof Rule;
   /** 로컬(편집 후) 값 */
   local: unknown;
   /** 서버(현재) 값 */
@@ -0,0 +1,171 @@
+/**
+ * src/utils/bulkEdit.ts
+ *
+ * 규칙 일괄 편집 계산.
+ * BulkEditSpec(무엇을 바꿀지)을 선택한 규칙마다 적용해 필드 단위 변경 목록을 만듭니다.
+ * 실제 반영은 호출 측에서 dataStore.transact() 안에서 updateRule()로 수행합니다.
+ *
+ * 지원 작업:
+ *   - severity / category / checkType / isActive 일괄 설정
+ *   - requiredTags / excludeTags / keywords 항목 추가 · 제거
+ *   - tagCondition에 "&& 조건" 덧붙이기 (AST로 합쳐 필요한 괄호만 추가)
+ *   - message / suggestion / description 찾아 바꾸기 (일반 문자열 또는 정규식)
+ */
+import type { Rule, RuleCategory, RuleCheckType, RuleSeverity } from '@/types/rule';
+import { parseTagExpression, printTagExpression } from '@/utils/tagExpression';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type BulkListField = 'requiredTags' | 'excludeTags' | 'keywords';
+export type BulkTextField = 'message' | 'suggestion' | 'description';
+
+export interface ListEdit {
+  add:    string[];
+  remove: string[];
+}
+
+export interface FindReplace {
+  find:          string;
+  replace:       string;
+  fields:        BulkTextField[];
+  useRegex:      boolean;
+  caseSensitive: boolean;
+}
+
+export interface BulkEditSpec {
+  severity?:           RuleSeverity;
+  category?:           RuleCategory;
+  checkType?:          RuleCheckType;
+  isActive?:           boolean;
+  lists:               Record<BulkListField, ListEdit>;
+  /** tagCondition에 && 로 덧붙일 조건식 */
+  appendTagCondition?: string;
+  findReplace?:        FindReplace;
+}
+
+export interface BulkFieldChange {
+  ruleId: string;
+  field:  keyof Rule;
+  before: unknown;
+  after:  unknown;
+}
+
+export interface BulkEditPlan {
+  /** ruleId → updateRule()에 넘길 변경 필드 */
+  updates: Record<string, Partial<Rule>>;
+  changes: BulkFieldChange[];
+  /** 적용하지 못한 규칙 (예: 기존 tagCondition 구문 오류) */
+  skipped: { ruleId: string; reason: string }[];
+}
+
+export const BULK_LIST_FIELD_LABELS: Record<BulkListField, string> = {
+  requiredTags: '필수 태그',
+  excludeTags:  '제외 태그',
+  keywords:     '키워드',
+};
+
+export const BULK_TEXT_FIELD_LABELS: Record<BulkTextField, string> = {
+  message:     '메시지',
+  suggestion:  '개선 제안',
+  description: '설명',
+};
+
+export const EMPTY_BULK_EDIT: BulkEditSpec = {
+  lists: {
+    requiredTags: { add: [], remove: [] },
+    excludeTags:  { add: [], remove: [] },
+    keywords:     { add: [], remove: [] },
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 검증
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 찾을 문자열을 RegExp로 만듭니다. 정규식이 잘못되었으면 error 메시지 반환
+ */
+export function buildFindPattern(fr: FindReplace): { pattern?: RegExp; error?: string } {
+  if (!fr.find) return {};
+  const source = fr.useRegex ? fr.find : fr.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return { pattern: new RegExp(source, fr.caseSensitive ? 'g' : 'gi') };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** 덧붙일 조건식 검증. 문제가 없으면 null */
+export function checkAppendCondition(expr: string | undefined): string | null {
+  if (!expr?.trim()) return null;
+  const parsed = parseTagExpression(expr);
+  return parsed.ok ? null : parsed.error.message;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 계산
+// ─────────────────────────────────────────────────────────────────────────────
+
+function editList(current: string[], edit: ListEdit): string[] {
+  const removed = current.filter((v) => !edit.remove.includes(v));
+  return [...removed, ...edit.add.filter((v) => !removed.includes(v))];
+}
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+/**
+ * 선택한 규칙에 spec을 적용한 결과를 계산합니다 (스토어는 변경하지 않음).
+ */
+export function planBulkEdit(rules: Rule[], spec: BulkEditSpec): BulkEditPlan {
+  const plan: BulkEditPlan = { updates: {}, changes: [], skipped: [] };
+
+  const appendParsed = spec.appendTagCondition?.trim() ? parseTagExpression(spec.appendTagCondition) : null;
+  const appendAst    = appendParsed?.ok ? appendParsed.ast : null;
+  const findPattern  = spec.findReplace ? buildFindPattern(spec.findReplace).pattern : undefined;
+
+  for (const rule of rules) {
+    const update: Partial<Rule> = {};
+    const set = <K extends keyof Rule>(field: K, value: Rule[K]) => {
+      update[field] = value;
+      plan.changes.push({ ruleId: rule.ruleId, field, before: rule[field], after: value });
+    };
+
+    if (spec.severity  !== undefined && rule.severity  !== spec.severity)  set('severity', spec.severity);
+    if (spec.category  !== undefined && rule.category  !== spec.category)  set('category', spec.category);
+    if (spec.checkType !== undefined && rule.checkType !== spec.checkType) set('checkType', spec.checkType);
+    if (spec.isActive  !== undefined && rule.isActive  !== spec.isActive)  set('isActive', spec.isActive);
+
+    for (const field of Object.keys(spec.lists) as BulkListField[]) {
+      const next = editList(rule[field], spec.lists[field]);
+      if (!sameList(next, rule[field])) set(field, next);
+    }
+
+    if (appendAst) {
+      const current = parseTagExpression(rule.tagCondition);
+      if (!current.ok) {
+        plan.skipped.push({ ruleId: rule.ruleId, reason: `기존 tagCondition 구문 오류: ${current.error.message}` });
+      } else {
+        const merged = current.ast
+          ? printTagExpression({ type: 'and', left: current.ast, right: appendAst, start: 0, end: 0 })
+          : printTagExpression(appendAst);
+        if (merged !== rule.tagCondition) set('tagCondition', merged);
+      }
+    }
+
+    if (findPattern && spec.findReplace) {
+      const { replace, useRegex } = spec.findReplace;
+      for (const field of spec.findReplace.fields) {
+        // 일반 문자열 모드에서는 바꿀 문자열의 $&, $1 등을 치환하지 않고 그대로 넣음
+        const next = useRegex
+          ? rule[field].replace(findPattern, replace)
+          : rule[field].replace(findPattern, () => replace);
+        if (next !== rule[field]) set(field, next);
+      }
+    }
+
+    if (Object.keys(update).length > 0) plan.updates[rule.ruleId] = update;
+  }
+  return plan;
+}
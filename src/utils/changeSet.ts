@@ -0,0 +1,97 @@
+/**
+ * src/utils/changeSet.ts
+ *
+ * 로컬 변경 집합 (change-set).
+ * 마지막 Pull / Push 데이터(snapshot:origin)와 현재 편집본을 비교해 규칙 · 태그별 상태를 계산합니다.
+ * RulesPage / TagsPage 행 배지, "변경된 항목만" 필터, 사이드바 동기화 메뉴의 대기 건수에 사용합니다.
+ *
+ * localDiff와 판정 기준은 같지만 필드별 변경 목록은 만들지 않습니다. 편집할 때마다 다시 계산하므로
+ * 참조가 같은 항목(스토어가 건드리지 않은 항목)은 deepEqual 없이 unchanged로 처리합니다.
+ */
+import type { Rule } from '@/types/rule';
+import type { TagData, TagDefinition } from '@/types/tag';
+import { deepEqual } from '@/utils/deepEqual';
+import { hasTagMetaChanges, type PushDataset } from '@/utils/selectivePush';
+
+export type ChangeStatus = 'added' | 'modified' | 'deleted';
+
+export const CHANGE_STATUS_LABELS: Record<ChangeStatus, string> = {
+  added:    '새 항목',
+  modified: '수정됨',
+  deleted:  '삭제됨 — Push 대기',
+};
+
+export const CHANGE_STATUS_COLORS: Record<ChangeStatus, string> = {
+  added:    'success',
+  modified: 'warning',
+  deleted:  'error',
+};
+
+export interface ChangeSet {
+  /** ruleId → 상태 (변경 없는 규칙은 없음) */
+  rules:        ReadonlyMap<string, ChangeStatus>;
+  /** tags 항목 이름 → 상태 */
+  tags:         ReadonlyMap<string, ChangeStatus>;
+  /** 로컬에서 삭제된 규칙 (origin 값, origin 순서) */
+  deletedRules: Rule[];
+  /** 로컬에서 삭제된 태그 (origin 값) */
+  deletedTags:  { name: string; tag: TagDefinition }[];
+  /** compoundTags / tagCategories 변경 여부 */
+  tagMetaChanged: boolean;
+  /** 규칙 + 태그 변경 수 (+ tagMeta 변경이 있으면 1) */
+  total:        number;
+}
+
+export const EMPTY_CHANGE_SET: ChangeSet = {
+  rules:          new Map(),
+  tags:           new Map(),
+  deletedRules:   [],
+  deletedTags:    [],
+  tagMetaChanged: false,
+  total:          0,
+};
+
+function ruleChanges(origin: Rule[], current: Rule[]) {
+  const originById = new Map(origin.map((r) => [r.ruleId, r]));
+  const currentIds = new Set(current.map((r) => r.ruleId));
+  const statuses   = new Map<string, ChangeStatus>();
+
+  for (const rule of current) {
+    const prev = originById.get(rule.ruleId);
+    if (!prev)                                           statuses.set(rule.ruleId, 'added');
+    else if (prev !== rule && !deepEqual(prev, rule))    statuses.set(rule.ruleId, 'modified');
+  }
+  const deleted = origin.filter((r) => !currentIds.has(r.ruleId));
+  deleted.forEach((r) => statuses.set(r.ruleId, 'deleted'));
+  return { statuses, deleted };
+}
+
+function tagChanges(origin: TagData, current: TagData) {
+  const statuses = new Map<string, ChangeStatus>();
+
+  for (const [name, tag] of Object.entries(current.tags)) {
+    const prev = origin.tags[name];
+    if (!prev)                                        statuses.set(name, 'added');
+    else if (prev !== tag && !deepEqual(prev, tag))   statuses.set(name, 'modified');
+  }
+  const deleted = Object.entries(origin.tags)
+    .filter(([name]) => !(name in current.tags))
+    .map(([name, tag]) => ({ name, tag }));
+  deleted.forEach(({ name }) => statuses.set(name, 'deleted'));
+  return { statuses, deleted };
+}
+
+export function computeChangeSet(origin: PushDataset, current: PushDataset): ChangeSet {
+  const r = ruleChanges(origin.rules, current.rules);
+  const t = tagChanges(origin.tags, current.tags);
+  const tagMetaChanged = hasTagMetaChanges(origin, current);
+
+  return {
+    rules:        r.statuses,
+    tags:         t.statuses,
+    deletedRules: r.deleted,
+    deletedTags:  t.deleted,
+    tagMetaChanged,
+    total:        r.statuses.size + t.statuses.size + (tagMetaChanged ? 1 : 0),
+  };
+}
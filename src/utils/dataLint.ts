@@ -0,0 +1,231 @@
+/**
+ * src/utils/dataLint.ts
+ *
+ * 로컬 데이터셋(rules + TagData) 참조 무결성 검사.
+ * LintPage에 전체 목록을 표시하고, PushConfirm에서는 error가 하나라도 있으면 Push를 막습니다.
+ *
+ * 검사 항목:
+ *   [error]   규칙 ruleId 중복
+ *   [error]   tagCondition 구문 오류 / 정의되지 않은 태그 참조
+ *   [error]   requiredTags / excludeTags가 정의되지 않은 태그 참조
+ *   [error]   antiPatterns / goodPatterns 정규식 컴파일 실패
+ *   [error]   태그 category가 tagCategories에 없음
+ *   [error]   LlmDetection.triggerTags가 정의되지 않은 태그 참조
+ *   [error]   복합 태그 expression / requires / excludes가 정의되지 않은 태그 참조
+ *   [warning] ruleId가 <프리픽스>.<카테고리약자>.<절번호> 형식이 아님
+ *   [warning] message / suggestion 비어 있음
+ *   [warning] hasTables 값과 tables 개수가 맞지 않음
+ *   [warning] _metadata.totalTags가 실제 태그 수와 다름
+ */
+import type { Rule } from '@/types/rule';
+import { RULE_CATEGORY_ABBR } from '@/types/rule';
+import type { TagData } from '@/types/tag';
+import { compilePattern } from '@/utils/patternTest';
+import { tablesFlagMismatch } from '@/utils/ruleTable';
+import { findUnknownTagRefs, parseTagExpression } from '@/utils/tagExpression';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LintLevel = 'error' | 'warning';
+
+export type LintCode =
+  | 'DUPLICATE_RULE_ID'
+  | 'RULE_ID_FORMAT'
+  | 'EMPTY_MESSAGE'
+  | 'EMPTY_SUGGESTION'
+  | 'TABLES_FLAG_MISMATCH'
+  | 'CONDITION_SYNTAX'
+  | 'DANGLING_TAG_REF'
+  | 'INVALID_PATTERN'
+  | 'UNKNOWN_TAG_CATEGORY'
+  | 'DANGLING_TRIGGER_TAG'
+  | 'STALE_TOTAL_TAGS';
+
+/** 문제가 발생한 위치 — "수정하러 가기" 링크 대상 */
+export type LintTarget =
+  | { kind: 'rule';     ruleId: string }
+  | { kind: 'tag';      name: string }
+  | { kind: 'compound'; name: string }
+  | { kind: 'metadata' };
+
+export interface LintIssue {
+  level:   LintLevel;
+  code:    LintCode;
+  target:  LintTarget;
+  message: string;
+}
+
+export interface LintReport {
+  issues:       LintIssue[];
+  errorCount:   number;
+  warningCount: number;
+}
+
+export const LINT_CODE_LABELS: Record<LintCode, string> = {
+  DUPLICATE_RULE_ID:    'ruleId 중복',
+  RULE_ID_FORMAT:       'ruleId 형식',
+  EMPTY_MESSAGE:        'message 비어 있음',
+  EMPTY_SUGGESTION:     'suggestion 비어 있음',
+  TABLES_FLAG_MISMATCH: 'hasTables 불일치',
+  CONDITION_SYNTAX:     '조건식 구문 오류',
+  DANGLING_TAG_REF:     '미정의 태그 참조',
+  INVALID_PATTERN:      '정규식 오류',
+  UNKNOWN_TAG_CATEGORY: '미정의 태그 카테고리',
+  DANGLING_TRIGGER_TAG: '미정의 triggerTags',
+  STALE_TOTAL_TAGS:     'totalTags 불일치',
+};
+
+/** <프리픽스>.<카테고리약자>.<절번호> */
+const RULE_ID_PATTERN = /^[^.\s]+\.([A-Z]+)\.[^.\s]+$/;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 검사
+// ─────────────────────────────────────────────────────────────────────────────
+
+function lintRules(rules: Rule[], known: ReadonlySet<string>, issues: LintIssue[]) {
+  const seen = new Map<string, number>();
+  for (const rule of rules) seen.set(rule.ruleId, (seen.get(rule.ruleId) ?? 0) + 1);
+
+  for (const [ruleId, count] of seen) {
+    if (count > 1) {
+      issues.push({
+        level:   'error',
+        code:    'DUPLICATE_RULE_ID',
+        target:  { kind: 'rule', ruleId },
+        message: `ruleId "${ruleId}"인 규칙이 ${count}개 있습니다.`,
+      });
+    }
+  }
+
+  for (const rule of rules) {
+    const target: LintTarget = { kind: 'rule', ruleId: rule.ruleId };
+    const push = (level: LintLevel, code: LintCode, message: string) =>
+      issues.push({ level, code, target, message });
+
+    const abbr  = RULE_CATEGORY_ABBR[rule.category];
+    const match = RULE_ID_PATTERN.exec(rule.ruleId);
+    if (!match) {
+      push('warning', 'RULE_ID_FORMAT', `ruleId가 <프리픽스>.<약자>.<절번호> 형식이 아닙니다.`);
+    } else if (abbr && match[1] !== abbr) {
+      push('warning', 'RULE_ID_FORMAT', `카테고리 약자 ${match[1]}이(가) ${rule.category}의 약자 ${abbr}와 다릅니다.`);
+    }
+
+    if (!rule.message?.trim())    push('warning', 'EMPTY_MESSAGE', 'message가 비어 있습니다.');
+    if (!rule.suggestion?.trim()) push('warning', 'EMPTY_SUGGESTION', 'suggestion이 비어 있습니다.');
+    if (tablesFlagMismatch(rule)) {
+      push('warning', 'TABLES_FLAG_MISMATCH', `hasTables가 ${rule.hasTables}이지만 tables는 ${(rule.tables ?? []).length}개입니다.`);
+    }
+
+    const parsed = parseTagExpression(rule.tagCondition ?? '');
+    if (!parsed.ok) {
+      push('error', 'CONDITION_SYNTAX', `tagCondition: ${parsed.error.message}`);
+    } else {
+      const unknown = [...new Set(findUnknownTagRefs(parsed.ast, known).map((r) => r.name))];
+      if (unknown.length > 0) push('error', 'DANGLING_TAG_REF', `tagCondition: ${unknown.join(', ')}`);
+    }
+
+    const missingRequired = (rule.requiredTags ?? []).filter((t) => !known.has(t));
+    if (missingRequired.length > 0) push('error', 'DANGLING_TAG_REF', `requiredTags: ${missingRequired.join(', ')}`);
+    const missingExcluded = (rule.excludeTags ?? []).filter((t) => !known.has(t));
+    if (missingExcluded.length > 0) push('error', 'DANGLING_TAG_REF', `excludeTags: ${missingExcluded.join(', ')}`);
+
+    const checkPatterns = (field: string, list: { pattern: string; flags: string }[] | undefined) => {
+      (list ?? []).forEach((p, i) => {
+        const compiled = compilePattern(p.pattern, p.flags);
+        if (!compiled.ok) push('error', 'INVALID_PATTERN', `${field}[${i}]: ${compiled.error}`);
+      });
+    };
+    checkPatterns('antiPatterns', rule.antiPatterns);
+    checkPatterns('goodPatterns', rule.goodPatterns);
+  }
+}
+
+function lintTags(tagData: TagData, known: ReadonlySet<string>, issues: LintIssue[]) {
+  for (const [name, def] of Object.entries(tagData.tags)) {
+    const target: LintTarget = { kind: 'tag', name };
+
+    if (!(def.category in tagData.tagCategories)) {
+      issues.push({
+        level:   'error',
+        code:    'UNKNOWN_TAG_CATEGORY',
+        target,
+        message: `category "${def.category}"이(가) tagCategories에 없습니다.`,
+      });
+    }
+
+    if (def.detection.type === 'llm') {
+      const missing = (def.detection.triggerTags ?? []).filter((t) => !known.has(t));
+      if (missing.length > 0) {
+        issues.push({
+          level:   'error',
+          code:    'DANGLING_TRIGGER_TAG',
+          target,
+          message: `triggerTags: ${missing.join(', ')}`,
+        });
+      }
+    }
+  }
+
+  for (const [name, ct] of Object.entries(tagData.compoundTags)) {
+    const target: LintTarget = { kind: 'compound', name };
+
+    if (ct.expression?.trim()) {
+      const parsed = parseTagExpression(ct.expression);
+      if (!parsed.ok) {
+        issues.push({ level: 'error', code: 'CONDITION_SYNTAX', target, message: `expression: ${parsed.error.message}` });
+      } else {
+        const unknown = [...new Set(findUnknownTagRefs(parsed.ast, known).map((r) => r.name))];
+        if (unknown.length > 0) {
+          issues.push({ level: 'error', code: 'DANGLING_TAG_REF', target, message: `expression: ${unknown.join(', ')}` });
+        }
+      }
+    }
+
+    const missing = [...(ct.requires ?? []), ...(ct.excludes ?? [])].filter((t) => !known.has(t));
+    if (missing.length > 0) {
+      issues.push({
+        level:   'error',
+        code:    'DANGLING_TAG_REF',
+        target,
+        message: `requires / excludes: ${[...new Set(missing)].join(', ')}`,
+      });
+    }
+  }
+
+  const actual = Object.keys(tagData.tags).length;
+  if (tagData._metadata.totalTags !== actual) {
+    issues.push({
+      level:   'warning',
+      code:    'STALE_TOTAL_TAGS',
+      target:  { kind: 'metadata' },
+      message: `_metadata.totalTags(${tagData._metadata.totalTags})가 실제 태그 수(${actual})와 다릅니다.`,
+    });
+  }
+}
+
+/**
+ * 전체 데이터셋을 검사합니다. error가 warning보다 먼저 오도록 정렬해 반환합니다.
+ */
+export function lintDataset(rules: Rule[], tagData: TagData): LintReport {
+  const known  = new Set([...Object.keys(tagData.tags), ...Object.keys(tagData.compoundTags)]);
+  const issues: LintIssue[] = [];
+
+  lintRules(rules, known, issues);
+  lintTags(tagData, known, issues);
+
+  issues.sort((a, b) => (a.level === b.level ? 0 : a.level === 'error' ? -1 : 1));
+  const errorCount = issues.filter((i) => i.level === 'error').length;
+  return { issues, errorCount, warningCount: issues.length - errorCount };
+}
+
+/** 이슈 대상의 표시 이름 */
+export function lintTargetLabel(target: LintTarget): string {
+  switch (target.kind) {
+    case 'rule':     return target.ruleId;
+    case 'tag':      return target.name;
+    case 'compound': return target.name;
+    case 'metadata': return '_metadata';
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * src/utils/dataPatch.ts
+ *
+ * 규칙 / 태그 데이터의 항목 단위 변경(DataPatch).
+ * dataStore의 undo / redo 항목과 탭 간 동기화(useCrossTabSync)에서 사용합니다.
+ *
+ * 규칙은 ruleId, 태그 · 복합 태그 · 카테고리는 이름(키)별로 이전 / 이후 값을 보관하고
+ * 적용할 때는 패치에 든 항목만 바꿉니다. 그 사이 다른 항목이 바뀌었어도(다른 탭의 편집 등) 덮어쓰지 않습니다.
+ *
+ *   - before가 없으면 추가된 항목, after가 없으면 삭제된 항목
+ *   - 규칙은 배열 순서가 있으므로 위치도 함께 보관해 다시 넣을 때 같은 자리에 끼워 넣음
+ *   - 값이 같은 항목의 순서만 바뀐 경우는 변경으로 보지 않음
+ */
+import type { Rule } from '@/types/rule';
+import type { CompoundTag, TagData, TagDataMetadata, TagDefinition } from '@/types/tag';
+import { deepEqual } from '@/utils/deepEqual';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ItemChange<T> {
+  before?: T;
+  after?:  T;
+}
+
+export interface RuleChange extends ItemChange<Rule> {
+  /** 변경 전 / 후 배열 위치 (없던 규칙이면 -1) */
+  beforeIndex: number;
+  afterIndex:  number;
+}
+
+export interface DataPatch {
+  /** ruleId → 변경 */
+  rules:         Map<string, RuleChange>;
+  tags:          Map<string, ItemChange<TagDefinition>>;
+  compoundTags:  Map<string, ItemChange<CompoundTag>>;
+  tagCategories: Map<string, ItemChange<string>>;
+  metadata?:     ItemChange<TagDataMetadata>;
+}
+
+export interface PatchTarget {
+  rules: Rule[];
+  tags:  TagData;
+}
+
+/** 패치의 어느 쪽 값으로 맞출지 — undo는 before, redo / 다른 탭 변경 반영은 after */
+export type PatchSide = 'before' | 'after';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 계산
+// ─────────────────────────────────────────────────────────────────────────────
+
+const changed = (a: unknown, b: unknown) => a !== b && !deepEqual(a, b);
+
+function diffRecord<T>(prev: Record<string, T>, next: Record<string, T>): Map<string, ItemChange<T>> {
+  const changes = new Map<string, ItemChange<T>>();
+  if (prev === next) return changes;
+  for (const key of new Set([...Object.keys(prev), ...Object.keys(next)])) {
+    const before = Object.hasOwn(prev, key) ? prev[key] : undefined;
+    const after  = Object.hasOwn(next, key) ? next[key] : undefined;
+    if (changed(before, after)) changes.set(key, { before, after });
+  }
+  return changes;
+}
+
+function diffRules(prev: Rule[], next: Rule[]): Map<string, RuleChange> {
+  const changes = new Map<string, RuleChange>();
+  if (prev === next) return changes;
+  const prevIndex = new Map(prev.map((r, i) => [r.ruleId, i]));
+  const nextIndex = new Map(next.map((r, i) => [r.ruleId, i]));
+  for (const ruleId of new Set([...prevIndex.keys(), ...nextIndex.keys()])) {
+    const beforeIndex = prevIndex.get(ruleId) ?? -1;
+    const afterIndex  = nextIndex.get(ruleId) ?? -1;
+    const before      = prev[beforeIndex];
+    const after       = next[afterIndex];
+    if (changed(before, after)) changes.set(ruleId, { before, after, beforeIndex, afterIndex });
+  }
+  return changes;
+}
+
+/** prev → next 사이에 바뀐 항목 */
+export function diffData(prev: PatchTarget, next: PatchTarget): DataPatch {
+  const patch: DataPatch = {
+    rules:         diffRules(prev.rules, next.rules),
+    tags:          diffRecord(prev.tags.tags, next.tags.tags),
+    compoundTags:  diffRecord(prev.tags.compoundTags, next.tags.compoundTags),
+    tagCategories: diffRecord(prev.tags.tagCategories, next.tags.tagCategories),
+  };
+  if (changed(prev.tags._metadata, next.tags._metadata)) {
+    patch.metadata = { before: prev.tags._metadata, after: next.tags._metadata };
+  }
+  return patch;
+}
+
+export function isEmptyPatch(patch: DataPatch): boolean {
+  return patch.rules.size === 0 && patch.tags.size === 0 && patch.compoundTags.size === 0
+    && patch.tagCategories.size === 0 && !patch.metadata;
+}
+
+/** 패치가 건드리는 항목 키 ("rule:<ruleId>", "tag:<이름>" 등) — 두 패치의 겹침 판단용 */
+export function patchKeys(patch: DataPatch): Set<string> {
+  const keys = new Set<string>();
+  patch.rules.forEach((_, id) => keys.add(`rule:${id}`));
+  patch.tags.forEach((_, name) => keys.add(`tag:${name}`));
+  patch.compoundTags.forEach((_, name) => keys.add(`compound:${name}`));
+  patch.tagCategories.forEach((_, id) => keys.add(`category:${id}`));
+  if (patch.metadata) keys.add('metadata');
+  return keys;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 적용
+// ─────────────────────────────────────────────────────────────────────────────
+
+function applyRecord<T>(current: Record<string, T>, changes: Map<string, ItemChange<T>>, side: PatchSide): Record<string, T> {
+  if (changes.size === 0) return current;
+  const next = { ...current };
+  changes.forEach((change, key) => {
+    const value = change[side];
+    if (value === undefined) delete next[key];
+    else next[key] = value;
+  });
+  return next;
+}
+
+function applyRules(current: Rule[], changes: Map<string, RuleChange>, side: PatchSide): Rule[] {
+  if (changes.size === 0) return current;
+  const next = current.flatMap((rule) => {
+    const change = changes.get(rule.ruleId);
+    if (!change) return [rule];
+    const value = change[side];
+    return value ? [value] : [];
+  });
+
+  // 없던 규칙은 기록된 위치에 — 앞쪽부터 넣어야 뒤쪽 위치가 맞음
+  const present = new Set(current.map((r) => r.ruleId));
+  const inserts = [...changes.values()]
+    .flatMap((c) => {
+      const rule = c[side];
+      return rule && !present.has(rule.ruleId) ? [{ rule, at: side === 'before' ? c.beforeIndex : c.afterIndex }] : [];
+    })
+    .sort((a, b) => a.at - b.at);
+  for (const { rule, at } of inserts) next.splice(Math.min(at, next.length), 0, rule);
+  return next;
+}
+
+/**
+ * 패치에 든 항목만 side 쪽 값으로 바꿉니다.
+ * 바뀌지 않은 부분(rules / tags)은 참조를 그대로 돌려줍니다.
+ */
+export function applyPatch(data: PatchTarget, patch: DataPatch, side: PatchSide): PatchTarget {
+  const rules = applyRules(data.rules, patch.rules, side);
+  if (patch.tags.size === 0 && patch.compoundTags.size === 0 && patch.tagCategories.size === 0 && !patch.metadata) {
+    return { rules, tags: data.tags };
+  }
+  return {
+    rules,
+    tags: {
+      ...data.tags,
+      _metadata:     patch.metadata?.[side] ?? data.tags._metadata,
+      tags:          applyRecord(data.tags.tags, patch.tags, side),
+      compoundTags:  applyRecord(data.tags.compoundTags, patch.compoundTags, side),
+      tagCategories: applyRecord(data.tags.tagCategories, patch.tagCategories, side),
+    },
+  };
+}
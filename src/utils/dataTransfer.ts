@@ -0,0 +1,577 @@
+/**
+ * src/utils/dataTransfer.ts
+ *
+ * 규칙 / 태그 파일 가져오기·내보내기.
+ *
+ * 내보내기 형식:
+ *   - JSON : PullResponse와 같은 구조 ({ version, pulledAt, rules: { count, items }, tags, metadata })
+ *   - YAML : JSON과 같은 구조를 YAML로 직렬화
+ *   - CSV  : 스프레드시트 검토용 평탄화 (규칙 / 태그 각각 별도 파일)
+ *            배열·객체 필드는 셀 안에 JSON 문자열로 넣어 다시 가져와도 손실이 없습니다.
+ *
+ * 가져오기:
+ *   - 확장자로 형식 판별 (.json / .yaml / .yml / .csv)
+ *   - JSON / YAML은 PullResponse, { rules: Rule[], tags }, Rule[], TagData 단독 구조를 모두 허용
+ *   - Rule / TagDefinition 필드 타입 검증 → 오류가 있는 항목은 제외하고 ImportIssue로 보고
+ *   - planImport()로 merge(같은 키 덮어쓰기 + 추가) / replace(통째로 교체) 결과와 미리보기 Diff 계산
+ */
+import yaml from 'js-yaml';
+import type { DiffResponse, PullResponse } from '@/types/api';
+import type { Rule } from '@/types/rule';
+import { RULE_CATEGORY_LABELS, RULE_CHECK_TYPE_LABELS, RULE_SEVERITY_LABELS } from '@/types/rule';
+import type { CompoundTag, TagData, TagDefinition } from '@/types/tag';
+import { deepEqual } from '@/utils/deepEqual';
+import { diffLocal } from '@/utils/localDiff';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type TransferFormat = 'json' | 'yaml' | 'csv';
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportIssue {
+  level:   'error' | 'warning';
+  /** 문제 위치 (예: "rules[3].severity", "tags.IS_DAO") */
+  path:    string;
+  message: string;
+}
+
+/** 파일에서 읽어 검증을 통과한 데이터. 파일에 없던 섹션은 undefined */
+export interface ImportData {
+  rules?:         Rule[];
+  tags?:          Record<string, TagDefinition>;
+  compoundTags?:  Record<string, CompoundTag>;
+  tagCategories?: Record<string, string>;
+}
+
+export interface ParsedImport {
+  data:   ImportData;
+  issues: ImportIssue[];
+}
+
+/** 키 기준 변경 수 (복합 태그 / 카테고리처럼 Diff에 없는 섹션 요약용) */
+export interface KeyChangeCount {
+  added:       number;
+  overwritten: number;
+  removed:     number;
+}
+
+export interface ImportPlan {
+  rules:         Rule[];
+  tags:          TagData;
+  /** 현재 → 가져오기 적용 후 (규칙 / 태그) */
+  diff:          DiffResponse;
+  compoundTags:  KeyChangeCount;
+  tagCategories: KeyChangeCount;
+}
+
+export const TRANSFER_FORMAT_LABELS: Record<TransferFormat, string> = {
+  json: 'JSON',
+  yaml: 'YAML',
+  csv:  'CSV',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 필드 스펙 — 검증과 CSV 열 정의에 함께 사용
+// ─────────────────────────────────────────────────────────────────────────────
+
+type FieldSpec =
+  | { kind: 'string' }
+  | { kind: 'nullableString' }
+  | { kind: 'number' }
+  | { kind: 'boolean' }
+  | { kind: 'stringArray' }
+  | { kind: 'enum'; values: readonly string[] }
+  /** 배열 / 객체 — CSV 셀에는 JSON 문자열로 저장 */
+  | { kind: 'json'; check: (v: unknown) => string | null };
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const checkPatternList = (v: unknown): string | null => {
+  if (!Array.isArray(v)) return '배열이어야 합니다.';
+  const bad = v.findIndex((p) =>
+    !isRecord(p) || typeof p.pattern !== 'string' || typeof p.flags !== 'string' || typeof p.description !== 'string');
+  return bad >= 0 ? `[${bad}]에 pattern / flags / description 문자열이 필요합니다.` : null;
+};
+
+const RULE_FIELDS: Record<keyof Rule, FieldSpec> = {
+  ruleId:          { kind: 'string' },
+  sectionNumber:   { kind: 'string' },
+  title:           { kind: 'string' },
+  level:           { kind: 'number' },
+  category:        { kind: 'enum', values: Object.keys(RULE_CATEGORY_LABELS) },
+  severity:        { kind: 'enum', values: Object.keys(RULE_SEVERITY_LABELS) },
+  description:     { kind: 'string' },
+  message:         { kind: 'string' },
+  suggestion:      { kind: 'string' },
+  keywords:        { kind: 'stringArray' },
+  source:          { kind: 'string' },
+  sourceFile:      { kind: 'string' },
+  sourcePrefix:    { kind: 'string' },
+  problematicCode: { kind: 'nullableString' },
+  fixedCode:       { kind: 'nullableString' },
+  hasTables:       { kind: 'boolean' },
+  hasImages:       { kind: 'boolean' },
+  tables:          { kind: 'json', check: (v) => (Array.isArray(v) ? null : '배열이어야 합니다.') },
+  metadata:        { kind: 'json', check: (v) => (isRecord(v) ? null : '객체여야 합니다.') },
+  checkType:       { kind: 'enum', values: Object.keys(RULE_CHECK_TYPE_LABELS) },
+  checkTypeReason: { kind: 'string' },
+  tagCondition:    { kind: 'string' },
+  requiredTags:    { kind: 'stringArray' },
+  excludeTags:     { kind: 'stringArray' },
+  antiPatterns:    { kind: 'json', check: checkPatternList },
+  goodPatterns:    { kind: 'json', check: checkPatternList },
+  isActive:        { kind: 'boolean' },
+};
+
+const DETECTION_TYPES = ['regex', 'ast', 'ast_context', 'llm'] as const;
+
+/** TagDefinition 필드 (CSV에서는 앞에 name 열이 붙음). notes만 선택 */
+const TAG_FIELDS: Record<Exclude<keyof TagDefinition, 'notes'>, FieldSpec> = {
+  category:         { kind: 'string' },
+  description:      { kind: 'string' },
+  extractionMethod: { kind: 'enum', values: ['regex', 'ast', 'llm'] },
+  tier:             { kind: 'enum', values: ['1', '2'] },
+  detection:        {
+    kind:  'json',
+    check: (v) => (isRecord(v) && DETECTION_TYPES.includes(v.type as (typeof DETECTION_TYPES)[number])
+      ? null
+      : `type이 ${DETECTION_TYPES.join(' / ')} 중 하나인 객체여야 합니다.`),
+  },
+};
+
+export const RULE_CSV_COLUMNS = Object.keys(RULE_FIELDS) as (keyof Rule)[];
+export const TAG_CSV_COLUMNS: ('name' | keyof TagDefinition)[] =
+  ['name', ...(Object.keys(TAG_FIELDS) as (keyof TagDefinition)[]), 'notes'];
+
+function checkField(spec: FieldSpec, value: unknown): string | null {
+  switch (spec.kind) {
+    case 'string':         return typeof value === 'string' ? null : '문자열이어야 합니다.';
+    case 'nullableString': return value === null || typeof value === 'string' ? null : '문자열 또는 null이어야 합니다.';
+    case 'number':         return typeof value === 'number' && Number.isFinite(value) ? null : '숫자여야 합니다.';
+    case 'boolean':        return typeof value === 'boolean' ? null : 'true / false여야 합니다.';
+    case 'stringArray':
+      return Array.isArray(value) && value.every((v) => typeof v === 'string') ? null : '문자열 배열이어야 합니다.';
+    case 'enum':
+      return spec.values.includes(String(value)) ? null : `${spec.values.join(', ')} 중 하나여야 합니다.`;
+    case 'json':
+      return spec.check(value);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 검증
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 규칙 하나를 검증합니다. 문제는 issues에 쌓고, 오류가 없으면 true */
+function isValidRule(value: unknown, path: string, issues: ImportIssue[]): value is Rule {
+  if (!isRecord(value)) {
+    issues.push({ level: 'error', path, message: '규칙은 객체여야 합니다.' });
+    return false;
+  }
+  let ok = true;
+  for (const [field, spec] of Object.entries(RULE_FIELDS)) {
+    if (!(field in value)) {
+      issues.push({ level: 'error', path: `${path}.${field}`, message: '필드가 없습니다.' });
+      ok = false;
+      continue;
+    }
+    const err = checkField(spec, value[field]);
+    if (err) {
+      issues.push({ level: 'error', path: `${path}.${field}`, message: err });
+      ok = false;
+    }
+  }
+  if (ok && !(value.ruleId as string).trim()) {
+    issues.push({ level: 'error', path: `${path}.ruleId`, message: 'ruleId가 비어 있습니다.' });
+    ok = false;
+  }
+  const unknown = Object.keys(value).filter((k) => !(k in RULE_FIELDS));
+  if (unknown.length > 0) {
+    issues.push({ level: 'warning', path, message: `알 수 없는 필드는 그대로 보존됩니다: ${unknown.join(', ')}` });
+  }
+  return ok;
+}
+
+function validateRules(value: unknown, issues: ImportIssue[]): Rule[] | undefined {
+  if (!Array.isArray(value)) {
+    issues.push({ level: 'error', path: 'rules', message: '규칙 목록은 배열이어야 합니다.' });
+    return undefined;
+  }
+  const rules: Rule[] = [];
+  const seen = new Set<string>();
+  value.forEach((rule, idx) => {
+    if (!isValidRule(rule, `rules[${idx}]`, issues)) return;
+    if (seen.has(rule.ruleId)) {
+      issues.push({ level: 'error', path: `rules[${idx}].ruleId`, message: `중복된 ruleId: ${rule.ruleId} (뒤쪽 항목 제외)` });
+      return;
+    }
+    seen.add(rule.ruleId);
+    rules.push(rule);
+  });
+  return rules;
+}
+
+function isValidTagDefinition(value: unknown, path: string, issues: ImportIssue[]): value is TagDefinition {
+  if (!isRecord(value)) {
+    issues.push({ level: 'error', path, message: '태그 정의는 객체여야 합니다.' });
+    return false;
+  }
+  let ok = true;
+  for (const [field, spec] of Object.entries(TAG_FIELDS)) {
+    // tier는 숫자 1 / 2 — enum 비교를 위해 문자열로 변환
+    const raw = field === 'tier' && typeof value.tier === 'number' ? String(value.tier) : value[field];
+    const err = field in value ? checkField(spec, raw) : '필드가 없습니다.';
+    if (err) {
+      issues.push({ level: 'error', path: `${path}.${field}`, message: err });
+      ok = false;
+    }
+  }
+  if (typeof value.tier === 'string') {
+    issues.push({ level: 'error', path: `${path}.tier`, message: '숫자 1 또는 2여야 합니다.' });
+    ok = false;
+  }
+  if (value.notes !== undefined && typeof value.notes !== 'string') {
+    issues.push({ level: 'error', path: `${path}.notes`, message: '문자열이어야 합니다.' });
+    ok = false;
+  }
+  return ok;
+}
+
+function validateTagMap(value: unknown, issues: ImportIssue[]): Record<string, TagDefinition> | undefined {
+  if (!isRecord(value)) {
+    issues.push({ level: 'error', path: 'tags', message: '태그 정의는 이름 → 정의 객체여야 합니다.' });
+    return undefined;
+  }
+  const tags: Record<string, TagDefinition> = {};
+  for (const [name, def] of Object.entries(value)) {
+    if (isValidTagDefinition(def, `tags.${name}`, issues)) tags[name] = def;
+  }
+  return tags;
+}
+
+function isValidCompoundTag(value: unknown, path: string, issues: ImportIssue[]): value is CompoundTag {
+  if (!isRecord(value) || typeof value.description !== 'string') {
+    issues.push({ level: 'error', path, message: 'description 문자열이 있는 객체여야 합니다.' });
+    return false;
+  }
+  if (value.expression !== undefined && typeof value.expression !== 'string') {
+    issues.push({ level: 'error', path: `${path}.expression`, message: '문자열이어야 합니다.' });
+    return false;
+  }
+  return true;
+}
+
+function validateCompoundTags(value: unknown, issues: ImportIssue[]): Record<string, CompoundTag> | undefined {
+  if (!isRecord(value)) {
+    issues.push({ level: 'error', path: 'compoundTags', message: '복합 태그는 이름 → 정의 객체여야 합니다.' });
+    return undefined;
+  }
+  const result: Record<string, CompoundTag> = {};
+  for (const [name, ct] of Object.entries(value)) {
+    if (isValidCompoundTag(ct, `compoundTags.${name}`, issues)) result[name] = ct;
+  }
+  return result;
+}
+
+function validateTagCategories(value: unknown, issues: ImportIssue[]): Record<string, string> | undefined {
+  if (!isRecord(value) || !Object.values(value).every((v) => typeof v === 'string')) {
+    issues.push({ level: 'error', path: 'tagCategories', message: '카테고리 ID → 설명 문자열 객체여야 합니다.' });
+    return undefined;
+  }
+  return value as Record<string, string>;
+}
+
+/** TagData(또는 그 일부) 객체를 섹션별로 검증 */
+function validateTagData(value: Record<string, unknown>, data: ImportData, issues: ImportIssue[]) {
+  if ('tags' in value)          data.tags          = validateTagMap(value.tags, issues);
+  if ('compoundTags' in value)  data.compoundTags  = validateCompoundTags(value.compoundTags, issues);
+  if ('tagCategories' in value) data.tagCategories = validateTagCategories(value.tagCategories, issues);
+}
+
+/**
+ * JSON / YAML에서 읽은 값을 구조 판별 후 검증합니다.
+ */
+function validatePayload(payload: unknown): ParsedImport {
+  const issues: ImportIssue[] = [];
+  const data: ImportData = {};
+
+  if (Array.isArray(payload)) {
+    data.rules = validateRules(payload, issues);
+  } else if (isRecord(payload)) {
+    if ('rules' in payload) {
+      // PullResponse는 rules: { count, items }
+      const rules = isRecord(payload.rules) && 'items' in payload.rules ? payload.rules.items : payload.rules;
+      data.rules = validateRules(rules, issues);
+    }
+    if (isRecord(payload.tags) && ('tags' in payload.tags || 'compoundTags' in payload.tags)) {
+      validateTagData(payload.tags, data, issues);          // { rules, tags: TagData }
+    } else if ('compoundTags' in payload || 'tagCategories' in payload || '_metadata' in payload) {
+      validateTagData(payload, data, issues);               // TagData 단독
+    } else if ('tags' in payload) {
+      data.tags = validateTagMap(payload.tags, issues);     // { tags: { NAME: def } }
+    }
+  }
+
+  if (!data.rules && !data.tags && !data.compoundTags && !data.tagCategories && issues.length === 0) {
+    issues.push({ level: 'error', path: '(root)', message: '규칙 또는 태그 데이터를 찾을 수 없습니다.' });
+  }
+  return { data, issues };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 스프레드시트가 수식으로 실행하는 시작 문자 (CSV injection).
+ * 이런 셀은 앞에 '를 붙여 내보내고 가져올 때 하나 떼어 냅니다.
+ * 원래 '로 시작하는 값도 구분되도록 '가 여러 개 이어진 경우까지 같은 규칙을 적용합니다.
+ */
+const CSV_FORMULA_PREFIX  = /^'*[=+\-@\t\r]/;
+const CSV_ESCAPED_FORMULA = /^'+[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  // 빈 문자열은 null(빈 셀)과 구분되도록 따옴표로 감쌈
+  if (value === '') return '""';
+  const raw  = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const text = CSV_FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+  // Excel에서 한글이 깨지지 않도록 BOM 추가
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * RFC 4180 CSV 파서 (따옴표 안 쉼표 / 줄바꿈 / "" 이스케이프 지원).
+ * 따옴표 없는 빈 셀은 null, 따옴표로 감싼 빈 셀("")은 빈 문자열로 돌려줍니다.
+ */
+export function parseCsv(text: string): (string | null)[][] {
+  const rows: (string | null)[][] = [];
+  let row: (string | null)[] = [];
+  let cell = '';
+  let wasQuoted = false;
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  const endCell = () => {
+    row.push(cell === '' && !wasQuoted ? null : cell);
+    cell = '';
+    wasQuoted = false;
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"')                  { quoted = false; }
+      else                                  { cell += ch; }
+    } else if (ch === '"') {
+      quoted = true;
+      wasQuoted = true;
+    } else if (ch === ',') {
+      endCell();
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      endCell();
+      rows.push(row);
+      row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || wasQuoted || row.length > 0) {
+    endCell();
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c !== null));
+}
+
+/** CSV 셀 문자열을 필드 스펙에 맞는 값으로 변환 (검증은 이후 validate*에서) */
+function fromCsvCell(spec: FieldSpec | undefined, raw: string | null): unknown {
+  if (spec?.kind === 'nullableString' && raw === null) return null;
+  const cell = raw === null ? '' : CSV_ESCAPED_FORMULA.test(raw) ? raw.slice(1) : raw;
+  if (!spec) return cell;
+  switch (spec.kind) {
+    case 'number':         return cell === '' ? NaN : Number(cell);
+    case 'boolean':        return cell === 'true' ? true : cell === 'false' ? false : cell;
+    case 'stringArray':
+    case 'json':
+      try {
+        return JSON.parse(cell);
+      } catch {
+        return cell;
+      }
+    default:
+      return cell;
+  }
+}
+
+export function rulesToCsv(rules: Rule[]): string {
+  return toCsv(RULE_CSV_COLUMNS, rules.map((r) => RULE_CSV_COLUMNS.map((c) => r[c])));
+}
+
+export function tagsToCsv(tags: Record<string, TagDefinition>): string {
+  return toCsv(
+    TAG_CSV_COLUMNS,
+    Object.entries(tags).map(([name, def]) =>
+      TAG_CSV_COLUMNS.map((c) => (c === 'name' ? name : def[c]))),
+  );
+}
+
+function parseCsvImport(text: string): ParsedImport {
+  const [headerRow, ...rows] = parseCsv(text);
+  if (!headerRow) {
+    return { data: {}, issues: [{ level: 'error', path: '(root)', message: '빈 CSV 파일입니다.' }] };
+  }
+  const header = headerRow.map((col) => col ?? '');
+
+  const toObjects = (specs: Record<string, FieldSpec>) => rows.map((row) => {
+    const obj: Record<string, unknown> = {};
+    header.forEach((col, idx) => {
+      if (row[idx] !== undefined) obj[col] = fromCsvCell(specs[col], row[idx]);
+    });
+    return obj;
+  });
+
+  if (header.includes('ruleId')) {
+    const issues: ImportIssue[] = [];
+    return { data: { rules: validateRules(toObjects(RULE_FIELDS), issues) }, issues };
+  }
+  if (header.includes('name') && header.includes('detection')) {
+    const issues: ImportIssue[] = [];
+    const map: Record<string, unknown> = {};
+    for (const obj of toObjects(TAG_FIELDS)) {
+      const { name, notes, tier, ...rest } = obj;
+      map[String(name)] = { ...rest, tier: Number(tier), ...(notes ? { notes } : {}) };
+    }
+    return { data: { tags: validateTagMap(map, issues) }, issues };
+  }
+  return {
+    data:   {},
+    issues: [{ level: 'error', path: '(header)', message: 'ruleId 열(규칙) 또는 name / detection 열(태그)이 필요합니다.' }],
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 내보내기 / 가져오기 진입점
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** PullResponse 구조의 내보내기 페이로드 */
+export function buildExportPayload(rules: Rule[], tags: TagData, version: number | null): PullResponse {
+  return {
+    version:  version ?? 0,
+    pulledAt: new Date().toISOString(),
+    rules:    { count: rules.length, items: rules },
+    tags,
+    metadata: {
+      ruleCount:        rules.length,
+      tagCount:         Object.keys(tags.tags).length,
+      compoundTagCount: Object.keys(tags.compoundTags).length,
+    },
+  };
+}
+
+export function serializePayload(payload: PullResponse, format: Exclude<TransferFormat, 'csv'>): string {
+  return format === 'json'
+    ? JSON.stringify(payload, null, 2)
+    : yaml.dump(payload, { lineWidth: -1, noRefs: true });
+}
+
+export function detectFormat(fileName: string): TransferFormat | null {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'json') return 'json';
+  if (ext === 'yaml' || ext === 'yml') return 'yaml';
+  if (ext === 'csv') return 'csv';
+  return null;
+}
+
+/**
+ * 파일 내용을 형식에 맞게 파싱하고 검증합니다.
+ */
+export function parseImport(text: string, format: TransferFormat): ParsedImport {
+  if (format === 'csv') return parseCsvImport(text);
+  try {
+    const payload = format === 'json' ? JSON.parse(text) : yaml.load(text);
+    return validatePayload(payload);
+  } catch (err) {
+    return {
+      data:   {},
+      issues: [{ level: 'error', path: '(root)', message: `${TRANSFER_FORMAT_LABELS[format]} 파싱 실패: ${err instanceof Error ? err.message : String(err)}` }],
+    };
+  }
+}
+
+function countKeyChanges<T>(before: Record<string, T>, after: Record<string, T>): KeyChangeCount {
+  const beforeKeys = Object.keys(before);
+  const afterKeys  = Object.keys(after);
+  return {
+    added:       afterKeys.filter((k) => !(k in before)).length,
+    overwritten: afterKeys.filter((k) => k in before && !deepEqual(before[k], after[k])).length,
+    removed:     beforeKeys.filter((k) => !(k in after)).length,
+  };
+}
+
+/**
+ * 가져오기 적용 결과를 계산합니다.
+ *   - merge   : 같은 ruleId / 이름은 덮어쓰고 없는 항목은 추가 (기존 항목 유지)
+ *   - replace : 파일에 있는 섹션은 통째로 교체 (파일에 없는 섹션은 유지)
+ */
+export function planImport(rules: Rule[], tags: TagData, data: ImportData, mode: ImportMode): ImportPlan {
+  let nextRules = rules;
+  if (data.rules) {
+    if (mode === 'replace') {
+      nextRules = data.rules;
+    } else {
+      const incoming = new Map(data.rules.map((r) => [r.ruleId, r]));
+      nextRules = rules.map((r) => incoming.get(r.ruleId) ?? r);
+      const existing = new Set(rules.map((r) => r.ruleId));
+      nextRules = [...nextRules, ...data.rules.filter((r) => !existing.has(r.ruleId))];
+    }
+  }
+
+  const section = <T>(current: Record<string, T>, incoming: Record<string, T> | undefined) =>
+    !incoming ? current : mode === 'replace' ? incoming : { ...current, ...incoming };
+
+  const nextTagMap = section(tags.tags, data.tags);
+  const nextTags: TagData = {
+    _metadata: {
+      ...tags._metadata,
+      totalTags:   Object.keys(nextTagMap).length,
+      lastUpdated: data.tags ? new Date().toISOString() : tags._metadata.lastUpdated,
+    },
+    tagCategories: section(tags.tagCategories, data.tagCategories),
+    tags:          nextTagMap,
+    compoundTags:  section(tags.compoundTags, data.compoundTags),
+  };
+
+  const now = new Date().toISOString();
+  return {
+    rules:         nextRules,
+    tags:          nextTags,
+    diff:          diffLocal(
+      { rules, tags, baseVersion: 0, savedAt: now },
+      { rules: nextRules, tags: nextTags, baseVersion: 0, savedAt: now },
+    ),
+    compoundTags:  countKeyChanges(tags.compoundTags, nextTags.compoundTags),
+    tagCategories: countKeyChanges(tags.tagCategories, nextTags.tagCategories),
+  };
+}
+
+/**
+ * 텍스트를 파일로 내려받습니다.
+ */
+export function downloadText(fileName: string, text: string, mime: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
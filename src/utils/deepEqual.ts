@@ -0,0 +1,24 @@
+/**
+ * src/utils/deepEqual.ts
+ *
+ * JSON 호환 값(규칙, 태그 정의 등)의 구조 비교.
+ * JSON.stringify 비교와 달리 객체 키 순서에 영향을 받지 않습니다.
+ * 서버가 키 순서를 바꿔 내려줘도 변경으로 잡히지 않도록 병합 / diff 계산에 사용합니다.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, i) => deepEqual(item, b[i]));
+  }
+
+  const objA = a as Record<string, unknown>;
+  const objB = b as Record<string, unknown>;
+  // undefined 값은 키가 없는 것과 동일하게 취급 (JSON 직렬화 기준)
+  const keysA = Object.keys(objA).filter((k) => objA[k] !== undefined);
+  const keysB = Object.keys(objB).filter((k) => objB[k] !== undefined);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((k) => deepEqual(objA[k], objB[k]));
+}
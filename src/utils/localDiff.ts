@@ -0,0 +1,120 @@
+/**
+ * src/utils/localDiff.ts
+ *
+ * 서버 없이 두 로컬 데이터셋을 비교해 POST /api/data/diff와 같은 DiffResponse를 만듭니다.
+ * 오프라인일 때 snapshot:origin ↔ 현재 편집본을 비교하거나,
+ * IndexedDB의 임의 두 스냅샷(origin / lastPush / current)을 비교하는 데 사용합니다.
+ *
+ * 서버 Diff와 같은 규칙:
+ *   - 규칙 : ruleId 기준, 최상위 필드별 RuleFieldChange
+ *   - 태그 : tags 항목 이름 기준 (compoundTags / tagCategories는 비교 대상 아님)
+ *   - from 쪽이 "server", to 쪽이 "local" 자리에 들어갑니다.
+ *
+ * 로컬 비교에는 버전 충돌 개념이 없으므로 hasConflict는 항상 false,
+ * baseVersion / currentVersion에는 두 스냅샷의 baseVersion을 그대로 넣습니다.
+ */
+import type {
+  DiffResponse,
+  DiffSummary,
+  LocalSnapshot,
+  RuleDiffModified,
+  RuleFieldChange,
+} from '@/types/api';
+import type { Rule } from '@/types/rule';
+import type { TagData } from '@/types/tag';
+import { deepEqual } from '@/utils/deepEqual';
+import { ruleFieldNames } from '@/utils/ruleFields';
+
+function summarize(added: number, modified: number, deleted: number, unchanged: number): DiffSummary {
+  return {
+    addedCount:     added,
+    modifiedCount:  modified,
+    deletedCount:   deleted,
+    unchangedCount: unchanged,
+  };
+}
+
+/** 두 규칙의 최상위 필드 변경 목록 (undefined 필드는 없는 것으로 취급) */
+function diffRuleFields(from: Rule, to: Rule): RuleFieldChange[] {
+  const changes: RuleFieldChange[] = [];
+  for (const field of ruleFieldNames(from, to)) {
+    if (!deepEqual(from[field], to[field])) {
+      changes.push({ field, local: to[field], server: from[field] });
+    }
+  }
+  return changes;
+}
+
+function diffRules(from: Rule[], to: Rule[]): DiffResponse['rules'] {
+  const fromMap = new Map(from.map((r) => [r.ruleId, r]));
+  const toIds   = new Set(to.map((r) => r.ruleId));
+
+  const result: DiffResponse['rules'] = {
+    added:     [],
+    modified:  [],
+    deleted:   [],
+    unchanged: [],
+    summary:   summarize(0, 0, 0, 0),
+  };
+
+  for (const rule of to) {
+    const prev = fromMap.get(rule.ruleId);
+    if (!prev) {
+      result.added.push({ ruleId: rule.ruleId, rule });
+      continue;
+    }
+    const changes = diffRuleFields(prev, rule);
+    if (changes.length === 0) {
+      result.unchanged.push(rule.ruleId);
+    } else {
+      const modified: RuleDiffModified = { ruleId: rule.ruleId, local: rule, server: prev, changes };
+      result.modified.push(modified);
+    }
+  }
+  for (const rule of from) {
+    if (!toIds.has(rule.ruleId)) result.deleted.push({ ruleId: rule.ruleId, rule });
+  }
+
+  result.summary = summarize(
+    result.added.length, result.modified.length, result.deleted.length, result.unchanged.length,
+  );
+  return result;
+}
+
+function diffTags(from: TagData, to: TagData): DiffResponse['tags'] {
+  const result: DiffResponse['tags'] = {
+    added:     [],
+    modified:  [],
+    deleted:   [],
+    unchanged: [],
+    summary:   summarize(0, 0, 0, 0),
+  };
+
+  for (const [name, tag] of Object.entries(to.tags)) {
+    const prev = from.tags[name];
+    if (!prev)                       result.added.push({ name, tag });
+    else if (deepEqual(prev, tag))   result.unchanged.push(name);
+    else                             result.modified.push({ name, local: tag, server: prev });
+  }
+  for (const [name, tag] of Object.entries(from.tags)) {
+    if (!(name in to.tags)) result.deleted.push({ name, tag });
+  }
+
+  result.summary = summarize(
+    result.added.length, result.modified.length, result.deleted.length, result.unchanged.length,
+  );
+  return result;
+}
+
+/**
+ * from → to 변경사항을 DiffResponse 형태로 계산합니다.
+ */
+export function diffLocal(from: LocalSnapshot, to: LocalSnapshot): DiffResponse {
+  return {
+    baseVersion:    to.baseVersion,
+    currentVersion: from.baseVersion,
+    hasConflict:    false,
+    rules:          diffRules(from.rules, to.rules),
+    tags:           diffTags(from.tags, to.tags),
+  };
+}
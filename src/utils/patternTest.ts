@@ -0,0 +1,236 @@
+/**
+ * src/utils/patternTest.ts
+ *
+ * 규칙의 antiPatterns / goodPatterns 정규식을 코드 예시에 실행해 보는 유틸리티.
+ * RuleEditPage의 패턴 플레이그라운드(PatternPlayground)에서 사용합니다.
+ *
+ * 패턴은 서버(Node.js)에서 JavaScript RegExp로 실행되므로
+ * 여기서도 동일하게 new RegExp(pattern, flags)로 컴파일합니다.
+ *
+ * 백트래킹이 폭발하는 패턴은 메인 스레드를 멈추게 하므로 화면에서는 직접 부르지 않고
+ * usePatternTest(patternTest.worker.ts)로 Worker에서 시간 제한을 두고 실행합니다.
+ */
+import type { AntiPattern, GoodPattern } from '@/types/rule';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 패턴 종류 — anti: 위반 탐지용, good: 올바른 코드 확인용 */
+export type PatternKind = 'anti' | 'good';
+
+/** 패턴을 실행할 대상 코드 */
+export type PatternTarget = 'problematicCode' | 'fixedCode' | 'sample';
+
+export interface PatternMatch {
+  /** 매칭 시작 offset (문자 단위) */
+  start: number;
+  /** 매칭 끝 offset (exclusive) */
+  end:   number;
+  text:  string;
+}
+
+export interface PatternWarning {
+  level:   'error' | 'warning' | 'info';
+  message: string;
+}
+
+export interface PatternTestResult {
+  kind:        PatternKind;
+  /** antiPatterns / goodPatterns 배열 내 인덱스 */
+  index:       number;
+  pattern:     string;
+  flags:       string;
+  description: string;
+  /** 컴파일 오류 메시지 (정상이면 null) */
+  error:       string | null;
+  matches:     Record<PatternTarget, PatternMatch[]>;
+  warnings:    PatternWarning[];
+}
+
+/** Monaco 데코레이션으로 표시할 매칭 구간 */
+export interface CodeHighlight {
+  start: number;
+  end:   number;
+  kind:  PatternKind;
+  /** hover 시 표시할 설명 */
+  label: string;
+}
+
+type CompileResult =
+  | { ok: true;  regex: RegExp }
+  | { ok: false; error: string };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 상수
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 패턴 하나당 대상별 최대 매칭 수 (과도한 데코레이션 방지) */
+const MAX_MATCHES = 200;
+
+const EMPTY_MATCHES: Record<PatternTarget, PatternMatch[]> = {
+  problematicCode: [],
+  fixedCode:       [],
+  sample:          [],
+};
+
+export const PATTERN_TARGET_LABELS: Record<PatternTarget, string> = {
+  problematicCode: '위반 코드',
+  fixedCode:       '수정 코드',
+  sample:          '샘플 코드',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 컴파일 / 매칭
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * pattern + flags를 RegExp로 컴파일합니다.
+ * flags 오류와 패턴 문법 오류를 구분해 메시지를 반환합니다.
+ */
+export function compilePattern(pattern: string, flags: string): CompileResult {
+  if (!pattern) return { ok: false, error: '패턴이 비어 있습니다.' };
+  try {
+    new RegExp('', flags);
+  } catch {
+    return { ok: false, error: `잘못된 flags: "${flags}" (사용 가능: d g i m s u v y)` };
+  }
+  try {
+    return { ok: true, regex: new RegExp(pattern, flags) };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : '정규식 컴파일 실패' };
+  }
+}
+
+/**
+ * 정규식의 모든 매칭 구간을 반환합니다.
+ * g 플래그가 없어도 전체 매칭을 찾도록 복제본에 g를 추가합니다.
+ */
+export function findMatches(regex: RegExp, text: string): PatternMatch[] {
+  if (!text) return [];
+  const global = regex.flags.includes('g') ? regex : new RegExp(regex.source, `${regex.flags}g`);
+  const matches: PatternMatch[] = [];
+  for (const m of text.matchAll(global)) {
+    if (matches.length >= MAX_MATCHES) break;
+    matches.push({ start: m.index, end: m.index + m[0].length, text: m[0] });
+  }
+  return matches;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 규칙 패턴 일괄 검사
+// ─────────────────────────────────────────────────────────────────────────────
+
+function testOne(
+  kind: PatternKind,
+  index: number,
+  item: AntiPattern | GoodPattern,
+  sources: Record<PatternTarget, string>,
+): PatternTestResult {
+  const base = {
+    kind,
+    index,
+    pattern:     item.pattern,
+    flags:       item.flags,
+    description: item.description,
+  };
+
+  const compiled = compilePattern(item.pattern, item.flags);
+  if (!compiled.ok) {
+    return {
+      ...base,
+      error:    compiled.error,
+      matches:  EMPTY_MATCHES,
+      warnings: [{ level: 'error', message: compiled.error }],
+    };
+  }
+
+  const matches: Record<PatternTarget, PatternMatch[]> = {
+    problematicCode: findMatches(compiled.regex, sources.problematicCode),
+    fixedCode:       findMatches(compiled.regex, sources.fixedCode),
+    sample:          findMatches(compiled.regex, sources.sample),
+  };
+
+  const warnings: PatternWarning[] = [];
+  const hasFixed       = sources.fixedCode.trim() !== '';
+  const hasProblematic = sources.problematicCode.trim() !== '';
+
+  if (kind === 'anti') {
+    if (hasFixed && matches.fixedCode.length > 0) {
+      warnings.push({
+        level:   'warning',
+        message: `수정 코드(fixedCode)에도 ${matches.fixedCode.length}건 매칭됩니다 — 오탐 가능성`,
+      });
+    }
+    if (hasProblematic && matches.problematicCode.length === 0) {
+      warnings.push({ level: 'info', message: '위반 코드(problematicCode)에 매칭되지 않습니다.' });
+    }
+  } else if (hasFixed && matches.fixedCode.length === 0) {
+    warnings.push({ level: 'warning', message: '수정 코드(fixedCode)에 매칭되지 않습니다.' });
+  }
+
+  return { ...base, error: null, matches, warnings };
+}
+
+/**
+ * antiPatterns / goodPatterns 전체를 세 가지 대상 코드에 실행합니다.
+ *
+ * 경고 규칙:
+ *   - anti 패턴이 fixedCode에 매칭 → warning (수정된 코드도 위반으로 잡힘)
+ *   - anti 패턴이 problematicCode에 매칭 안 됨 → info
+ *   - good 패턴이 fixedCode에 매칭 안 됨 → warning
+ */
+export function testPatterns(
+  antiPatterns: AntiPattern[],
+  goodPatterns: GoodPattern[],
+  sources: Record<PatternTarget, string>,
+): PatternTestResult[] {
+  return [
+    ...antiPatterns.map((p, i) => testOne('anti', i, p, sources)),
+    ...goodPatterns.map((p, i) => testOne('good', i, p, sources)),
+  ];
+}
+
+/**
+ * 시간 안에 끝나지 않은 검사의 결과.
+ * 어느 패턴이 오래 걸렸는지는 알 수 없으므로 모든 패턴을 오류로 표시합니다.
+ */
+export function timedOutPatterns(
+  antiPatterns: AntiPattern[],
+  goodPatterns: GoodPattern[],
+  timeoutMs: number,
+): PatternTestResult[] {
+  const error = `검사가 ${timeoutMs}ms 안에 끝나지 않았습니다 — 과도한 백트래킹이 일어나는 패턴이 있는지 확인하세요.`;
+  const timedOut = (kind: PatternKind, index: number, item: AntiPattern | GoodPattern): PatternTestResult => ({
+    kind,
+    index,
+    pattern:     item.pattern,
+    flags:       item.flags,
+    description: item.description,
+    error,
+    matches:     EMPTY_MATCHES,
+    warnings:    [{ level: 'error', message: error }],
+  });
+  return [
+    ...antiPatterns.map((p, i) => timedOut('anti', i, p)),
+    ...goodPatterns.map((p, i) => timedOut('good', i, p)),
+  ];
+}
+
+/**
+ * 검사 결과에서 특정 대상 코드의 하이라이트 구간만 추출합니다.
+ */
+export function collectHighlights(
+  results: PatternTestResult[],
+  target: PatternTarget,
+): CodeHighlight[] {
+  return results.flatMap((r) =>
+    r.matches[target].map((m) => ({
+      start: m.start,
+      end:   m.end,
+      kind:  r.kind,
+      label: `${r.kind === 'anti' ? '안티 패턴' : '올바른 패턴'} #${r.index + 1}` +
+             (r.description ? ` — ${r.description}` : ''),
+    })),
+  );
+}
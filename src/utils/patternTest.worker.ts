@@ -0,0 +1,26 @@
+/**
+ * src/utils/patternTest.worker.ts
+ *
+ * testPatterns를 메인 스레드 밖에서 실행하는 Web Worker (usePatternTest에서 사용).
+ * 정규식 실행은 중간에 멈출 수 없으므로, 시간 제한을 넘기면 호출 쪽이 Worker를 terminate합니다.
+ */
+import { testPatterns, type PatternTarget, type PatternTestResult } from '@/utils/patternTest';
+import type { AntiPattern, GoodPattern } from '@/types/rule';
+
+export interface PatternTestRequest {
+  id:           number;
+  antiPatterns: AntiPattern[];
+  goodPatterns: GoodPattern[];
+  sources:      Record<PatternTarget, string>;
+}
+
+export interface PatternTestResponse {
+  id:      number;
+  results: PatternTestResult[];
+}
+
+self.onmessage = (event: MessageEvent<PatternTestRequest>) => {
+  const { id, antiPatterns, goodPatterns, sources } = event.data;
+  const response: PatternTestResponse = { id, results: testPatterns(antiPatterns, goodPatterns, sources) };
+  self.postMessage(response);
+};
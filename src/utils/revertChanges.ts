@@ -0,0 +1,97 @@
+/**
+ * src/utils/revertChanges.ts
+ *
+ * 로컬 변경 되돌리기 (discard local change).
+ * 마지막 동기화(Pull/Push) 데이터(snapshot:origin)를 "서버 버전"으로 보고, 지정한 규칙 / 태그만 그 값으로 되돌립니다.
+ *
+ *   - 수정한 항목       : origin 값으로 교체
+ *   - 로컬에서 추가한 항목 : 제거
+ *   - 로컬에서 삭제한 항목 : 복원 (규칙은 origin에서 바로 앞에 있던 규칙 뒤에 끼워 넣음)
+ *   - 규칙 필드 하나     : RuleFieldChange.field 단위로 origin 값 복원 (origin에 없던 필드는 삭제)
+ *
+ * compoundTags / tagCategories는 되돌리기 대상이 아닙니다.
+ */
+import type { Rule } from '@/types/rule';
+import type { TagData } from '@/types/tag';
+import { deepEqual } from '@/utils/deepEqual';
+import { setRuleField } from '@/utils/ruleFields';
+import type { PushDataset } from '@/utils/selectivePush';
+
+export interface RevertTarget {
+  rules?: readonly string[];
+  tags?:  readonly string[];
+}
+
+export interface RevertResult {
+  dataset:  PushDataset;
+  /** 실제로 값이 바뀐 규칙 + 태그 수 */
+  reverted: number;
+}
+
+function revertRules(current: Rule[], origin: Rule[], ids: ReadonlySet<string>): { rules: Rule[]; count: number } {
+  const originById  = new Map(origin.map((r) => [r.ruleId, r]));
+  const currentById = new Map(current.map((r) => [r.ruleId, r]));
+  let count = 0;
+
+  const rules = current.flatMap((rule) => {
+    if (!ids.has(rule.ruleId)) return [rule];
+    const prev = originById.get(rule.ruleId);
+    if (!prev || !deepEqual(prev, rule)) count++;
+    return prev ? [prev] : [];
+  });
+
+  // 삭제된 규칙 복원 — origin에서 앞선 규칙 중 결과에 남아 있는 가장 가까운 규칙 뒤에 삽입
+  origin.forEach((rule, index) => {
+    if (!ids.has(rule.ruleId) || currentById.has(rule.ruleId)) return;
+    const anchor = origin.slice(0, index).reverse().find((r) => rules.some((x) => x.ruleId === r.ruleId));
+    const at     = anchor ? rules.findIndex((x) => x.ruleId === anchor.ruleId) + 1 : 0;
+    rules.splice(at, 0, rule);
+    count++;
+  });
+
+  return { rules, count };
+}
+
+function revertTags(current: TagData, origin: TagData, names: ReadonlySet<string>): { tags: TagData; count: number } {
+  const next = { ...current.tags };
+  let count = 0;
+
+  names.forEach((name) => {
+    const prev = origin.tags[name];
+    if (deepEqual(prev, next[name])) return;
+    if (prev) next[name] = prev;
+    else delete next[name];
+    count++;
+  });
+
+  if (count === 0) return { tags: current, count };
+  return {
+    tags: {
+      ...current,
+      tags:      next,
+      _metadata: { ...current._metadata, totalTags: Object.keys(next).length },
+    },
+    count,
+  };
+}
+
+/** target의 규칙 / 태그를 origin 상태로 되돌린 데이터셋. 바뀐 것이 없으면 current 참조를 그대로 돌려줌 */
+export function revertDataset(current: PushDataset, origin: PushDataset, target: RevertTarget): RevertResult {
+  const r = revertRules(current.rules, origin.rules, new Set(target.rules ?? []));
+  const t = revertTags(current.tags, origin.tags, new Set(target.tags ?? []));
+  return {
+    dataset:  { rules: r.count > 0 ? r.rules : current.rules, tags: t.tags },
+    reverted: r.count + t.count,
+  };
+}
+
+/**
+ * 규칙 필드 하나만 origin 값으로 되돌린 규칙.
+ * 규칙이 로컬에서 추가 / 삭제된 경우(origin 또는 current에 없음)에는 null.
+ */
+export function revertRuleFieldValue(current: Rule[], origin: Rule[], ruleId: string, field: keyof Rule): Rule | null {
+  const rule = current.find((r) => r.ruleId === ruleId);
+  const prev = origin.find((r) => r.ruleId === ruleId);
+  if (!rule || !prev) return null;
+  return setRuleField(rule, field, prev[field]);
+}
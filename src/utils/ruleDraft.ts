@@ -0,0 +1,102 @@
+/**
+ * src/utils/ruleDraft.ts
+ *
+ * 새 규칙 초안 만들기.
+ *   - buildRuleId   : sourcePrefix + 카테고리 약어 + 절 번호로 ruleId 생성 (RuleEditPage 자동 생성 버튼)
+ *   - uniqueRuleId  : 이미 있는 ruleId면 "-2", "-3" … 을 붙여 겹치지 않게 함
+ *   - cloneRule     : 기존 규칙 복제 초안 (ruleId 재생성 + 생성 시각 갱신)
+ *   - 템플릿        : 출처 / 분류 / 태그 / 패턴 등 반복 입력하는 필드만 떼어 저장하고 새 규칙에 적용
+ *
+ * 템플릿 본문은 IndexedDB 'ruleTemplates' 스토어에 저장합니다 (idbStorage).
+ */
+import type { Rule, RuleCategory } from '@/types/rule';
+import { RULE_CATEGORY_ABBR } from '@/types/rule';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ruleId
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * ruleId를 만듭니다. 입력이 부족하면 error에 사용자에게 보여줄 메시지를 담습니다.
+ *
+ * @example
+ * buildRuleId('G1', '7.3.1', 'exception_handling') // { ruleId: 'G1.ERR.7_3_1' }
+ */
+export function buildRuleId(
+  sourcePrefix: string | undefined,
+  sectionNumber: string | undefined,
+  category: RuleCategory,
+): { ruleId: string; error?: undefined } | { ruleId?: undefined; error: string } {
+  const prefix  = sourcePrefix?.trim();
+  const section = sectionNumber?.trim();
+
+  if (!prefix && !section) return { error: '소스 프리픽스와 절 번호를 먼저 입력해주세요.' };
+  if (!prefix)             return { error: '소스 프리픽스를 먼저 입력해주세요.' };
+  if (!section)            return { error: '절 번호를 먼저 입력해주세요.' };
+
+  const abbr = RULE_CATEGORY_ABBR[category] ?? 'GEN';
+  return { ruleId: `${prefix}.${abbr}.${section.replace(/\./g, '_')}` };
+}
+
+/** base가 이미 쓰이고 있으면 base-2, base-3 … 중 처음 비어 있는 ID */
+export function uniqueRuleId(base: string, existing: ReadonlySet<string>): string {
+  if (!existing.has(base)) return base;
+  let n = 2;
+  while (existing.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 복제
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 규칙 복제 초안. ruleId는 원본의 prefix / 절 번호 / 카테고리로 다시 만든 뒤 겹치지 않게 조정하고,
+ * 필드가 비어 ruleId를 만들 수 없으면 원본 ruleId를 기준으로 조정합니다.
+ */
+export function cloneRule(source: Rule, existingIds: ReadonlySet<string>): Rule {
+  const generated = buildRuleId(source.sourcePrefix, source.sectionNumber, source.category);
+  return {
+    ...structuredClone(source),
+    ruleId:   uniqueRuleId(generated.ruleId ?? source.ruleId, existingIds),
+    metadata: { ...source.metadata, createdAt: new Date().toISOString() },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 템플릿
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 템플릿에 담는 필드 — 규칙마다 달라지는 ID / 제목 / 본문 / 코드 예시는 제외 */
+export const TEMPLATE_FIELDS = [
+  'level',
+  'category',
+  'severity',
+  'keywords',
+  'source',
+  'sourceFile',
+  'sourcePrefix',
+  'checkType',
+  'checkTypeReason',
+  'tagCondition',
+  'requiredTags',
+  'excludeTags',
+  'antiPatterns',
+  'goodPatterns',
+  'isActive',
+] as const satisfies readonly (keyof Rule)[];
+
+export type RuleTemplateFields = Pick<Rule, (typeof TEMPLATE_FIELDS)[number]>;
+
+export function ruleToTemplateFields(rule: Rule): RuleTemplateFields {
+  return Object.fromEntries(
+    TEMPLATE_FIELDS.map((field) => [field, structuredClone(rule[field])]),
+  ) as RuleTemplateFields;
+}
+
+/** base 초안에 템플릿 필드를 덮어씁니다 (저장 당시 없던 필드는 base 값 유지) */
+export function applyTemplate(base: Rule, fields: Partial<RuleTemplateFields>): Rule {
+  const picked = TEMPLATE_FIELDS.filter((f) => fields[f] !== undefined)
+    .map((f) => [f, structuredClone(fields[f])]);
+  return { ...base, ...Object.fromEntries(picked) };
+}
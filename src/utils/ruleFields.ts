@@ -0,0 +1,24 @@
+/**
+ * src/utils/ruleFields.ts
+ *
+ * Rule 최상위 필드를 keyof Rule로 다루는 헬퍼.
+ * 필드 단위 Diff(localDiff) / 3-way 병합(threeWayMerge) / 필드 되돌리기(revertChanges)에서 사용합니다.
+ */
+import type { Rule } from '@/types/rule';
+
+/** 규칙들에 있는 최상위 필드 이름 (중복 제거, 처음 나온 순서) */
+export function ruleFieldNames(...rules: (Rule | undefined)[]): (keyof Rule)[] {
+  const names = new Set<keyof Rule>();
+  for (const rule of rules) {
+    if (rule) for (const key of Object.keys(rule)) names.add(key as keyof Rule);
+  }
+  return [...names];
+}
+
+/** 필드 하나를 value로 바꾼 사본. value가 undefined이면 필드를 뺍니다 */
+export function setRuleField<K extends keyof Rule>(rule: Rule, field: K, value: Rule[K] | undefined): Rule {
+  const next: Partial<Rule> = { ...rule };
+  if (value === undefined) delete next[field];
+  else next[field] = value;
+  return next as Rule;
+}
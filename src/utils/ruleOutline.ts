@@ -0,0 +1,326 @@
+/**
+ * src/utils/ruleOutline.ts
+ *
+ * 가이드라인 문서 목차(source → sourceFile → 절 번호) 기준 규칙 계층 (OutlinePage).
+ *
+ *   - buildOutline     : 절 번호 "7.3.1"을 7 → 7.3 → 7.3.1 노드로 묶은 트리.
+ *                        규칙이 없는 중간 절(7.3만 있고 규칙은 7.3.1에만 있는 경우)도 노드로 만듦
+ *   - 번호 누락(gaps)  : 형제 절 번호 사이에 빠진 번호 (7.1, 7.3 → 7.2 누락)
+ *   - 검사 타입 커버리지: 노드 하위 전체 규칙의 checkType별 개수
+ *   - planSectionMove  : 목차에서 절을 끌어 옮겼을 때 형제 절을 연속 번호로 다시 매기고
+ *                        sectionNumber / level / ruleId 변경 목록을 계산
+ *
+ * 숫자가 아닌 절 번호("부록 A" 등)나 빈 절 번호는 트리에 넣지 않고 파일별 unnumbered로 모읍니다.
+ */
+import type { Rule, RuleCheckType } from '@/types/rule';
+import { RULE_CHECK_TYPE_LABELS } from '@/types/rule';
+import { buildRuleId, uniqueRuleId } from '@/utils/ruleDraft';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CheckTypeCoverage = Record<RuleCheckType, number>;
+
+export interface OutlineNode {
+  /** 절 번호 ("7.3") */
+  section:  string;
+  /** 이 절 번호를 그대로 가진 규칙 (2개 이상이면 번호 중복) */
+  rules:    Rule[];
+  children: OutlineNode[];
+  /** 자식 절 번호 중 빠진 번호 ("7.2") */
+  gaps:     string[];
+  /** 하위 전체 규칙 수 / checkType별 개수 */
+  total:    number;
+  coverage: CheckTypeCoverage;
+}
+
+export interface OutlineFile {
+  source:     string;
+  sourceFile: string;
+  sections:   OutlineNode[];
+  /** 최상위 절(장) 번호 중 빠진 번호 */
+  gaps:       string[];
+  unnumbered: Rule[];
+  total:      number;
+  coverage:   CheckTypeCoverage;
+}
+
+export interface OutlineSource {
+  source:   string;
+  files:    OutlineFile[];
+  total:    number;
+  coverage: CheckTypeCoverage;
+}
+
+/** 절 이동 — parent가 null이면 파일의 최상위(장), index는 옮긴 절을 뺀 형제 목록 기준 위치 */
+export interface SectionMove {
+  source:     string;
+  sourceFile: string;
+  section:    string;
+  parent:     string | null;
+  index:      number;
+}
+
+export interface SectionChange {
+  rule:        Rule;
+  fromSection: string;
+  toSection:   string;
+  /** ruleId가 절 번호 규칙(buildRuleId)을 따르지 않으면 기존 값 유지 */
+  toRuleId:    string;
+  toLevel:     number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 절 번호
+// ─────────────────────────────────────────────────────────────────────────────
+
+const SECTION_PATTERN = /^\d+(\.\d+)*$/;
+
+/** "7.3.1" → [7, 3, 1]. 숫자 절 번호가 아니면 null */
+export function parseSection(section: string | undefined): number[] | null {
+  const trimmed = section?.trim() ?? '';
+  return SECTION_PATTERN.test(trimmed) ? trimmed.split('.').map(Number) : null;
+}
+
+export function compareSections(a: string, b: string): number {
+  const pa = parseSection(a) ?? [];
+  const pb = parseSection(b) ?? [];
+  for (let i = 0; i < Math.min(pa.length, pb.length); i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return pa.length - pb.length;
+}
+
+export function parentSection(section: string): string | null {
+  const dot = section.lastIndexOf('.');
+  return dot < 0 ? null : section.slice(0, dot);
+}
+
+const lastNumber = (section: string) => Number(section.slice(section.lastIndexOf('.') + 1));
+
+const isWithin = (section: string, prefix: string) =>
+  section === prefix || section.startsWith(`${prefix}.`);
+
+/** 형제 번호 목록에서 빠진 번호. 장(최상위)은 가장 작은 번호부터, 하위 절은 1부터 검사 */
+function findGaps(children: string[], parent: string | null): string[] {
+  if (children.length === 0) return [];
+  const numbers = new Set(children.map(lastNumber));
+  const from    = parent === null ? Math.min(...numbers) : 1;
+  const gaps: string[] = [];
+  for (let n = from; n < Math.max(...numbers); n++) {
+    if (!numbers.has(n)) gaps.push(parent === null ? String(n) : `${parent}.${n}`);
+  }
+  return gaps;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 트리 구성
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const emptyCoverage = (): CheckTypeCoverage =>
+  Object.fromEntries(Object.keys(RULE_CHECK_TYPE_LABELS).map((k) => [k, 0])) as CheckTypeCoverage;
+
+function addCoverage(target: CheckTypeCoverage, source: CheckTypeCoverage) {
+  (Object.keys(target) as RuleCheckType[]).forEach((k) => { target[k] += source[k]; });
+}
+
+/** 한 파일의 절 번호 있는 규칙 → 절 트리 (최상위 노드 목록) */
+function buildSectionTree(rules: Rule[]): OutlineNode[] {
+  const nodes = new Map<string, OutlineNode>();
+  const nodeOf = (section: string): OutlineNode => {
+    let node = nodes.get(section);
+    if (!node) {
+      node = { section, rules: [], children: [], gaps: [], total: 0, coverage: emptyCoverage() };
+      nodes.set(section, node);
+      const parent = parentSection(section);
+      if (parent !== null) nodeOf(parent).children.push(node);
+    }
+    return node;
+  };
+  rules.forEach((rule) => nodeOf(rule.sectionNumber.trim()).rules.push(rule));
+
+  const finish = (node: OutlineNode) => {
+    node.children.sort((a, b) => compareSections(a.section, b.section));
+    node.children.forEach(finish);
+    node.gaps  = findGaps(node.children.map((c) => c.section), node.section);
+    node.total = node.rules.length;
+    node.rules.forEach((r) => { if (r.checkType in node.coverage) node.coverage[r.checkType]++; });
+    node.children.forEach((c) => {
+      node.total += c.total;
+      addCoverage(node.coverage, c.coverage);
+    });
+  };
+
+  const roots = [...nodes.values()]
+    .filter((n) => parentSection(n.section) === null)
+    .sort((a, b) => compareSections(a.section, b.section));
+  roots.forEach(finish);
+  return roots;
+}
+
+export function buildOutline(rules: Rule[]): OutlineSource[] {
+  const bySource = new Map<string, Map<string, Rule[]>>();
+  rules.forEach((rule) => {
+    const files = bySource.get(rule.source) ?? new Map<string, Rule[]>();
+    bySource.set(rule.source, files);
+    files.set(rule.sourceFile, [...(files.get(rule.sourceFile) ?? []), rule]);
+  });
+
+  return [...bySource.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([source, files]) => {
+      const outlineFiles = [...files.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([sourceFile, fileRules]): OutlineFile => {
+          const numbered = fileRules.filter((r) => parseSection(r.sectionNumber) !== null);
+          const sections = buildSectionTree(numbered);
+          const unnumbered = fileRules.filter((r) => parseSection(r.sectionNumber) === null);
+          const coverage   = emptyCoverage();
+          sections.forEach((s) => addCoverage(coverage, s.coverage));
+          unnumbered.forEach((r) => { if (r.checkType in coverage) coverage[r.checkType]++; });
+          return {
+            source,
+            sourceFile,
+            sections,
+            gaps:       findGaps(sections.map((s) => s.section), null),
+            unnumbered,
+            total:      fileRules.length,
+            coverage,
+          };
+        });
+      const coverage = emptyCoverage();
+      outlineFiles.forEach((f) => addCoverage(coverage, f.coverage));
+      return {
+        source,
+        files: outlineFiles,
+        total: outlineFiles.reduce((sum, f) => sum + f.total, 0),
+        coverage,
+      };
+    });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 재번호
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** sections 안에서 parent의 바로 아래 자식 절 번호 (중간 절 포함, 번호순) */
+function childSectionsOf(sections: string[], parent: string | null): string[] {
+  const depth = parent === null ? 1 : parent.split('.').length + 1;
+  const children = new Set<string>();
+  sections.forEach((s) => {
+    if (parent !== null && !s.startsWith(`${parent}.`)) return;
+    const parts = s.split('.');
+    if (parts.length >= depth) children.add(parts.slice(0, depth).join('.'));
+  });
+  return [...children].sort(compareSections);
+}
+
+/** 가장 긴 일치 접두어 하나만 바꿈 (형제 간 매핑이므로 겹치지 않음) */
+function renamePrefix(section: string, mapping: Map<string, string>): string {
+  for (const [from, to] of mapping) {
+    if (isWithin(section, from)) return to + section.slice(from.length);
+  }
+  return section;
+}
+
+/** ordered 순서대로 start부터 연속 번호를 매긴 매핑 (바뀌는 것만) */
+function sequentialMapping(ordered: string[], parent: string | null, start: number): Map<string, string> {
+  const mapping = new Map<string, string>();
+  ordered.forEach((from, i) => {
+    const to = parent === null ? String(start + i) : `${parent}.${start + i}`;
+    if (to !== from) mapping.set(from, to);
+  });
+  return mapping;
+}
+
+/** 규칙의 ruleId가 현재 절 번호로 만든 ID(또는 그 -N 변형)인지 */
+function followsRuleIdConvention(rule: Rule): boolean {
+  const { ruleId } = buildRuleId(rule.sourcePrefix, rule.sectionNumber, rule.category);
+  if (ruleId === undefined || !rule.ruleId.startsWith(ruleId)) return false;
+  const suffix = rule.ruleId.slice(ruleId.length);
+  return suffix === '' || /^-\d+$/.test(suffix);
+}
+
+/**
+ * 절 이동 결과로 바뀌는 규칙 목록을 계산합니다.
+ *
+ * 옮긴 절이 빠진 자리와 들어간 자리의 형제 절을 각각 연속 번호로 다시 매기며(빠진 번호도 메워짐),
+ * 하위 절은 부모 번호를 따라갑니다. level은 절 깊이와 같았던 규칙만 새 깊이(최대 4)로 맞춥니다.
+ */
+export function planSectionMove(rules: Rule[], move: SectionMove): SectionChange[] {
+  const fileRules = rules.filter(
+    (r) => r.source === move.source && r.sourceFile === move.sourceFile && parseSection(r.sectionNumber) !== null,
+  );
+  const original = fileRules.map((r) => r.sectionNumber.trim());
+  const moving   = original.map((s) => isWithin(s, move.section));
+  const fromParent = parentSection(move.section);
+
+  // ① 빠진 자리 — 원래 부모의 남은 형제를 연속 번호로 (부모가 같으면 ②에서 한 번에 처리)
+  let working = [...original];
+  let target  = move.parent;
+  if (fromParent !== move.parent) {
+    const siblings = childSectionsOf(original, fromParent);
+    const start    = Math.min(...siblings.map(lastNumber));
+    const mapping  = sequentialMapping(siblings.filter((s) => s !== move.section), fromParent, start);
+    working = working.map((s, i) => (moving[i] ? s : renamePrefix(s, mapping)));
+    if (target !== null) target = renamePrefix(target, mapping);
+  }
+
+  // ② 들어간 자리 — 옮긴 절을 index 위치에 넣고 형제 전체를 연속 번호로
+  const staying  = working.filter((_, i) => !moving[i]);
+  const siblings = childSectionsOf(staying, target);
+  const start    = fromParent === move.parent
+    ? Math.min(lastNumber(move.section), ...siblings.map(lastNumber))
+    : siblings.length > 0 ? Math.min(...siblings.map(lastNumber)) : 1;
+  const ordered  = [...siblings];
+  const MOVING   = '\u0000moving';
+  ordered.splice(Math.max(0, Math.min(move.index, ordered.length)), 0, MOVING);
+
+  const mapping = sequentialMapping(ordered, target, start);
+  const movedTo = mapping.get(MOVING) ?? (target === null ? String(start) : `${target}.${start}`);
+  mapping.delete(MOVING);
+  working = working.map((s, i) =>
+    moving[i] ? movedTo + original[i].slice(move.section.length) : renamePrefix(s, mapping),
+  );
+
+  // ③ 변경 목록 — ruleId는 바뀌지 않는 규칙의 ID와 겹치지 않게
+  const changedIdx = fileRules.map((_, i) => i).filter((i) => working[i] !== original[i]);
+  const changedIds = new Set(changedIdx.map((i) => fileRules[i].ruleId));
+  const takenIds   = new Set(rules.map((r) => r.ruleId).filter((id) => !changedIds.has(id)));
+
+  return changedIdx
+    .sort((a, b) => compareSections(working[a], working[b]))
+    .map((i): SectionChange => {
+      const rule      = fileRules[i];
+      const toSection = working[i];
+      const oldDepth  = original[i].split('.').length;
+      const newDepth  = toSection.split('.').length;
+
+      let toRuleId = rule.ruleId;
+      if (followsRuleIdConvention(rule)) {
+        const generated = buildRuleId(rule.sourcePrefix, toSection, rule.category).ruleId;
+        if (generated) toRuleId = uniqueRuleId(generated, takenIds);
+      }
+      takenIds.add(toRuleId);
+
+      return {
+        rule,
+        fromSection: original[i],
+        toSection,
+        toRuleId,
+        toLevel: rule.level === Math.min(oldDepth, 4) ? Math.min(newDepth, 4) : rule.level,
+      };
+    });
+}
+
+/** planSectionMove 결과를 규칙 배열에 반영 (ruleId가 서로 맞바뀌어도 안전하도록 한 번에 교체) */
+export function applySectionChanges(rules: Rule[], changes: SectionChange[]): Rule[] {
+  const byRule = new Map(changes.map((c) => [c.rule, c]));
+  return rules.map((rule) => {
+    const change = byRule.get(rule);
+    return change
+      ? { ...rule, sectionNumber: change.toSection, ruleId: change.toRuleId, level: change.toLevel }
+      : rule;
+  });
+}
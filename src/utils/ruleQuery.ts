@@ -0,0 +1,422 @@
+/**
+ * src/utils/ruleQuery.ts
+ *
+ * RulesPage 검색창의 규칙 쿼리 언어.
+ *
+ * 문법 (공백으로 구분한 항목은 모두 AND)
+ *   term   := '-'? ( field ':' values | text )
+ *   values := value ( ',' value )*        값끼리는 OR
+ *   value  := WORD | '"' 공백 포함 문자열 '"'
+ *
+ * 예) severity:CRITICAL,HIGH tag:USES_CONNECTION -tag:HAS_TRY_WITH_RESOURCES
+ *     sourcePrefix:G1 has:antiPatterns keywords:"SQL" checkType:llm_*
+ *
+ *   - 값에 `*` 가 있으면 와일드카드로 비교 (대소문자 무시)
+ *   - level 은 `level:>=2`, `level:1,2` 처럼 비교 연산자 사용 가능
+ *   - has:<필드> 는 값이 비어 있지 않은 규칙, is:active / is:inactive 는 활성 여부
+ *   - 필드 없는 단어는 ruleId / 제목 / 설명 부분 검색 (기존 검색창과 동일)
+ *
+ * 모든 항목에 원문 offset을 기록하므로 오류 위치 표시와 자동완성에 사용합니다.
+ */
+import type { Rule } from '@/types/rule';
+import {
+  RULE_CATEGORY_LABELS,
+  RULE_CHECK_TYPE_LABELS,
+  RULE_SEVERITY_LABELS,
+} from '@/types/rule';
+import { getTagNames, parseTagExpression } from '@/utils/tagExpression';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 필드 정의
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 비교 방식
+ *   - exact    : 값 전체 일치 (와일드카드 사용 가능)
+ *   - contains : 부분 일치
+ *   - number   : 숫자 비교 (=, >, >=, <, <=)
+ */
+type MatchMode = 'exact' | 'contains' | 'number';
+
+interface QueryFieldSpec {
+  label:   string;
+  mode:    MatchMode;
+  values:  (rule: Rule) => string[];
+  /** 허용 값이 정해진 필드 (검증 + 자동완성) */
+  choices?: readonly string[];
+}
+
+/** 규칙마다 tagCondition 파싱 결과를 캐시 (규칙 객체는 수정 시 교체되므로 WeakMap으로 충분) */
+const tagRefCache = new WeakMap<Rule, string[]>();
+
+function referencedTags(rule: Rule): string[] {
+  let cached = tagRefCache.get(rule);
+  if (!cached) {
+    const parsed = parseTagExpression(rule.tagCondition);
+    const inCondition = parsed.ok ? getTagNames(parsed.ast) : new Set<string>();
+    cached = [...new Set([...rule.requiredTags, ...rule.excludeTags, ...inCondition])];
+    tagRefCache.set(rule, cached);
+  }
+  return cached;
+}
+
+export const QUERY_FIELDS = {
+  ruleId:       { label: '규칙 ID',              mode: 'exact',    values: (r) => [r.ruleId] },
+  title:        { label: '제목',                 mode: 'contains', values: (r) => [r.title] },
+  description:  { label: '설명',                 mode: 'contains', values: (r) => [r.description] },
+  message:      { label: '메시지',               mode: 'contains', values: (r) => [r.message] },
+  suggestion:   { label: '개선 제안',            mode: 'contains', values: (r) => [r.suggestion] },
+  severity:     { label: '심각도',               mode: 'exact',    values: (r) => [r.severity],  choices: Object.keys(RULE_SEVERITY_LABELS) },
+  category:     { label: '카테고리',             mode: 'exact',    values: (r) => [r.category],  choices: Object.keys(RULE_CATEGORY_LABELS) },
+  checkType:    { label: '검사 타입',            mode: 'exact',    values: (r) => [r.checkType], choices: Object.keys(RULE_CHECK_TYPE_LABELS) },
+  level:        { label: '레벨',                 mode: 'number',   values: (r) => [String(r.level)] },
+  section:      { label: '절 번호',              mode: 'exact',    values: (r) => [r.sectionNumber] },
+  source:       { label: '출처',                 mode: 'exact',    values: (r) => [r.source] },
+  sourceFile:   { label: '출처 파일',            mode: 'exact',    values: (r) => [r.sourceFile] },
+  sourcePrefix: { label: '출처 접두사',          mode: 'exact',    values: (r) => [r.sourcePrefix] },
+  tag:          { label: '참조 태그 (필수·제외·조건식)', mode: 'exact', values: referencedTags },
+  requiredTag:  { label: '필수 태그',            mode: 'exact',    values: (r) => r.requiredTags },
+  excludeTag:   { label: '제외 태그',            mode: 'exact',    values: (r) => r.excludeTags },
+  keywords:     { label: '키워드',               mode: 'contains', values: (r) => r.keywords },
+} satisfies Record<string, QueryFieldSpec>;
+
+export type QueryField = keyof typeof QUERY_FIELDS;
+
+/** has:<이름> — 값이 비어 있지 않은지 */
+export const HAS_FIELDS: Record<string, { label: string; test: (rule: Rule) => boolean }> = {
+  antiPatterns:    { label: '안티 패턴',       test: (r) => r.antiPatterns.length > 0 },
+  goodPatterns:    { label: '올바른 패턴',     test: (r) => r.goodPatterns.length > 0 },
+  tagCondition:    { label: '태그 조건식',     test: (r) => r.tagCondition.trim() !== '' },
+  requiredTags:    { label: '필수 태그',       test: (r) => r.requiredTags.length > 0 },
+  excludeTags:     { label: '제외 태그',       test: (r) => r.excludeTags.length > 0 },
+  keywords:        { label: '키워드',          test: (r) => r.keywords.length > 0 },
+  problematicCode: { label: '문제 코드 예시',  test: (r) => !!r.problematicCode?.trim() },
+  fixedCode:       { label: '수정 코드 예시',  test: (r) => !!r.fixedCode?.trim() },
+  suggestion:      { label: '개선 제안',       test: (r) => r.suggestion.trim() !== '' },
+  tables:          { label: '표',              test: (r) => r.hasTables },
+  images:          { label: '이미지',          test: (r) => r.hasImages },
+};
+
+/** is:<이름> */
+export const IS_FLAGS: Record<string, { label: string; test: (rule: Rule) => boolean }> = {
+  active:   { label: '활성',   test: (r) => r.isActive },
+  inactive: { label: '비활성', test: (r) => !r.isActive },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface QueryError {
+  message: string;
+  start:   number;
+  end:     number;
+}
+
+export interface QueryClause {
+  /** 'text' = 필드 없는 검색어 */
+  kind:   QueryField | 'has' | 'is' | 'text';
+  values: string[];
+  negate: boolean;
+  start:  number;
+  end:    number;
+  /** 값 비교 함수 (파싱 시점에 미리 만들어 둠) */
+  test:   (rule: Rule) => boolean;
+}
+
+export interface RuleQuery {
+  source:  string;
+  clauses: QueryClause[];
+  errors:  QueryError[];
+}
+
+interface RawTerm {
+  negate: boolean;
+  /** 콜론 앞 이름 (없으면 null) */
+  field:  string | null;
+  values: string[];
+  start:  number;
+  end:    number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 토크나이저
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 따옴표 밖의 sep 기준으로 자르고 각 조각의 따옴표를 벗겨냅니다. */
+function splitOutsideQuotes(text: string, sep: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted  = false;
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    if (ch === sep && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts.map((p) => p.replace(/"/g, ''));
+}
+
+/** 공백(따옴표 밖)으로 항목을 나눕니다. 닫히지 않은 따옴표는 끝까지 이어진 것으로 봅니다. */
+function tokenize(source: string): RawTerm[] {
+  const terms: RawTerm[] = [];
+  let i = 0;
+  while (i < source.length) {
+    if (/\s/.test(source[i])) { i++; continue; }
+    const start = i;
+    let quoted = false;
+    while (i < source.length && (quoted || !/\s/.test(source[i]))) {
+      if (source[i] === '"') quoted = !quoted;
+      i++;
+    }
+    let raw = source.slice(start, i);
+
+    const negate = raw.length > 1 && raw.startsWith('-');
+    if (negate) raw = raw.slice(1);
+
+    const colon = raw.startsWith('"') ? -1 : raw.indexOf(':');
+    if (colon > 0) {
+      terms.push({
+        negate,
+        field:  raw.slice(0, colon),
+        values: splitOutsideQuotes(raw.slice(colon + 1), ',').filter((v) => v !== ''),
+        start,
+        end:    i,
+      });
+    } else {
+      terms.push({ negate, field: null, values: [raw.replace(/"/g, '')], start, end: i });
+    }
+  }
+  return terms;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 비교
+// ─────────────────────────────────────────────────────────────────────────────
+
+function globToRegExp(pattern: string): RegExp {
+  const body = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}$`, 'i');
+}
+
+function valueMatcher(value: string, mode: MatchMode): ((candidate: string) => boolean) | string {
+  if (mode === 'number') {
+    const m = /^(>=|<=|>|<|=)?(-?\d+)$/.exec(value);
+    if (!m) return `숫자 비교식이 아닙니다: "${value}" (예: 2, >=2, <3)`;
+    const [, op = '=', num] = m;
+    const n = Number(num);
+    return (candidate) => {
+      const c = Number(candidate);
+      switch (op) {
+        case '>':  return c >  n;
+        case '>=': return c >= n;
+        case '<':  return c <  n;
+        case '<=': return c <= n;
+        default:   return c === n;
+      }
+    };
+  }
+  if (value.includes('*')) {
+    const re = globToRegExp(value);
+    return (candidate) => re.test(candidate);
+  }
+  const lower = value.toLowerCase();
+  return mode === 'contains'
+    ? (candidate) => candidate.toLowerCase().includes(lower)
+    : (candidate) => candidate.toLowerCase() === lower;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 파서
+// ─────────────────────────────────────────────────────────────────────────────
+
+const isQueryField = (name: string): name is QueryField => Object.hasOwn(QUERY_FIELDS, name);
+
+/** 필드 이름은 대소문자를 구분하지 않음 (sourceprefix → sourcePrefix) */
+function resolveFieldName(name: string): string {
+  const lower = name.toLowerCase();
+  return [...Object.keys(QUERY_FIELDS), 'has', 'is'].find((f) => f.toLowerCase() === lower) ?? name;
+}
+
+function compileTerm(term: RawTerm, errors: QueryError[]): QueryClause | null {
+  const at = { start: term.start, end: term.end };
+  const base = { negate: term.negate, values: term.values, ...at };
+
+  if (term.field === null) {
+    const keyword = term.values[0].toLowerCase();
+    return {
+      ...base,
+      kind: 'text',
+      test: (r) =>
+        r.ruleId.toLowerCase().includes(keyword) ||
+        r.title.toLowerCase().includes(keyword) ||
+        r.description.toLowerCase().includes(keyword),
+    };
+  }
+
+  const field = resolveFieldName(term.field);
+  if (term.values.length === 0) {
+    errors.push({ message: `${field}: 뒤에 값이 없습니다.`, ...at });
+    return null;
+  }
+
+  if (field === 'has' || field === 'is') {
+    const table = field === 'has' ? HAS_FIELDS : IS_FLAGS;
+    const keys  = Object.keys(table);
+    const tests: ((r: Rule) => boolean)[] = [];
+    for (const value of term.values) {
+      const key = keys.find((k) => k.toLowerCase() === value.toLowerCase());
+      if (!key) {
+        errors.push({ message: `${field}:${value} — 사용할 수 있는 값: ${keys.join(', ')}`, ...at });
+        return null;
+      }
+      tests.push(table[key].test);
+    }
+    return { ...base, kind: field, test: (r) => tests.some((t) => t(r)) };
+  }
+
+  if (!isQueryField(field)) {
+    errors.push({ message: `알 수 없는 필드: ${term.field}`, ...at });
+    return null;
+  }
+
+  const spec: QueryFieldSpec = QUERY_FIELDS[field];
+  const matchers: ((candidate: string) => boolean)[] = [];
+  for (const value of term.values) {
+    const matcher = valueMatcher(value, spec.mode);
+    if (typeof matcher === 'string') {
+      errors.push({ message: matcher, ...at });
+      return null;
+    }
+    // 정해진 값이 있는 필드는 오타를 알려줌 (비교는 그대로 수행 — 결과 0건)
+    if (spec.choices && !value.includes('*') && !spec.choices.some((c) => c.toLowerCase() === value.toLowerCase())) {
+      errors.push({ message: `${field}에 없는 값: ${value}`, ...at });
+    }
+    matchers.push(matcher);
+  }
+  return {
+    ...base,
+    kind: field,
+    test: (r) => spec.values(r).some((candidate) => matchers.some((m) => m(candidate))),
+  };
+}
+
+/**
+ * 쿼리 문자열을 파싱합니다. 잘못된 항목은 errors에 담고 조건에서는 제외하므로
+ * 입력 중인 쿼리로도 나머지 조건은 바로 적용됩니다.
+ */
+export function parseRuleQuery(source: string): RuleQuery {
+  const errors: QueryError[] = [];
+  const clauses = tokenize(source)
+    .map((term) => compileTerm(term, errors))
+    .filter((c): c is QueryClause => c !== null);
+  return { source, clauses, errors };
+}
+
+export function matchesRuleQuery(rule: Rule, query: RuleQuery): boolean {
+  return query.clauses.every((clause) => clause.test(rule) !== clause.negate);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 자동완성
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface QuerySuggestion {
+  /** 선택 시 입력창에 들어갈 전체 쿼리 */
+  value: string;
+  /** 목록에 표시할 후보 */
+  label: string;
+  hint?: string;
+}
+
+/** from 이후에서 따옴표 밖에 있는 마지막 pattern 문자의 위치 (없으면 from - 1) */
+function lastIndexOutsideQuotes(text: string, pattern: RegExp, from: number): number {
+  let quoted = false;
+  let found  = from - 1;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '"') quoted = !quoted;
+    else if (!quoted && pattern.test(text[i])) found = i;
+  }
+  return found;
+}
+
+const quoteIfNeeded = (value: string) => (/[\s,":]/.test(value) ? `"${value.replace(/"/g, '')}"` : value);
+
+/** 규칙 목록에서 필드의 기존 값을 많이 쓰인 순으로 모읍니다. */
+function collectFieldValues(field: string, rules: Rule[]): string[] {
+  if (field === 'has') return Object.keys(HAS_FIELDS);
+  if (field === 'is')  return Object.keys(IS_FLAGS);
+  if (!isQueryField(field)) return [];
+
+  const spec: QueryFieldSpec = QUERY_FIELDS[field];
+  const counts = new Map<string, number>();
+  spec.choices?.forEach((c) => counts.set(c, 0));
+  for (const rule of rules) {
+    for (const v of spec.values(rule)) {
+      if (v !== '') counts.set(v, (counts.get(v) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([v]) => v);
+}
+
+/**
+ * 쿼리 마지막 항목(입력 중인 항목)에 대한 후보를 만듭니다.
+ *   - 콜론 전: 필드 이름 후보 (`sev` → `severity:`)
+ *   - 콜론 후: 규칙에 실제로 있는 값 후보 (쉼표로 이어 쓴 값은 제외)
+ */
+export function suggestRuleQuery(source: string, rules: Rule[], limit = 12): QuerySuggestion[] {
+  // 마지막 공백(따옴표 밖) 뒤가 입력 중인 항목
+  const tokenStart = lastIndexOutsideQuotes(source, /\s/, 0) + 1;
+  const head   = source.slice(0, tokenStart);
+  const token  = source.slice(tokenStart);
+  const negate = token.startsWith('-') ? '-' : '';
+  const body   = token.slice(negate.length);
+  const colon  = body.indexOf(':');
+
+  if (colon < 0) {
+    const partial = body.toLowerCase();
+    const fields: [string, string][] = [
+      ...Object.entries(QUERY_FIELDS).map(([name, spec]): [string, string] => [name, spec.label]),
+      ['has', '값이 있는 필드'],
+      ['is', '활성 여부'],
+    ];
+    return fields
+      .filter(([name]) => name.toLowerCase().startsWith(partial) && name.toLowerCase() !== partial)
+      .slice(0, limit)
+      .map(([name, label]) => ({ value: `${head}${negate}${name}:`, label: `${name}:`, hint: label }));
+  }
+
+  const field   = resolveFieldName(body.slice(0, colon));
+  const listed  = splitOutsideQuotes(body.slice(colon + 1), ',');
+  const partial = (listed.pop() ?? '').toLowerCase();
+  const used    = new Set(listed.map((v) => v.toLowerCase()));
+  // 마지막 쉼표까지는 이미 입력한 값이므로 그대로 둠
+  const lastComma = lastIndexOutsideQuotes(body, /,/, colon + 1);
+  const prefix    = body.slice(0, lastComma >= 0 ? lastComma + 1 : colon + 1);
+
+  const labels: Record<string, string> | undefined =
+    field === 'severity'  ? RULE_SEVERITY_LABELS :
+    field === 'category'  ? RULE_CATEGORY_LABELS :
+    field === 'checkType' ? RULE_CHECK_TYPE_LABELS :
+    field === 'has'       ? Object.fromEntries(Object.entries(HAS_FIELDS).map(([k, v]) => [k, v.label])) :
+    field === 'is'        ? Object.fromEntries(Object.entries(IS_FLAGS).map(([k, v]) => [k, v.label])) :
+    undefined;
+
+  return collectFieldValues(field, rules)
+    .filter((v) => !used.has(v.toLowerCase()) && v.toLowerCase().includes(partial) && v.toLowerCase() !== partial)
+    .slice(0, limit)
+    .map((v) => ({
+      value: `${head}${negate}${prefix}${quoteIfNeeded(v)}`,
+      label: v,
+      hint:  labels?.[v],
+    }));
+}
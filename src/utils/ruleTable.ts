@@ -0,0 +1,92 @@
+/**
+ * src/utils/ruleTable.ts
+ *
+ * 가이드라인 문서에서 추출한 Rule.tables 다루기 (RuleEditPage "원문 표" 섹션).
+ *
+ *   - tableCells      : RuleTable → 셀 2차원 배열 (markdown 파이프 표를 파싱, 실패 시 content 줄 단위)
+ *   - buildRuleTable  : 셀 배열 → RuleTable (markdown / content / rows / cols 재생성)
+ *   - tablesFlagMismatch : hasTables 값이 tables 개수와 맞지 않는지
+ *
+ * markdown 형식은 GFM 파이프 표이며 첫 행을 머리글로 씁니다.
+ * 셀 안의 "|"는 "\|"로, 줄바꿈은 "<br>"로 바꿔 저장합니다.
+ * content는 검색 · 미리보기용 평문으로, 셀은 " | ", 행은 줄바꿈으로 이어 붙입니다.
+ * textbox 형식은 셀 하나(1×1)로 취급하며 markdown과 content 모두 본문 그대로입니다.
+ */
+import type { Rule, RuleTable } from '@/types/rule';
+
+export type TableCells = string[][];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// markdown ↔ 셀
+// ─────────────────────────────────────────────────────────────────────────────
+
+const SEPARATOR_ROW = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+/** "| a | b \| c |" → ['a', 'b | c'] */
+function splitRow(line: string): string[] {
+  const body  = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+  const cells = body.split(/(?<!\\)\|/);
+  return cells.map((c) => c.trim().replace(/\\\|/g, '|').replace(/<br\s*\/?>/gi, '\n'));
+}
+
+function escapeCell(cell: string): string {
+  return cell.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>').trim();
+}
+
+/** 파이프 표 markdown → 셀. 파이프 행이 하나도 없으면 null */
+export function parseMarkdownTable(markdown: string): TableCells | null {
+  const lines = markdown.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const rows  = lines.filter((l) => l.includes('|') && !SEPARATOR_ROW.test(l)).map(splitRow);
+  return rows.length > 0 ? rows : null;
+}
+
+/** 행마다 열 수가 다르면 빈 셀로 채움 */
+export function normalizeCells(cells: TableCells): TableCells {
+  const cols = Math.max(1, ...cells.map((r) => r.length));
+  const rows = cells.length > 0 ? cells : [['']];
+  return rows.map((r) => [...r, ...Array<string>(cols - r.length).fill('')]);
+}
+
+export function toMarkdownTable(cells: TableCells): string {
+  const [header, ...body] = normalizeCells(cells);
+  const line = (row: string[]) => `| ${row.map(escapeCell).join(' | ')} |`;
+  return [line(header), `|${header.map(() => ' --- ').join('|')}|`, ...body.map(line)].join('\n');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RuleTable
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function tableCells(table: RuleTable): TableCells {
+  if (table.type === 'textbox') return [[table.content || table.markdown || '']];
+  const parsed = parseMarkdownTable(table.markdown ?? '');
+  if (parsed) return normalizeCells(parsed);
+  return normalizeCells((table.content ?? '').split(/\r?\n/).filter(Boolean).map((l) => l.split(' | ')));
+}
+
+export function buildRuleTable(type: RuleTable['type'], cells: TableCells): RuleTable {
+  if (type === 'textbox') {
+    const text = cells.flat().join('\n');
+    return { type, content: text, markdown: text, rows: 1, cols: 1 };
+  }
+  const normalized = normalizeCells(cells);
+  return {
+    type,
+    content:  normalized.map((r) => r.map((c) => c.replace(/\s*\n\s*/g, ' ')).join(' | ')).join('\n'),
+    markdown: toMarkdownTable(normalized),
+    rows:     normalized.length,
+    cols:     normalized[0].length,
+  };
+}
+
+/** 저장된 rows / cols가 markdown 실제 크기와 다른 표의 번호 */
+export function staleTableIndexes(tables: RuleTable[]): number[] {
+  return tables.flatMap((t, i) => {
+    const cells = tableCells(t);
+    return t.type === 'table' && (t.rows !== cells.length || t.cols !== cells[0].length) ? [i] : [];
+  });
+}
+
+export function tablesFlagMismatch(rule: Pick<Rule, 'hasTables' | 'tables'>): boolean {
+  return Boolean(rule.hasTables) !== (rule.tables ?? []).length > 0;
+}
@@ -0,0 +1,277 @@
+/**
+ * src/utils/searchIndex.ts
+ *
+ * 규칙 · 태그 · 복합 태그 전문 검색 (명령 팔레트용).
+ *
+ * 색인 방식:
+ *   - 텍스트를 NFKC + 소문자로 정규화한 뒤 문자/숫자가 아닌 곳에서 단어로 자름
+ *     (USES_CONNECTION → uses, connection)
+ *   - 단어마다 1-gram + 2-gram을 역색인에 등록. 한국어는 띄어쓰기 단위가 길어
+ *     "트랜잭션처리를" 안의 "트랜잭션"처럼 단어 내부 부분 일치가 필요하므로 n-gram을 사용
+ *
+ * 검색:
+ *   - 검색어 단어마다 n-gram을 모두 가진 필드 → 원문 부분 일치 확인 (정확 일치)
+ *   - n-gram의 70% 이상만 가진 필드 → 오타 허용 일치 (낮은 점수)
+ *   - 모든 검색어 단어가 어느 필드에든 일치한 문서만 결과에 포함 (AND)
+ *   - 점수 = Σ(단어별 최고 필드 점수). 필드 가중치 × 단어 경계 / 오타 보정
+ */
+import type { Rule } from '@/types/rule';
+import type { TagData } from '@/types/tag';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type SearchDocKind = 'rule' | 'tag' | 'compoundTag';
+
+export interface SearchField {
+  label:  string;
+  text:   string;
+  weight: number;
+}
+
+export interface SearchDoc {
+  kind:   SearchDocKind;
+  /** ruleId 또는 태그 이름 */
+  key:    string;
+  /** 결과 목록에 함께 표시할 제목 / 설명 */
+  title:  string;
+  fields: SearchField[];
+}
+
+export interface SearchMatch {
+  field:   string;
+  snippet: string;
+  /** snippet 기준 강조 범위. 오타 허용 일치면 null */
+  highlight: [number, number] | null;
+}
+
+export interface SearchHit {
+  doc:   SearchDoc;
+  score: number;
+  match: SearchMatch;
+}
+
+interface FieldRef {
+  doc:        number;
+  field:      number;
+  normalized: string;
+}
+
+export interface SearchIndex {
+  docs:     SearchDoc[];
+  fields:   FieldRef[];
+  /** n-gram → 해당 n-gram을 가진 FieldRef 번호 (오름차순, 중복 없음) */
+  postings: Map<string, number[]>;
+}
+
+export const SEARCH_KIND_LABELS: Record<SearchDocKind, string> = {
+  rule:        '규칙',
+  tag:         '태그',
+  compoundTag: '복합 태그',
+};
+
+/** 오타 허용 일치로 인정할 최소 n-gram 비율 */
+const FUZZY_COVERAGE = 0.7;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 토큰화
+// ─────────────────────────────────────────────────────────────────────────────
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+
+const splitWords = (normalized: string) => normalized.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+function gramsOf(word: string): string[] {
+  const chars = [...word];
+  if (chars.length < 2) return chars;
+  const grams = new Set<string>();
+  for (let i = 0; i < chars.length - 1; i++) grams.add(chars[i] + chars[i + 1]);
+  return [...grams];
+}
+
+/** 색인용: 1-gram도 함께 등록해 한 글자 검색어도 찾을 수 있게 함 */
+function indexGramsOf(word: string): string[] {
+  return [...new Set([...word]), ...gramsOf(word)];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 문서 구성
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 객체 안의 모든 문자열 값을 모읍니다 (태그 detection 설정 등) */
+function collectStrings(value: unknown, out: string[] = []): string[] {
+  if (typeof value === 'string') out.push(value);
+  else if (Array.isArray(value)) value.forEach((v) => collectStrings(v, out));
+  else if (value && typeof value === 'object') Object.values(value).forEach((v) => collectStrings(v, out));
+  return out;
+}
+
+function ruleDoc(rule: Rule): SearchDoc {
+  return {
+    kind:  'rule',
+    key:   rule.ruleId,
+    title: rule.title,
+    fields: [
+      { label: '규칙 ID',        text: rule.ruleId,                      weight: 6 },
+      { label: '제목',           text: rule.title,                       weight: 5 },
+      { label: '키워드',         text: rule.keywords.join(' '),          weight: 3 },
+      { label: '설명',           text: rule.description,                 weight: 2 },
+      { label: '메시지',         text: rule.message,                     weight: 2 },
+      { label: '태그 조건식',    text: rule.tagCondition,                weight: 2 },
+      { label: '필수 태그',      text: rule.requiredTags.join(' '),      weight: 2 },
+      { label: '제외 태그',      text: rule.excludeTags.join(' '),       weight: 2 },
+      { label: '개선 제안',      text: rule.suggestion,                  weight: 1.5 },
+      { label: '검사 타입 근거', text: rule.checkTypeReason,             weight: 1 },
+      { label: '문제 코드',      text: rule.problematicCode ?? '',       weight: 1 },
+      { label: '수정 코드',      text: rule.fixedCode ?? '',             weight: 1 },
+      { label: '안티 패턴',      text: rule.antiPatterns.flatMap((p) => [p.pattern, p.description]).join('\n'), weight: 1 },
+      { label: '올바른 패턴',    text: rule.goodPatterns.flatMap((p) => [p.pattern, p.description]).join('\n'), weight: 1 },
+      { label: '출처',           text: `${rule.source} ${rule.sourceFile} ${rule.sectionNumber}`, weight: 1 },
+      { label: '표',             text: rule.tables.map((t) => t.content).join('\n'), weight: 0.5 },
+    ],
+  };
+}
+
+function tagDocs(tags: TagData): SearchDoc[] {
+  const defs = Object.entries(tags.tags).map(([name, def]): SearchDoc => ({
+    kind:  'tag',
+    key:   name,
+    title: def.description,
+    fields: [
+      { label: '태그 이름', text: name,                                   weight: 6 },
+      { label: '설명',      text: def.description,                        weight: 4 },
+      { label: '카테고리',  text: def.category,                           weight: 2 },
+      { label: '탐지 설정', text: collectStrings(def.detection).join('\n'), weight: 1.5 },
+      { label: '메모',      text: def.notes ?? '',                        weight: 1 },
+    ],
+  }));
+  const compounds = Object.entries(tags.compoundTags).map(([name, ct]): SearchDoc => ({
+    kind:  'compoundTag',
+    key:   name,
+    title: ct.description,
+    fields: [
+      { label: '태그 이름',  text: name,                                                    weight: 6 },
+      { label: '설명',       text: ct.description,                                          weight: 4 },
+      { label: '조건식',     text: ct.expression ?? '',                                     weight: 2 },
+      { label: '구성 태그',  text: [...(ct.requires ?? []), ...(ct.excludes ?? [])].join(' '), weight: 2 },
+      { label: '심각도',     text: ct.severity ?? '',                                       weight: 1 },
+    ],
+  }));
+  return [...defs, ...compounds];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 색인
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function buildSearchIndex(rules: Rule[], tags: TagData): SearchIndex {
+  const docs     = [...rules.map(ruleDoc), ...tagDocs(tags)];
+  const fields: FieldRef[] = [];
+  const postings = new Map<string, number[]>();
+
+  docs.forEach((doc, docIdx) => {
+    doc.fields.forEach((field, fieldIdx) => {
+      if (!field.text) return;
+      const ref = fields.length;
+      const normalized = normalize(field.text);
+      fields.push({ doc: docIdx, field: fieldIdx, normalized });
+
+      const grams = new Set(splitWords(normalized).flatMap(indexGramsOf));
+      grams.forEach((gram) => {
+        const list = postings.get(gram);
+        if (list) list.push(ref);
+        else postings.set(gram, [ref]);
+      });
+    });
+  });
+
+  return { docs, fields, postings };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 검색
+// ─────────────────────────────────────────────────────────────────────────────
+
+function makeSnippet(text: string, start: number, length: number, radius = 30): Omit<SearchMatch, 'field'> {
+  const from   = Math.max(0, start - radius);
+  const to     = Math.min(text.length, start + length + radius);
+  const prefix = from > 0 ? '…' : '';
+  const body   = text.slice(from, to).replace(/\s+/g, ' ');
+  // 공백 정리로 길이가 바뀔 수 있으므로 강조 위치는 정리 전 앞부분 기준으로 다시 계산
+  const offset = prefix.length + text.slice(from, start).replace(/\s+/g, ' ').length;
+  return {
+    snippet:   `${prefix}${body}${to < text.length ? '…' : ''}`,
+    highlight: [offset, offset + text.slice(start, start + length).replace(/\s+/g, ' ').length],
+  };
+}
+
+interface WordScore {
+  score: number;
+  ref:   number;
+  exact: number; // 정규화 텍스트 내 위치 (오타 허용 일치면 -1)
+}
+
+function scoreWord(index: SearchIndex, word: string): Map<number, WordScore> {
+  const grams  = gramsOf(word);
+  const counts = new Map<number, number>();
+  for (const gram of grams) {
+    index.postings.get(gram)?.forEach((ref) => counts.set(ref, (counts.get(ref) ?? 0) + 1));
+  }
+
+  const minCount = grams.length >= 3 ? Math.ceil(grams.length * FUZZY_COVERAGE) : grams.length;
+  const byDoc    = new Map<number, WordScore>();
+  counts.forEach((count, ref) => {
+    if (count < minCount) return;
+    const { doc, field, normalized } = index.fields[ref];
+    const weight   = index.docs[doc].fields[field].weight;
+    const position = normalized.indexOf(word);
+
+    let score: number;
+    if (position >= 0) {
+      const before   = position === 0 ? '' : normalized[position - 1];
+      const boundary = !/[\p{L}\p{N}]/u.test(before);
+      score = weight * (boundary ? 1.5 : 1) * (normalized === word ? 2 : 1);
+    } else {
+      score = weight * (count / grams.length) * 0.4;
+    }
+
+    const prev = byDoc.get(doc);
+    if (!prev || score > prev.score) byDoc.set(doc, { score, ref, exact: position });
+  });
+  return byDoc;
+}
+
+/**
+ * 색인에서 query를 검색해 점수순으로 반환합니다.
+ */
+export function searchIndex(index: SearchIndex, query: string, limit = 30): SearchHit[] {
+  const words = [...new Set(splitWords(normalize(query)))];
+  if (words.length === 0) return [];
+
+  const perWord = words.map((w) => scoreWord(index, w));
+  const hits: SearchHit[] = [];
+
+  perWord[0].forEach((_, docIdx) => {
+    const scores = perWord.map((m) => m.get(docIdx));
+    if (scores.some((s) => s === undefined)) return;
+    const found = scores as WordScore[];
+
+    // 가장 높은 점수를 받은 일치 위치로 미리보기 구성
+    const best  = found.reduce((a, b) => (b.score > a.score ? b : a));
+    const { field } = index.fields[best.ref];
+    const doc   = index.docs[docIdx];
+    const text  = doc.fields[field].text;
+
+    // 정규화로 길이가 바뀌지 않은 경우에만 원문 위치를 그대로 사용
+    const exactInText = best.exact >= 0 && normalize(text).length === text.length;
+    const wordLength  = words[perWord.findIndex((m) => m.get(docIdx) === best)].length;
+    const match: SearchMatch = exactInText
+      ? { field: doc.fields[field].label, ...makeSnippet(text, best.exact, wordLength) }
+      : { field: doc.fields[field].label, snippet: text.slice(0, 80).replace(/\s+/g, ' '), highlight: null };
+
+    hits.push({ doc, score: found.reduce((sum, s) => sum + s.score, 0), match });
+  });
+
+  return hits.sort((a, b) => b.score - a.score || a.doc.key.localeCompare(b.doc.key)).slice(0, limit);
+}
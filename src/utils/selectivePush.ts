@@ -0,0 +1,86 @@
+/**
+ * src/utils/selectivePush.ts
+ *
+ * 선택 Push (cherry-pick).
+ * 서버 API는 rules / TagData 전체를 교체하므로, 마지막 동기화(Pull/Push) 데이터(snapshot:origin) 위에
+ * 선택한 변경만 얹은 데이터셋을 만들어 보냅니다. 선택하지 않은 편집은 로컬에만 남고,
+ * Push 후에는 새 origin(= 보낸 데이터셋)과 비교해 계속 변경사항으로 보입니다.
+ *
+ * 선택 단위:
+ *   - 규칙  : ruleId (추가 / 수정 / 삭제)
+ *   - 태그  : tags 항목 이름 (추가 / 수정 / 삭제)
+ *   - 기타  : compoundTags / tagCategories는 Diff 목록에 없으므로 한 묶음(tagMeta)으로 선택
+ */
+import type { DiffResponse, LocalSnapshot } from '@/types/api';
+import type { Rule } from '@/types/rule';
+import type { TagData } from '@/types/tag';
+import { deepEqual } from '@/utils/deepEqual';
+
+export type PushDataset = Pick<LocalSnapshot, 'rules' | 'tags'>;
+
+export interface PushSelection {
+  rules:   ReadonlySet<string>;
+  tags:    ReadonlySet<string>;
+  /** compoundTags / tagCategories 변경 포함 여부 */
+  tagMeta: boolean;
+}
+
+/** Diff 결과의 모든 변경 항목을 선택한 상태 */
+export function selectAllChanges(diff: DiffResponse, tagMeta = true): PushSelection {
+  const { rules, tags } = diff;
+  return {
+    rules: new Set([...rules.added, ...rules.modified, ...rules.deleted].map((r) => r.ruleId)),
+    tags:  new Set([...tags.added, ...tags.modified, ...tags.deleted].map((t) => t.name)),
+    tagMeta,
+  };
+}
+
+/** compoundTags / tagCategories가 origin과 다른지 */
+export function hasTagMetaChanges(origin: PushDataset, current: PushDataset): boolean {
+  return !deepEqual(origin.tags.compoundTags, current.tags.compoundTags)
+    || !deepEqual(origin.tags.tagCategories, current.tags.tagCategories);
+}
+
+function pickRules(origin: Rule[], current: Rule[], selected: ReadonlySet<string>): Rule[] {
+  const currentById = new Map(current.map((r) => [r.ruleId, r]));
+  const originIds   = new Set(origin.map((r) => r.ruleId));
+
+  // origin 순서를 유지하고, 선택한 추가 규칙은 current 순서대로 뒤에 붙임
+  const kept = origin.flatMap((rule) => {
+    if (!selected.has(rule.ruleId)) return [rule];
+    const next = currentById.get(rule.ruleId);
+    return next ? [next] : [];
+  });
+  const added = current.filter((r) => selected.has(r.ruleId) && !originIds.has(r.ruleId));
+  return [...kept, ...added];
+}
+
+function pickTags(origin: TagData, current: TagData, selection: PushSelection): TagData {
+  const tags = { ...origin.tags };
+  selection.tags.forEach((name) => {
+    if (name in current.tags) tags[name] = current.tags[name];
+    else delete tags[name];
+  });
+
+  const base = selection.tagMeta ? current : origin;
+  return {
+    ...base,
+    _metadata: { ...base._metadata, totalTags: Object.keys(tags).length },
+    tags,
+  };
+}
+
+/**
+ * origin에 선택한 변경만 적용한 Push 데이터셋.
+ * 선택 목록에 있어도 origin과 current가 같은 항목은 결과가 origin과 같습니다.
+ */
+export function buildSelectiveDataset(
+  origin: PushDataset,
+  current: PushDataset,
+  selection: PushSelection,
+): PushDataset {
+  return {
+    rules: pickRules(origin.rules, current.rules, selection.rules),
+    tags:  pickTags(origin.tags, current.tags, selection),
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * src/utils/tagDataSchema.ts
+ *
+ * TagData 전체(JSON)에 대한 JSON Schema와 검증기.
+ *
+ * 스키마(types/tag.schema.json)는 types/tag.ts의 TagData 타입에서 생성합니다 — 직접 수정하지 마세요.
+ *   npm run schema:tag   (build 스크립트가 매번 다시 생성)
+ * 타입의 JSDoc이 그대로 description이 되어 자동완성 설명으로 표시됩니다.
+ * user-011처럼 알 수 없는 필드를 보존하므로 additionalProperties는 허용합니다 (--additional-properties).
+ *
+ *   - monacoSetup.ts가 TAG_DATA_MODEL_PATH에 한 번 등록 → 자동완성(detection.type, matchType, tier 등) / 인라인 오류
+ *   - validateTagDataJson()이 같은 스키마로 적용 전 검증 (Monaco 진단은 비동기라 적용 시점과 어긋날 수 있음)
+ *
+ * 검증기는 생성된 스키마에 나오는 키워드(type / enum / const / properties / required /
+ * additionalProperties / items / anyOf)만 지원합니다.
+ */
+import type { TagData } from '@/types/tag';
+import tagDataSchema from '@/types/tag.schema.json';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 스키마
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface JsonSchema {
+  type?:                 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?:          string;
+  enum?:                 readonly (string | number)[];
+  const?:                string | number;
+  properties?:           Partial<Record<string, JsonSchema>>;
+  required?:             readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?:                JsonSchema;
+  anyOf?:                readonly JsonSchema[];
+}
+
+/** Monaco 모델 URI — 스키마 등록(monacoSetup.ts)의 fileMatch와 TagDataJsonEditor의 path에 함께 사용 */
+export const TAG_DATA_MODEL_PATH = 'inmemory://model/tag-data.json';
+
+/** JSON import는 문자열 리터럴이 string으로 넓혀지므로 JsonSchema로 지정 */
+export const TAG_DATA_SCHEMA: JsonSchema = tagDataSchema as JsonSchema;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 검증
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SchemaError {
+  /** 예: "tags.IS_DAO.detection.matchType" */
+  path:    string;
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  return typeOf(value) === type;
+}
+
+function validate(value: unknown, schema: JsonSchema, path: string, errors: SchemaError[]) {
+  const at = path || '(root)';
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push({ path: at, message: `${JSON.stringify(schema.const)}이어야 합니다.` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push({ path: at, message: `${schema.enum.map((v) => JSON.stringify(v)).join(', ')} 중 하나여야 합니다.` });
+    return;
+  }
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push({ path: at, message: `${schema.type} 타입이어야 합니다. (현재: ${typeOf(value)})` });
+    return;
+  }
+
+  if (schema.anyOf) {
+    // detection처럼 type const로 구분되는 경우 해당 분기 오류만 보고
+    const tagged = schema.anyOf.find((s) => s.properties?.type?.const !== undefined
+      && (value as Record<string, unknown> | null)?.type === s.properties?.type?.const);
+    if (tagged) {
+      validate(value, tagged, path, errors);
+      return;
+    }
+    const matched = schema.anyOf.some((s) => {
+      const branchErrors: SchemaError[] = [];
+      validate(value, s, path, branchErrors);
+      return branchErrors.length === 0;
+    });
+    if (!matched) {
+      const consts = schema.anyOf.map((s) => s.properties?.type?.const).filter((c) => c !== undefined);
+      errors.push({
+        path:    consts.length > 0 ? `${at}.type` : at,
+        message: consts.length > 0
+          ? `${consts.map((c) => JSON.stringify(c)).join(', ')} 중 하나여야 합니다.`
+          : '허용된 형식과 일치하지 않습니다.',
+      });
+    }
+    return;
+  }
+
+  if (typeOf(value) === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, idx) => validate(item, schema.items!, `${path}[${idx}]`, errors));
+  }
+
+  if (typeOf(value) === 'object' && (schema.properties || schema.additionalProperties !== undefined)) {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in obj)) errors.push({ path: at, message: `필수 필드 "${key}"가 없습니다.` });
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const childPath = path ? `${path}.${key}` : key;
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        validate(child, propSchema, childPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: childPath, message: '허용되지 않은 필드입니다.' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validate(child, schema.additionalProperties, childPath, errors);
+      }
+    }
+  }
+}
+
+/**
+ * JSON 텍스트를 파싱하고 TAG_DATA_SCHEMA로 검증합니다.
+ * 오류가 없으면 data에 TagData를 담아 반환
+ */
+export function validateTagDataJson(text: string): { data?: TagData; errors: SchemaError[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    return { errors: [{ path: '(root)', message: `JSON 파싱 실패: ${err instanceof Error ? err.message : String(err)}` }] };
+  }
+  const errors: SchemaError[] = [];
+  validate(parsed, TAG_DATA_SCHEMA, '', errors);
+  return errors.length > 0 ? { errors } : { data: parsed as TagData, errors };
+}
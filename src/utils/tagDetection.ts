@@ -0,0 +1,210 @@
+/**
+ * src/utils/tagDetection.ts
+ *
+ * TagDetection ↔ 태그 편집 폼 값 변환.
+ *
+ * 탐지 타입(regex / ast / ast_context / llm)별 모든 필드를 폼 값으로 펼치고
+ * 저장 시 다시 TagDetection으로 조립합니다. 편집하지 않은 값은 원본 표현을 그대로 유지합니다.
+ *   - 선택 필드가 비어 있으면 생략 (원본에 빈 값으로 있던 필드는 빈 값 유지)
+ *   - caseSensitive / excludeInComments는 미지정 / 예 / 아니오 3상태
+ *   - ast_context.context는 원본이 문자열이면 값이 하나일 때 문자열로 저장
+ *   - 타입별 알려진 필드 외의 키는 extra(JSON 객체 텍스트)로 보존
+ */
+import type { AstDetection, TagDetection, TagDetectionType, TagMatchType } from '@/types/tag';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 선택적 boolean 필드 — 'default'는 필드 생략 */
+export type OptionalBool = 'default' | 'true' | 'false';
+
+export type AstOperator = NonNullable<AstDetection['operator']>;
+
+export interface DetectionFormValues {
+  detectionType:     TagDetectionType;
+  /** regex / ast_context 공용 — 한 줄에 패턴 하나 */
+  patterns:          string;
+  matchType:         TagMatchType;
+  caseSensitive:     OptionalBool;
+  excludeInComments: OptionalBool;
+  nodeType?:         string;
+  metric?:           string;
+  threshold?:        number | null;
+  operator?:         AstOperator;
+  condition?:        string;
+  context:           string[];
+  /** 원본 context가 배열이었는지 (값이 하나여도 배열로 저장) */
+  contextIsArray:    boolean;
+  criteria:          string;
+  triggerTags:       string[];
+  /** 알려진 필드 외 추가 필드 (JSON 객체) */
+  extra:             string;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 상수
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 탐지 타입별 폼에서 직접 편집하는 필드 */
+export const DETECTION_FIELDS: Record<TagDetectionType, readonly string[]> = {
+  regex:       ['patterns', 'matchType', 'caseSensitive', 'excludeInComments'],
+  ast:         ['nodeType', 'metric', 'threshold', 'operator', 'condition'],
+  ast_context: ['context', 'patterns'],
+  llm:         ['criteria', 'triggerTags'],
+};
+
+export const DETECTION_TYPE_LABELS: Record<TagDetectionType, string> = {
+  regex:       'regex (정규식)',
+  ast:         'ast (노드 / 메트릭)',
+  ast_context: 'ast_context (컨텍스트 내부 패턴)',
+  llm:         'llm (LLM 판단)',
+};
+
+export const AST_OPERATORS: readonly AstOperator[] = ['>=', '>', '<=', '<', '=='];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 변환
+// ─────────────────────────────────────────────────────────────────────────────
+
+const toOptionalBool = (v: boolean | undefined): OptionalBool =>
+  v === undefined ? 'default' : v ? 'true' : 'false';
+
+const fromOptionalBool = (v: OptionalBool | undefined): boolean | undefined =>
+  v === 'true' ? true : v === 'false' ? false : undefined;
+
+const splitLines = (text: string | undefined): string[] =>
+  (text ?? '').split('\n').filter((line) => line.trim() !== '');
+
+/** 알려진 필드를 뺀 나머지 키 */
+function extraFields(detection: TagDetection): Record<string, unknown> {
+  const known = new Set(['type', ...DETECTION_FIELDS[detection.type]]);
+  return Object.fromEntries(Object.entries(detection).filter(([key]) => !known.has(key)));
+}
+
+/**
+ * TagDetection → 폼 초기값. detection이 없으면 새 regex 태그 기본값
+ */
+export function detectionToFormValues(detection?: TagDetection): DetectionFormValues {
+  const values: DetectionFormValues = {
+    detectionType:     detection?.type ?? 'regex',
+    patterns:          '',
+    matchType:         'any',
+    caseSensitive:     'default',
+    excludeInComments: 'default',
+    context:           [],
+    contextIsArray:    false,
+    criteria:          '',
+    triggerTags:       [],
+    extra:             '',
+  };
+  if (!detection) return values;
+
+  switch (detection.type) {
+    case 'regex':
+      values.patterns          = (detection.patterns ?? []).join('\n');
+      values.matchType         = detection.matchType ?? 'any';
+      values.caseSensitive     = toOptionalBool(detection.caseSensitive);
+      values.excludeInComments = toOptionalBool(detection.excludeInComments);
+      break;
+    case 'ast':
+      values.nodeType  = detection.nodeType;
+      values.metric    = detection.metric;
+      values.threshold = detection.threshold;
+      values.operator  = detection.operator;
+      values.condition = detection.condition;
+      break;
+    case 'ast_context':
+      values.context        = Array.isArray(detection.context) ? detection.context : [detection.context];
+      values.contextIsArray = Array.isArray(detection.context);
+      values.patterns       = (detection.patterns ?? []).join('\n');
+      break;
+    case 'llm':
+      values.criteria    = detection.criteria ?? '';
+      values.triggerTags = detection.triggerTags ?? [];
+      break;
+  }
+
+  const extra = extraFields(detection);
+  if (Object.keys(extra).length > 0) values.extra = JSON.stringify(extra, null, 2);
+  return values;
+}
+
+/**
+ * extra 텍스트 검증. 비어 있으면 빈 객체, 잘못된 경우 error 메시지
+ */
+export function parseExtraFields(
+  text: string | undefined,
+  type: TagDetectionType,
+): { value: Record<string, unknown>; error?: string } {
+  if (!text?.trim()) return { value: {} };
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    return { value: {}, error: `JSON 파싱 실패: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { value: {}, error: 'JSON 객체여야 합니다.' };
+  }
+  const known = ['type', ...DETECTION_FIELDS[type]].filter((key) => key in parsed);
+  if (known.length > 0) {
+    return { value: {}, error: `폼에서 편집하는 필드는 넣을 수 없습니다: ${known.join(', ')}` };
+  }
+  return { value: parsed as Record<string, unknown> };
+}
+
+/**
+ * 폼 값 → TagDetection.
+ * original과 타입이 같으면 원본에 있던 빈 선택 필드와 context 표현을 유지합니다.
+ */
+export function formValuesToDetection(values: DetectionFormValues, original?: TagDetection): TagDetection {
+  const type = values.detectionType;
+  const prev: object = original?.type === type ? original : {};
+
+  /** 값이 비어 있으면 생략 — 단, 원본에 있던 필드는 유지 */
+  const optional = <T>(key: string, value: T | undefined, isEmpty: (v: T) => boolean) =>
+    value === undefined || (isEmpty(value) && !(key in prev)) ? {} : { [key]: value };
+  const emptyString = (v: string) => v === '';
+  const emptyArray  = (v: unknown[]) => v.length === 0;
+
+  const extra = parseExtraFields(values.extra, type).value;
+
+  switch (type) {
+    case 'regex':
+      return {
+        ...extra,
+        type,
+        patterns:  splitLines(values.patterns),
+        matchType: values.matchType ?? 'any',
+        ...optional('caseSensitive', fromOptionalBool(values.caseSensitive), () => false),
+        ...optional('excludeInComments', fromOptionalBool(values.excludeInComments), () => false),
+      };
+    case 'ast':
+      return {
+        ...extra,
+        type,
+        ...optional('nodeType', values.nodeType, emptyString),
+        ...optional('metric', values.metric, emptyString),
+        ...optional('threshold', values.threshold ?? undefined, () => false),
+        ...optional('operator', values.operator, () => false),
+        ...optional('condition', values.condition, emptyString),
+      };
+    case 'ast_context': {
+      const context = values.context ?? [];
+      return {
+        ...extra,
+        type,
+        context:  context.length === 1 && !values.contextIsArray ? context[0] : context,
+        patterns: splitLines(values.patterns),
+      };
+    }
+    case 'llm':
+      return {
+        ...extra,
+        type,
+        criteria: values.criteria ?? '',
+        ...optional('triggerTags', values.triggerTags, emptyArray),
+      };
+  }
+}
@@ -0,0 +1,371 @@
+/**
+ * src/utils/tagExpression.ts
+ *
+ * 태그 조건식(Rule.tagCondition, CompoundTag.expression) 파서.
+ *
+ * 문법 (우선순위: ! > && > ||)
+ *   expr    := and ( '||' and )*
+ *   and     := unary ( '&&' unary )*
+ *   unary   := '!' unary | primary
+ *   primary := IDENT | '(' expr ')'
+ *   IDENT   := [A-Za-z_][A-Za-z0-9_]*
+ *
+ * 모든 노드 / 오류에 원문 기준 offset(start, end)을 기록하므로
+ * 에디터에서 오류 위치와 미정의 태그를 표시할 수 있습니다.
+ * tagRefUpdate의 태그 교체 / 제거도 이 AST 위에서 수행됩니다.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface NodeBase {
+  /** 원문 기준 시작 offset */
+  start: number;
+  /** 원문 기준 끝 offset (exclusive) */
+  end:   number;
+}
+
+export interface TagRefNode extends NodeBase {
+  type: 'tag';
+  name: string;
+}
+
+export interface NotNode extends NodeBase {
+  type:    'not';
+  operand: TagExprNode;
+}
+
+export interface BinaryNode extends NodeBase {
+  type:  'and' | 'or';
+  left:  TagExprNode;
+  right: TagExprNode;
+}
+
+export type TagExprNode = TagRefNode | NotNode | BinaryNode;
+
+export interface TagExprError {
+  message: string;
+  start:   number;
+  end:     number;
+}
+
+export type TagExprParseResult =
+  | { ok: true;  ast: TagExprNode | null }
+  | { ok: false; error: TagExprError };
+
+type TokenType = 'ident' | 'and' | 'or' | 'not' | 'lparen' | 'rparen' | 'eof';
+
+interface Token {
+  type:  TokenType;
+  value: string;
+  start: number;
+  end:   number;
+}
+
+/** 파서 내부 오류 — parseTagExpression에서 결과 객체로 변환됩니다. */
+class TagExprSyntaxError extends Error {
+  readonly start: number;
+  readonly end:   number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.start = start;
+    this.end   = end;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 토크나이저
+// ─────────────────────────────────────────────────────────────────────────────
+
+const IDENT_START = /[A-Za-z_]/;
+const IDENT_PART  = /[A-Za-z0-9_]/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (IDENT_START.test(ch)) {
+      const start = i;
+      while (i < source.length && IDENT_PART.test(source[i])) i++;
+      tokens.push({ type: 'ident', value: source.slice(start, i), start, end: i });
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (two === '&&' || two === '||') {
+      tokens.push({ type: two === '&&' ? 'and' : 'or', value: two, start: i, end: i + 2 });
+      i += 2;
+      continue;
+    }
+
+    if (ch === '&' || ch === '|') {
+      throw new TagExprSyntaxError(`'${ch}' 대신 '${ch}${ch}'를 사용하세요.`, i, i + 1);
+    }
+    if (ch === '!') { tokens.push({ type: 'not',    value: ch, start: i, end: i + 1 }); i++; continue; }
+    if (ch === '(') { tokens.push({ type: 'lparen', value: ch, start: i, end: i + 1 }); i++; continue; }
+    if (ch === ')') { tokens.push({ type: 'rparen', value: ch, start: i, end: i + 1 }); i++; continue; }
+
+    throw new TagExprSyntaxError(`허용되지 않는 문자: '${ch}'`, i, i + 1);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 파서 (재귀 하강)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const TOKEN_LABELS: Record<TokenType, string> = {
+  ident:  '태그 이름',
+  and:    "'&&'",
+  or:     "'||'",
+  not:    "'!'",
+  lparen: "'('",
+  rparen: "')'",
+  eof:    '식의 끝',
+};
+
+function parseTokens(tokens: Token[]): TagExprNode {
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const fail = (expected: string, tok: Token): never => {
+    const found = tok.type === 'eof' ? TOKEN_LABELS.eof : `'${tok.value}'`;
+    throw new TagExprSyntaxError(
+      `${expected}이(가) 필요하지만 ${found}이(가) 있습니다.`,
+      tok.start,
+      Math.max(tok.end, tok.start + 1),
+    );
+  };
+
+  const parseOr = (): TagExprNode => {
+    let left = parseAnd();
+    while (peek().type === 'or') {
+      next();
+      const right = parseAnd();
+      left = { type: 'or', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseAnd = (): TagExprNode => {
+    let left = parseUnary();
+    while (peek().type === 'and') {
+      next();
+      const right = parseUnary();
+      left = { type: 'and', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  };
+
+  const parseUnary = (): TagExprNode => {
+    const tok = peek();
+    if (tok.type === 'not') {
+      next();
+      const operand = parseUnary();
+      return { type: 'not', operand, start: tok.start, end: operand.end };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): TagExprNode => {
+    const tok = next();
+    if (tok.type === 'ident') {
+      return { type: 'tag', name: tok.value, start: tok.start, end: tok.end };
+    }
+    if (tok.type === 'lparen') {
+      const inner = parseOr();
+      const close = next();
+      if (close.type !== 'rparen') {
+        if (close.type === 'eof') {
+          throw new TagExprSyntaxError("닫는 괄호 ')'가 없습니다.", tok.start, tok.end);
+        }
+        fail(TOKEN_LABELS.rparen, close);
+      }
+      // 괄호는 노드로 남기지 않고 범위만 넓힘
+      return { ...inner, start: tok.start, end: close.end };
+    }
+    return fail(TOKEN_LABELS.ident, tok);
+  };
+
+  const ast = parseOr();
+  const rest = peek();
+  if (rest.type !== 'eof') {
+    if (rest.type === 'rparen') {
+      throw new TagExprSyntaxError("여는 괄호 없이 ')'가 있습니다.", rest.start, rest.end);
+    }
+    fail("'&&' 또는 '||'", rest);
+  }
+  return ast;
+}
+
+/**
+ * 조건식 문자열을 AST로 파싱합니다.
+ * 빈 문자열(공백만 포함)은 조건 없음으로 간주해 { ok: true, ast: null }을 반환합니다.
+ */
+export function parseTagExpression(source: string): TagExprParseResult {
+  if (source.trim() === '') return { ok: true, ast: null };
+  try {
+    return { ok: true, ast: parseTokens(tokenize(source)) };
+  } catch (err) {
+    if (err instanceof TagExprSyntaxError) {
+      return { ok: false, error: { message: err.message, start: err.start, end: err.end } };
+    }
+    throw err;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 출력 (pretty-print)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PRECEDENCE: Record<TagExprNode['type'], number> = {
+  or:  1,
+  and: 2,
+  not: 3,
+  tag: 4,
+};
+
+/**
+ * AST를 정규화된 문자열로 출력합니다.
+ * 이항 연산자 양쪽에 공백 1칸, 불필요한 괄호는 제거합니다.
+ *
+ * @example
+ * printTagExpression(parse('((A)&&B)||!(C)')) // → 'A && B || !C'
+ */
+export function printTagExpression(node: TagExprNode | null): string {
+  if (!node) return '';
+
+  const wrap = (child: TagExprNode, parentPrec: number) => {
+    const text = printTagExpression(child);
+    return PRECEDENCE[child.type] < parentPrec ? `(${text})` : text;
+  };
+
+  switch (node.type) {
+    case 'tag': return node.name;
+    case 'not': return `!${wrap(node.operand, PRECEDENCE.not)}`;
+    case 'and': return `${wrap(node.left, PRECEDENCE.and)} && ${wrap(node.right, PRECEDENCE.and)}`;
+    case 'or':  return `${wrap(node.left, PRECEDENCE.or)} || ${wrap(node.right, PRECEDENCE.or)}`;
+  }
+}
+
+/**
+ * 조건식 문자열을 정규화합니다. 파싱에 실패하면 원문을 그대로 반환합니다.
+ */
+export function formatTagExpression(source: string): string {
+  const parsed = parseTagExpression(source);
+  return parsed.ok ? printTagExpression(parsed.ast) : source;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 조회
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** AST에 등장하는 모든 태그 참조 노드를 원문 순서대로 반환합니다. */
+export function collectTagRefs(node: TagExprNode | null): TagRefNode[] {
+  if (!node) return [];
+  switch (node.type) {
+    case 'tag': return [node];
+    case 'not': return collectTagRefs(node.operand);
+    default:    return [...collectTagRefs(node.left), ...collectTagRefs(node.right)];
+  }
+}
+
+/** AST에 등장하는 태그 이름 집합 */
+export function getTagNames(node: TagExprNode | null): Set<string> {
+  return new Set(collectTagRefs(node).map((ref) => ref.name));
+}
+
+/** knownTags에 없는 태그 참조 노드 목록 (에디터 밑줄 표시용) */
+export function findUnknownTagRefs(
+  node: TagExprNode | null,
+  knownTags: ReadonlySet<string>,
+): TagRefNode[] {
+  return collectTagRefs(node).filter((ref) => !knownTags.has(ref.name));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 변환
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 태그 이름을 교체한 새 AST를 반환합니다.
+ * 반환 AST의 offset은 원문 기준이므로 출력 용도로만 사용하세요.
+ */
+export function renameTagInExpression(
+  node: TagExprNode | null,
+  oldTag: string,
+  newTag: string,
+): TagExprNode | null {
+  if (!node) return null;
+  const rename = (n: TagExprNode): TagExprNode => {
+    switch (n.type) {
+      case 'tag': return n.name === oldTag ? { ...n, name: newTag } : n;
+      case 'not': return { ...n, operand: rename(n.operand) };
+      default:    return { ...n, left: rename(n.left), right: rename(n.right) };
+    }
+  };
+  return rename(node);
+}
+
+/**
+ * 태그 참조를 제거한 새 AST를 반환합니다.
+ *
+ * 제거 규칙:
+ *   - TAG          → (제거)
+ *   - !TAG         → (제거)  — 부정 대상이 사라지면 부정도 함께 제거
+ *   - A && TAG     → A
+ *   - TAG || B     → B
+ *   - 모두 제거되면 null (조건 없음)
+ */
+export function removeTagFromExpression(
+  node: TagExprNode | null,
+  tag: string,
+): TagExprNode | null {
+  if (!node) return null;
+  switch (node.type) {
+    case 'tag': return node.name === tag ? null : node;
+    case 'not': {
+      const operand = removeTagFromExpression(node.operand, tag);
+      return operand ? { ...node, operand } : null;
+    }
+    default: {
+      const left  = removeTagFromExpression(node.left,  tag);
+      const right = removeTagFromExpression(node.right, tag);
+      if (!left)  return right;
+      if (!right) return left;
+      return { ...node, left, right };
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 평가
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 활성 태그 집합을 기준으로 AST를 평가합니다.
+ * 빈 조건식(null)은 항상 참입니다.
+ */
+export function evaluateTagExpression(
+  node: TagExprNode | null,
+  activeTags: ReadonlySet<string>,
+): boolean {
+  if (!node) return true;
+  switch (node.type) {
+    case 'tag': return activeTags.has(node.name);
+    case 'not': return !evaluateTagExpression(node.operand, activeTags);
+    case 'and': return evaluateTagExpression(node.left, activeTags) && evaluateTagExpression(node.right, activeTags);
+    case 'or':  return evaluateTagExpression(node.left, activeTags) || evaluateTagExpression(node.right, activeTags);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * src/utils/tagGraph.ts
+ *
+ * 태그 → 복합 태그 → 규칙 의존 그래프 모델.
+ * GraphPage에서 사용합니다.
+ *
+ * 간선 방향은 "참조되는 쪽 → 참조하는 쪽"입니다.
+ *   - 태그 / 복합 태그 → 복합 태그 : expression, requires, excludes
+ *   - 태그 / 복합 태그 → 규칙      : tagCondition, requiredTags, excludeTags
+ */
+import type { Rule, RuleCategory } from '@/types/rule';
+import type { TagData } from '@/types/tag';
+import { getTagNames, parseTagExpression } from '@/utils/tagExpression';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type GraphNodeKind = 'tag' | 'compound' | 'rule';
+
+/** 참조 방식 — 간선 스타일 구분용 */
+export type GraphEdgeKind = 'condition' | 'requires' | 'excludes';
+
+export interface GraphNode {
+  /** `${kind}:${name}` 형식 */
+  id:    string;
+  kind:  GraphNodeKind;
+  /** 태그 이름 / 복합 태그 이름 / ruleId */
+  name:  string;
+  /** 태그: tagCategory, 규칙: RuleCategory, 복합 태그: null */
+  category: string | null;
+  /** 규칙 제목 또는 태그 설명 */
+  label: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  to:   string;
+  kind: GraphEdgeKind;
+}
+
+export interface TagGraph {
+  nodes:    GraphNode[];
+  edges:    GraphEdge[];
+  /** 노드 id → 노드 */
+  byId:     Map<string, GraphNode>;
+  /** 어떤 규칙에도 (복합 태그를 거쳐서라도) 도달하지 않는 태그 / 복합 태그 id */
+  orphans:  Set<string>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 빌드
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const tagNodeId      = (name: string) => `tag:${name}`;
+export const compoundNodeId = (name: string) => `compound:${name}`;
+export const ruleNodeId     = (ruleId: string) => `rule:${ruleId}`;
+
+function expressionRefs(expression: string | undefined): string[] {
+  if (!expression) return [];
+  const parsed = parseTagExpression(expression);
+  return parsed.ok ? [...getTagNames(parsed.ast)] : [];
+}
+
+/**
+ * TagData + 규칙 배열로 의존 그래프를 만듭니다.
+ * 정의되지 않은 태그를 가리키는 참조는 간선에서 제외합니다 (데이터 검사 페이지 담당).
+ */
+export function buildTagGraph(tagData: TagData, rules: Rule[]): TagGraph {
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+
+  for (const [name, def] of Object.entries(tagData.tags)) {
+    nodes.push({ id: tagNodeId(name), kind: 'tag', name, category: def.category || null, label: def.description });
+  }
+  for (const [name, ct] of Object.entries(tagData.compoundTags)) {
+    nodes.push({ id: compoundNodeId(name), kind: 'compound', name, category: null, label: ct.description });
+  }
+  for (const rule of rules) {
+    nodes.push({ id: ruleNodeId(rule.ruleId), kind: 'rule', name: rule.ruleId, category: rule.category, label: rule.title });
+  }
+
+  // 태그 이름 → 노드 id (일반 태그 우선)
+  const resolve = (name: string): string | null => {
+    if (tagData.tags[name])         return tagNodeId(name);
+    if (tagData.compoundTags[name]) return compoundNodeId(name);
+    return null;
+  };
+
+  const seen = new Set<string>();
+  const link = (refName: string, to: string, kind: GraphEdgeKind) => {
+    const from = resolve(refName);
+    if (!from || from === to) return;
+    const key = `${from}>${to}>${kind}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    edges.push({ from, to, kind });
+  };
+
+  for (const [name, ct] of Object.entries(tagData.compoundTags)) {
+    const to = compoundNodeId(name);
+    expressionRefs(ct.expression).forEach((t) => link(t, to, 'condition'));
+    (ct.requires ?? []).forEach((t) => link(t, to, 'requires'));
+    (ct.excludes ?? []).forEach((t) => link(t, to, 'excludes'));
+  }
+  for (const rule of rules) {
+    const to = ruleNodeId(rule.ruleId);
+    expressionRefs(rule.tagCondition).forEach((t) => link(t, to, 'condition'));
+    (rule.requiredTags ?? []).forEach((t) => link(t, to, 'requires'));
+    (rule.excludeTags  ?? []).forEach((t) => link(t, to, 'excludes'));
+  }
+
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+
+  // 규칙에서 역방향으로 도달 가능한 노드 외에는 모두 고아
+  const used    = collectAncestors(edges, nodes.filter((n) => n.kind === 'rule').map((n) => n.id));
+  const orphans = new Set(nodes.filter((n) => n.kind !== 'rule' && !used.has(n.id)).map((n) => n.id));
+
+  return { nodes, edges, byId, orphans };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 탐색
+// ─────────────────────────────────────────────────────────────────────────────
+
+function walk(edges: GraphEdge[], seeds: Iterable<string>, forward: boolean): Set<string> {
+  const adj = new Map<string, string[]>();
+  for (const e of edges) {
+    const [a, b] = forward ? [e.from, e.to] : [e.to, e.from];
+    if (!adj.has(a)) adj.set(a, []);
+    adj.get(a)!.push(b);
+  }
+  const visited = new Set<string>(seeds);
+  const queue   = [...visited];
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    for (const nextId of adj.get(id) ?? []) {
+      if (!visited.has(nextId)) { visited.add(nextId); queue.push(nextId); }
+    }
+  }
+  return visited;
+}
+
+/** seeds와 seeds에서 간선 방향으로 도달 가능한 모든 노드 (seeds 포함) */
+export function collectDescendants(edges: GraphEdge[], seeds: Iterable<string>): Set<string> {
+  return walk(edges, seeds, true);
+}
+
+/** seeds가 의존하는 모든 노드 (seeds 포함) */
+export function collectAncestors(edges: GraphEdge[], seeds: Iterable<string>): Set<string> {
+  return walk(edges, seeds, false);
+}
+
+export interface GraphFilter {
+  /** 비어 있으면 전체 */
+  tagCategories:  string[];
+  /** 비어 있으면 전체 */
+  ruleCategories: RuleCategory[];
+  orphansOnly:    boolean;
+}
+
+/**
+ * 필터에 따라 표시할 노드 id 집합을 계산합니다.
+ *
+ * 태그 카테고리 필터 → 해당 태그와 그 하위(복합 태그, 규칙)만
+ * 규칙 카테고리 필터 → 해당 규칙과 그 상위(태그, 복합 태그)만
+ * 두 필터를 함께 쓰면 교집합(선택 태그에서 선택 규칙으로 이어지는 경로)
+ */
+export function filterGraph(graph: TagGraph, filter: GraphFilter): Set<string> {
+  if (filter.orphansOnly) {
+    return new Set([...graph.orphans].filter((id) => {
+      const node = graph.byId.get(id);
+      return filter.tagCategories.length === 0
+        || (node?.category != null && filter.tagCategories.includes(node.category));
+    }));
+  }
+
+  const allIds = graph.nodes.map((n) => n.id);
+  const down = filter.tagCategories.length === 0
+    ? new Set(allIds)
+    : collectDescendants(
+        graph.edges,
+        graph.nodes
+          .filter((n) => n.kind === 'tag' && n.category != null && filter.tagCategories.includes(n.category))
+          .map((n) => n.id),
+      );
+  const up = filter.ruleCategories.length === 0
+    ? new Set(allIds)
+    : collectAncestors(
+        graph.edges,
+        graph.nodes
+          .filter((n) => n.kind === 'rule' && filter.ruleCategories.includes(n.category as RuleCategory))
+          .map((n) => n.id),
+      );
+
+  return new Set(allIds.filter((id) => down.has(id) && up.has(id)));
+}
@@ -6,39 +6,75 @@
  * TagSplit / TagMerge 컴포넌트에서 공통으로 사용합니다.
  */
 import type { Rule } from '@/types/rule';
+import {
+  collectTagRefs,
+  getTagNames,
+  parseTagExpression,
+  printTagExpression,
+  removeTagFromExpression,
+} from '@/utils/tagExpression';
+
+/**
+ * tagCondition 갱신 결과.
+ * 파싱할 수 없는 조건식은 바꾸지 않고 ok: false와 파서 오류를 돌려줍니다 —
+ * 호출 측(TagSplit / TagMerge)이 삭제되는 태그를 계속 참조하게 될 규칙을 알려야 하기 때문입니다.
+ */
+export type ConditionUpdate =
+  | { ok: true;  condition: string }
+  | { ok: false; condition: string; error: string };
 
 /**
  * tagCondition 문자열에서 특정 태그 이름을 교체합니다.
- * 단어 경계(\b)를 사용해 부분 매칭을 방지합니다.
+ * AST로 찾은 태그 참조 위치만 원문에서 바꾸므로 공백 / 괄호 등 나머지 서식은 그대로 유지됩니다.
  *
  * @example
  * replaceInCondition('IS_SERVICE || IS_CONTROLLER', 'IS_SERVICE', 'IS_BIZ_SERVICE')
- * // → 'IS_BIZ_SERVICE || IS_CONTROLLER'
+ * // → { ok: true, condition: 'IS_BIZ_SERVICE || IS_CONTROLLER' }
  */
 export function replaceInCondition(
   condition: string,
   oldTag: string,
   newTag: string,
-): string {
-  // 정규식 특수문자 이스케이프
-  const escaped = oldTag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  return condition.replace(new RegExp(`\\b${escaped}\\b`, 'g'), newTag);
+): ConditionUpdate {
+  const parsed = parseTagExpression(condition);
+  if (!parsed.ok) return { ok: false, condition, error: parsed.error.message };
+
+  // 뒤에서부터 바꿔야 앞쪽 offset이 어긋나지 않음.
+  // 괄호로 감싼 태그는 노드 범위에 괄호가 포함되므로 범위 안의 식별자만 교체
+  const refs = collectTagRefs(parsed.ast).filter((ref) => ref.name === oldTag).reverse();
+  let result = condition;
+  for (const ref of refs) {
+    const span = result.slice(ref.start, ref.end).replace(oldTag, newTag);
+    result = result.slice(0, ref.start) + span + result.slice(ref.end);
+  }
+  return { ok: true, condition: result };
 }
 
 /**
  * tagCondition에서 특정 태그를 제거합니다.
- * 불리언 연산자(&&, ||)도 함께 정리합니다.
+ * AST에서 태그 노드를 제거하므로 `&&`, `||`, `!`, 괄호가 어긋나지 않습니다.
+ * 태그를 참조하지 않는 조건식은 원문 그대로, 참조하는 조건식만 정규화된 형태로 다시 출력합니다.
+ *
+ * @example
+ * removeFromCondition('(A || B) && !C', 'C') // → { ok: true, condition: 'A || B' }
+ * removeFromCondition('A && (B || C)', 'A')  // → { ok: true, condition: 'B || C' }
  */
-export function removeFromCondition(condition: string, tag: string): string {
-  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  let result = condition;
-  // "TAG &&", "TAG ||", "&& TAG", "|| TAG" 패턴 제거
-  result = result.replace(new RegExp(`\\b${escaped}\\b\\s*(&&|\\|\\|)\\s*`, 'g'), '');
-  result = result.replace(new RegExp(`(&&|\\|\\|)\\s*\\b${escaped}\\b`, 'g'), '');
-  result = result.replace(new RegExp(`\\b${escaped}\\b`, 'g'), '');
-  // 빈 괄호 정리
-  result = result.replace(/\(\s*\)/g, '');
-  return result.trim();
+export function removeFromCondition(condition: string, tag: string): ConditionUpdate {
+  const parsed = parseTagExpression(condition);
+  if (!parsed.ok) return { ok: false, condition, error: parsed.error.message };
+  if (!getTagNames(parsed.ast).has(tag)) return { ok: true, condition };
+  return { ok: true, condition: printTagExpression(removeTagFromExpression(parsed.ast, tag)) };
+}
+
+/**
+ * tagCondition이 참조하는 태그 이름 집합.
+ * 파싱에 실패하면 식별자 토큰을 단순 추출합니다 (조회 용도이므로 관대하게 처리).
+ */
+function conditionTagNames(condition: string | undefined): Set<string> {
+  if (!condition) return new Set();
+  const parsed = parseTagExpression(condition);
+  if (parsed.ok) return getTagNames(parsed.ast);
+  return new Set(condition.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? []);
 }
 
 /**
@@ -46,7 +82,7 @@ export function removeFromCondition(condition: string, tag: string): string {
  */
 export function findRulesUsingTag(rules: Rule[], tagName: string): Rule[] {
   return rules.filter((rule) => {
-    const inCondition  = rule.tagCondition?.includes(tagName) ?? false;
+    const inCondition  = conditionTagNames(rule.tagCondition).has(tagName);
     const inRequired   = rule.requiredTags?.includes(tagName) ?? false;
     const inExclude    = rule.excludeTags?.includes(tagName) ?? false;
     return inCondition || inRequired || inExclude;
@@ -59,63 +95,85 @@ export function findRulesUsingTag(rules: Rule[], tagName: string): Rule[] {
 export function findRulesUsingAnyTag(rules: Rule[], tagNames: string[]): Rule[] {
   const tagSet = new Set(tagNames);
   return rules.filter((rule) => {
-    const inCondition = tagNames.some((t) => rule.tagCondition?.includes(t));
+    const inCondition = [...conditionTagNames(rule.tagCondition)].some((t) => tagSet.has(t));
     const inRequired  = rule.requiredTags?.some((t) => tagSet.has(t)) ?? false;
     const inExclude   = rule.excludeTags?.some((t) => tagSet.has(t)) ?? false;
     return inCondition || inRequired || inExclude;
   });
 }
 
+/** 규칙 하나의 태그 참조 갱신 결과 */
+export interface RuleTagRefUpdate {
+  rule: Rule;
+  /** tagCondition을 파싱할 수 없어 바꾸지 못했으면 파서 오류 메시지 (requiredTags / excludeTags는 갱신됨) */
+  conditionError: string | null;
+}
+
+/** 규칙이 tagCondition / requiredTags / excludeTags 중 어디서든 tag를 참조하는지 */
+function ruleReferencesTag(rule: Rule, tag: string): boolean {
+  return conditionTagNames(rule.tagCondition).has(tag)
+    || (rule.requiredTags?.includes(tag) ?? false)
+    || (rule.excludeTags?.includes(tag) ?? false);
+}
+
+/** 바뀐 필드만 교체한 복사본 — 태그를 참조하지 않는 필드는 원래 값(참조)을 유지 */
+function applyTagRefUpdate(
+  rule: Rule,
+  tag: string,
+  updateCondition: (condition: string) => ConditionUpdate,
+  updateList: (list: string[]) => string[],
+): RuleTagRefUpdate {
+  const next = { ...rule };
+  let conditionError: string | null = null;
+
+  if (rule.tagCondition) {
+    const result = updateCondition(rule.tagCondition);
+    if (result.ok) next.tagCondition = result.condition;
+    else conditionError = result.error;
+  }
+  if (rule.requiredTags?.includes(tag)) next.requiredTags = updateList(rule.requiredTags);
+  if (rule.excludeTags?.includes(tag))  next.excludeTags  = updateList(rule.excludeTags);
+  return { rule: next, conditionError };
+}
+
 /**
  * 규칙의 태그 참조에서 oldTag를 newTag로 교체한 복사본을 반환합니다.
  */
-export function replaceTagInRule(rule: Rule, oldTag: string, newTag: string): Rule {
-  return {
-    ...rule,
-    tagCondition: replaceInCondition(rule.tagCondition ?? '', oldTag, newTag),
-    requiredTags: (rule.requiredTags ?? []).map((t) => (t === oldTag ? newTag : t)),
-    excludeTags:  (rule.excludeTags  ?? []).map((t) => (t === oldTag ? newTag : t)),
-  };
+export function replaceTagInRule(rule: Rule, oldTag: string, newTag: string): RuleTagRefUpdate {
+  return applyTagRefUpdate(
+    rule,
+    oldTag,
+    (condition) => replaceInCondition(condition, oldTag, newTag),
+    (list) => list.map((t) => (t === oldTag ? newTag : t)),
+  );
 }
 
 /**
  * 규칙의 태그 참조에서 oldTag를 제거한 복사본을 반환합니다.
  * Split 시 원본 태그 참조를 삭제할 때 사용합니다.
  */
-export function removeTagFromRule(rule: Rule, oldTag: string): Rule {
-  return {
-    ...rule,
-    tagCondition: removeFromCondition(rule.tagCondition ?? '', oldTag),
-    requiredTags: (rule.requiredTags ?? []).filter((t) => t !== oldTag),
-    excludeTags:  (rule.excludeTags  ?? []).filter((t) => t !== oldTag),
-  };
+export function removeTagFromRule(rule: Rule, oldTag: string): RuleTagRefUpdate {
+  return applyTagRefUpdate(
+    rule,
+    oldTag,
+    (condition) => removeFromCondition(condition, oldTag),
+    (list) => list.filter((t) => t !== oldTag),
+  );
 }
 
 /**
  * 규칙의 태그 참조에서 여러 oldTags를 모두 newTag 하나로 교체한 복사본을 반환합니다.
+ * 처음 참조된 oldTag는 newTag로 바꾸고, 나머지는 중복 newTag가 생기지 않도록 제거합니다.
  * Merge 시 사용합니다.
  */
-export function mergeTagsInRule(rule: Rule, oldTags: string[], newTag: string): Rule {
-  let result = { ...rule };
-  // 첫 번째 oldTag를 newTag로 교체
+export function mergeTagsInRule(rule: Rule, oldTags: string[], newTag: string): RuleTagRefUpdate {
+  let result: RuleTagRefUpdate = { rule, conditionError: null };
   let replaced = false;
   for (const old of oldTags) {
-    if (!replaced) {
-      const before = {
-        tagCondition: result.tagCondition,
-        requiredTags: result.requiredTags,
-        excludeTags:  result.excludeTags,
-      };
-      result = replaceTagInRule(result, old, newTag);
-      const changed =
-        result.tagCondition !== before.tagCondition ||
-        JSON.stringify(result.requiredTags) !== JSON.stringify(before.requiredTags) ||
-        JSON.stringify(result.excludeTags)  !== JSON.stringify(before.excludeTags);
-      if (changed) replaced = true;
-    } else {
-      // 나머지 oldTags는 제거 (중복 newTag 방지)
-      result = removeTagFromRule(result, old);
-    }
+    if (!ruleReferencesTag(result.rule, old)) continue;
+    const step = replaced ? removeTagFromRule(result.rule, old) : replaceTagInRule(result.rule, old, newTag);
+    result   = { rule: step.rule, conditionError: result.conditionError ?? step.conditionError };
+    replaced = true;
   }
   return result;
-}
\ No newline at end of file
+}
@@ -0,0 +1,272 @@
+/**
+ * src/utils/tagSimulation.ts
+ *
+ * 샘플 Java 소스에 태그 / 규칙을 적용해 보는 클라이언트 측 시뮬레이터.
+ * SimulatePage에서 사용합니다.
+ *
+ * 처리 순서 (서버 파이프라인을 단순화한 형태):
+ *   1. Tier 1 regex 태그 평가 (matchType / caseSensitive / excludeInComments 반영)
+ *   2. AST / LLM 태그와 Tier 2 태그(LLM 단계에서 조건부 실행)는 수동 토글 값을 그대로 사용
+ *   3. 복합 태그 파생 — expression 또는 requires / excludes (고정점까지 반복)
+ *   4. 활성 규칙(isActive !== false)별 tagCondition / requiredTags / excludeTags 판정 + antiPatterns 매칭
+ */
+import type { Rule } from '@/types/rule';
+import type { CompoundTag, RegexDetection, TagData, TagDefinition } from '@/types/tag';
+import { compilePattern, findMatches, type PatternMatch } from '@/utils/patternTest';
+import { evaluateTagExpression, parseTagExpression } from '@/utils/tagExpression';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 태그 활성 근거 */
+export type TagOrigin = 'regex' | 'manual' | 'compound';
+
+export interface RegexTagResult {
+  name:    string;
+  matched: boolean;
+  /** patterns 배열 순서대로 매칭 구간 */
+  hits:    PatternMatch[][];
+  /** 컴파일 실패한 패턴 메시지 */
+  errors:  string[];
+}
+
+export interface CompoundTagResult {
+  name:    string;
+  matched: boolean;
+  /** expression 파싱 오류 (정상이면 null) */
+  error:   string | null;
+}
+
+export interface RuleSimulationResult {
+  rule:             Rule;
+  /** tagCondition 충족 여부 (빈 조건은 true) */
+  conditionMet:     boolean;
+  conditionError:   string | null;
+  missingRequired:  string[];
+  presentExcluded:  string[];
+  /** 태그 조건을 모두 통과해 규칙이 적용되는지 */
+  applies:          boolean;
+  /** antiPatterns 인덱스별 매칭 구간 */
+  antiPatternHits:  PatternMatch[][];
+  /** 적용 + antiPattern 1건 이상 매칭 → 위반 후보 */
+  violated:         boolean;
+}
+
+export interface SimulationResult {
+  regexTags:    RegexTagResult[];
+  compoundTags: CompoundTagResult[];
+  /** 최종 활성 태그 → 활성 근거 */
+  activeTags:   Map<string, TagOrigin>;
+  rules:        RuleSimulationResult[];
+}
+
+/** 시뮬레이터가 소스에서 직접 평가하는 태그 — Tier 1 regex. 나머지는 수동 토글 대상 */
+export const isAutoEvaluatedTag = (def: TagDefinition) => def.detection.type === 'regex' && def.tier === 1;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 주석 제거
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Java 주석(//, /* *\/)을 공백으로 치환합니다.
+ * 줄바꿈과 문자 offset은 유지하므로 매칭 위치를 원문에 그대로 사용할 수 있습니다.
+ * 문자열 / 문자 리터럴 내부의 주석 기호는 건드리지 않습니다.
+ */
+export function maskJavaComments(source: string): string {
+  const out = source.split('');
+  let i = 0;
+
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to; k++) if (out[k] !== '\n') out[k] = ' ';
+  };
+
+  while (i < source.length) {
+    const ch   = source[i];
+    const next = source[i + 1];
+
+    if (ch === '"' || ch === "'") {
+      // 텍스트 블록(""")은 닫는 """까지 통째로 건너뜀
+      if (source.startsWith('"""', i)) {
+        const close = source.indexOf('"""', i + 3);
+        i = close === -1 ? source.length : close + 3;
+        continue;
+      }
+      i++;
+      while (i < source.length && source[i] !== ch && source[i] !== '\n') {
+        i += source[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (ch === '/' && next === '*') {
+      const close = source.indexOf('*/', i + 2);
+      const stop  = close === -1 ? source.length : close + 2;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    i++;
+  }
+
+  return out.join('');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 단계별 평가
+// ─────────────────────────────────────────────────────────────────────────────
+
+function evaluateRegexTag(
+  name: string,
+  detection: RegexDetection,
+  source: string,
+  masked: string,
+): RegexTagResult {
+  const text   = detection.excludeInComments ? masked : source;
+  const flags  = detection.caseSensitive === false ? 'i' : '';
+  const errors: string[] = [];
+
+  const hits = detection.patterns.map((pattern) => {
+    const compiled = compilePattern(pattern, flags);
+    if (!compiled.ok) {
+      errors.push(`${pattern}: ${compiled.error}`);
+      return [];
+    }
+    return findMatches(compiled.regex, text);
+  });
+
+  const hitFlags = hits.map((h) => h.length > 0);
+  let matched: boolean;
+  switch (detection.matchType) {
+    case 'all':  matched = hitFlags.length > 0 && hitFlags.every(Boolean); break;
+    case 'none': matched = !hitFlags.some(Boolean); break;
+    default:     matched = hitFlags.some(Boolean);
+  }
+
+  return { name, matched, hits, errors };
+}
+
+function evaluateCompound(
+  tag: CompoundTag,
+  active: ReadonlySet<string>,
+): { matched: boolean; error: string | null } {
+  if (tag.expression?.trim()) {
+    const parsed = parseTagExpression(tag.expression);
+    if (!parsed.ok) return { matched: false, error: parsed.error.message };
+    return { matched: evaluateTagExpression(parsed.ast, active), error: null };
+  }
+  const requires = tag.requires ?? [];
+  const excludes = tag.excludes ?? [];
+  // 조건이 하나도 없는 복합 태그는 활성화하지 않음
+  if (requires.length === 0 && excludes.length === 0) return { matched: false, error: null };
+  return {
+    matched: requires.every((t) => active.has(t)) && !excludes.some((t) => active.has(t)),
+    error:   null,
+  };
+}
+
+/** 복합 태그끼리 서로 참조할 수 있으므로 변화가 없을 때까지 반복 (순환 방지용 상한) */
+const MAX_COMPOUND_PASSES = 10;
+
+function deriveCompoundTags(
+  compoundTags: TagData['compoundTags'],
+  active: Map<string, TagOrigin>,
+): CompoundTagResult[] {
+  const names = Object.keys(compoundTags);
+  let results: CompoundTagResult[] = [];
+
+  for (let pass = 0; pass < MAX_COMPOUND_PASSES; pass++) {
+    const snapshot = new Set(active.keys());
+    results = names.map((name) => ({ name, ...evaluateCompound(compoundTags[name], snapshot) }));
+
+    let changed = false;
+    for (const r of results) {
+      const wasActive = active.get(r.name) === 'compound';
+      if (r.matched && !active.has(r.name)) { active.set(r.name, 'compound'); changed = true; }
+      if (!r.matched && wasActive)          { active.delete(r.name);          changed = true; }
+    }
+    if (!changed) break;
+  }
+  return results;
+}
+
+function evaluateRule(
+  rule: Rule,
+  active: ReadonlySet<string>,
+  source: string,
+): RuleSimulationResult {
+  const parsed          = parseTagExpression(rule.tagCondition ?? '');
+  const conditionMet    = parsed.ok && evaluateTagExpression(parsed.ast, active);
+  const missingRequired = (rule.requiredTags ?? []).filter((t) => !active.has(t));
+  const presentExcluded = (rule.excludeTags  ?? []).filter((t) => active.has(t));
+  const applies         = conditionMet && missingRequired.length === 0 && presentExcluded.length === 0;
+
+  const antiPatternHits = (rule.antiPatterns ?? []).map((p) => {
+    const compiled = compilePattern(p.pattern, p.flags);
+    return compiled.ok ? findMatches(compiled.regex, source) : [];
+  });
+
+  return {
+    rule,
+    conditionMet,
+    conditionError: parsed.ok ? null : parsed.error.message,
+    missingRequired,
+    presentExcluded,
+    applies,
+    antiPatternHits,
+    violated: applies && antiPatternHits.some((h) => h.length > 0),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 진입점
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * 소스 코드 하나에 전체 태그 / 규칙을 적용합니다.
+ *
+ * @param manualTags 수동으로 켠 태그 (AST / LLM / Tier 2 태그 "what if" 용)
+ * @returns rules에는 비활성 규칙(isActive === false)을 제외한 결과만 담깁니다.
+ */
+export function simulateTags(
+  source: string,
+  tagData: TagData,
+  rules: Rule[],
+  manualTags: ReadonlySet<string>,
+): SimulationResult {
+  const masked = maskJavaComments(source);
+  const active = new Map<string, TagOrigin>();
+
+  const regexTags: RegexTagResult[] = [];
+  for (const [name, def] of Object.entries(tagData.tags)) {
+    // isAutoEvaluatedTag와 같은 조건 — detection을 RegexDetection으로 좁히기 위해 풀어 씀
+    if (def.detection.type === 'regex' && def.tier === 1) {
+      const result = evaluateRegexTag(name, def.detection, source, masked);
+      regexTags.push(result);
+      if (result.matched) active.set(name, 'regex');
+    } else if (manualTags.has(name)) {
+      active.set(name, 'manual');
+    }
+  }
+
+  const compoundTags = deriveCompoundTags(tagData.compoundTags, active);
+  const activeSet    = new Set(active.keys());
+
+  return {
+    regexTags,
+    compoundTags,
+    activeTags: active,
+    // 서버도 비활성 규칙은 평가하지 않음
+    rules:      rules.filter((rule) => rule.isActive !== false).map((rule) => evaluateRule(rule, activeSet, source)),
+  };
+}
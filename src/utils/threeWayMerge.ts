@@ -0,0 +1,299 @@
+/**
+ * src/utils/threeWayMerge.ts
+ *
+ * Push 시 VERSION_CONFLICT가 발생했을 때 사용하는 3-way 병합.
+ *
+ *   base   : snapshot:origin (마지막 Pull / Push 시점의 서버 데이터)
+ *   local  : snapshot:current (내 편집본)
+ *   remote : 지금 서버에서 새로 받은 데이터
+ *
+ * 병합 단위:
+ *   - 규칙      : ruleId별 → 양쪽 모두 수정한 경우 최상위 필드별
+ *   - 태그      : tags / compoundTags / tagCategories 항목(이름)별 통째로
+ *   - _metadata : remote 기준, totalTags는 병합 결과로 재계산
+ *
+ * 한쪽만 바뀐 항목은 자동 반영하고, 양쪽이 서로 다르게 바꾼 항목만 MergeConflict로 반환합니다.
+ * 충돌 항목은 기본값으로 local 값을 채운 뒤 applyMergeResolutions로 최종 값을 적용합니다.
+ */
+import type { Rule } from '@/types/rule';
+import type { TagData } from '@/types/tag';
+import { deepEqual } from '@/utils/deepEqual';
+import { ruleFieldNames, setRuleField } from '@/utils/ruleFields';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 타입
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface MergeDataset {
+  rules: Rule[];
+  tags:  TagData;
+}
+
+/** 충돌이 발생한 영역 */
+export type MergeScope = 'rule' | 'tag' | 'compoundTag' | 'tagCategory';
+
+export interface MergeConflict {
+  /** `${scope}:${key}:${field ?? '*'}` — 해결값 맵의 키 */
+  id:     string;
+  scope:  MergeScope;
+  /** ruleId 또는 태그 / 복합 태그 / 카테고리 이름 */
+  key:    string;
+  /**
+   * 규칙 필드 이름. null이면 항목 전체 (한쪽 삭제 vs 한쪽 수정, 태그 정의 전체 등)
+   */
+  field:  keyof Rule | null;
+  /** 각 값이 undefined이면 해당 쪽에 항목이 없음(삭제 / 미추가) */
+  base:   unknown;
+  local:  unknown;
+  remote: unknown;
+}
+
+export interface MergeStats {
+  /** remote 변경만 반영된 항목 수 */
+  fromRemote: number;
+  /** local 변경만 반영된 항목 수 */
+  fromLocal:  number;
+  /** 양쪽이 동일하게 바꾼 항목 수 */
+  same:       number;
+}
+
+export interface MergeResult {
+  /** 충돌 항목은 local 값으로 채워진 병합 초안 */
+  draft:     MergeDataset;
+  conflicts: MergeConflict[];
+  stats:     MergeStats;
+}
+
+export const MERGE_SCOPE_LABELS: Record<MergeScope, string> = {
+  rule:        '규칙',
+  tag:         '태그',
+  compoundTag: '복합 태그',
+  tagCategory: '태그 카테고리',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 값 하나에 대한 3-way 판정
+// ─────────────────────────────────────────────────────────────────────────────
+
+type Pick3<T> =
+  | { kind: 'resolved'; value: T | undefined; from: 'none' | 'local' | 'remote' | 'same' }
+  | { kind: 'conflict' };
+
+function pick3<T>(base: T | undefined, local: T | undefined, remote: T | undefined): Pick3<T> {
+  const localChanged  = !deepEqual(base, local);
+  const remoteChanged = !deepEqual(base, remote);
+  if (!localChanged && !remoteChanged) return { kind: 'resolved', value: base,   from: 'none' };
+  if (localChanged && !remoteChanged)  return { kind: 'resolved', value: local,  from: 'local' };
+  if (!localChanged && remoteChanged)  return { kind: 'resolved', value: remote, from: 'remote' };
+  if (deepEqual(local, remote))        return { kind: 'resolved', value: local,  from: 'same' };
+  return { kind: 'conflict' };
+}
+
+const conflictId = (scope: MergeScope, key: string, field: string | null) =>
+  `${scope}:${key}:${field ?? '*'}`;
+
+function countStat(stats: MergeStats, from: 'none' | 'local' | 'remote' | 'same') {
+  if (from === 'local')  stats.fromLocal++;
+  if (from === 'remote') stats.fromRemote++;
+  if (from === 'same')   stats.same++;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 규칙 병합
+// ─────────────────────────────────────────────────────────────────────────────
+
+function mergeRuleFields(
+  base: Rule | undefined,
+  local: Rule,
+  remote: Rule,
+  conflicts: MergeConflict[],
+): Rule {
+  // local 사본에서 시작 — 충돌 필드는 local 값 유지, 나머지는 판정 결과로 교체 / 삭제
+  let merged = local;
+  for (const field of ruleFieldNames(local, remote)) {
+    const result = pick3(base?.[field], local[field], remote[field]);
+    if (result.kind === 'resolved') {
+      merged = setRuleField(merged, field, result.value);
+    } else {
+      conflicts.push({
+        id:     conflictId('rule', local.ruleId, field),
+        scope:  'rule',
+        key:    local.ruleId,
+        field,
+        base:   base?.[field],
+        local:  local[field],
+        remote: remote[field],
+      });
+    }
+  }
+  return merged;
+}
+
+function mergeRules(
+  base: Rule[],
+  local: Rule[],
+  remote: Rule[],
+  conflicts: MergeConflict[],
+  stats: MergeStats,
+): Rule[] {
+  const baseMap   = new Map(base.map((r) => [r.ruleId, r]));
+  const localMap  = new Map(local.map((r) => [r.ruleId, r]));
+  const remoteMap = new Map(remote.map((r) => [r.ruleId, r]));
+
+  // 순서: remote 순서 유지 + local에만 있는 규칙은 local 순서대로 뒤에
+  const order = [
+    ...remote.map((r) => r.ruleId),
+    ...local.map((r) => r.ruleId).filter((id) => !remoteMap.has(id)),
+    ...base.map((r) => r.ruleId).filter((id) => !remoteMap.has(id) && !localMap.has(id)),
+  ];
+
+  const merged: Rule[] = [];
+  for (const ruleId of order) {
+    const b = baseMap.get(ruleId);
+    const l = localMap.get(ruleId);
+    const r = remoteMap.get(ruleId);
+
+    const whole = pick3(b, l, r);
+    if (whole.kind === 'resolved') {
+      countStat(stats, whole.from);
+      if (whole.value) merged.push(whole.value);
+      continue;
+    }
+
+    // 양쪽 모두 존재 → 필드 단위 병합, 한쪽이 삭제 → 항목 전체 충돌
+    if (l && r) {
+      const before = conflicts.length;
+      merged.push(mergeRuleFields(b, l, r, conflicts));
+      if (conflicts.length === before) stats.same++;
+    } else {
+      conflicts.push({
+        id:     conflictId('rule', ruleId, null),
+        scope:  'rule',
+        key:    ruleId,
+        field:  null,
+        base:   b,
+        local:  l,
+        remote: r,
+      });
+      if (l) merged.push(l);
+    }
+  }
+  return merged;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 태그 병합 (이름별 맵)
+// ─────────────────────────────────────────────────────────────────────────────
+
+function mergeRecord<T>(
+  scope: MergeScope,
+  base: Record<string, T>,
+  local: Record<string, T>,
+  remote: Record<string, T>,
+  conflicts: MergeConflict[],
+  stats: MergeStats,
+): Record<string, T> {
+  const merged: Record<string, T> = {};
+  const keys = new Set([...Object.keys(remote), ...Object.keys(local), ...Object.keys(base)]);
+
+  for (const key of keys) {
+    const result = pick3(base[key], local[key], remote[key]);
+    if (result.kind === 'resolved') {
+      countStat(stats, result.from);
+      if (result.value !== undefined) merged[key] = result.value;
+    } else {
+      conflicts.push({
+        id:     conflictId(scope, key, null),
+        scope,
+        key,
+        field:  null,
+        base:   base[key],
+        local:  local[key],
+        remote: remote[key],
+      });
+      if (local[key] !== undefined) merged[key] = local[key];
+    }
+  }
+  return merged;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// 진입점
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * base / local / remote 3-way 병합을 수행합니다.
+ */
+export function mergeDatasets(
+  base: MergeDataset,
+  local: MergeDataset,
+  remote: MergeDataset,
+): MergeResult {
+  const conflicts: MergeConflict[] = [];
+  const stats: MergeStats = { fromRemote: 0, fromLocal: 0, same: 0 };
+
+  const rules = mergeRules(base.rules, local.rules, remote.rules, conflicts, stats);
+  const tags: TagData = {
+    _metadata:     { ...remote.tags._metadata },
+    tagCategories: mergeRecord('tagCategory', base.tags.tagCategories, local.tags.tagCategories, remote.tags.tagCategories, conflicts, stats),
+    tags:          mergeRecord('tag', base.tags.tags, local.tags.tags, remote.tags.tags, conflicts, stats),
+    compoundTags:  mergeRecord('compoundTag', base.tags.compoundTags, local.tags.compoundTags, remote.tags.compoundTags, conflicts, stats),
+  };
+  tags._metadata.totalTags = Object.keys(tags.tags).length;
+
+  return { draft: { rules, tags }, conflicts, stats };
+}
+
+/**
+ * 충돌 해결값을 병합 초안에 적용합니다.
+ *
+ * @param resolutions 충돌 id → 최종 값 (undefined면 해당 항목 / 필드 삭제).
+ *                    맵에 없는 충돌은 초안의 local 값을 유지합니다.
+ */
+export function applyMergeResolutions(
+  result: MergeResult,
+  resolutions: Map<string, unknown>,
+): MergeDataset {
+  let rules = [...result.draft.rules];
+  const tags: TagData = {
+    ...result.draft.tags,
+    tagCategories: { ...result.draft.tags.tagCategories },
+    tags:          { ...result.draft.tags.tags },
+    compoundTags:  { ...result.draft.tags.compoundTags },
+  };
+
+  const setRecord = <T>(record: Record<string, T>, key: string, value: unknown) => {
+    if (value === undefined) delete record[key];
+    else record[key] = value as T;
+  };
+
+  for (const c of result.conflicts) {
+    if (!resolutions.has(c.id)) continue;
+    const value = resolutions.get(c.id);
+
+    switch (c.scope) {
+      case 'rule': {
+        const idx = rules.findIndex((r) => r.ruleId === c.key);
+        if (c.field === null) {
+          if (value === undefined) {
+            rules = rules.filter((r) => r.ruleId !== c.key);
+          } else if (idx >= 0) {
+            rules[idx] = value as Rule;
+          } else {
+            rules.push(value as Rule);
+          }
+        } else if (idx >= 0) {
+          // 해결값은 MergeResolver에서 고르거나 JSON으로 입력한 값
+          rules[idx] = setRuleField(rules[idx], c.field, value as Rule[keyof Rule] | undefined);
+        }
+        break;
+      }
+      case 'tag':         setRecord(tags.tags, c.key, value); break;
+      case 'compoundTag': setRecord(tags.compoundTags, c.key, value); break;
+      case 'tagCategory': setRecord(tags.tagCategories, c.key, value); break;
+    }
+  }
+
+  tags._metadata = { ...tags._metadata, totalTags: Object.keys(tags.tags).length };
+  return { rules, tags };
+}